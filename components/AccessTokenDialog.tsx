@@ -0,0 +1,27 @@
+import React, { useState } from 'react';
+
+interface AccessTokenDialogProps {
+    token: string;
+    onSave: (token: string) => void;
+    onCancel: () => void;
+}
+
+/** Asks for the token the proxy checks on every Gemini call; it is kept in this browser only. */
+export const AccessTokenDialog = ({ token, onSave, onCancel }: AccessTokenDialogProps) => {
+    const [draft, setDraft] = useState(token);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <form onSubmit={(e) => { e.preventDefault(); onSave(draft.trim()); }} className="w-full max-w-md rounded-lg bg-surface-light dark:bg-surface-dark p-6 shadow-xl">
+                <h3 className="text-lg font-semibold">Access token</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Gemini calls go through the hub's server, which holds the API key. Enter the token you were given for it; it is stored in this browser only.</p>
+                <input type="password" value={draft} onChange={(e) => setDraft(e.target.value)} autoFocus autoComplete="off" className="mt-4 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+                <div className="mt-6 flex justify-end gap-2">
+                    {token && <button type="button" onClick={() => onSave('')} className="mr-auto rounded-md px-3 py-1 text-sm text-red-500 hover:bg-red-500/10">Forget</button>}
+                    <button type="button" onClick={onCancel} className="rounded-md px-3 py-1 text-sm hover:bg-primary/10">Cancel</button>
+                    <button type="submit" className="rounded-md bg-primary px-3 py-1 text-sm text-white">Save</button>
+                </div>
+            </form>
+        </div>
+    );
+};
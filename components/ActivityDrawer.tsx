@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { Chat } from '../types';
+import { Task, TaskKind, TaskState, formatTaskDuration } from '../services/tasks';
+
+interface ActivityDrawerProps {
+    tasks: Task[];
+    chats: Chat[]; // For the names of the chats tasks belong to
+    onCancel: (taskId: string) => void;
+    onOpenChat: (chatId: string) => void;
+    onClearFinished: () => void;
+    onClose: () => void;
+}
+
+const KIND_ICONS: Record<TaskKind, string> = {
+    chat: 'chat',
+    image: 'image',
+    speech: 'record_voice_over',
+    live: 'mic',
+};
+
+const STATE_ICONS: Record<Exclude<TaskState, 'running'>, { icon: string; className: string }> = {
+    done: { icon: 'check_circle', className: 'text-green-500' },
+    failed: { icon: 'error', className: 'text-red-500' },
+    cancelled: { icon: 'cancel', className: 'text-gray-400' },
+};
+
+/** Side panel listing what is running now and the most recent finished, failed and cancelled tasks. */
+export const ActivityDrawer = ({ tasks, chats, onCancel, onOpenChat, onClearFinished, onClose }: ActivityDrawerProps) => {
+    const [now, setNow] = useState(Date.now());
+    const running = tasks.filter(task => task.state === 'running');
+    const finished = tasks.filter(task => task.state !== 'running');
+
+    // Running durations tick while anything is in flight.
+    useEffect(() => {
+        if (running.length === 0) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [running.length]);
+
+    const renderTask = (task: Task) => {
+        const chat = task.chatId ? chats.find(c => c.id === task.chatId) : undefined;
+        return (
+            <li key={task.id} className="flex items-start gap-2 rounded-md p-2 text-sm hover:bg-primary/5">
+                <span className="material-symbols-outlined mt-0.5 text-base text-gray-500 dark:text-gray-400">{KIND_ICONS[task.kind]}</span>
+                <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium">{task.title}</p>
+                    {chat && <button onClick={() => onOpenChat(chat.id)} className="block max-w-full truncate text-xs text-primary hover:underline">{chat.title}</button>}
+                    {task.step && <p className="truncate text-xs text-gray-500 dark:text-gray-400">{task.step}</p>}
+                    {task.error && <p className="text-xs text-red-500">{task.error}</p>}
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {new Date(task.startedAt).toLocaleTimeString()} · {formatTaskDuration(task, now)}{task.state === 'cancelled' && ' · cancelled'}
+                    </p>
+                </div>
+                {task.state === 'running' ? (
+                    <>
+                        <span className="material-symbols-outlined mt-0.5 animate-spin text-base text-primary">progress_activity</span>
+                        <button onClick={() => onCancel(task.id)} title="Cancel" className="material-symbols-outlined mt-0.5 text-base text-red-500 hover:opacity-70">stop_circle</button>
+                    </>
+                ) : (
+                    <span className={`material-symbols-outlined mt-0.5 text-base ${STATE_ICONS[task.state].className}`}>{STATE_ICONS[task.state].icon}</span>
+                )}
+            </li>
+        );
+    };
+
+    return (
+        <aside className="fixed inset-y-0 right-0 z-40 flex w-80 flex-col border-l border-border-light bg-surface-light shadow-xl dark:border-border-dark dark:bg-surface-dark">
+            <div className="flex items-center justify-between border-b border-border-light p-4 dark:border-border-dark">
+                <h3 className="text-lg font-semibold">Activity</h3>
+                <div className="flex items-center gap-2">
+                    {finished.length > 0 && <button onClick={onClearFinished} className="text-xs text-primary hover:underline">Clear</button>}
+                    <button onClick={onClose} className="material-symbols-outlined text-sm">close</button>
+                </div>
+            </div>
+            <div className="flex-1 space-y-4 overflow-y-auto p-2">
+                <section>
+                    <h4 className="px-2 text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">Running</h4>
+                    {running.length > 0
+                        ? <ul>{running.map(renderTask)}</ul>
+                        : <p className="px-2 py-1 text-sm text-gray-500 dark:text-gray-400">Nothing is running.</p>}
+                </section>
+                {finished.length > 0 && (
+                    <section>
+                        <h4 className="px-2 text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">Recent</h4>
+                        <ul>{finished.map(renderTask)}</ul>
+                    </section>
+                )}
+            </div>
+        </aside>
+    );
+};
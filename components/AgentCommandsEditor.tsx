@@ -0,0 +1,34 @@
+import React from 'react';
+import { AgentCommand } from '../types';
+
+interface AgentCommandsEditorProps {
+    commands: AgentCommand[];
+    onChange: (commands: AgentCommand[]) => void;
+}
+
+const inputClassName = 'w-full rounded-md border-border-light bg-surface-subtle-light p-1.5 text-sm dark:border-border-dark dark:bg-surface-subtle-dark';
+
+export const AgentCommandsEditor = ({ commands, onChange }: AgentCommandsEditorProps) => {
+    const updateCommand = (index: number, changes: Partial<AgentCommand>) =>
+        onChange(commands.map((command, i) => i === index ? { ...command, ...changes } : command));
+
+    return (
+        <div className="space-y-3">
+            {commands.map((command, index) => (
+                <div key={index} className="space-y-1 rounded-md border border-border-light dark:border-border-dark p-2">
+                    <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm">/</span>
+                        <input value={command.name} onChange={(e) => updateCommand(index, { name: e.target.value.replace(/\s/g, '') })} placeholder="name" className={`${inputClassName} font-mono`} />
+                        <button type="button" onClick={() => onChange(commands.filter((_, i) => i !== index))} className="material-symbols-outlined rounded p-1 text-base text-red-500 hover:bg-red-500/10" title="Remove command">delete</button>
+                    </div>
+                    <input value={command.description} onChange={(e) => updateCommand(index, { description: e.target.value })} placeholder="Description shown in autocomplete" className={inputClassName} />
+                    <textarea value={command.template} onChange={(e) => updateCommand(index, { template: e.target.value })} placeholder={'Prompt template, e.g. Review this code for bugs:\n{{input}}'} rows={3} className={inputClassName} />
+                </div>
+            ))}
+            <button type="button" onClick={() => onChange([...commands, { name: '', description: '', template: '' }])} className="flex items-center gap-1 rounded-md px-2 py-1 text-sm text-primary hover:bg-primary/10">
+                <span className="material-symbols-outlined text-base">add</span>Add command
+            </button>
+            <p className="text-xs text-gray-500 dark:text-gray-400"><code>{'{{input}}'}</code> is replaced by the text typed after the command.</p>
+        </div>
+    );
+};
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Agent } from '../types';
+import { ALL_CAPABILITIES, createInitialsAvatar, isCapabilityEnabled } from '../constants';
+import { ToolDefinition } from '../services/tools';
+import { validateAgentCommands } from '../services/commands';
+import { AgentCommandsEditor } from './AgentCommandsEditor';
+import { TokenBudgetFields } from './TokenBudgetFields';
+import { ModelSettingsEditor } from './ModelSettingsEditor';
+import { validateModelSettings } from '../services/models';
+import { ProviderFields } from './ProviderFields';
+import { VoiceFields } from './VoiceFields';
+
+interface AgentFormModalProps {
+    title: string;
+    initialAgent: Agent;
+    onSave: (agent: Agent) => void;
+    onCancel: () => void;
+    onGenerateAvatar: (prompt: string) => Promise<string>;
+    toolRegistry: ToolDefinition[];
+}
+
+const readFileAsDataUrl = (file: File) => new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.readAsDataURL(file);
+});
+
+export const AgentFormModal = ({ title, initialAgent, onSave, onCancel, onGenerateAvatar, toolRegistry }: AgentFormModalProps) => {
+    const [draft, setDraft] = useState<Agent>(() => JSON.parse(JSON.stringify(initialAgent))); // Deep copy
+    const [capabilityTags, setCapabilityTags] = useState(initialAgent.capabilities.join(', '));
+    const [avatarPrompt, setAvatarPrompt] = useState('');
+    const [isGeneratingAvatar, setIsGeneratingAvatar] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [schemaTextError, setSchemaTextError] = useState<string | null>(null);
+
+    const updateConfig = (config: Partial<Agent['config']>) => setDraft({ ...draft, config: { ...draft.config, ...config } });
+    const providerKind = draft.config.provider?.kind ?? 'gemini';
+
+    const handleToolChange = (capabilityName: keyof typeof ALL_CAPABILITIES, isChecked: boolean) => {
+        const otherTools = (draft.config.tools || []).filter(tool => JSON.stringify(tool) !== JSON.stringify(ALL_CAPABILITIES[capabilityName]));
+        updateConfig({ tools: isChecked ? [...otherTools, ALL_CAPABILITIES[capabilityName]] : otherTools });
+    };
+
+    const handleFunctionToolChange = (toolName: string, isChecked: boolean) => {
+        const otherTools = (draft.config.functionTools ?? []).filter(name => name !== toolName);
+        updateConfig({ functionTools: isChecked ? [...otherTools, toolName] : otherTools });
+    };
+
+    const handleAvatarUpload = async (file: File) => {
+        setDraft({ ...draft, avatar: await readFileAsDataUrl(file) });
+    };
+
+    const handleGenerateAvatar = async () => {
+        setIsGeneratingAvatar(true);
+        setError(null);
+        try {
+            const description = avatarPrompt.trim() || `an AI assistant named ${draft.name || 'Agent'}`;
+            setDraft({ ...draft, avatar: await onGenerateAvatar(description) });
+        } catch (e) {
+            console.error("Avatar generation failed", e);
+            setError("Couldn't generate an avatar. Try again or upload an image.");
+        } finally {
+            setIsGeneratingAvatar(false);
+        }
+    };
+
+    const handleSubmit = () => {
+        const name = draft.name.trim();
+        if (!name) {
+            setError('Name is required.');
+            return;
+        }
+        if (!draft.config.model.trim()) {
+            setError('Model is required.');
+            return;
+        }
+        const commandError = validateAgentCommands(draft.config.commands ?? []);
+        if (commandError) {
+            setError(commandError);
+            return;
+        }
+        const settingsError = schemaTextError ?? validateModelSettings(draft)[0];
+        if (settingsError) {
+            setError(settingsError);
+            return;
+        }
+        onSave({
+            ...draft,
+            name,
+            avatar: draft.avatar || createInitialsAvatar(name),
+            capabilities: capabilityTags.split(',').map(tag => tag.trim()).filter(Boolean),
+        });
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-lg bg-surface-light dark:bg-surface-dark p-6 shadow-xl">
+                <h3 className="text-lg font-semibold">{title}</h3>
+                <div className="mt-4 space-y-4">
+                    <div className="flex items-center gap-4">
+                        <img src={draft.avatar || createInitialsAvatar(draft.name)} alt="Avatar preview" className="h-16 w-16 rounded-full object-cover" />
+                        <div className="flex-1 space-y-2">
+                            <label className="inline-flex cursor-pointer items-center gap-1 rounded-md px-2 py-1 text-sm text-primary hover:bg-primary/10">
+                                <span className="material-symbols-outlined text-base">upload</span>Upload
+                                <input type="file" accept="image/*" className="hidden" onChange={(e) => e.target.files?.[0] && handleAvatarUpload(e.target.files[0])} />
+                            </label>
+                            <div className="flex gap-2">
+                                <input value={avatarPrompt} onChange={(e) => setAvatarPrompt(e.target.value)} placeholder="Describe an avatar to generate" className="flex-1 rounded-md border-border-light bg-surface-subtle-light p-1 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+                                <button type="button" onClick={handleGenerateAvatar} disabled={isGeneratingAvatar} className="rounded-md px-2 py-1 text-sm text-primary hover:bg-primary/10 disabled:opacity-50">
+                                    {isGeneratingAvatar ? 'Generating...' : 'Generate'}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                    <div>
+                        <label className="text-sm font-medium">Name</label>
+                        <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+                    </div>
+                    <ProviderFields agent={draft} onChange={updateConfig} />
+                    <ModelSettingsEditor agent={draft} onChange={updateConfig} onSchemaTextError={setSchemaTextError} />
+                    <VoiceFields agent={draft} onChange={updateConfig} />
+                    <div>
+                        <label className="text-sm font-medium">Behavior (System Prompt)</label>
+                        <textarea value={draft.config.systemInstruction} onChange={(e) => updateConfig({ systemInstruction: e.target.value })} className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" rows={5} />
+                    </div>
+                    <div>
+                        <h5 className="text-sm font-medium mb-2">Capabilities</h5>
+                        <div className="space-y-2">
+                            {providerKind === 'gemini' && (Object.keys(ALL_CAPABILITIES) as (keyof typeof ALL_CAPABILITIES)[]).map(capName => (
+                                <label key={capName} className="flex items-center gap-2 text-sm">
+                                    <input
+                                        type="checkbox"
+                                        className="rounded text-primary focus:ring-primary/50"
+                                        checked={isCapabilityEnabled(draft.config.tools, capName)}
+                                        onChange={(e) => handleToolChange(capName, e.target.checked)}
+                                    />
+                                    {capName}
+                                </label>
+                            ))}
+                        </div>
+                        <input value={capabilityTags} onChange={(e) => setCapabilityTags(e.target.value)} placeholder="Skill tags, comma separated (e.g. Python, Pandas)" className="mt-2 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+                    </div>
+                    <div>
+                        <h5 className="text-sm font-medium mb-2">Functions</h5>
+                        <div className="space-y-2">
+                            {toolRegistry.map(tool => (
+                                <label key={tool.name} className="flex items-start gap-2 text-sm">
+                                    <input
+                                        type="checkbox"
+                                        className="mt-0.5 rounded text-primary focus:ring-primary/50"
+                                        checked={!!draft.config.functionTools?.includes(tool.name)}
+                                        onChange={(e) => handleFunctionToolChange(tool.name, e.target.checked)}
+                                    />
+                                    <span><span className="font-mono">{tool.name}</span> <span className="text-gray-500 dark:text-gray-400">— {tool.description}</span></span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <h5 className="text-sm font-medium mb-2">Slash commands</h5>
+                        <AgentCommandsEditor commands={draft.config.commands ?? []} onChange={(commands) => updateConfig({ commands: commands })} />
+                    </div>
+                    <TokenBudgetFields budget={draft.config.tokenBudget} onChange={(tokenBudget) => updateConfig({ tokenBudget: tokenBudget })} />
+                    {error && <p className="text-sm text-red-500">{error}</p>}
+                    <div className="flex items-center justify-end gap-2">
+                        <button onClick={onCancel} className="rounded-md px-3 py-1 text-sm hover:bg-primary/10">Cancel</button>
+                        <button onClick={handleSubmit} className="rounded-md bg-primary px-3 py-1 text-sm text-white">Save</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
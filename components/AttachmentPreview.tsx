@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { Attachment } from '../types';
+import { AttachmentKind, attachmentKind, formatFileSize } from '../services/attachments';
+
+interface AttachmentPreviewProps {
+    attachment: Attachment;
+}
+
+const TEXT_PREVIEW_CHARS = 4000;
+
+export const ATTACHMENT_ICONS: Record<AttachmentKind, string> = {
+    image: 'image', pdf: 'picture_as_pdf', audio: 'audio_file', video: 'video_file', text: 'description', other: 'draft',
+};
+
+const FileCard = ({ attachment }: AttachmentPreviewProps) => (
+    <span className="flex min-w-0 items-center gap-2">
+        <span className="material-symbols-outlined text-lg">{ATTACHMENT_ICONS[attachmentKind(attachment)]}</span>
+        <span className="min-w-0 flex-1 truncate">{attachment.name}</span>
+        <span className="shrink-0 text-xs opacity-70">{attachment.url ? formatFileSize(attachment.size) : 'Unavailable'}</span>
+        {attachment.url && (
+            <a href={attachment.url} download={attachment.name} onClick={(e) => e.stopPropagation()} title="Download" className="material-symbols-outlined text-base opacity-70 hover:opacity-100">download</a>
+        )}
+    </span>
+);
+
+// Loads the file only when the preview is opened.
+const TextPreview = ({ attachment }: AttachmentPreviewProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [text, setText] = useState<string | null>(null);
+    useEffect(() => {
+        if (!isOpen || text !== null) return;
+        let cancelled = false;
+        fetch(attachment.url!)
+            .then(response => response.text())
+            .then(content => { if (!cancelled) setText(content); })
+            .catch(() => { if (!cancelled) setText("Couldn't read this file."); });
+        return () => { cancelled = true; };
+    }, [isOpen, attachment.url]);
+    const isTruncated = (text?.length ?? 0) > TEXT_PREVIEW_CHARS;
+    return (
+        <details onToggle={(e) => setIsOpen(e.currentTarget.open)} className="rounded-md bg-black/10 px-2 py-1">
+            <summary className="cursor-pointer list-none"><FileCard attachment={attachment} /></summary>
+            <pre className="mt-1 max-h-64 overflow-auto whitespace-pre-wrap font-mono text-xs">
+                {text === null ? 'Loading...' : isTruncated ? `${text.slice(0, TEXT_PREVIEW_CHARS)}\n…` : text}
+            </pre>
+        </details>
+    );
+};
+
+/** Renders an attachment by type: inline images and players, an expandable PDF or text view, or a file card. */
+export const AttachmentPreview = ({ attachment }: AttachmentPreviewProps) => {
+    const kind = attachmentKind(attachment);
+    if (!attachment.url) return <div className="mt-2 rounded-md bg-black/10 px-2 py-1"><FileCard attachment={attachment} /></div>;
+    switch (kind) {
+        case 'image':
+            return <img src={attachment.url} className="mt-2 max-w-sm rounded-md" alt={attachment.isStored ? attachment.name : 'Generated content'} />;
+        case 'audio':
+            return (
+                <div className="mt-2 w-80 max-w-full rounded-md bg-black/10 px-2 py-1">
+                    <FileCard attachment={attachment} />
+                    <audio controls src={attachment.url} className="mt-1 w-full" />
+                </div>
+            );
+        case 'video':
+            return <video controls src={attachment.url} title={attachment.name} className="mt-2 max-w-sm rounded-md" />;
+        case 'pdf':
+            return (
+                <details className="mt-2 w-[32rem] max-w-full rounded-md bg-black/10 px-2 py-1">
+                    <summary className="cursor-pointer list-none"><FileCard attachment={attachment} /></summary>
+                    <iframe src={attachment.url} title={attachment.name} className="mt-1 h-96 w-full rounded bg-white" />
+                </details>
+            );
+        case 'text':
+            return <div className="mt-2 w-[32rem] max-w-full"><TextPreview attachment={attachment} /></div>;
+        default:
+            return <div className="mt-2 rounded-md bg-black/10 px-2 py-1"><FileCard attachment={attachment} /></div>;
+    }
+};
@@ -0,0 +1,17 @@
+import React from 'react';
+import { SiblingPosition } from '../services/branches';
+
+interface BranchNavigatorProps {
+    position: SiblingPosition;
+    disabled?: boolean;
+    onSelect: (siblingIndex: number) => void;
+}
+
+/** "‹ 2/3 ›" controls for moving between the versions of an edited prompt or regenerated reply. */
+export const BranchNavigator = ({ position, disabled, onSelect }: BranchNavigatorProps) => (
+    <span className="flex items-center text-xs opacity-70">
+        <button onClick={() => onSelect(position.index - 1)} disabled={disabled || position.index === 0} title="Previous version" className="material-symbols-outlined text-sm hover:opacity-100 disabled:opacity-40">chevron_left</button>
+        <span className="tabular-nums">{position.index + 1}/{position.count}</span>
+        <button onClick={() => onSelect(position.index + 1)} disabled={disabled || position.index === position.count - 1} title="Next version" className="material-symbols-outlined text-sm hover:opacity-100 disabled:opacity-40">chevron_right</button>
+    </span>
+);
@@ -0,0 +1,26 @@
+import React from 'react';
+import { CommandSuggestion } from '../services/commands';
+
+interface CommandSuggestionListProps {
+    suggestions: CommandSuggestion[];
+    activeIndex: number;
+    onSelect: (value: string) => void;
+}
+
+export const CommandSuggestionList = ({ suggestions, activeIndex, onSelect }: CommandSuggestionListProps) => (
+    <ul role="listbox" className="absolute bottom-full left-0 z-10 mb-2 max-h-64 w-full overflow-y-auto rounded-md border border-border-light bg-surface-light py-1 shadow-lg dark:border-border-dark dark:bg-surface-dark">
+        {suggestions.map((suggestion, index) => (
+            <li
+                key={suggestion.value}
+                role="option"
+                aria-selected={index === activeIndex}
+                // mousedown keeps focus in the composer
+                onMouseDown={(e) => { e.preventDefault(); onSelect(suggestion.value); }}
+                className={`flex cursor-pointer items-baseline gap-3 px-3 py-1.5 text-sm ${index === activeIndex ? 'bg-primary/10' : 'hover:bg-primary/5'}`}
+            >
+                <span className="font-mono">{suggestion.label}</span>
+                <span className="truncate text-xs text-gray-500 dark:text-gray-400">{suggestion.detail}</span>
+            </li>
+        ))}
+    </ul>
+);
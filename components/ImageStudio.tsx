@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { Agent, Chat } from '../types';
+import { isGeminiAgent } from '../services/providers';
+import {
+    GEMINI_IMAGE_MODELS, IMAGE_ASPECT_RATIOS, IMAGE_EDIT_MODEL, ImageStudioRequest, MAX_IMAGES_PER_REQUEST,
+    GalleryImage, defaultImageModelFor, getChatImages, getImageLineage, imageVersionLabel,
+} from '../services/images';
+
+interface ImageStudioProps {
+    chat: Chat;
+    agent: Agent;
+    initialBaseId?: string; // Attachment id, when opened from an image's "Edit" button
+    isBusy: boolean;
+    onGenerate: (request: ImageStudioRequest) => void;
+    onShowInChat: (messageId: string) => void;
+    onClose: () => void;
+}
+
+const MAX_SEED = 2147483647;
+const inputClassName = 'mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark';
+
+const ImageDetails = ({ image, images }: { image: GalleryImage; images: GalleryImage[] }) => {
+    const generation = image.isAttachment ? undefined : image.message.imageGeneration;
+    const lineage = getImageLineage(images, image.attachment.id);
+    return (
+        <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5 text-xs">
+            {generation ? (
+                <>
+                    <dt className="text-gray-500 dark:text-gray-400">Prompt</dt><dd className="break-words">{generation.prompt}</dd>
+                    {generation.negativePrompt && <><dt className="text-gray-500 dark:text-gray-400">Avoid</dt><dd className="break-words">{generation.negativePrompt}</dd></>}
+                    <dt className="text-gray-500 dark:text-gray-400">Model</dt><dd>{generation.model}</dd>
+                    {generation.aspectRatio && <><dt className="text-gray-500 dark:text-gray-400">Aspect</dt><dd>{generation.aspectRatio}</dd></>}
+                    {generation.seed !== undefined && <><dt className="text-gray-500 dark:text-gray-400">Seed</dt><dd>{generation.seed}</dd></>}
+                </>
+            ) : (
+                <><dt className="text-gray-500 dark:text-gray-400">Source</dt><dd className="break-words">{image.isAttachment ? image.attachment.name : 'Generated image'}</dd></>
+            )}
+            {lineage.length > 1 && <><dt className="text-gray-500 dark:text-gray-400">Lineage</dt><dd>{lineage.map(imageVersionLabel).join(' → ')}</dd></>}
+        </dl>
+    );
+};
+
+/** Generation options, the chat's image gallery, edits from any earlier image and side-by-side comparison. */
+export const ImageStudio = ({ chat, agent, initialBaseId, isBusy, onGenerate, onShowInChat, onClose }: ImageStudioProps) => {
+    const canEdit = isGeminiAgent(agent);
+    const [prompt, setPrompt] = useState('');
+    const [negativePrompt, setNegativePrompt] = useState('');
+    const [model, setModel] = useState(defaultImageModelFor(agent));
+    const [aspectRatio, setAspectRatio] = useState(IMAGE_ASPECT_RATIOS[0]);
+    const [numberOfImages, setNumberOfImages] = useState(1);
+    const [seed, setSeed] = useState('');
+    const [baseId, setBaseId] = useState<string | undefined>(canEdit ? initialBaseId : undefined);
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const images = getChatImages(chat.messages);
+    const base = images.find(image => image.attachment.id === baseId);
+    const effectiveModel = base ? IMAGE_EDIT_MODEL : model;
+    const modelOption = GEMINI_IMAGE_MODELS.find(option => option.id === effectiveModel);
+    const supportsSeed = !!modelOption?.supportsSeed;
+    const compared = compareIds.map(id => images.find(image => image.attachment.id === id)).filter((image): image is GalleryImage => !!image);
+
+    // Keeps the two most recent picks.
+    const toggleCompare = (attachmentId: string) =>
+        setCompareIds(compareIds.includes(attachmentId) ? compareIds.filter(id => id !== attachmentId) : [...compareIds, attachmentId].slice(-2));
+
+    const handleSubmit = () => {
+        const seedValue = seed.trim() === '' ? undefined : Number(seed);
+        if (!prompt.trim()) {
+            setError(base ? 'Describe the edit.' : 'Enter a prompt.');
+            return;
+        }
+        if (seedValue !== undefined && (!Number.isInteger(seedValue) || seedValue < 0 || seedValue > MAX_SEED)) {
+            setError(`The seed must be a whole number between 0 and ${MAX_SEED}.`);
+            return;
+        }
+        setError(null);
+        onGenerate({
+            prompt: prompt.trim(),
+            model: effectiveModel,
+            aspectRatio: aspectRatio,
+            numberOfImages: numberOfImages,
+            ...(negativePrompt.trim() && { negativePrompt: negativePrompt.trim() }),
+            ...(supportsSeed && seedValue !== undefined && { seed: seedValue }),
+            ...(base && { baseAttachmentId: base.attachment.id }),
+        });
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="flex max-h-[90vh] w-full max-w-5xl flex-col rounded-lg bg-surface-light dark:bg-surface-dark shadow-xl">
+                <div className="flex items-center border-b border-border-light dark:border-border-dark px-6 py-4">
+                    <h3 className="text-lg font-semibold">Image studio</h3>
+                    <button onClick={onClose} title="Close" className="material-symbols-outlined ml-auto rounded-md p-1 hover:bg-primary/10">close</button>
+                </div>
+                <div className="grid flex-1 gap-6 overflow-y-auto p-6 md:grid-cols-[300px_1fr]">
+                    <div className="space-y-3">
+                        {base && (
+                            <div className="flex items-center gap-2 rounded-md border border-border-light dark:border-border-dark p-2">
+                                <img src={base.attachment.url} alt="" className="h-12 w-12 rounded object-cover" />
+                                <span className="flex-1 text-sm">Editing <span className="font-medium">{imageVersionLabel(base)}</span></span>
+                                <button onClick={() => setBaseId(undefined)} title="Generate from scratch instead" className="material-symbols-outlined rounded p-1 text-base hover:bg-primary/10">close</button>
+                            </div>
+                        )}
+                        <div>
+                            <label className="text-sm font-medium">{base ? 'Edit instructions' : 'Prompt'}</label>
+                            <textarea value={prompt} onChange={(e) => setPrompt(e.target.value)} rows={4} placeholder={base ? 'e.g. Make the sky stormy' : 'e.g. A lighthouse at dusk, watercolor'} className={inputClassName} />
+                        </div>
+                        <div>
+                            <label className="text-sm font-medium">Negative prompt</label>
+                            <input value={negativePrompt} onChange={(e) => setNegativePrompt(e.target.value)} placeholder="e.g. text, watermarks" className={inputClassName} />
+                        </div>
+                        <div>
+                            <label className="text-sm font-medium">Model</label>
+                            {canEdit ? (
+                                <select value={effectiveModel} disabled={!!base} onChange={(e) => setModel(e.target.value)} className={inputClassName}>
+                                    {GEMINI_IMAGE_MODELS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                                </select>
+                            ) : (
+                                <input value={model} onChange={(e) => setModel(e.target.value)} className={inputClassName} />
+                            )}
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className="text-sm font-medium">Aspect ratio</label>
+                                <select value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value)} className={inputClassName}>
+                                    {IMAGE_ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="text-sm font-medium">Images</label>
+                                <input type="number" min={1} max={MAX_IMAGES_PER_REQUEST} value={numberOfImages} onChange={(e) => setNumberOfImages(Math.min(MAX_IMAGES_PER_REQUEST, Math.max(1, Number(e.target.value) || 1)))} className={inputClassName} />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="text-sm font-medium">Seed</label>
+                            <input type="number" min={0} max={MAX_SEED} value={seed} disabled={!supportsSeed} onChange={(e) => setSeed(e.target.value)} placeholder={supportsSeed ? 'Random' : 'Not supported by this model'} className={`${inputClassName} disabled:opacity-50`} />
+                            {supportsSeed && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">The same seed and prompt give similar images; extra images use the following seeds.</p>}
+                        </div>
+                        {error && <p className="text-sm text-red-500">{error}</p>}
+                        <button onClick={handleSubmit} disabled={isBusy} className="flex w-full items-center justify-center gap-2 rounded-md bg-primary px-3 py-2 text-sm text-white disabled:opacity-50">
+                            <span className={`material-symbols-outlined text-base ${isBusy ? 'animate-spin' : ''}`}>{isBusy ? 'progress_activity' : base ? 'auto_fix_high' : 'image'}</span>
+                            {base ? 'Apply edit' : 'Generate'}
+                        </button>
+                    </div>
+                    <div className="min-w-0 space-y-4">
+                        {compared.length === 2 && (
+                            <div>
+                                <div className="mb-2 flex items-center">
+                                    <h5 className="text-sm font-medium">Compare</h5>
+                                    <button onClick={() => setCompareIds([])} className="ml-auto text-xs text-primary hover:underline">Clear</button>
+                                </div>
+                                <div className="grid grid-cols-2 gap-3">
+                                    {compared.map(image => (
+                                        <div key={image.attachment.id} className="rounded-md border border-border-light dark:border-border-dark p-2">
+                                            <p className="mb-1 text-xs font-semibold">{imageVersionLabel(image)}</p>
+                                            <img src={image.attachment.url} alt="" className="w-full rounded" />
+                                            <ImageDetails image={image} images={images} />
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        <div>
+                            <h5 className="mb-2 text-sm font-medium">Gallery {images.length > 0 && <span className="text-gray-500 dark:text-gray-400">({images.length})</span>}</h5>
+                            {images.length === 0 ? (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">Images generated or attached in this chat appear here.</p>
+                            ) : (
+                                <div className="grid grid-cols-2 gap-3 lg:grid-cols-3">
+                                    {images.map(image => {
+                                        const { message, attachment } = image;
+                                        const caption = image.isAttachment ? attachment.name : message.imageGeneration?.prompt;
+                                        const parentId = image.isAttachment ? undefined : message.imageGeneration?.parentId;
+                                        return (
+                                            <div key={attachment.id} className={`rounded-md border p-2 ${compareIds.includes(attachment.id) ? 'border-primary' : 'border-border-light dark:border-border-dark'}`}>
+                                                <img src={attachment.url} alt="" className="aspect-square w-full rounded object-cover" />
+                                                <div className="mt-1 flex items-center gap-1">
+                                                    <span className="text-xs font-semibold">{imageVersionLabel(image)}</span>
+                                                    <span className="flex-1 truncate text-xs text-gray-500 dark:text-gray-400" title={caption}>{caption}</span>
+                                                </div>
+                                                <div className="mt-1 flex items-center gap-0.5">
+                                                    {canEdit && <button onClick={() => setBaseId(attachment.id)} title="Edit this image" className="material-symbols-outlined rounded p-1 text-base hover:bg-primary/10">auto_fix_high</button>}
+                                                    <button onClick={() => toggleCompare(attachment.id)} title="Compare" className={`material-symbols-outlined rounded p-1 text-base hover:bg-primary/10 ${compareIds.includes(attachment.id) ? 'text-primary' : ''}`}>compare</button>
+                                                    {parentId && <button onClick={() => setCompareIds([parentId, attachment.id])} title="Compare with the version it was made from" className="material-symbols-outlined rounded p-1 text-base hover:bg-primary/10">difference</button>}
+                                                    <button onClick={() => onShowInChat(message.id)} title="Show in chat" className="material-symbols-outlined ml-auto rounded p-1 text-base hover:bg-primary/10">chat</button>
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Agent } from '../types';
+import { diffAgents } from '../services/manifest';
+
+type CollisionResolution = 'rename' | 'overwrite' | 'skip';
+
+interface ImportAgentsDialogProps {
+    incoming: Agent[];
+    existing: Agent[];
+    onApply: (agents: Agent[]) => void;
+    onCancel: () => void;
+}
+
+export const ImportAgentsDialog = ({ incoming, existing, onApply, onCancel }: ImportAgentsDialogProps) => {
+    const [resolutions, setResolutions] = useState<Record<string, CollisionResolution>>({});
+
+    const findExisting = (agent: Agent) => existing.find(a => a.id === agent.id);
+    const resolutionFor = (agent: Agent): CollisionResolution => resolutions[agent.id] ?? 'rename';
+
+    const handleApply = () => {
+        const agentsToApply = incoming.flatMap((agent, i): Agent[] => {
+            if (!findExisting(agent)) return [agent];
+            switch (resolutionFor(agent)) {
+                case 'overwrite': return [agent];
+                case 'skip': return [];
+                case 'rename': {
+                    const nameTaken = existing.some(a => a.name === agent.name);
+                    return [{ ...agent, id: `agent${Date.now()}-${i}`, name: nameTaken ? `${agent.name} (imported)` : agent.name }];
+                }
+            }
+        });
+        onApply(agentsToApply);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="max-h-[85vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-surface-light dark:bg-surface-dark p-6 shadow-xl">
+                <h3 className="text-lg font-semibold">Import {incoming.length} agent{incoming.length === 1 ? '' : 's'}</h3>
+                <ul className="mt-4 space-y-4">
+                    {incoming.map(agent => {
+                        const current = findExisting(agent);
+                        const changes = current ? diffAgents(current, agent) : [];
+                        return (
+                            <li key={agent.id} className="rounded-md border border-border-light dark:border-border-dark p-3">
+                                <div className="flex items-center gap-3">
+                                    <img src={agent.avatar} alt={agent.name} className="h-8 w-8 rounded-full object-cover" />
+                                    <div className="flex-1">
+                                        <p className="text-sm font-medium">{agent.name}</p>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">{agent.config.model} · id "{agent.id}"</p>
+                                    </div>
+                                    {current ? (
+                                        <select
+                                            value={resolutionFor(agent)}
+                                            onChange={(e) => setResolutions({ ...resolutions, [agent.id]: e.target.value as CollisionResolution })}
+                                            className="rounded-md border-border-light bg-surface-subtle-light py-1 text-xs dark:border-border-dark dark:bg-surface-subtle-dark"
+                                        >
+                                            <option value="rename">Import as copy</option>
+                                            <option value="overwrite">Overwrite "{current.name}"</option>
+                                            <option value="skip">Skip</option>
+                                        </select>
+                                    ) : (
+                                        <span className="rounded-full bg-green-500/10 px-2 py-1 text-xs font-medium text-green-500">New</span>
+                                    )}
+                                </div>
+                                {current && resolutionFor(agent) === 'overwrite' && (
+                                    changes.length === 0 ? (
+                                        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Identical to the existing agent.</p>
+                                    ) : (
+                                        <table className="mt-2 w-full table-fixed text-xs">
+                                            <tbody>
+                                                {changes.map(change => (
+                                                    <tr key={change.field} className="align-top">
+                                                        <td className="w-1/5 py-1 pr-2 font-mono text-gray-500 dark:text-gray-400">{change.field}</td>
+                                                        <td className="py-1 pr-2 break-words bg-red-500/10 text-red-600 dark:text-red-400 line-through">{change.before}</td>
+                                                        <td className="py-1 break-words bg-green-500/10 text-green-600 dark:text-green-400">{change.after}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+                <div className="mt-6 flex items-center justify-end gap-2">
+                    <button onClick={onCancel} className="rounded-md px-3 py-1 text-sm hover:bg-primary/10">Cancel</button>
+                    <button onClick={handleApply} className="rounded-md bg-primary px-3 py-1 text-sm text-white">Import</button>
+                </div>
+            </div>
+        </div>
+    );
+};
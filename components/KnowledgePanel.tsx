@@ -0,0 +1,56 @@
+import React from 'react';
+import { Agent, KnowledgeSource } from '../types';
+import { attachmentKind, formatFileSize } from '../services/attachments';
+import { needsReindex } from '../services/knowledge';
+import { ATTACHMENT_ICONS } from './AttachmentPreview';
+
+interface KnowledgePanelProps {
+    agent: Agent;
+    sources: KnowledgeSource[]; // The agent's sources
+    errors: string[]; // Files rejected on the last add
+    onAdd: (files: File[]) => void;
+    onReindex: (source: KnowledgeSource) => void;
+    onDelete: (source: KnowledgeSource) => void;
+}
+
+const describeSource = (source: KnowledgeSource, agent: Agent) => {
+    if (source.status === 'indexing') return 'Indexing...';
+    if (source.status === 'error') return source.error ?? 'Indexing failed';
+    if (needsReindex(source, agent)) return 'Embedded with another provider; re-index to search it';
+    return `${formatFileSize(source.size)} · ${source.chunkCount} passage${source.chunkCount === 1 ? '' : 's'}`;
+};
+
+/** The agent's knowledge sources with their indexing state, and controls to add, re-index and remove them. */
+export const KnowledgePanel = ({ agent, sources, errors, onAdd, onReindex, onDelete }: KnowledgePanelProps) => (
+    <div className="space-y-2">
+        <div className="flex items-center justify-between">
+            <h4 className="font-semibold">Knowledge</h4>
+            <label className="flex cursor-pointer items-center gap-1 rounded-md px-2 py-1 text-sm text-primary hover:bg-primary/10">
+                <span className="material-symbols-outlined text-base">note_add</span>Add files
+                <input type="file" multiple accept=".txt,.md,.markdown,.csv,.json,.pdf,.py,.ts,.tsx,.js,.jsx,.html,.css,.xml,.yaml,.yml,.sql,.sh,text/*,application/pdf" className="hidden" onChange={(e) => { onAdd(Array.from<File>(e.target.files ?? [])); e.target.value = ''; }} />
+            </label>
+        </div>
+        {sources.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Add documents and {agent.name} will answer from the most relevant passages, citing them under Sources.</p>
+        ) : (
+            <ul className="space-y-1">
+                {sources.map(source => (
+                    <li key={source.id} className="flex items-center gap-2 rounded-md border border-border-light px-2 py-1 text-sm dark:border-border-dark">
+                        <span className={`material-symbols-outlined text-base ${source.status === 'indexing' ? 'animate-spin text-primary' : ''}`}>
+                            {source.status === 'indexing' ? 'progress_activity' : ATTACHMENT_ICONS[attachmentKind(source)]}
+                        </span>
+                        <div className="min-w-0 flex-1">
+                            <p className="truncate">{source.name}</p>
+                            <p className={`truncate text-xs ${source.status === 'error' || needsReindex(source, agent) ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`} title={describeSource(source, agent)}>
+                                {describeSource(source, agent)}
+                            </p>
+                        </div>
+                        <button onClick={() => onReindex(source)} disabled={source.status === 'indexing'} title="Re-index" className="material-symbols-outlined rounded p-1 text-base hover:bg-primary/10 disabled:opacity-40">refresh</button>
+                        <button onClick={() => onDelete(source)} disabled={source.status === 'indexing'} title="Remove" className="material-symbols-outlined rounded p-1 text-base text-red-500 hover:bg-red-500/10 disabled:opacity-40">delete</button>
+                    </li>
+                ))}
+            </ul>
+        )}
+        {errors.map(error => <p key={error} className="text-xs text-red-500">{error}</p>)}
+    </div>
+);
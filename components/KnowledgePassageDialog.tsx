@@ -0,0 +1,43 @@
+import React, { useEffect, useRef } from 'react';
+
+export interface KnowledgePassage {
+    sourceName: string;
+    text: string; // The source's full extracted text
+    start: number; // The cited passage's range in text
+    end: number;
+    fileUrl?: string; // Object URL of the original file
+}
+
+interface KnowledgePassageDialogProps {
+    passage: KnowledgePassage;
+    onClose: () => void;
+}
+
+/** Shows a cited passage highlighted in its source document, scrolled into view. */
+export const KnowledgePassageDialog = ({ passage, onClose }: KnowledgePassageDialogProps) => {
+    const highlightRef = useRef<HTMLElement>(null);
+    useEffect(() => {
+        highlightRef.current?.scrollIntoView({ block: 'center' });
+    }, [passage]);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="flex max-h-[85vh] w-full max-w-3xl flex-col rounded-lg bg-surface-light dark:bg-surface-dark p-6 shadow-xl">
+                <div className="flex items-center gap-2">
+                    <h3 className="flex-1 truncate text-lg font-semibold">{passage.sourceName}</h3>
+                    {passage.fileUrl && (
+                        <a href={passage.fileUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 rounded-md px-2 py-1 text-sm text-primary hover:bg-primary/10">
+                            <span className="material-symbols-outlined text-base">open_in_new</span>Original file
+                        </a>
+                    )}
+                    <button onClick={onClose} className="material-symbols-outlined text-sm">close</button>
+                </div>
+                <pre className="mt-4 flex-1 overflow-y-auto whitespace-pre-wrap rounded-md bg-surface-subtle-light p-3 font-sans text-sm dark:bg-surface-subtle-dark">
+                    {passage.text.slice(0, passage.start)}
+                    <mark ref={highlightRef} className="rounded bg-amber-200 text-inherit dark:bg-amber-500/40">{passage.text.slice(passage.start, passage.end)}</mark>
+                    {passage.text.slice(passage.end)}
+                </pre>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import { MARKDOWN_STYLES, renderMarkdown } from '../services/markdown';
+import { downloadFile } from '../utils/files';
+
+// Outputs longer than this start collapsed behind a "Show more" toggle.
+const LONG_OUTPUT_CHARS = 6000;
+const LONG_OUTPUT_LINES = 80;
+const STYLE_ELEMENT_ID = 'markdown-content-styles';
+
+interface MarkdownContentProps {
+    text: string;
+    collapsible?: boolean; // Off while a reply is still streaming, so the view doesn't jump
+    className?: string;
+}
+
+const ensureStyles = () => {
+    if (document.getElementById(STYLE_ELEMENT_ID)) return;
+    const style = document.createElement('style');
+    style.id = STYLE_ELEMENT_ID;
+    style.textContent = MARKDOWN_STYLES;
+    document.head.appendChild(style);
+};
+
+const flashIcon = (button: HTMLElement, icon: string) => {
+    const iconElement = button.querySelector('.material-symbols-outlined');
+    if (!iconElement) return;
+    const original = iconElement.textContent;
+    iconElement.textContent = icon;
+    setTimeout(() => { iconElement.textContent = original; }, 1500);
+};
+
+/** Sanitized Markdown with highlighted code blocks (copy/download), tables and math. */
+export const MarkdownContent = ({ text, collapsible = true, className = '' }: MarkdownContentProps) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const html = useMemo(() => renderMarkdown(text, { codeActions: true }), [text]);
+    const isLong = collapsible && (text.length > LONG_OUTPUT_CHARS || text.split('\n').length > LONG_OUTPUT_LINES);
+    const isCollapsed = isLong && !isExpanded;
+    ensureStyles();
+
+    // Code block buttons are plain HTML from the renderer, so clicks are handled by delegation.
+    const handleClick = async (e: React.MouseEvent<HTMLDivElement>) => {
+        const button = (e.target as HTMLElement).closest<HTMLElement>('[data-code-action]');
+        if (!button) return;
+        const code = button.closest('.md-code')?.querySelector('code')?.textContent ?? '';
+        if (button.dataset.codeAction === 'copy') {
+            try {
+                await navigator.clipboard.writeText(code);
+                flashIcon(button, 'check');
+            } catch (error) {
+                console.error("Copy failed", error);
+            }
+        } else {
+            downloadFile(button.dataset.fileName || 'snippet.txt', code, 'text/plain');
+        }
+    };
+
+    return (
+        <div className={className}>
+            <div
+                className={`md-content ${isCollapsed ? 'relative max-h-96 overflow-hidden' : ''}`}
+                onClick={handleClick}
+                dangerouslySetInnerHTML={{ __html: html }}
+            />
+            {isLong && (
+                <button onClick={() => setIsExpanded(!isExpanded)} className="mt-1 flex items-center gap-1 text-xs font-medium text-primary hover:underline">
+                    <span className="material-symbols-outlined text-sm">{isExpanded ? 'expand_less' : 'expand_more'}</span>
+                    {isExpanded ? 'Show less' : 'Show more'}
+                </button>
+            )}
+        </div>
+    );
+};
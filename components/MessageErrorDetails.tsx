@@ -0,0 +1,59 @@
+import React from 'react';
+import { MessageError } from '../types';
+import { ERROR_DESCRIPTIONS, formatSafetyLabel } from '../services/errors';
+
+interface MessageErrorDetailsProps {
+    error?: MessageError; // Error bubbles saved before errors were classified have none
+    showSummary: boolean; // False when the reply has partial text and the error only explains why it stopped
+    canRetry: boolean;
+    onRetry: () => void;
+}
+
+const PROBABILITY_CLASSES: Record<string, string> = {
+    MEDIUM: 'text-amber-500',
+    HIGH: 'text-red-500',
+};
+
+/** Category, hint, finish or block reason, safety ratings and the provider's raw message, with a Retry button. */
+export const MessageErrorDetails = ({ error, showSummary, canRetry, onRetry }: MessageErrorDetailsProps) => {
+    const description = error && ERROR_DESCRIPTIONS[error.category];
+    return (
+        <div className={`${showSummary ? '' : 'mt-2 border-t border-border-light pt-2 dark:border-border-dark'} text-sm`}>
+            {description && (
+                <>
+                    <p className="flex items-center gap-1 font-medium text-red-500">
+                        <span className="material-symbols-outlined text-base">{error.category === 'safety' ? 'shield' : 'error'}</span>
+                        {description.title}
+                    </p>
+                    {showSummary && <p className="mt-0.5 text-gray-500 dark:text-gray-400">{description.hint}</p>}
+                    {(error.finishReason || error.blockReason) && (
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                            {error.blockReason ? `Prompt blocked: ${error.blockReason}` : `Finish reason: ${error.finishReason}`}
+                        </p>
+                    )}
+                    {error.safetyRatings && (
+                        <table className="mt-1 text-xs">
+                            <tbody>
+                                {error.safetyRatings.map(rating => (
+                                    <tr key={rating.category} className={rating.blocked ? 'font-semibold' : ''}>
+                                        <td className="pr-3">{formatSafetyLabel(rating.category)}</td>
+                                        <td className={PROBABILITY_CLASSES[rating.probability] ?? 'text-gray-500 dark:text-gray-400'}>
+                                            {formatSafetyLabel(rating.probability)}{rating.blocked && ' · blocked'}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                    <details className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        <summary className="cursor-pointer">Details</summary>
+                        <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap break-words font-mono">{error.status ? `HTTP ${error.status}\n` : ''}{error.detail}</pre>
+                    </details>
+                </>
+            )}
+            <button onClick={onRetry} disabled={!canRetry} className="mt-2 flex items-center gap-1 rounded-md px-2 py-1 text-xs text-primary hover:bg-primary/10 disabled:opacity-50">
+                <span className="material-symbols-outlined text-sm">refresh</span>Retry
+            </button>
+        </div>
+    );
+};
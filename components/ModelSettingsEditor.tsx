@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Agent, ModelConfig } from '../types';
+import { DYNAMIC_THINKING_BUDGET, MAX_STOP_SEQUENCES, MODEL_CATALOG, SAFETY_CATEGORIES, SAFETY_THRESHOLDS, compactModelConfig, modelInfoFor, validateModelSettings, withSafetyThreshold } from '../services/models';
+import { isGeminiAgent } from '../services/providers';
+
+interface ModelSettingsEditorProps {
+    agent: Agent; // The draft being edited
+    onChange: (config: Partial<Agent['config']>) => void;
+    onSchemaTextError: (error: string | null) => void; // The schema text doesn't parse, so the draft still holds the last valid one
+}
+
+type ThinkingMode = 'default' | 'dynamic' | 'off' | 'custom';
+
+const EXAMPLE_SCHEMA = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string' },
+        items: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' }, score: { type: 'number' } }, required: ['name'] } },
+    },
+    required: ['summary'],
+};
+
+const inputClass = "mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark disabled:opacity-50";
+
+const thinkingModeOf = (budget: number | undefined): ThinkingMode =>
+    budget === undefined ? 'default' : budget === DYNAMIC_THINKING_BUDGET ? 'dynamic' : budget === 0 ? 'off' : 'custom';
+
+/** Model picker and generation settings, checked against what the chosen model supports. */
+export const ModelSettingsEditor = ({ agent, onChange, onSchemaTextError }: ModelSettingsEditorProps) => {
+    const [schemaText, setSchemaText] = useState(() => agent.config.responseSchema ? JSON.stringify(agent.config.responseSchema, null, 2) : '');
+    const [schemaTextError, setSchemaTextError] = useState<string | null>(null);
+    const modelConfig = agent.config.modelConfig ?? {};
+    const info = modelInfoFor(agent);
+    const problems = validateModelSettings(agent);
+    const thinkingMode = thinkingModeOf(modelConfig.thinkingConfig?.thinkingBudget);
+
+    const updateModelConfig = (changes: Partial<ModelConfig>) => onChange({ modelConfig: compactModelConfig({ ...modelConfig, ...changes }) });
+
+    const numberField = (label: string, key: 'temperature' | 'topP' | 'topK' | 'maxOutputTokens', props: { min: number; max?: number; step: number; placeholder: string; disabled?: boolean }) => (
+        <div>
+            <label className="text-xs font-medium">{label}</label>
+            <input
+                type="number" min={props.min} max={props.max} step={props.step}
+                value={modelConfig[key] ?? ''}
+                placeholder={props.placeholder}
+                disabled={props.disabled}
+                onChange={(e) => updateModelConfig({ [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                className={inputClass}
+            />
+        </div>
+    );
+
+    const setThinkingMode = (mode: ThinkingMode) => {
+        const budgets: Record<ThinkingMode, number | undefined> = {
+            default: undefined,
+            dynamic: DYNAMIC_THINKING_BUDGET,
+            off: 0,
+            custom: Math.max(info?.thinking?.min ?? 0, 1024),
+        };
+        updateModelConfig({ thinkingConfig: { thinkingBudget: budgets[mode] } });
+    };
+
+    const handleSchemaText = (text: string) => {
+        setSchemaText(text);
+        try {
+            const schema = JSON.parse(text);
+            if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) throw new Error('The schema must be a JSON object.');
+            onChange({ responseSchema: schema });
+            setSchemaTextError(null);
+            onSchemaTextError(null);
+        } catch (e: any) {
+            const error = `Response schema: ${e.message}`;
+            setSchemaTextError(error);
+            onSchemaTextError(error);
+        }
+    };
+
+    const toggleStructuredOutput = (enabled: boolean) => {
+        setSchemaText(enabled ? JSON.stringify(EXAMPLE_SCHEMA, null, 2) : '');
+        setSchemaTextError(null);
+        onSchemaTextError(null);
+        onChange({ responseSchema: enabled ? EXAMPLE_SCHEMA as Agent['config']['responseSchema'] : undefined });
+    };
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label className="text-sm font-medium">Model</label>
+                {isGeminiAgent(agent) ? (
+                    <select value={agent.config.model} onChange={(e) => onChange({ model: e.target.value })} className={inputClass}>
+                        {!info && <option value={agent.config.model}>{agent.config.model} (not in catalog)</option>}
+                        {MODEL_CATALOG.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+                    </select>
+                ) : (
+                    <input value={agent.config.model} onChange={(e) => onChange({ model: e.target.value })} placeholder="e.g. llama3.1:8b" className={inputClass} />
+                )}
+                {info?.description && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{info.description}</p>}
+                {info && isGeminiAgent(agent) && (
+                    <div className="mt-1 flex flex-wrap gap-1">
+                        {[
+                            info.thinking && 'Thinking',
+                            ...info.builtInTools,
+                            info.functionCalling && 'Functions',
+                            info.structuredOutput && 'JSON output',
+                            `${Math.round(info.maxOutputTokens / 1024)}K output`,
+                        ].filter(Boolean).map(capability => (
+                            <span key={capability as string} className="rounded-full bg-primary/10 px-2 py-0.5 text-xs text-primary">{capability}</span>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                {numberField('Temperature', 'temperature', { min: 0, max: 2, step: 0.1, placeholder: 'Default' })}
+                {numberField('Top P', 'topP', { min: 0, max: 1, step: 0.05, placeholder: 'Default' })}
+                {numberField('Top K', 'topK', { min: 1, max: info?.maxTopK, step: 1, placeholder: info?.maxTopK ? 'Default' : 'Not supported', disabled: !info?.maxTopK && modelConfig.topK === undefined })}
+                {numberField('Max output tokens', 'maxOutputTokens', { min: 1, max: info?.maxOutputTokens, step: 1, placeholder: 'Default' })}
+            </div>
+
+            <div>
+                <label className="text-xs font-medium">Stop sequences <span className="font-normal text-gray-500 dark:text-gray-400">one per line, up to {MAX_STOP_SEQUENCES}</span></label>
+                <textarea
+                    rows={2}
+                    value={(modelConfig.stopSequences ?? []).join('\n')}
+                    onChange={(e) => updateModelConfig({ stopSequences: e.target.value ? e.target.value.split('\n') : undefined })}
+                    className={`${inputClass} font-mono`}
+                />
+            </div>
+
+            {(info?.thinking || thinkingMode !== 'default') && (
+                <div>
+                    <label className="text-xs font-medium">Thinking budget</label>
+                    <div className="flex gap-2">
+                        <select value={thinkingMode} onChange={(e) => setThinkingMode(e.target.value as ThinkingMode)} className={inputClass}>
+                            <option value="default">Model default</option>
+                            <option value="dynamic">Dynamic</option>
+                            {(info?.thinking?.canDisable || thinkingMode === 'off') && <option value="off">Off</option>}
+                            <option value="custom">Fixed tokens</option>
+                        </select>
+                        {thinkingMode === 'custom' && (
+                            <input
+                                type="number" min={info?.thinking?.min} max={info?.thinking?.max} step={128}
+                                value={modelConfig.thinkingConfig?.thinkingBudget ?? ''}
+                                onChange={(e) => updateModelConfig({ thinkingConfig: { thinkingBudget: Number(e.target.value) } })}
+                                className={inputClass}
+                            />
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {(info?.safetySettings || !!modelConfig.safetySettings?.length) && (
+                <details open={!!modelConfig.safetySettings?.length}>
+                    <summary className="cursor-pointer text-xs font-medium">Safety settings</summary>
+                    <div className="mt-1 space-y-1">
+                        {SAFETY_CATEGORIES.map(({ category, label }) => (
+                            <div key={category} className="flex items-center gap-2">
+                                <span className="w-28 shrink-0 text-xs">{label}</span>
+                                <select
+                                    value={modelConfig.safetySettings?.find(setting => setting.category === category)?.threshold ?? ''}
+                                    onChange={(e) => updateModelConfig({ safetySettings: withSafetyThreshold(modelConfig.safetySettings, category, e.target.value || undefined) })}
+                                    className="w-full rounded-md border-border-light bg-surface-subtle-light p-1 text-xs dark:border-border-dark dark:bg-surface-subtle-dark"
+                                >
+                                    <option value="">Default</option>
+                                    {SAFETY_THRESHOLDS.map(({ threshold, label }) => <option key={threshold} value={threshold}>{label}</option>)}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                </details>
+            )}
+
+            <div>
+                <label className="flex items-center gap-2 text-xs font-medium">
+                    <input type="checkbox" className="rounded text-primary focus:ring-primary/50" checked={!!agent.config.responseSchema || !!schemaTextError} onChange={(e) => toggleStructuredOutput(e.target.checked)} />
+                    Structured output (JSON)
+                </label>
+                {(agent.config.responseSchema || schemaTextError) && (
+                    <>
+                        <textarea rows={8} value={schemaText} onChange={(e) => handleSchemaText(e.target.value)} spellCheck={false} className={`${inputClass} font-mono text-xs`} />
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Replies are JSON matching this schema, checked on arrival and shown as a table.</p>
+                        {schemaTextError && <p className="text-xs text-red-500">{schemaTextError}</p>}
+                    </>
+                )}
+            </div>
+
+            {problems.length > 0 && (
+                <ul className="space-y-0.5 text-xs text-red-500">
+                    {problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Agent } from '../types';
+import { PROVIDER_LABELS, ProviderKind } from '../services/providers';
+import { DEFAULT_GEMINI_MODEL } from '../services/models';
+
+interface ProviderFieldsProps {
+    agent: Agent;
+    onChange: (config: Partial<Agent['config']>) => void;
+}
+
+/** Provider picker with the endpoint and key of OpenAI-compatible servers; shared by the agent form and the details panel. */
+export const ProviderFields = ({ agent, onChange }: ProviderFieldsProps) => {
+    const providerKind = agent.config.provider?.kind ?? 'gemini';
+
+    // Models, built-in tools and voices don't carry over between providers.
+    const handleProviderChange = (kind: ProviderKind) => {
+        onChange(kind === 'gemini'
+            ? { provider: undefined, model: DEFAULT_GEMINI_MODEL, voiceName: undefined }
+            : { provider: { kind: kind, baseUrl: 'http://localhost:11434/v1' }, model: '', tools: [], voiceName: undefined });
+    };
+
+    return (
+        <>
+            <div>
+                <label className="text-sm font-medium">Provider</label>
+                <select value={providerKind} onChange={(e) => handleProviderChange(e.target.value as ProviderKind)} className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark">
+                    {(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map(kind => <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>)}
+                </select>
+            </div>
+            {providerKind !== 'gemini' && (
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <label className="text-sm font-medium">Endpoint</label>
+                        <input value={agent.config.provider?.baseUrl ?? ''} onChange={(e) => onChange({ provider: { ...agent.config.provider!, baseUrl: e.target.value } })} placeholder="http://localhost:11434/v1" className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+                    </div>
+                    <div>
+                        <label className="text-sm font-medium">API key (optional)</label>
+                        <input type="password" value={agent.config.provider?.apiKey ?? ''} onChange={(e) => onChange({ provider: { ...agent.config.provider!, apiKey: e.target.value || undefined } })} className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { Agent, JobRun, JobRunStatus, MissedRunPolicy, PromptTemplate, ScheduledJob } from '../types';
+import { nextJobRun, validateScheduledJob } from '../services/scheduler';
+import { templatesFor } from '../services/templates';
+import { nextCronTime, parseCron } from '../services/cron';
+import { ValidationError, formatValidationErrors } from '../services/jsonSchema';
+
+interface ScheduledJobsModalProps {
+    jobs: ScheduledJob[];
+    agents: Agent[];
+    activeAgentId: string; // Preselected for new jobs
+    globalTemplates: PromptTemplate[];
+    onSave: (job: ScheduledJob) => void;
+    onDelete: (jobId: string) => void;
+    onToggle: (jobId: string, enabled: boolean) => void;
+    onRunNow: (job: ScheduledJob) => void;
+    onOpenChat: (chatId: string) => void;
+    onClose: () => void;
+}
+
+interface JobDraft {
+    job: ScheduledJob;
+    source: 'prompt' | 'template';
+}
+
+const CRON_PRESETS: { schedule: string; label: string }[] = [
+    { schedule: '0 8 * * *', label: 'Every day at 8:00' },
+    { schedule: '0 9 * * 1-5', label: 'Weekdays at 9:00' },
+    { schedule: '0 9 * * 1', label: 'Mondays at 9:00' },
+    { schedule: '0 * * * *', label: 'Every hour' },
+    { schedule: '*/15 * * * *', label: 'Every 15 minutes' },
+];
+
+const MISSED_RUN_POLICIES: { policy: MissedRunPolicy; label: string }[] = [
+    { policy: 'catch-up', label: 'Run once when the app opens' },
+    { policy: 'skip', label: 'Skip them' },
+];
+
+const RUN_STATUS_ICONS: Record<JobRunStatus, { icon: string; className: string }> = {
+    running: { icon: 'progress_activity', className: 'animate-spin text-primary' },
+    succeeded: { icon: 'check_circle', className: 'text-green-500' },
+    failed: { icon: 'error', className: 'text-red-500' },
+    skipped: { icon: 'skip_next', className: 'text-gray-400' },
+};
+
+const newDraft = (agentId: string): JobDraft => ({
+    job: {
+        id: `job${Date.now()}`,
+        name: '',
+        agentId: agentId,
+        prompt: '',
+        schedule: CRON_PRESETS[0].schedule,
+        missedRunPolicy: 'catch-up',
+        enabled: true,
+        createdAt: Date.now(),
+        runs: [],
+    },
+    source: 'prompt',
+});
+
+const formatTime = (time: number) => new Date(time).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const describeRun = (run: JobRun) => [
+    run.manual ? 'Run by hand' : `Scheduled for ${formatTime(run.scheduledFor)}`,
+    run.missedRuns && `${run.missedRuns} earlier missed`,
+    run.error,
+].filter(Boolean).join(' · ');
+
+const inputClassName = 'mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark';
+
+/** Jobs that send an agent a prompt on a schedule, with their recent runs. */
+export const ScheduledJobsModal = ({ jobs, agents, activeAgentId, globalTemplates, onSave, onDelete, onToggle, onRunNow, onOpenChat, onClose }: ScheduledJobsModalProps) => {
+    const [draft, setDraft] = useState<JobDraft | null>(null);
+    const [errors, setErrors] = useState<ValidationError[]>([]);
+    const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+    const now = Date.now();
+
+    const openDraft = (next: JobDraft | null) => {
+        setDraft(next);
+        setErrors([]);
+    };
+
+    const updateJob = (changes: Partial<ScheduledJob>) => setDraft({ ...draft!, job: { ...draft!.job, ...changes } });
+
+    const handleNotifyChange = (notify: boolean) => {
+        updateJob({ notify });
+        if (notify && typeof Notification !== 'undefined' && Notification.permission === 'default') Notification.requestPermission();
+    };
+
+    const handleSave = () => {
+        if (!draft) return;
+        const { job, source } = draft;
+        const saved: ScheduledJob = {
+            ...job,
+            name: job.name.trim(),
+            schedule: job.schedule.trim(),
+            prompt: source === 'prompt' ? job.prompt?.trim() : undefined,
+            templateId: source === 'template' ? job.templateId : undefined,
+            templateValues: source === 'template' ? job.templateValues : undefined,
+        };
+        const validationErrors = validateScheduledJob(saved, agents, globalTemplates, Date.now());
+        if (validationErrors.length > 0) {
+            setErrors(validationErrors);
+            return;
+        }
+        onSave(saved);
+        openDraft(null);
+    };
+
+    const renderDraft = ({ job, source }: JobDraft) => {
+        const agent = agents.find(a => a.id === job.agentId);
+        const templates = agent ? templatesFor(agent, globalTemplates) : [];
+        const template = templates.find(entry => entry.template.id === job.templateId)?.template;
+        const schedule = parseCron(job.schedule);
+        const nextRun = 'error' in schedule ? null : nextCronTime(schedule, now);
+        return (
+            <div className="mt-4 space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="text-sm font-medium">Name</label>
+                        <input value={job.name} onChange={(e) => updateJob({ name: e.target.value })} placeholder="e.g. Morning briefing" className={inputClassName} />
+                    </div>
+                    <div>
+                        <label className="text-sm font-medium">Agent</label>
+                        <select value={job.agentId} onChange={(e) => updateJob({ agentId: e.target.value, templateId: undefined, templateValues: undefined })} className={inputClassName}>
+                            {agents.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <div>
+                    <div className="flex items-center gap-4 text-sm">
+                        <label className="flex items-center gap-1"><input type="radio" checked={source === 'prompt'} onChange={() => setDraft({ job, source: 'prompt' })} />Prompt</label>
+                        <label className="flex items-center gap-1"><input type="radio" checked={source === 'template'} onChange={() => setDraft({ job, source: 'template' })} disabled={templates.length === 0} />Template</label>
+                    </div>
+                    {source === 'prompt' ? (
+                        <textarea value={job.prompt ?? ''} onChange={(e) => updateJob({ prompt: e.target.value })} rows={4} placeholder="e.g. Give me a short briefing on today's news in AI research." className={inputClassName} />
+                    ) : (
+                        <div className="space-y-2">
+                            <select value={job.templateId ?? ''} onChange={(e) => updateJob({ templateId: e.target.value || undefined, templateValues: undefined })} className={inputClassName}>
+                                <option value="">Choose a template…</option>
+                                {templates.map(({ template: t, agentId }) => <option key={t.id} value={t.id}>{t.name}{!agentId && ' (global)'}</option>)}
+                            </select>
+                            {template?.variables.map(variable => {
+                                const value = job.templateValues?.[variable.name] ?? variable.default ?? '';
+                                const setValue = (next: string) => updateJob({ templateValues: { ...job.templateValues, [variable.name]: next } });
+                                return (
+                                    <div key={variable.name}>
+                                        <label className="text-xs font-medium">{variable.label || variable.name}</label>
+                                        {variable.type === 'choice' ? (
+                                            <select value={value} onChange={(e) => setValue(e.target.value)} className={inputClassName}>
+                                                <option value="">Choose…</option>
+                                                {variable.options?.map(option => <option key={option} value={option}>{option}</option>)}
+                                            </select>
+                                        ) : variable.type === 'multiline' ? (
+                                            <textarea value={value} onChange={(e) => setValue(e.target.value)} rows={3} className={inputClassName} />
+                                        ) : (
+                                            <input type={variable.type === 'number' ? 'number' : 'text'} value={value} onChange={(e) => setValue(e.target.value)} className={inputClassName} />
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+                <div>
+                    <label className="text-sm font-medium">Schedule</label>
+                    <div className="flex gap-2">
+                        <input value={job.schedule} onChange={(e) => updateJob({ schedule: e.target.value })} spellCheck={false} className={`${inputClassName} font-mono`} />
+                        <select value="" onChange={(e) => e.target.value && updateJob({ schedule: e.target.value })} className="mt-1 rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark">
+                            <option value="">Presets…</option>
+                            {CRON_PRESETS.map(preset => <option key={preset.schedule} value={preset.schedule}>{preset.label}</option>)}
+                        </select>
+                    </div>
+                    <p className={`mt-1 text-xs ${'error' in schedule ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+                        {'error' in schedule ? schedule.error : nextRun ? `Minute, hour, day of month, month, day of week, in local time. Next run: ${formatTime(nextRun)}.` : 'This schedule never matches a date.'}
+                    </p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="text-sm font-medium">Runs missed while the app was closed</label>
+                        <select value={job.missedRunPolicy} onChange={(e) => updateJob({ missedRunPolicy: e.target.value as MissedRunPolicy })} className={inputClassName}>
+                            {MISSED_RUN_POLICIES.map(({ policy, label }) => <option key={policy} value={policy}>{label}</option>)}
+                        </select>
+                    </div>
+                    <div className="space-y-2 pt-6 text-sm">
+                        <label className="flex items-center gap-2"><input type="checkbox" checked={!!job.notify} onChange={(e) => handleNotifyChange(e.target.checked)} />Notify me when a run ends</label>
+                        <label className="flex items-center gap-2"><input type="checkbox" checked={job.enabled} onChange={(e) => updateJob({ enabled: e.target.checked })} />Enabled</label>
+                    </div>
+                </div>
+                {errors.length > 0 && <pre className="whitespace-pre-wrap rounded-md bg-red-500/10 p-2 text-xs text-red-500">{formatValidationErrors(errors)}</pre>}
+                <div className="flex items-center justify-end gap-2">
+                    <button onClick={() => openDraft(null)} className="rounded-md px-3 py-1 text-sm hover:bg-primary/10">Back</button>
+                    <button onClick={handleSave} className="rounded-md bg-primary px-3 py-1 text-sm text-white">Save job</button>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-surface-light dark:bg-surface-dark p-6 shadow-xl">
+                <h3 className="text-lg font-semibold">Scheduled jobs</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Each job sends its agent a prompt on a schedule and posts the reply in a chat of its own. Jobs only run while the app is open.</p>
+
+                {draft ? renderDraft(draft) : (
+                    <>
+                        {jobs.length === 0 ? (
+                            <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">No jobs yet.</p>
+                        ) : (
+                            <ul className="mt-4 divide-y divide-border-light dark:divide-border-dark">
+                                {jobs.map(job => {
+                                    const agent = agents.find(a => a.id === job.agentId);
+                                    const nextRun = nextJobRun(job, now);
+                                    const lastRun = job.runs[0];
+                                    const isRunning = lastRun?.status === 'running';
+                                    return (
+                                        <li key={job.id} className="py-2">
+                                            <div className="flex items-start gap-3">
+                                                <input type="checkbox" checked={job.enabled} onChange={(e) => onToggle(job.id, e.target.checked)} title={job.enabled ? 'Disable' : 'Enable'} className="mt-1" />
+                                                <div className="min-w-0 flex-1">
+                                                    <p className="text-sm font-medium">{job.name} <span className="font-normal text-gray-500 dark:text-gray-400">· {agent?.name ?? 'Deleted agent'}</span></p>
+                                                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                                                        <code>{job.schedule}</code> · {nextRun ? `next ${formatTime(nextRun)}` : job.enabled ? 'never runs' : 'disabled'}
+                                                    </p>
+                                                    {lastRun && (
+                                                        <button onClick={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)} className="flex items-center gap-1 text-xs text-gray-500 hover:underline dark:text-gray-400">
+                                                            <span className={`material-symbols-outlined text-sm ${RUN_STATUS_ICONS[lastRun.status].className}`}>{RUN_STATUS_ICONS[lastRun.status].icon}</span>
+                                                            Last run {formatTime(lastRun.startedAt)} · {job.runs.length} in history
+                                                        </button>
+                                                    )}
+                                                </div>
+                                                <div className="flex gap-1">
+                                                    {job.chatId && <button onClick={() => onOpenChat(job.chatId!)} className="material-symbols-outlined rounded p-1 text-base hover:bg-primary/10" title="Open chat">chat</button>}
+                                                    <button onClick={() => onRunNow(job)} disabled={isRunning || !agent} className="material-symbols-outlined rounded p-1 text-base hover:bg-primary/10 disabled:opacity-40" title="Run now">play_arrow</button>
+                                                    <button onClick={() => openDraft({ job, source: job.templateId ? 'template' : 'prompt' })} className="material-symbols-outlined rounded p-1 text-base hover:bg-primary/10" title="Edit">edit</button>
+                                                    <button onClick={() => onDelete(job.id)} className="material-symbols-outlined rounded p-1 text-base text-red-500 hover:bg-red-500/10" title="Delete">delete</button>
+                                                </div>
+                                            </div>
+                                            {expandedJobId === job.id && (
+                                                <ul className="ml-7 mt-2 space-y-1">
+                                                    {job.runs.map(run => (
+                                                        <li key={run.id} className="flex items-start gap-2 text-xs">
+                                                            <span className={`material-symbols-outlined text-sm ${RUN_STATUS_ICONS[run.status].className}`}>{RUN_STATUS_ICONS[run.status].icon}</span>
+                                                            <span className="flex-1">
+                                                                {formatTime(run.startedAt)} · <span className={run.status === 'failed' ? 'text-red-500' : ''}>{describeRun(run)}</span>
+                                                            </span>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                        <div className="mt-4 flex items-center justify-between">
+                            <button onClick={() => openDraft(newDraft(activeAgentId))} className="flex items-center gap-1 rounded-md px-2 py-1 text-sm text-primary hover:bg-primary/10"><span className="material-symbols-outlined text-base">add</span>New job</button>
+                            <button onClick={onClose} className="rounded-md px-3 py-1 text-sm hover:bg-primary/10">Close</button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Agent, Chat } from '../types';
+import { SearchFilters, SearchMode, SearchResult, messageTime, searchMessages, searchMessagesSemantic, updateSearchIndex } from '../services/search';
+
+interface SearchPaletteProps {
+    agents: Agent[];
+    chats: Chat[];
+    onOpenResult: (chatId: string, messageId: string) => void;
+    onClose: () => void;
+}
+
+const MODE_LABELS: Record<SearchMode, string> = { exact: 'Exact', fuzzy: 'Fuzzy', semantic: 'Semantic' };
+const MODE_HINTS: Record<SearchMode, string> = {
+    exact: 'Messages containing the text as typed, ignoring case.',
+    fuzzy: 'Messages with every word, allowing typos and partial words.',
+    semantic: 'Messages about the same thing, even in other words. Uses Gemini embeddings; new messages are indexed on first search.',
+};
+// Semantic queries cost an embedding call, so wait for a pause in typing.
+const SEMANTIC_DEBOUNCE_MS = 400;
+
+const Snippet = ({ text, highlights }: { text: string; highlights: [number, number][] }) => {
+    const pieces: React.ReactNode[] = [];
+    let at = 0;
+    highlights.forEach(([start, end], i) => {
+        if (start < at) return; // Overlapping ranges from fuzzy matches
+        pieces.push(text.slice(at, start), <mark key={i} className="rounded bg-amber-200 text-inherit dark:bg-amber-500/40">{text.slice(start, end)}</mark>);
+        at = end;
+    });
+    pieces.push(text.slice(at));
+    return <p className="mt-0.5 line-clamp-2 text-gray-600 dark:text-gray-300">{pieces}</p>;
+};
+
+/** Searches every chat's messages, across all agents, and jumps to the chosen one. */
+export const SearchPalette = ({ agents, chats, onOpenResult, onClose }: SearchPaletteProps) => {
+    const [query, setQuery] = useState('');
+    const [mode, setMode] = useState<SearchMode>('fuzzy');
+    const [filters, setFilters] = useState<SearchFilters>({});
+    const [showFilters, setShowFilters] = useState(false);
+    const [semanticResults, setSemanticResults] = useState<SearchResult[]>([]);
+    const [semanticStatus, setSemanticStatus] = useState<string | null>(null);
+    const [semanticError, setSemanticError] = useState<string | null>(null);
+    const [activeIndex, setActiveIndex] = useState(0);
+    const listRef = useRef<HTMLUListElement>(null);
+
+    const results = mode === 'semantic' ? semanticResults : searchMessages(chats, query, mode, filters);
+    const activeFilterCount = Object.values(filters).filter(Boolean).length;
+
+    useEffect(() => {
+        if (mode !== 'semantic' || !query.trim()) {
+            setSemanticResults([]);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            setSemanticError(null);
+            try {
+                await updateSearchIndex(chats, (done, total) => !cancelled && setSemanticStatus(total ? `Indexing messages... ${done}/${total}` : 'Searching...'));
+                if (cancelled) return;
+                setSemanticStatus('Searching...');
+                const found = await searchMessagesSemantic(chats, query, filters);
+                if (!cancelled) setSemanticResults(found);
+            } catch (e: any) {
+                if (!cancelled) setSemanticError(`Semantic search failed: ${e.message ?? e}`);
+            } finally {
+                if (!cancelled) setSemanticStatus(null);
+            }
+        }, SEMANTIC_DEBOUNCE_MS);
+        return () => { cancelled = true; clearTimeout(timer); };
+    }, [mode, query, filters, chats]);
+
+    useEffect(() => setActiveIndex(0), [query, mode, filters]);
+
+    useEffect(() => {
+        listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex]);
+
+    const agentLabel = (chat: Chat) =>
+        chat.team ? chat.team.agentIds.map(id => agents.find(a => a.id === id)?.name).filter(Boolean).join(', ') : agents.find(a => a.id === chat.agentId)?.name ?? '';
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') onClose();
+        else if (e.key === 'ArrowDown') { e.preventDefault(); setActiveIndex(i => Math.min(i + 1, results.length - 1)); }
+        else if (e.key === 'ArrowUp') { e.preventDefault(); setActiveIndex(i => Math.max(i - 1, 0)); }
+        else if (e.key === 'Enter' && results[activeIndex]) onOpenResult(results[activeIndex].chat.id, results[activeIndex].message.id);
+    };
+
+    const inputClass = "mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark";
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/50 pt-[10vh] backdrop-blur-sm" onClick={onClose}>
+            <div className="flex max-h-[75vh] w-full max-w-2xl flex-col rounded-lg bg-surface-light dark:bg-surface-dark p-4 shadow-xl" onClick={(e) => e.stopPropagation()} onKeyDown={handleKeyDown}>
+                <div className="flex items-center gap-2">
+                    <span className="material-symbols-outlined text-gray-500">search</span>
+                    <input autoFocus value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search all chats" className="flex-1 border-none bg-transparent text-base focus:ring-0" />
+                    <button onClick={onClose} className="material-symbols-outlined text-sm">close</button>
+                </div>
+                <div className="mt-2 flex flex-wrap items-center gap-1">
+                    {(Object.keys(MODE_LABELS) as SearchMode[]).map(key => (
+                        <button key={key} onClick={() => setMode(key)} title={MODE_HINTS[key]} className={`rounded-md px-2 py-1 text-sm ${mode === key ? 'bg-primary/10 text-primary' : 'hover:bg-primary/5'}`}>{MODE_LABELS[key]}</button>
+                    ))}
+                    <button onClick={() => setShowFilters(!showFilters)} className={`ml-auto flex items-center gap-1 rounded-md px-2 py-1 text-sm ${activeFilterCount ? 'text-primary' : ''} hover:bg-primary/5`}>
+                        <span className="material-symbols-outlined text-base">filter_list</span>Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+                    </button>
+                </div>
+                {showFilters && (
+                    <div className="mt-2 grid grid-cols-2 gap-2 rounded-md border border-border-light p-2 text-sm dark:border-border-dark sm:grid-cols-4">
+                        <div className="col-span-2">
+                            <label className="text-xs font-medium">Agent</label>
+                            <select value={filters.agentId ?? ''} onChange={(e) => setFilters({ ...filters, agentId: e.target.value || undefined })} className={inputClass}>
+                                <option value="">All agents</option>
+                                {agents.map(agent => <option key={agent.id} value={agent.id}>{agent.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="text-xs font-medium">From</label>
+                            <input type="date" value={filters.from ?? ''} onChange={(e) => setFilters({ ...filters, from: e.target.value || undefined })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="text-xs font-medium">To</label>
+                            <input type="date" value={filters.to ?? ''} onChange={(e) => setFilters({ ...filters, to: e.target.value || undefined })} className={inputClass} />
+                        </div>
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={!!filters.hasImages} onChange={(e) => setFilters({ ...filters, hasImages: e.target.checked || undefined })} />Has images
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={!!filters.hasSources} onChange={(e) => setFilters({ ...filters, hasSources: e.target.checked || undefined })} />Has sources
+                        </label>
+                        {activeFilterCount > 0 && <button onClick={() => setFilters({})} className="col-span-2 justify-self-end text-primary hover:underline sm:col-span-2">Clear filters</button>}
+                    </div>
+                )}
+                {mode === 'semantic' && (semanticStatus || semanticError) && (
+                    <p className={`mt-2 text-xs ${semanticError ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>{semanticError ?? semanticStatus}</p>
+                )}
+                {query.trim() && results.length === 0 && !semanticStatus && !semanticError && (
+                    <p className="mt-4 text-center text-sm text-gray-500 dark:text-gray-400">No messages found.</p>
+                )}
+                <ul ref={listRef} className="mt-2 flex-1 space-y-1 overflow-y-auto">
+                    {results.map((result, i) => {
+                        const time = messageTime(result.message);
+                        return (
+                            <li key={`${result.chat.id}-${result.message.id}`}>
+                                <button
+                                    onClick={() => onOpenResult(result.chat.id, result.message.id)}
+                                    onMouseEnter={() => setActiveIndex(i)}
+                                    className={`w-full rounded-md px-3 py-2 text-left text-sm ${i === activeIndex ? 'bg-primary/10' : ''}`}
+                                >
+                                    <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                                        {result.chat.team && <span className="material-symbols-outlined text-sm">groups</span>}
+                                        <span className="truncate font-medium text-gray-700 dark:text-gray-200">{result.chat.title}</span>
+                                        <span className="truncate">{agentLabel(result.chat)}</span>
+                                        <span className="ml-auto shrink-0">{result.message.sender}{time !== undefined && ` · ${new Date(time).toLocaleDateString()}`}</span>
+                                    </div>
+                                    <Snippet text={result.snippet} highlights={result.highlights} />
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{MODE_HINTS[mode]} ↑↓ to choose, Enter to open, Esc to close.</p>
+            </div>
+        </div>
+    );
+};
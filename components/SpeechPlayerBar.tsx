@@ -0,0 +1,36 @@
+import React from 'react';
+import { PLAYBACK_RATES, SpeechPlayer, SpeechPlayerState } from '../services/speech';
+
+interface SpeechPlayerBarProps {
+    player: SpeechPlayer;
+    state: SpeechPlayerState;
+}
+
+const iconButtonClassName = 'material-symbols-outlined rounded p-1 text-lg hover:bg-primary/10 disabled:opacity-30';
+
+export const SpeechPlayerBar = ({ player, state }: SpeechPlayerBarProps) => {
+    const isActive = state.status !== 'idle';
+    return (
+        <div className="mb-2 flex items-center gap-2 rounded-md border border-border-light bg-surface-subtle-light px-2 py-1 text-xs dark:border-border-dark dark:bg-surface-subtle-dark">
+            <span className={`material-symbols-outlined text-base ${state.status === 'loading' ? 'animate-spin' : ''} ${state.error && !isActive ? 'text-red-500' : 'text-primary'}`}>
+                {state.status === 'loading' ? 'progress_activity' : isActive ? 'graphic_eq' : 'error'}
+            </span>
+            <span className="min-w-0 flex-1 truncate">
+                {isActive && <>{state.status === 'loading' ? 'Preparing' : 'Reading'} {state.current?.label}{state.queued > 0 && ` · ${state.queued} more queued`}</>}
+                {state.error && <span className="ml-2 text-red-500">{state.error}</span>}
+            </span>
+            {isActive && (
+                <>
+                    {state.status === 'paused'
+                        ? <button onClick={player.resume} title="Resume" className={iconButtonClassName}>play_arrow</button>
+                        : <button onClick={player.pause} title="Pause" className={iconButtonClassName}>pause</button>}
+                    <button onClick={player.skip} disabled={state.queued === 0} title="Next" className={iconButtonClassName}>skip_next</button>
+                    <select value={state.rate} onChange={(e) => player.setRate(Number(e.target.value))} title="Playback speed" className="rounded border-border-light bg-transparent py-0 pl-1 pr-6 text-xs dark:border-border-dark">
+                        {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+                    </select>
+                </>
+            )}
+            <button onClick={player.stop} title={isActive ? 'Stop' : 'Dismiss'} className={iconButtonClassName}>{isActive ? 'stop' : 'close'}</button>
+        </div>
+    );
+};
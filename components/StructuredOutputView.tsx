@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+
+interface StructuredOutputViewProps {
+    value: unknown; // The parsed reply
+    errors: string[]; // Where it doesn't match the agent's schema
+}
+
+type OutputView = 'table' | 'json';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const formatCell = (value: unknown) =>
+    value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const cellClass = "border border-border-light px-2 py-1 align-top dark:border-border-dark";
+
+// Arrays of objects become one row per item; objects become key/value rows. Nested values are shown as JSON.
+const OutputTable = ({ value }: { value: unknown }) => {
+    if (Array.isArray(value) && value.every(isRecord)) {
+        const columns = [...new Set(value.flatMap(item => Object.keys(item)))];
+        return (
+            <table className="w-full border-collapse text-xs">
+                <thead>
+                    <tr>{columns.map(column => <th key={column} className={`${cellClass} text-left font-medium`}>{column}</th>)}</tr>
+                </thead>
+                <tbody>
+                    {value.map((item, i) => <tr key={i}>{columns.map(column => <td key={column} className={cellClass}>{formatCell(item[column])}</td>)}</tr>)}
+                </tbody>
+            </table>
+        );
+    }
+    const rows: [string, unknown][] = isRecord(value) ? Object.entries(value) : Array.isArray(value) ? value.map((item, i) => [String(i), item]) : [['value', value]];
+    return (
+        <table className="w-full border-collapse text-xs">
+            <tbody>
+                {rows.map(([key, item]) => (
+                    <tr key={key}>
+                        <th className={`${cellClass} w-1/4 text-left font-medium`}>{key}</th>
+                        <td className={cellClass}>{Array.isArray(item) && item.length > 0 && item.every(isRecord) ? <OutputTable value={item} /> : formatCell(item)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
+
+/** A structured reply as a collapsible table or JSON, with any schema mismatches listed. */
+export const StructuredOutputView = ({ value, errors }: StructuredOutputViewProps) => {
+    const [view, setView] = useState<OutputView>('table');
+    return (
+        <details open className="rounded-md border border-border-light dark:border-border-dark">
+            <summary className="flex cursor-pointer items-center gap-2 px-2 py-1 text-xs font-medium">
+                <span className="material-symbols-outlined text-sm">data_object</span>Structured output
+                {errors.length > 0 && <span className="text-red-500">· doesn't match the schema</span>}
+                <span className="ml-auto flex gap-1" onClick={(e) => e.preventDefault()}>
+                    {(['table', 'json'] as OutputView[]).map(option => (
+                        <button key={option} onClick={() => setView(option)} className={`rounded px-1.5 ${view === option ? 'bg-primary/10 text-primary' : 'hover:bg-primary/5'}`}>{option === 'table' ? 'Table' : 'JSON'}</button>
+                    ))}
+                </span>
+            </summary>
+            <div className="max-h-96 overflow-auto border-t border-border-light p-2 dark:border-border-dark">
+                {view === 'table'
+                    ? <OutputTable value={value} />
+                    : <pre className="whitespace-pre-wrap font-mono text-xs">{JSON.stringify(value, null, 2)}</pre>}
+            </div>
+            {errors.length > 0 && (
+                <ul className="border-t border-border-light px-2 py-1 text-xs text-red-500 dark:border-border-dark">
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+            )}
+        </details>
+    );
+};
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Agent, TeamConfig, TeamStrategy } from '../types';
+import { DEFAULT_TEAM_MAX_TURNS, MAX_TEAM_MAX_TURNS } from '../services/team';
+
+interface TeamChatDialogProps {
+    agents: Agent[];
+    initialTeam?: TeamConfig; // Editing an existing team chat
+    onSave: (team: TeamConfig, title: string) => void;
+    onCancel: () => void;
+}
+
+const STRATEGY_LABELS: Record<TeamStrategy, { label: string; description: string }> = {
+    pipeline: { label: 'Pipeline', description: 'Every member answers once, in order, building on the previous replies.' },
+    coordinator: { label: 'Coordinator', description: 'A coordinator agent picks who answers next until the request is done.' },
+};
+
+export const TeamChatDialog = ({ agents, initialTeam, onSave, onCancel }: TeamChatDialogProps) => {
+    const [title, setTitle] = useState('');
+    const [memberIds, setMemberIds] = useState<string[]>(initialTeam?.agentIds ?? []);
+    const [strategy, setStrategy] = useState<TeamStrategy>(initialTeam?.strategy ?? 'pipeline');
+    const [coordinatorId, setCoordinatorId] = useState(initialTeam?.coordinatorId ?? '');
+    const [maxTurns, setMaxTurns] = useState(initialTeam?.maxTurns ?? DEFAULT_TEAM_MAX_TURNS);
+    const [error, setError] = useState<string | null>(null);
+
+    const toggleMember = (agentId: string, isChecked: boolean) =>
+        setMemberIds(isChecked ? [...memberIds, agentId] : memberIds.filter(id => id !== agentId));
+
+    const moveMember = (index: number, offset: number) => {
+        const next = [...memberIds];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        setMemberIds(next);
+    };
+
+    const handleSave = () => {
+        if (memberIds.length < 2) {
+            setError('Pick at least two agents.');
+            return;
+        }
+        if (!Number.isInteger(maxTurns) || maxTurns < 1 || maxTurns > MAX_TEAM_MAX_TURNS) {
+            setError(`The turn limit must be between 1 and ${MAX_TEAM_MAX_TURNS}.`);
+            return;
+        }
+        onSave({
+            agentIds: memberIds,
+            strategy: strategy,
+            ...(strategy === 'coordinator' && coordinatorId && { coordinatorId }),
+            maxTurns: maxTurns,
+        }, title.trim());
+    };
+
+    const memberAgents = memberIds.map(id => agents.find(a => a.id === id)).filter((agent): agent is Agent => !!agent);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-lg bg-surface-light dark:bg-surface-dark p-6 shadow-xl">
+                <h3 className="text-lg font-semibold">{initialTeam ? 'Team settings' : 'New team chat'}</h3>
+                <div className="mt-4 space-y-4">
+                    {!initialTeam && (
+                        <div>
+                            <label className="text-sm font-medium">Title (optional)</label>
+                            <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Generated from the first exchange" className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+                        </div>
+                    )}
+                    <div>
+                        <h5 className="text-sm font-medium mb-2">Members</h5>
+                        <div className="space-y-2">
+                            {agents.map(agent => (
+                                <label key={agent.id} className="flex items-center gap-2 text-sm">
+                                    <input type="checkbox" className="rounded text-primary focus:ring-primary/50" checked={memberIds.includes(agent.id)} onChange={(e) => toggleMember(agent.id, e.target.checked)} />
+                                    <img src={agent.avatar} alt="" className="h-5 w-5 rounded-full object-cover" />
+                                    {agent.name}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <h5 className="text-sm font-medium mb-2">Strategy</h5>
+                        <div className="space-y-2">
+                            {(Object.keys(STRATEGY_LABELS) as TeamStrategy[]).map(key => (
+                                <label key={key} className="flex items-start gap-2 text-sm">
+                                    <input type="radio" name="team-strategy" className="mt-0.5 text-primary focus:ring-primary/50" checked={strategy === key} onChange={() => setStrategy(key)} />
+                                    <span><span className="font-medium">{STRATEGY_LABELS[key].label}</span> <span className="text-gray-500 dark:text-gray-400">— {STRATEGY_LABELS[key].description}</span></span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    {strategy === 'pipeline' && memberAgents.length > 1 && (
+                        <div>
+                            <h5 className="text-sm font-medium mb-2">Order</h5>
+                            <ol className="space-y-1">
+                                {memberAgents.map((agent, index) => (
+                                    <li key={agent.id} className="flex items-center gap-2 rounded-md border border-border-light dark:border-border-dark px-2 py-1 text-sm">
+                                        <span className="w-4 text-gray-500 dark:text-gray-400">{index + 1}.</span>
+                                        <span className="flex-1">{agent.name}</span>
+                                        <button type="button" disabled={index === 0} onClick={() => moveMember(index, -1)} className="material-symbols-outlined rounded p-0.5 text-base hover:bg-primary/10 disabled:opacity-30" title="Move up">arrow_upward</button>
+                                        <button type="button" disabled={index === memberAgents.length - 1} onClick={() => moveMember(index, 1)} className="material-symbols-outlined rounded p-0.5 text-base hover:bg-primary/10 disabled:opacity-30" title="Move down">arrow_downward</button>
+                                    </li>
+                                ))}
+                            </ol>
+                        </div>
+                    )}
+                    {strategy === 'coordinator' && (
+                        <div>
+                            <label className="text-sm font-medium">Coordinator</label>
+                            <select value={coordinatorId} onChange={(e) => setCoordinatorId(e.target.value)} className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark">
+                                <option value="">First member</option>
+                                {agents.map(agent => <option key={agent.id} value={agent.id}>{agent.name}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    <div>
+                        <label className="text-sm font-medium">Max agent turns per message</label>
+                        <input type="number" min={1} max={MAX_TEAM_MAX_TURNS} value={maxTurns} onChange={(e) => setMaxTurns(Number(e.target.value))} className="mt-1 w-24 rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Stops agent-to-agent handoffs from looping forever.</p>
+                    </div>
+                    {error && <p className="text-sm text-red-500">{error}</p>}
+                    <div className="flex items-center justify-end gap-2">
+                        <button onClick={onCancel} className="rounded-md px-3 py-1 text-sm hover:bg-primary/10">Cancel</button>
+                        <button onClick={handleSave} className="rounded-md bg-primary px-3 py-1 text-sm text-white">{initialTeam ? 'Save' : 'Create'}</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { PromptTemplate, TemplateVariable } from '../types';
+import { checkTemplateValues, fillTemplate, initialTemplateValues } from '../services/templates';
+
+interface TemplateFillDialogProps {
+    template: PromptTemplate;
+    onInsert: (text: string) => void;
+    onCancel: () => void;
+}
+
+const inputClassName = 'mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark';
+
+/** Asks for the template's variables, previews the filled prompt and hands it to the composer. */
+export const TemplateFillDialog = ({ template, onInsert, onCancel }: TemplateFillDialogProps) => {
+    const [values, setValues] = useState(() => initialTemplateValues(template));
+    const [showErrors, setShowErrors] = useState(false);
+    const errors = checkTemplateValues(template, values);
+
+    const handleInsert = () => {
+        if (Object.keys(errors).length > 0) {
+            setShowErrors(true);
+            return;
+        }
+        onInsert(fillTemplate(template, values));
+    };
+
+    const renderInput = (variable: TemplateVariable) => {
+        const value = values[variable.name] ?? '';
+        const setValue = (next: string) => setValues({ ...values, [variable.name]: next });
+        switch (variable.type) {
+            case 'multiline': return <textarea value={value} onChange={(e) => setValue(e.target.value)} rows={4} className={inputClassName} />;
+            case 'number': return <input type="number" value={value} onChange={(e) => setValue(e.target.value)} className={inputClassName} />;
+            case 'choice': return (
+                <select value={value} onChange={(e) => setValue(e.target.value)} className={inputClassName}>
+                    <option value="">Choose…</option>
+                    {variable.options?.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+            );
+            default: return <input value={value} onChange={(e) => setValue(e.target.value)} className={inputClassName} />;
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-lg bg-surface-light dark:bg-surface-dark p-6 shadow-xl">
+                <h3 className="text-lg font-semibold">{template.name}</h3>
+                {template.description && <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{template.description}</p>}
+                <div className="mt-4 space-y-3">
+                    {template.variables.map(variable => (
+                        <div key={variable.name}>
+                            <label className="text-sm font-medium">{variable.label || variable.name}{variable.optional && <span className="font-normal text-gray-500 dark:text-gray-400"> (optional)</span>}</label>
+                            {renderInput(variable)}
+                            {showErrors && errors[variable.name] && <p className="mt-1 text-xs text-red-500">{variable.label || variable.name} {errors[variable.name]}.</p>}
+                        </div>
+                    ))}
+                </div>
+                <div className="mt-4">
+                    <label className="text-sm font-medium">Preview</label>
+                    <p className="mt-1 max-h-48 overflow-y-auto whitespace-pre-wrap rounded-md bg-primary/5 p-2 text-sm">{fillTemplate(template, values)}</p>
+                    {(template.model || !!template.attachments?.length) && (
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                            {[template.model && `Replies with ${template.model}`, template.attachments?.length && `attaches ${template.attachments.map(a => a.name).join(', ')}`].filter(Boolean).join('; ')}
+                        </p>
+                    )}
+                </div>
+                <div className="mt-6 flex justify-end gap-2">
+                    <button onClick={onCancel} className="rounded-md px-3 py-1 text-sm hover:bg-primary/10">Cancel</button>
+                    <button onClick={handleInsert} className="rounded-md bg-primary px-3 py-1 text-sm text-white">Insert</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { Agent, Attachment, PromptTemplate, TemplateVariable } from '../types';
+import { ScopedTemplate, TEMPLATE_VARIABLE_TYPES, createTemplateAttachment, findPlaceholders, syncTemplateVariables, validatePromptTemplate } from '../services/templates';
+import { ValidationError, formatValidationErrors } from '../services/jsonSchema';
+import { formatFileSize } from '../services/attachments';
+import { MODEL_CATALOG } from '../services/models';
+
+interface TemplateLibraryModalProps {
+    agent: Agent; // Whose templates are shown next to the global ones
+    templates: ScopedTemplate[];
+    onSave: (template: PromptTemplate, agentId?: string) => void;
+    onDelete: (entry: ScopedTemplate) => void;
+    onClose: () => void;
+}
+
+interface TemplateDraft {
+    id: string;
+    name: string;
+    description: string;
+    scope: 'global' | 'agent';
+    text: string;
+    variables: TemplateVariable[];
+    model: string; // Empty to use the agent's model
+    attachments: Attachment[];
+}
+
+const newDraft = (): TemplateDraft => ({
+    id: `tpl${Date.now()}`,
+    name: '',
+    description: '',
+    scope: 'agent',
+    text: 'Summarize {{topic}} for {{audience}}.',
+    variables: syncTemplateVariables('Summarize {{topic}} for {{audience}}.', []),
+    model: '',
+    attachments: [],
+});
+
+const toDraft = ({ template, agentId }: ScopedTemplate): TemplateDraft => ({
+    id: template.id,
+    name: template.name,
+    description: template.description ?? '',
+    scope: agentId ? 'agent' : 'global',
+    text: template.text,
+    variables: template.variables,
+    model: template.model ?? '',
+    attachments: template.attachments ?? [],
+});
+
+const inputClassName = 'mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark';
+
+export const TemplateLibraryModal = ({ agent, templates, onSave, onDelete, onClose }: TemplateLibraryModalProps) => {
+    const [draft, setDraft] = useState<TemplateDraft | null>(null);
+    const [errors, setErrors] = useState<ValidationError[]>([]);
+
+    const openDraft = (next: TemplateDraft | null) => {
+        setDraft(next);
+        setErrors([]);
+    };
+
+    // Variables follow the placeholders typed into the text.
+    const handleTextChange = (text: string) => setDraft({ ...draft!, text, variables: syncTemplateVariables(text, draft!.variables) });
+
+    const updateVariable = (name: string, changes: Partial<TemplateVariable>) =>
+        setDraft({ ...draft!, variables: draft!.variables.map(v => v.name === name ? { ...v, ...changes } : v) });
+
+    const handleAddFiles = async (files: File[]) => {
+        const added = await Promise.all(files.map((file, i) => createTemplateAttachment(file, `tplfile${Date.now()}-${i}`)));
+        setDraft(current => current && { ...current, attachments: [...current.attachments, ...added] });
+    };
+
+    const handleSave = () => {
+        if (!draft) return;
+        const template: PromptTemplate = {
+            id: draft.id,
+            name: draft.name.trim(),
+            ...(draft.description.trim() && { description: draft.description.trim() }),
+            text: draft.text,
+            variables: draft.variables.map(v => ({
+                name: v.name,
+                type: v.type,
+                ...(v.label?.trim() && { label: v.label.trim() }),
+                ...(v.default?.trim() && { default: v.default.trim() }),
+                ...(v.type === 'choice' && { options: (v.options ?? []).map(o => o.trim()).filter(Boolean) }),
+                ...(v.optional && { optional: true }),
+            })),
+            ...(draft.model.trim() && { model: draft.model.trim() }),
+            ...(draft.attachments.length > 0 && { attachments: draft.attachments }),
+        };
+        const validationErrors = validatePromptTemplate(template, templates.map(entry => entry.template));
+        if (validationErrors.length > 0) {
+            setErrors(validationErrors);
+            return;
+        }
+        onSave(template, draft.scope === 'agent' ? agent.id : undefined);
+        openDraft(null);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-surface-light dark:bg-surface-dark p-6 shadow-xl">
+                <h3 className="text-lg font-semibold">Prompt templates</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Write <code>{'{{name}}'}</code> where a value goes; you fill the values in before the prompt is inserted. Global templates are offered to every agent.</p>
+
+                {draft ? (
+                    <div className="mt-4 space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="text-sm font-medium">Name</label>
+                                <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Weekly summary" className={inputClassName} />
+                            </div>
+                            <div>
+                                <label className="text-sm font-medium">Available to</label>
+                                <select value={draft.scope} onChange={(e) => setDraft({ ...draft, scope: e.target.value as TemplateDraft['scope'] })} className={inputClassName}>
+                                    <option value="agent">{agent.name} only</option>
+                                    <option value="global">All agents</option>
+                                </select>
+                            </div>
+                        </div>
+                        <div>
+                            <label className="text-sm font-medium">Description</label>
+                            <input value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="Shown in the template picker" className={inputClassName} />
+                        </div>
+                        <div>
+                            <label className="text-sm font-medium">Prompt</label>
+                            <textarea value={draft.text} onChange={(e) => handleTextChange(e.target.value)} rows={6} className={inputClassName} />
+                        </div>
+                        {draft.variables.length > 0 && (
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Variables</label>
+                                {draft.variables.map(variable => (
+                                    <div key={variable.name} className="grid grid-cols-[8rem_7rem_1fr_1fr_auto] items-center gap-2 text-sm">
+                                        <code className="truncate" title={variable.name}>{variable.name}</code>
+                                        <select value={variable.type} onChange={(e) => updateVariable(variable.name, { type: e.target.value as TemplateVariable['type'] })} className="rounded-md border-border-light bg-surface-subtle-light p-1 text-sm dark:border-border-dark dark:bg-surface-subtle-dark">
+                                            {TEMPLATE_VARIABLE_TYPES.map(({ type, label }) => <option key={type} value={type}>{label}</option>)}
+                                        </select>
+                                        <input value={variable.label ?? ''} onChange={(e) => updateVariable(variable.name, { label: e.target.value })} placeholder="Label" className="rounded-md border-border-light bg-surface-subtle-light p-1 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+                                        <input value={variable.default ?? ''} onChange={(e) => updateVariable(variable.name, { default: e.target.value })} placeholder="Default" className="rounded-md border-border-light bg-surface-subtle-light p-1 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+                                        <label className="flex items-center gap-1 text-xs"><input type="checkbox" checked={!!variable.optional} onChange={(e) => updateVariable(variable.name, { optional: e.target.checked })} />Optional</label>
+                                        {variable.type === 'choice' && (
+                                            <input value={(variable.options ?? []).join(', ')} onChange={(e) => updateVariable(variable.name, { options: e.target.value.split(',').map(o => o.trimStart()) })} placeholder="Options, separated by commas" className="col-span-3 col-start-3 rounded-md border-border-light bg-surface-subtle-light p-1 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        <div>
+                            <label className="text-sm font-medium">Model</label>
+                            <input value={draft.model} onChange={(e) => setDraft({ ...draft, model: e.target.value })} list="template-models" placeholder="The agent's model" className={inputClassName} />
+                            <datalist id="template-models">
+                                {MODEL_CATALOG.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+                            </datalist>
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Used for the next reply only.</p>
+                        </div>
+                        <div>
+                            <div className="flex items-center justify-between">
+                                <label className="text-sm font-medium">Files</label>
+                                <label className="flex cursor-pointer items-center gap-1 rounded-md px-2 py-1 text-sm text-primary hover:bg-primary/10">
+                                    <span className="material-symbols-outlined text-base">attach_file</span>Add files
+                                    <input type="file" multiple className="hidden" onChange={(e) => { handleAddFiles(Array.from<File>(e.target.files ?? [])); e.target.value = ''; }} />
+                                </label>
+                            </div>
+                            {draft.attachments.length > 0 ? (
+                                <ul className="mt-1 space-y-1">
+                                    {draft.attachments.map(attachment => (
+                                        <li key={attachment.id} className="flex items-center gap-2 rounded-md border border-border-light px-2 py-1 text-sm dark:border-border-dark">
+                                            <span className="flex-1 truncate">{attachment.name}</span>
+                                            <span className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(attachment.size)}</span>
+                                            <button onClick={() => setDraft({ ...draft, attachments: draft.attachments.filter(a => a.id !== attachment.id) })} className="material-symbols-outlined text-sm text-red-500" title="Remove">close</button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            ) : (
+                                <p className="text-xs text-gray-500 dark:text-gray-400">Files added here are attached whenever the template is used.</p>
+                            )}
+                        </div>
+                        {errors.length > 0 && <pre className="whitespace-pre-wrap rounded-md bg-red-500/10 p-2 text-xs text-red-500">{formatValidationErrors(errors)}</pre>}
+                        <div className="flex items-center justify-end gap-2">
+                            <button onClick={() => openDraft(null)} className="rounded-md px-3 py-1 text-sm hover:bg-primary/10">Back</button>
+                            <button onClick={handleSave} className="rounded-md bg-primary px-3 py-1 text-sm text-white">Save template</button>
+                        </div>
+                    </div>
+                ) : (
+                    <>
+                        {templates.length === 0 ? (
+                            <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">No templates yet.</p>
+                        ) : (
+                            <ul className="mt-4 divide-y divide-border-light dark:divide-border-dark">
+                                {templates.map(entry => (
+                                    <li key={entry.template.id} className="flex items-start gap-3 py-2">
+                                        <div className="min-w-0 flex-1">
+                                            <p className="text-sm font-medium">
+                                                {entry.template.name}
+                                                <span className="ml-2 rounded-full bg-primary/10 px-2 py-0.5 text-xs text-primary">{entry.agentId ? agent.name : 'Global'}</span>
+                                            </p>
+                                            {entry.template.description && <p className="text-xs text-gray-500 dark:text-gray-400">{entry.template.description}</p>}
+                                            <p className="truncate font-mono text-xs text-gray-500 dark:text-gray-400">{findPlaceholders(entry.template.text).map(name => `{{${name}}}`).join(' ') || entry.template.text}</p>
+                                        </div>
+                                        <div className="flex gap-1">
+                                            <button onClick={() => openDraft(toDraft(entry))} className="material-symbols-outlined rounded p-1 text-base hover:bg-primary/10" title="Edit">edit</button>
+                                            <button onClick={() => onDelete(entry)} className="material-symbols-outlined rounded p-1 text-base text-red-500 hover:bg-red-500/10" title="Delete">delete</button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        <div className="mt-4 flex items-center justify-between">
+                            <button onClick={() => openDraft(newDraft())} className="flex items-center gap-1 rounded-md px-2 py-1 text-sm text-primary hover:bg-primary/10"><span className="material-symbols-outlined text-base">add</span>New template</button>
+                            <button onClick={onClose} className="rounded-md px-3 py-1 text-sm hover:bg-primary/10">Close</button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
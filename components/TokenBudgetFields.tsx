@@ -0,0 +1,34 @@
+import React from 'react';
+import { TokenBudget } from '../types';
+import { BUDGET_WARNING_RATIO } from '../services/usage';
+
+interface TokenBudgetFieldsProps {
+    budget?: TokenBudget;
+    onChange: (budget: TokenBudget | undefined) => void; // Undefined once both limits are cleared
+}
+
+const PERIODS: { key: keyof TokenBudget; label: string }[] = [
+    { key: 'daily', label: 'Daily token budget' },
+    { key: 'monthly', label: 'Monthly token budget' },
+];
+
+export const TokenBudgetFields = ({ budget, onChange }: TokenBudgetFieldsProps) => {
+    const update = (key: keyof TokenBudget, value: string) => {
+        const limit = Math.floor(Number(value));
+        const next = { ...budget, [key]: value && limit > 0 ? limit : undefined };
+        onChange(next.daily || next.monthly ? next : undefined);
+    };
+    return (
+        <div className="grid grid-cols-2 gap-2">
+            {PERIODS.map(({ key, label }) => (
+                <div key={key}>
+                    <label className="text-sm font-medium">{label}</label>
+                    <input type="number" min={1} value={budget?.[key] ?? ''} onChange={(e) => update(key, e.target.value)} placeholder="No limit" className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+                </div>
+            ))}
+            <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400">
+                Counts prompt, output and thinking tokens of this agent's replies, images, read-aloud and live conversations. You're warned at {BUDGET_WARNING_RATIO * 100}% and sends are blocked at the limit.
+            </p>
+        </div>
+    );
+};
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { ToolDefinition, validateToolDefinition } from '../services/tools';
+import { ValidationError, formatValidationErrors } from '../services/jsonSchema';
+
+interface ToolManagerModalProps {
+    registry: ToolDefinition[];
+    onSave: (tool: ToolDefinition, originalName?: string) => void;
+    onDelete: (toolName: string) => void;
+    onClose: () => void;
+}
+
+interface ToolDraft {
+    originalName?: string; // Set when editing an existing tool
+    name: string;
+    description: string;
+    parameters: string; // JSON text
+    handlerSource: string;
+}
+
+const NEW_TOOL_DRAFT: ToolDraft = {
+    name: '',
+    description: '',
+    parameters: JSON.stringify({
+        type: 'object',
+        properties: { text: { type: 'string', description: 'The text to process' } },
+        required: ['text'],
+    }, null, 2),
+    handlerSource: '(args, context) => {\n    // Runs in a sandboxed worker. Return any JSON-serializable value; throw to report an error.\n    return { length: args.text.length };\n}',
+};
+
+const toDraft = (tool: ToolDefinition): ToolDraft => ({
+    originalName: tool.name,
+    name: tool.name,
+    description: tool.description,
+    parameters: JSON.stringify(tool.parameters, null, 2),
+    handlerSource: tool.handlerSource,
+});
+
+export const ToolManagerModal = ({ registry, onSave, onDelete, onClose }: ToolManagerModalProps) => {
+    const [draft, setDraft] = useState<ToolDraft | null>(null);
+    const [errors, setErrors] = useState<ValidationError[]>([]);
+
+    const openDraft = (next: ToolDraft | null) => {
+        setDraft(next);
+        setErrors([]);
+    };
+
+    const handleSave = () => {
+        if (!draft) return;
+        let parameters;
+        try {
+            parameters = JSON.parse(draft.parameters);
+        } catch (e) {
+            setErrors([{ path: 'parameters', message: `is not valid JSON: ${(e as Error).message}` }]);
+            return;
+        }
+        const tool: ToolDefinition = { name: draft.name.trim(), description: draft.description.trim(), parameters, handlerSource: draft.handlerSource.trim() };
+        const validationErrors = validateToolDefinition(tool, registry, draft.originalName);
+        if (validationErrors.length > 0) {
+            setErrors(validationErrors);
+            return;
+        }
+        onSave(tool, draft.originalName);
+        openDraft(null);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-surface-light dark:bg-surface-dark p-6 shadow-xl">
+                <h3 className="text-lg font-semibold">Function tools</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Agents with a tool enabled can call it while answering. Handlers run in an isolated worker without access to your chats or storage.</p>
+
+                {draft ? (
+                    <div className="mt-4 space-y-4">
+                        <div>
+                            <label className="text-sm font-medium">Name</label>
+                            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. word_count" className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 font-mono text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+                        </div>
+                        <div>
+                            <label className="text-sm font-medium">Description</label>
+                            <textarea value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="Tell the model when and how to use this tool" rows={2} className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+                        </div>
+                        <div>
+                            <label className="text-sm font-medium">Parameters (JSON Schema)</label>
+                            <textarea value={draft.parameters} onChange={(e) => setDraft({ ...draft, parameters: e.target.value })} rows={8} spellCheck={false} className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 font-mono text-xs dark:border-border-dark dark:bg-surface-subtle-dark" />
+                        </div>
+                        <div>
+                            <label className="text-sm font-medium">Handler</label>
+                            <textarea value={draft.handlerSource} onChange={(e) => setDraft({ ...draft, handlerSource: e.target.value })} rows={8} spellCheck={false} className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 font-mono text-xs dark:border-border-dark dark:bg-surface-subtle-dark" />
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400"><code>context</code> has <code>now</code> (ISO timestamp) and <code>files</code> (the chat's attachments).</p>
+                        </div>
+                        {errors.length > 0 && <pre className="whitespace-pre-wrap rounded-md bg-red-500/10 p-2 text-xs text-red-500">{formatValidationErrors(errors)}</pre>}
+                        <div className="flex items-center justify-end gap-2">
+                            <button onClick={() => openDraft(null)} className="rounded-md px-3 py-1 text-sm hover:bg-primary/10">Back</button>
+                            <button onClick={handleSave} className="rounded-md bg-primary px-3 py-1 text-sm text-white">Save tool</button>
+                        </div>
+                    </div>
+                ) : (
+                    <>
+                        <ul className="mt-4 divide-y divide-border-light dark:divide-border-dark">
+                            {registry.map(tool => (
+                                <li key={tool.name} className="flex items-start gap-3 py-2">
+                                    <div className="flex-1">
+                                        <p className="font-mono text-sm">{tool.name}{tool.builtIn && <span className="ml-2 rounded-full bg-primary/10 px-2 py-0.5 font-sans text-xs text-primary">Built-in</span>}</p>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">{tool.description}</p>
+                                    </div>
+                                    {!tool.builtIn && (
+                                        <div className="flex gap-1">
+                                            <button onClick={() => openDraft(toDraft(tool))} className="material-symbols-outlined rounded p-1 text-base hover:bg-primary/10" title="Edit">edit</button>
+                                            <button onClick={() => onDelete(tool.name)} className="material-symbols-outlined rounded p-1 text-base text-red-500 hover:bg-red-500/10" title="Delete">delete</button>
+                                        </div>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                        <div className="mt-4 flex items-center justify-between">
+                            <button onClick={() => openDraft(NEW_TOOL_DRAFT)} className="flex items-center gap-1 rounded-md px-2 py-1 text-sm text-primary hover:bg-primary/10"><span className="material-symbols-outlined text-base">add</span>New tool</button>
+                            <button onClick={onClose} className="rounded-md px-3 py-1 text-sm hover:bg-primary/10">Close</button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Agent, Chat } from '../types';
+import { DEFAULT_PRICES, ModelPrice, UsageEntry, UsageTotals, dayKey, formatCost, formatTokens, getBudgetStatus, groupUsage, sumUsage } from '../services/usage';
+
+interface UsageDashboardProps {
+    agents: Agent[];
+    chats: Chat[];
+    ledger: UsageEntry[];
+    prices: ModelPrice[];
+    hasCustomPrices: boolean;
+    onSavePrices: (prices: ModelPrice[] | undefined) => void; // Undefined restores the defaults
+    onOpenChat: (chatId: string) => void;
+    onClose: () => void;
+}
+
+type UsageView = 'agent' | 'chat' | 'day';
+
+const VIEW_LABELS: Record<UsageView, string> = { agent: 'By agent', chat: 'By chat', day: 'By day' };
+const VIEW_COLUMNS: Record<UsageView, string> = { agent: 'Agent', chat: 'Chat', day: 'Day' };
+const DAYS_SHOWN = 30;
+const PRICE_FIELDS: { key: keyof Omit<ModelPrice, 'model'>; label: string }[] = [
+    { key: 'input', label: 'Input' },
+    { key: 'cachedInput', label: 'Cached' },
+    { key: 'output', label: 'Output' },
+    { key: 'perImage', label: 'Per image' },
+];
+
+const STATUS_CLASSES = { ok: '', warning: 'text-amber-500', exceeded: 'text-red-500' };
+
+const UsageRow = ({ label, totals, onClick, note }: { label: string; totals: UsageTotals; onClick?: () => void; note?: React.ReactNode }) => (
+    <tr className="border-t border-border-light dark:border-border-dark">
+        <td className="max-w-48 truncate py-1 pr-3">
+            {onClick ? <button onClick={onClick} className="truncate text-left text-primary hover:underline">{label}</button> : label}
+            {note}
+        </td>
+        <td className="py-1 pr-3 text-right">{formatTokens(totals.promptTokens)}</td>
+        <td className="py-1 pr-3 text-right">{formatTokens(totals.outputTokens)}</td>
+        <td className="py-1 pr-3 text-right">{formatTokens(totals.thinkingTokens)}</td>
+        <td className="py-1 pr-3 text-right">{formatTokens(totals.cachedTokens)}</td>
+        <td className="py-1 text-right" title={totals.unpricedCalls ? `${totals.unpricedCalls} call(s) to models without a price aren't included` : undefined}>
+            {formatCost(totals.cost)}{totals.unpricedCalls > 0 && '*'}
+        </td>
+    </tr>
+);
+
+/** Token counts and estimated cost per agent, chat and day, with budgets and the editable price table. */
+export const UsageDashboard = ({ agents, chats, ledger, prices, hasCustomPrices, onSavePrices, onOpenChat, onClose }: UsageDashboardProps) => {
+    const [view, setView] = useState<UsageView>('agent');
+    const [priceDraft, setPriceDraft] = useState<ModelPrice[] | null>(null);
+    const totals = sumUsage(ledger, prices);
+
+    const agentName = (id: string) => agents.find(a => a.id === id)?.name ?? chats.find(c => c.agentId === id)?.archivedAgentName ?? 'Deleted agent';
+    const byCost = (rows: { key: string; totals: UsageTotals }[]) => rows.sort((a, b) => b.totals.cost - a.totals.cost || b.totals.calls - a.totals.calls);
+    const groups: Record<UsageView, () => { key: string; totals: UsageTotals }[]> = {
+        agent: () => byCost(groupUsage(ledger, entry => entry.agentId, prices)),
+        chat: () => byCost(groupUsage(ledger, entry => entry.chatId, prices)),
+        day: () => groupUsage(ledger, (entry: UsageEntry) => dayKey(new Date(entry.record.at)), prices).sort((a, b) => b.key.localeCompare(a.key)).slice(0, DAYS_SHOWN),
+    };
+    const rows = groups[view]();
+
+    const renderRow = (key: string, rowTotals: UsageTotals) => {
+        if (view === 'day') return <UsageRow label={key} totals={rowTotals} />;
+        if (view === 'chat') {
+            const chat = chats.find(c => c.id === key);
+            return <UsageRow label={chat?.title ?? 'Deleted chat'} totals={rowTotals} onClick={chat && !chat.archived ? () => onOpenChat(key) : undefined} />;
+        }
+        const agent = agents.find(a => a.id === key);
+        const budget = agent && getBudgetStatus(agent, ledger);
+        return (
+            <UsageRow label={agentName(key)} totals={rowTotals} note={budget && (
+                <span className={`block text-xs ${STATUS_CLASSES[budget.level] || 'text-gray-500 dark:text-gray-400'}`}>
+                    {formatTokens(budget.used)} / {formatTokens(budget.limit)} {budget.period === 'daily' ? 'today' : 'this month'}
+                </span>
+            )} />
+        );
+    };
+
+    const updatePrice = (index: number, changes: Partial<ModelPrice>) =>
+        setPriceDraft(priceDraft!.map((price, i) => i === index ? { ...price, ...changes } : price));
+
+    const savePrices = () => {
+        onSavePrices(priceDraft!.filter(price => price.model.trim()).map(price => ({ ...price, model: price.model.trim() })));
+        setPriceDraft(null);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="max-h-[90vh] w-full max-w-3xl overflow-y-auto rounded-lg bg-surface-light dark:bg-surface-dark p-6 shadow-xl">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-semibold">Usage</h3>
+                    <button onClick={onClose} className="material-symbols-outlined text-sm">close</button>
+                </div>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Tokens the providers reported for every reply, image, read-aloud clip and live turn. Costs are estimates from the price table below.</p>
+
+                <div className="mt-4 grid grid-cols-2 gap-2 text-center sm:grid-cols-5">
+                    {[
+                        ['Calls', String(totals.calls)],
+                        ['Input', formatTokens(totals.promptTokens)],
+                        ['Output', formatTokens(totals.outputTokens)],
+                        ['Thinking', formatTokens(totals.thinkingTokens)],
+                        ['Est. cost', `${formatCost(totals.cost)}${totals.unpricedCalls ? '*' : ''}`],
+                    ].map(([label, value]) => (
+                        <div key={label} className="rounded-md bg-surface-subtle-light p-2 dark:bg-surface-subtle-dark">
+                            <p className="text-xs text-gray-500 dark:text-gray-400">{label}</p>
+                            <p className="text-lg font-semibold">{value}</p>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="mt-4 flex gap-1">
+                    {(Object.keys(VIEW_LABELS) as UsageView[]).map(key => (
+                        <button key={key} onClick={() => setView(key)} className={`rounded-md px-2 py-1 text-sm ${view === key ? 'bg-primary/10 text-primary' : 'hover:bg-primary/5'}`}>{VIEW_LABELS[key]}</button>
+                    ))}
+                </div>
+                {rows.length === 0 ? (
+                    <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">Nothing recorded yet.</p>
+                ) : (
+                    <table className="mt-2 w-full text-sm">
+                        <thead className="text-xs text-gray-500 dark:text-gray-400">
+                            <tr>
+                                <th className="pb-1 text-left font-medium">{VIEW_COLUMNS[view]}</th>
+                                <th className="pb-1 pr-3 text-right font-medium">Input</th>
+                                <th className="pb-1 pr-3 text-right font-medium">Output</th>
+                                <th className="pb-1 pr-3 text-right font-medium">Thinking</th>
+                                <th className="pb-1 pr-3 text-right font-medium">Cached</th>
+                                <th className="pb-1 text-right font-medium">Cost</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(({ key, totals: rowTotals }) => <React.Fragment key={key}>{renderRow(key, rowTotals)}</React.Fragment>)}
+                        </tbody>
+                    </table>
+                )}
+                {totals.unpricedCalls > 0 && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">* Excludes {totals.unpricedCalls} call(s) to models missing from the price table.</p>}
+
+                <hr className="my-4 border-border-light dark:border-border-dark" />
+                <div className="flex items-center justify-between">
+                    <h4 className="font-semibold">Prices <span className="text-xs font-normal text-gray-500 dark:text-gray-400">USD per million tokens</span></h4>
+                    {!priceDraft && <button onClick={() => setPriceDraft(prices.map(price => ({ ...price })))} className="text-sm text-primary hover:underline">Edit</button>}
+                </div>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">End a model name with * to match every model starting with it. Thinking tokens are billed as output.</p>
+                <table className="mt-2 w-full text-sm">
+                    <thead className="text-xs text-gray-500 dark:text-gray-400">
+                        <tr>
+                            <th className="pb-1 text-left font-medium">Model</th>
+                            {PRICE_FIELDS.map(field => <th key={field.key} className="pb-1 pl-2 text-right font-medium">{field.label}</th>)}
+                            {priceDraft && <th />}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {(priceDraft ?? prices).map((price, index) => (
+                            <tr key={index} className="border-t border-border-light dark:border-border-dark">
+                                <td className="py-1">
+                                    {priceDraft
+                                        ? <input value={price.model} onChange={(e) => updatePrice(index, { model: e.target.value })} className="w-full rounded border-border-light bg-surface-subtle-light px-1 py-0.5 font-mono text-xs dark:border-border-dark dark:bg-surface-subtle-dark" />
+                                        : <span className="font-mono text-xs">{price.model}</span>}
+                                </td>
+                                {PRICE_FIELDS.map(({ key }) => (
+                                    <td key={key} className="py-1 pl-2 text-right">
+                                        {priceDraft ? (
+                                            <input
+                                                type="number" min={0} step="any"
+                                                value={price[key] ?? ''}
+                                                onChange={(e) => updatePrice(index, { [key]: e.target.value === '' ? (key === 'input' || key === 'output' ? 0 : undefined) : Number(e.target.value) })}
+                                                className="w-20 rounded border-border-light bg-surface-subtle-light px-1 py-0.5 text-right text-xs dark:border-border-dark dark:bg-surface-subtle-dark"
+                                            />
+                                        ) : (price[key] ?? '—')}
+                                    </td>
+                                ))}
+                                {priceDraft && (
+                                    <td className="py-1 pl-2 text-right">
+                                        <button onClick={() => setPriceDraft(priceDraft.filter((_, i) => i !== index))} title="Remove" className="material-symbols-outlined text-sm text-red-500">delete</button>
+                                    </td>
+                                )}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {priceDraft ? (
+                    <div className="mt-3 flex items-center gap-2">
+                        <button onClick={() => setPriceDraft([...priceDraft, { model: '', input: 0, output: 0 }])} className="flex items-center gap-1 rounded-md px-2 py-1 text-sm text-primary hover:bg-primary/10"><span className="material-symbols-outlined text-base">add</span>Add model</button>
+                        <button onClick={() => setPriceDraft(DEFAULT_PRICES.map(price => ({ ...price })))} className="rounded-md px-2 py-1 text-sm hover:bg-primary/10">Load defaults</button>
+                        <button onClick={() => setPriceDraft(null)} className="ml-auto rounded-md px-3 py-1 text-sm hover:bg-primary/10">Cancel</button>
+                        <button onClick={savePrices} className="rounded-md bg-primary px-3 py-1 text-sm text-white">Save prices</button>
+                    </div>
+                ) : hasCustomPrices && (
+                    <button onClick={() => onSavePrices(undefined)} className="mt-3 rounded-md px-2 py-1 text-sm text-primary hover:bg-primary/10">Reset to default prices</button>
+                )}
+            </div>
+        </div>
+    );
+};
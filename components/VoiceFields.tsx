@@ -0,0 +1,33 @@
+import React from 'react';
+import { Agent } from '../types';
+import { DEFAULT_VOICE, GEMINI_VOICES } from '../constants';
+
+interface VoiceFieldsProps {
+    agent: Agent;
+    onChange: (config: Partial<Agent['config']>) => void;
+}
+
+/** Voice and speaking style for read-aloud and live conversations; shared by the agent form and the details panel. */
+export const VoiceFields = ({ agent, onChange }: VoiceFieldsProps) => {
+    const isGemini = (agent.config.provider?.kind ?? 'gemini') === 'gemini';
+    return (
+        <div className="grid grid-cols-2 gap-2">
+            <div>
+                <label className="text-sm font-medium">Voice</label>
+                {isGemini ? (
+                    <select value={agent.config.voiceName ?? ''} onChange={(e) => onChange({ voiceName: e.target.value || undefined })} className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark">
+                        <option value="">Default ({DEFAULT_VOICE})</option>
+                        {GEMINI_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                    </select>
+                ) : (
+                    <input value={agent.config.voiceName ?? ''} onChange={(e) => onChange({ voiceName: e.target.value.trim() || undefined })} placeholder="alloy" className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+                )}
+            </div>
+            <div>
+                <label className="text-sm font-medium">Speaking style</label>
+                <input value={agent.config.speechStyle ?? ''} onChange={(e) => onChange({ speechStyle: e.target.value || undefined })} placeholder="e.g. Say calmly and warmly" className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark" />
+            </div>
+            <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400">Used when replies are read aloud{isGemini && ' and in live voice conversations'}.</p>
+        </div>
+    );
+};
@@ -0,0 +1,25 @@
+// --- SHARED CONFIG ---
+export const ALL_CAPABILITIES = {
+    'Web Search': { googleSearch: {} },
+    'Maps': { googleMaps: {} },
+};
+
+export const DEFAULT_CHAT_TITLE = 'New chat';
+
+// Prebuilt Gemini voices, shared by live conversations and speech generation.
+export const GEMINI_VOICES = [
+    'Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Leda', 'Orus', 'Aoede', 'Callirrhoe', 'Autonoe',
+    'Enceladus', 'Iapetus', 'Umbriel', 'Algieba', 'Despina', 'Erinome', 'Algenib', 'Rasalgethi', 'Laomedeia', 'Achernar',
+    'Alnilam', 'Schedar', 'Gacrux', 'Pulcherrima', 'Achird', 'Zubenelgenubi', 'Vindemiatrix', 'Sadachbia', 'Sadaltager', 'Sulafat',
+];
+export const DEFAULT_VOICE = 'Zephyr';
+
+export const isCapabilityEnabled = (tools: any[] | undefined, capabilityName: keyof typeof ALL_CAPABILITIES) =>
+    !!tools?.some(tool => JSON.stringify(tool) === JSON.stringify(ALL_CAPABILITIES[capabilityName]));
+
+// Simple SVG avatar with the agent's initials, used when no image is uploaded or generated.
+export const createInitialsAvatar = (name: string) => {
+    const initials = name.split(/\s+/).filter(Boolean).slice(0, 2).map(word => word[0].toUpperCase()).join('') || '?';
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="96" height="96"><rect width="96" height="96" fill="#3B82F6"/><text x="50%" y="50%" dy=".35em" text-anchor="middle" font-family="Inter, sans-serif" font-size="40" fill="#fff">${initials}</text></svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
@@ -1,61 +1,67 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useSyncExternalStore } from 'react';
 import { createRoot } from 'react-dom/client';
-// Fix: Removed LiveSession from import as it is not an exported member.
-import { GoogleGenAI, LiveServerMessage, Modality, Blob, GenerateContentResponse, Part } from "@google/genai";
-
-// --- TYPES AND INTERFACES ---
-type AgentStatus = 'Active' | 'Online' | 'Busy' | 'Offline';
-interface Agent {
-    id: string;
-    name: string;
-    avatar: string;
-    status: AgentStatus;
-    capabilities: string[];
-    config: {
-        systemInstruction: string;
-        model: string;
-        tools?: any[];
-        modelConfig?: any;
-    };
-}
-interface Message {
-    id: string;
-    sender: 'You' | string; // Agent name or 'You'
-    text?: string;
-    image?: string; // base64 image data URL
-    groundingChunks?: any[];
-    isThinking?: boolean;
-}
-interface Chat {
-    id: string;
-    title: string;
-    agentId: string;
-    messages: Message[];
-}
-interface TaskStatus {
-    title: string;
-    step: string;
-}
-// Fix: Added a local interface for the LiveSession object returned by ai.live.connect().
-interface LiveSession {
-    close: () => void;
-    sendRealtimeInput: (input: { media: Blob }) => void;
-}
-
+import { Part, Content, FunctionCall, GenerateContentResponse } from "@google/genai";
+import { Agent, AgentStatus, Message, Chat, ChatSummary, ToolStep, TeamConfig, ImageGeneration, MessageError, UsageRecord, KnowledgeSource, PromptTemplate, ScheduledJob, JobRun } from "./types";
+import { ALL_CAPABILITIES, DEFAULT_CHAT_TITLE } from "./constants";
+import { prepareHistory, summarizeChat, getConversationMessages, urlToGenerativePart } from "./services/history";
+import { mergeStreamChunk } from "./services/streaming";
+import { loadState, saveAttachment, pruneAttachments, createDebouncedSaver, pruneKnowledge, loadKnowledgeChunk, loadKnowledgeFile } from "./services/storage";
+import { generateChatTitle } from "./services/titles";
+import { getProvider, getAgentProvider, getGeminiClient, isGeminiAgent, PROVIDER_LABELS, getAccessToken, setAccessToken } from "./services/providers";
+import { AgentFormModal } from "./components/AgentFormModal";
+import { ImportAgentsDialog } from "./components/ImportAgentsDialog";
+import { createAgentManifest, createAgentBundle, parseAgentManifest } from "./services/manifest";
+import { ValidationError } from "./services/jsonSchema";
+import { createChatTranscript, parseChatTranscript, chatFromTranscript, createChatMarkdown, createChatHtml, groundingChunkLink, ChatTranscript, ChatExportFormat } from "./services/transcripts";
+import { downloadFile, toFileName } from "./utils/files";
+import { MAX_TOOL_ROUNDS, ToolDefinition, buildToolContext, executeToolCall, getToolRegistry, toFunctionDeclarations } from "./services/tools";
+import { ToolManagerModal } from "./components/ToolManagerModal";
+import { CommandParseResult, validateAgentCommands, expandAgentCommand, findAgentByName, formatCommandHelp, formatCommandList, formatCommandUsage, getCommandRegistry, getCommandSuggestions, parseCommand } from "./services/commands";
+import { CommandSuggestionList } from "./components/CommandSuggestionList";
+import { buildTeamInstruction, chooseNextSpeaker, getTeamLeadId, getTeamMembers, parseHandoff } from "./services/team";
+import { TeamChatDialog } from "./components/TeamChatDialog";
+import { AgentCommandsEditor } from "./components/AgentCommandsEditor";
+import { MarkdownContent } from "./components/MarkdownContent";
+import { LiveConversation, LiveStatus, LiveTurn, startLiveConversation } from "./services/live";
+import { SpeechItem, createSpeechPlayer, toSpeechText, userVoiceFor, voiceForAgent } from "./services/speech";
+import { SpeechPlayerBar } from "./components/SpeechPlayerBar";
+import { IMAGE_EDIT_MODEL, ImageStudioRequest, defaultImageModelFor, findChatImage, imageVersionLabel, nextImageVersion, toGalleryImage } from "./services/images";
+import { ImageStudio } from "./components/ImageStudio";
+import { attachmentKind, attachmentToPart, checkAttachments, createAttachment, createImageAttachment, formatFileSize, isImageAttachment, resolveMimeType, uploadLargeAttachments } from "./services/attachments";
+import { ATTACHMENT_ICONS, AttachmentPreview } from "./components/AttachmentPreview";
+import { ERROR_DESCRIPTIONS, MAX_RETRIES, classifyError, createReplyError, describeResponseProblem, withRetry } from "./services/errors";
+import { MessageErrorDetails } from "./components/MessageErrorDetails";
+import { DEFAULT_PRICES, ModelPrice, UsageEntry, describeBudget, describeMessageUsage, formatTokens, getBudgetStatus, toUsageRecord, totalTokens, withUsage } from "./services/usage";
+import { UsageDashboard } from "./components/UsageDashboard";
+import { TokenBudgetFields } from "./components/TokenBudgetFields";
+import { KnowledgeMatch, checkKnowledgeFile, createKnowledgeSource, forgetKnowledgeSource, indexKnowledgeSource, parseKnowledgeUri, searchKnowledge, toGroundingChunk, withKnowledgeContext } from "./services/knowledge";
+import { KnowledgePanel } from "./components/KnowledgePanel";
+import { KnowledgePassage, KnowledgePassageDialog } from "./components/KnowledgePassageDialog";
+import { SearchPalette } from "./components/SearchPalette";
+import { forkAt, getSiblingPosition, switchBranch } from "./services/branches";
+import { BranchNavigator } from "./components/BranchNavigator";
+import { MODEL_CATALOG, checkStructuredOutput, describeModelSettings, findModel, generationConfigFor, parseStructuredOutput, validateModelSettings } from "./services/models";
+import { ModelSettingsEditor } from "./components/ModelSettingsEditor";
+import { ProviderFields } from "./components/ProviderFields";
+import { VoiceFields } from "./components/VoiceFields";
+import { StructuredOutputView } from "./components/StructuredOutputView";
+import { TaskHandle, createTaskManager, findChatTask, getAgentStatus, isChatBusy } from "./services/tasks";
+import { HEALTH_CHECK_INTERVAL_MS, ProviderHealth, checkProviderHealth, providerConfigFor, providerKeyFor } from "./services/health";
+import { ActivityDrawer } from "./components/ActivityDrawer";
+import { ScopedTemplate, templateAttachmentsToFiles, templatesFor, upsertTemplate } from "./services/templates";
+import { TemplateLibraryModal } from "./components/TemplateLibraryModal";
+import { TemplateFillDialog } from "./components/TemplateFillDialog";
+import { DueRun, SCHEDULER_TICK_MS, addJobRun, createScheduler, resolveJobPrompt, updateJobRun } from "./services/scheduler";
+import { ScheduledJobsModal } from "./components/ScheduledJobsModal";
+import { AccessTokenDialog } from "./components/AccessTokenDialog";
 
 // --- MOCK DATA & CONFIG ---
-const ALL_CAPABILITIES = {
-    'Web Search': { googleSearch: {} },
-    'Maps': { googleMaps: {} },
-};
-
 const INITIAL_AGENTS: Agent[] = [
     {
         id: 'codemaster',
         name: 'CodeMaster AI',
         avatar: 'https://lh3.googleusercontent.com/aida-public/AB6AXuALt_aSIB4dKeY9rHdYVus6OpWvx4HkG86Vg8qvrpJ1yaaLyrnEJjKin5yiMHWpuLhCb-gu8MIodhDWQmRRq0EqB5wKdQDvpMvLbQmfEVy4gY1fJkf3vyhIbG8ulzxGravEV6rJHm0dA6rUB1p5VSFfnYoO25-4galW0VubBrudfzMZZQYlek7Pp48UzyFLTawEVA_h9QW6qiJH6kQFBSQW1sX7_z-vYdO1jeq_U47qJM7z_7yQqKu1_TExEqmif_xJO-rKZuEQTHV5',
-        status: 'Active',
         capabilities: ['Python', 'Data Analysis', 'File I/O', 'Pandas'],
         config: {
             systemInstruction: "You are CodeMaster AI, an expert software developer specializing in Python and data analysis. Provide clean, efficient, and well-documented code. When asked to perform complex tasks, think step-by-step.",
@@ -67,7 +73,6 @@ const INITIAL_AGENTS: Agent[] = [
         id: 'researchbot',
         name: 'ResearchBot',
         avatar: 'https://lh3.googleusercontent.com/aida-public/AB6AXuCvjJnEi50mTmPxqpYJAVgvh1zI5OprueWZdisbVZKu6ff6aD53VAet7JGlosADJJHUsPfO0w_2fh8j6m-BJn3IWEi77WH5q1UiZvAn1MYxjiL9aj8cKs1DQtndLTsOV1te8eYiQACUH2Lxdn82KVrI9TTvDZ75C2_3J6Q-02CLpUeWd8OldDY2C34PPtz_qVAJRQ5sa028xu3iMQl-rjFxBuaonJ7Cjh7xIvA0_X9YPYd96AwK8MlFs1KuuUiWCgoNY4a4YLe7o4af',
-        status: 'Offline',
         capabilities: ['Web Search', 'Maps'],
         config: {
             systemInstruction: "You are ResearchBot, a helpful assistant that uses Google Search and Google Maps to provide up-to-date and accurate information. Always cite your sources.",
@@ -90,49 +95,39 @@ const INITIAL_CHATS: Chat[] = [
     { id: 'chat2', title: 'Plan for Q3 Marketing', agentId: 'researchbot', messages: [] },
 ];
 
-// --- AUDIO HELPER FUNCTIONS (for Live API) ---
-const encode = (bytes: Uint8Array) => {
-    let binary = '';
-    const len = bytes.byteLength;
-    for (let i = 0; i < len; i++) {
-        binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-}
+const stateSaver = createDebouncedSaver(500);
+const speechPlayer = createSpeechPlayer();
+const taskManager = createTaskManager();
+const jobScheduler = createScheduler();
 
-const decode = (base64: string) => {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
+interface AgentReplyRequest {
+    chatId: string;
+    messageId: string; // Placeholder that receives the streamed reply
+    agent: Agent;
+    contents: Content[];
+    model?: string; // Overrides the agent's model (image edits)
+    systemInstruction?: string; // Overrides the agent's instruction (team chats)
+    conversation: Message[]; // Chat messages so far, for tool context
+    task: TaskHandle; // Shows progress; cancelling it stops the reply
 }
 
-async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): Promise<AudioBuffer> {
-    const dataInt16 = new Int16Array(data.buffer);
-    const frameCount = dataInt16.length / numChannels;
-    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+const LIVE_STATUS_TITLES: Record<LiveStatus | 'idle', string> = {
+    idle: 'Start a voice conversation',
+    connecting: 'Connecting...',
+    live: 'End the voice conversation',
+    reconnecting: 'Reconnecting... (click to end)',
+};
 
-    for (let channel = 0; channel < numChannels; channel++) {
-        const channelData = buffer.getChannelData(channel);
-        for (let i = 0; i < frameCount; i++) {
-            channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-        }
-    }
-    return buffer;
-}
+const LIVE_STATUS_STEPS: Record<LiveStatus, string> = {
+    connecting: 'Connecting...',
+    live: 'Listening',
+    reconnecting: 'Reconnecting...',
+};
 
-const fileToGenerativePart = async (file: File): Promise<Part> => {
-    const base64EncodedDataPromise = new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-        reader.readAsDataURL(file);
-    });
-    return {
-        inlineData: { data: await base64EncodedDataPromise, mimeType: file.type },
-    };
+const AGENT_STATUS_COLORS: Record<AgentStatus, { text: string; dot: string }> = {
+    Online: { text: 'text-green-500', dot: 'bg-green-500' },
+    Busy: { text: 'text-amber-500', dot: 'bg-amber-500' },
+    Offline: { text: 'text-gray-500', dot: 'bg-gray-400' },
 };
 
 
@@ -143,34 +138,179 @@ const App = () => {
     const [chats, setChats] = useState<Chat[]>(INITIAL_CHATS);
     const [selectedChatId, setSelectedChatId] = useState<string>('chat1');
     const [currentInput, setCurrentInput] = useState('');
-    const [attachedFile, setAttachedFile] = useState<File | null>(null);
-    const [taskStatus, setTaskStatus] = useState<TaskStatus | null>(null);
+    const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
+    const [attachmentErrors, setAttachmentErrors] = useState<string[]>([]);
+    const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+    const [isLoaded, setIsLoaded] = useState(false);
+    const messagesEndRef = useRef<HTMLDivElement>(null);
+    const [editingMessage, setEditingMessage] = useState<{ id: string; text: string } | null>(null);
+    const [regenerateMenuFor, setRegenerateMenuFor] = useState<string | null>(null); // Reply whose model menu is open
     const selectedChat = chats.find(c => c.id === selectedChatId);
     const activeAgent = agents.find(a => a.id === selectedChat?.agentId);
 
     // Agent Editing State
     const [isEditing, setIsEditing] = useState(false);
     const [editableAgent, setEditableAgent] = useState<Agent | undefined>(activeAgent);
+    const [agentEditError, setAgentEditError] = useState<string | null>(null);
+    const [schemaTextError, setSchemaTextError] = useState<string | null>(null); // The response schema being typed isn't valid JSON yet
+
+    // Agent & Chat Lifecycle State
+    const [agentForm, setAgentForm] = useState<{ title: string; agent: Agent } | null>(null);
+    const [agentPendingDeletion, setAgentPendingDeletion] = useState<Agent | null>(null);
+    const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+    const [renamingChat, setRenamingChat] = useState<{ id: string; title: string } | null>(null);
+    const [teamDialog, setTeamDialog] = useState<{ chatId?: string } | null>(null); // chatId is set when editing an existing team
+    const [imageStudio, setImageStudio] = useState<{ baseId?: string } | null>(null);
+
+    // Agent Import/Export State
+    const [importedAgents, setImportedAgents] = useState<Agent[] | null>(null);
+    const [importErrors, setImportErrors] = useState<{ title: string; errors: ValidationError[] } | null>(null);
+
+    // Chat Transcript State
+    const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+    const [pendingTranscript, setPendingTranscript] = useState<{ transcript: ChatTranscript; agentId: string } | null>(null);
+
+    // Function Tool State
+    const [customTools, setCustomTools] = useState<ToolDefinition[]>([]);
+    const [isToolManagerOpen, setIsToolManagerOpen] = useState(false);
+    const toolRegistry = getToolRegistry(customTools);
+
+    // Usage State
+    const [priceTable, setPriceTable] = useState<ModelPrice[] | undefined>(undefined); // Undefined means DEFAULT_PRICES
+    const [usageLedger, setUsageLedger] = useState<UsageEntry[]>([]); // Append-only; budgets and the dashboard count from it
+    const [isUsageOpen, setIsUsageOpen] = useState(false);
+
+    // Knowledge Base State
+    const [knowledgeSources, setKnowledgeSources] = useState<KnowledgeSource[]>([]);
+    const [knowledgeErrors, setKnowledgeErrors] = useState<string[]>([]);
+    const [openPassage, setOpenPassage] = useState<KnowledgePassage | null>(null);
+
+    // Prompt Template State
+    const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]); // Global; agents keep their own in config.templates
+    const [isTemplatePickerOpen, setIsTemplatePickerOpen] = useState(false);
+    const [isTemplateLibraryOpen, setIsTemplateLibraryOpen] = useState(false);
+    const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
+    const [composerModel, setComposerModel] = useState<string | null>(null); // A template's model, used for the next reply
+
+    // Scheduled Job State
+    const [scheduledJobs, setScheduledJobs] = useState<ScheduledJob[]>([]);
+    const [isJobsOpen, setIsJobsOpen] = useState(false);
+    const runDueJobsRef = useRef(() => {}); // Reassigned each render so the timer sees current state
+
+    // Search State
+    const [isSearchOpen, setIsSearchOpen] = useState(false);
+    const [messageToReveal, setMessageToReveal] = useState<string | null>(null); // Scrolled to once its chat renders
+    const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+    // Slash Command State
+    const [commandSuggestionIndex, setCommandSuggestionIndex] = useState(-1); // -1 until the user picks one with the arrow keys
+    const [dismissedSuggestionsFor, setDismissedSuggestionsFor] = useState<string | null>(null);
+    const commandRegistry = getCommandRegistry(activeAgent, agents);
+    const commandSuggestions = dismissedSuggestionsFor === currentInput ? [] : getCommandSuggestions(currentInput, commandRegistry);
 
+    // Task State
+    const tasks = useSyncExternalStore(taskManager.subscribe, taskManager.getTasks);
+    const [isActivityOpen, setIsActivityOpen] = useState(false);
+    const [activitySeenAt, setActivitySeenAt] = useState(0); // Failures after this are flagged on the activity button
+    const [providerHealth, setProviderHealth] = useState<Record<string, ProviderHealth>>({});
+    const checkedProvidersRef = useRef(new Set<string>());
+    const speechTaskRef = useRef<TaskHandle | null>(null);
+
+    // Proxy Access State
+    const [isAccessTokenOpen, setIsAccessTokenOpen] = useState(() => !getAccessToken()); // Asked for on first visit
 
     // Live API State
-    const [isListening, setIsListening] = useState(false);
-    const liveSessionRef = useRef<LiveSession | null>(null);
-    const inputAudioContextRef = useRef<AudioContext>();
-    const outputAudioContextRef = useRef<AudioContext>();
-    const audioProcessorRef = useRef<ScriptProcessorNode>();
-    const mediaStreamRef = useRef<MediaStream>();
-    const nextStartTimeRef = useRef(0);
-    const audioSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-    
-    // Sync editable agent when active agent changes
+    const [liveStatus, setLiveStatus] = useState<LiveStatus | null>(null);
+    const speechState = useSyncExternalStore(speechPlayer.subscribe, speechPlayer.getState);
+    const liveConversationRef = useRef<LiveConversation | null>(null);
+
+    // Restore persisted state on startup; the seed data is only used (and then saved) on first run
     useEffect(() => {
-        if (activeAgent) {
-            setEditableAgent(JSON.parse(JSON.stringify(activeAgent))); // Deep copy
-            setIsEditing(false); // Reset editing state when agent changes
+        loadState()
+            .then(state => {
+                if (!state) return;
+                setAgents(state.agents);
+                setChats(state.chats);
+                setCustomTools(state.customTools ?? []);
+                setPriceTable(state.priceTable);
+                setKnowledgeSources(state.knowledgeSources ?? []);
+                setPromptTemplates(state.promptTemplates ?? []);
+                setScheduledJobs(state.scheduledJobs ?? []);
+                setUsageLedger(state.usageLedger ?? []);
+                const restoredChatId = state.chats.some(c => c.id === state.selectedChatId) ? state.selectedChatId : state.chats[0]?.id;
+                if (restoredChatId) setSelectedChatId(restoredChatId);
+                pruneAttachments(state.chats).catch(e => console.error("Failed to prune attachments", e));
+                pruneKnowledge(state.knowledgeSources ?? []).catch(e => console.error("Failed to prune knowledge", e));
+            })
+            .catch(e => console.error("Failed to load saved state", e))
+            .finally(() => setIsLoaded(true));
+
+        const flushPendingSave = () => stateSaver.flush();
+        window.addEventListener('pagehide', flushPendingSave);
+        return () => window.removeEventListener('pagehide', flushPendingSave);
+    }, []);
+
+    // Ctrl+K / Cmd+K opens search from anywhere
+    useEffect(() => {
+        const openSearch = (e: KeyboardEvent) => {
+            if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+                e.preventDefault();
+                setIsSearchOpen(true);
+            }
+        };
+        window.addEventListener('keydown', openSearch);
+        return () => window.removeEventListener('keydown', openSearch);
+    }, []);
+
+    // Persist agents and chats (debounced) whenever they change
+    useEffect(() => {
+        if (!isLoaded) return;
+        stateSaver.schedule({ agents, chats, selectedChatId, customTools, priceTable, knowledgeSources, promptTemplates, scheduledJobs, usageLedger });
+    }, [isLoaded, agents, chats, selectedChatId, customTools, priceTable, knowledgeSources, promptTemplates, scheduledJobs, usageLedger]);
+
+    // Due jobs run on startup (catching up on missed ones) and are checked again every tick
+    useEffect(() => {
+        if (!isLoaded) return;
+        runDueJobsRef.current();
+        const timer = setInterval(() => runDueJobsRef.current(), SCHEDULER_TICK_MS);
+        return () => clearInterval(timer);
+    }, [isLoaded]);
+
+    // Each backend the agents use is checked on startup, when agents change and every few minutes
+    useEffect(() => {
+        if (!isLoaded) return;
+        checkProviders(agents);
+        const timer = setInterval(() => checkProviders(agents, true), HEALTH_CHECK_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [isLoaded, agents]);
+
+    // Read-aloud playback is a task while the player is busy; cancelling it stops the player
+    useEffect(() => {
+        const item = speechState.current;
+        if (speechState.status === 'idle') {
+            if (speechState.error) speechTaskRef.current?.fail(speechState.error);
+            speechTaskRef.current?.finish();
+            speechTaskRef.current = null;
+            return;
         }
+        if (!speechTaskRef.current) speechTaskRef.current = taskManager.start({ kind: 'speech', title: 'Reading aloud', onCancel: () => speechPlayer.stop() });
+        speechTaskRef.current.update({
+            step: item && `${item.label}${speechState.queued ? ` (${speechState.queued} more queued)` : ''}`,
+            agentIds: speechState.status === 'loading' && item ? [item.agent.id] : [], // Generating the clip, not playing it, keeps the agent busy
+        });
+    }, [speechState]);
+
+    // Sync editable agent when active agent changes. Switching agents drops the draft; updates to the same agent
+    // (templates, renamed tools) only resync it while the editor is closed, since those handlers patch the draft too.
+    const editableAgentIdRef = useRef<string | null>(null);
+    useEffect(() => {
+        if (!activeAgent) return;
+        const isSameAgent = editableAgentIdRef.current === activeAgent.id;
+        editableAgentIdRef.current = activeAgent.id;
+        if (isSameAgent && isEditing) return;
+        setEditableAgent(JSON.parse(JSON.stringify(activeAgent))); // Deep copy
+        setIsEditing(false); // Reset editing state when agent changes
+        setSchemaTextError(null);
     }, [activeAgent]);
 
     const updateChatMessages = (chatId: string, messages: Message[]) => {
@@ -181,258 +321,1176 @@ const App = () => {
         );
     };
 
+    const updateChatSummary = (chatId: string, summary: ChatSummary) => {
+        setChats(prevChats =>
+            prevChats.map(chat =>
+                chat.id === chatId ? { ...chat, summary: summary } : chat
+            )
+        );
+    };
+
+    const updateMessage = (chatId: string, messageId: string, update: (message: Message) => Message) => {
+        setChats(prevChats =>
+            prevChats.map(chat =>
+                chat.id === chatId ? { ...chat, messages: chat.messages.map(m => m.id === messageId ? update(m) : m) } : chat
+            )
+        );
+    };
+
+    // Replies carry their agent's id; older messages fall back to the sender name, then to the chat's agent.
+    const agentForMessage = (message: Message): Agent =>
+        agents.find(a => a.id === message.agentId) ?? agents.find(a => a.name === message.sender) ?? activeAgent!;
+
+    // Clears the transient streaming flags; an interrupted reply keeps whatever text arrived so far.
+    const finishStreamingMessage = (message: Message, interrupted: boolean): Message => {
+        const { isThinking, isStreaming, ...rest } = message;
+        return interrupted ? { ...rest, isInterrupted: true } : rest;
+    };
+
+    const recordUsage = (chatId: string, agentId: string, record: UsageRecord) =>
+        setUsageLedger(prevLedger => [...prevLedger, { record, chatId, agentId }]);
+
+    // Posts why the agent can't be asked anything more until its daily or monthly budget resets.
+    const isOverBudget = (chatId: string, agent: Agent) => {
+        const status = getBudgetStatus(agent, usageLedger);
+        if (status?.level !== 'exceeded') return false;
+        postCommandOutput(chatId, `${describeBudget(agent, status)} Raise the budget in the agent's settings or wait for the ${status.period === 'daily' ? 'next day' : 'next month'}.`, true);
+        return true;
+    };
+
+    // Checks each distinct backend of `targets` once; `force` checks again, e.g. after a failure.
+    const checkProviders = (targets: Agent[], force = false) => {
+        const configs = new Map(targets.map(agent => [providerKeyFor(agent), providerConfigFor(agent)]));
+        configs.forEach((config, key) => {
+            if (!force && checkedProvidersRef.current.has(key)) return;
+            checkedProvidersRef.current.add(key);
+            checkProviderHealth(config).then(health => setProviderHealth(prev => ({ ...prev, [key]: health })));
+        });
+    };
+
+    // A bad key or an unreachable server probably affects every request, so the provider is checked again.
+    const failTask = (task: TaskHandle, error: unknown, agent?: Agent) => {
+        const info = classifyError(error);
+        task.fail(ERROR_DESCRIPTIONS[info.category].title);
+        if (agent && !task.signal.aborted && (info.category === 'auth' || info.category === 'network')) checkProviders([agent], true);
+        return ERROR_DESCRIPTIONS[info.category].title;
+    };
+
     // --- API CALL HANDLERS ---
     const handleSendMessage = async () => {
-        if (!currentInput.trim() && !attachedFile) return;
-        if (!selectedChat || !activeAgent) return;
-        
-        const userMessageText = currentInput;
-        const userAttachedFile = attachedFile;
+        if (!currentInput.trim() && attachedFiles.length === 0) return;
+        if (!selectedChat || !activeAgent || isChatBusy(taskManager.getTasks(), selectedChat.id)) return;
+        // Files picked for one agent may not suit another, so they are checked again against the agent that will read them.
+        const { errors } = checkAttachments(attachedFiles, 0, activeAgent);
+        if (errors.length > 0) {
+            setAttachmentErrors(errors);
+            return;
+        }
+
+        // Agent commands expand into a normal prompt; everything else is handled locally.
+        let userMessageText = currentInput;
+        const command = parseCommand(currentInput, commandRegistry);
+        if (command && !('error' in command) && command.command.agentCommand) {
+            userMessageText = expandAgentCommand(command.command.agentCommand, command.text);
+        } else if (command) {
+            setCurrentInput('');
+            await runCommand(command, currentInput);
+            return;
+        }
+        // Team members are checked as their turn comes up.
+        if (!selectedChat.team && isOverBudget(selectedChat.id, activeAgent)) return;
+        const userFiles = attachedFiles;
+        const model = composerModel ?? undefined;
 
         setCurrentInput('');
-        setAttachedFile(null);
-        setTaskStatus({ title: 'Thinking...', step: 'Analyzing request' });
+        setAttachedFiles([]);
+        setAttachmentErrors([]);
+        setComposerModel(null);
+
+        const attachments = userFiles.map((file, i) => createAttachment(file, `att${Date.now()}-${i}`));
+        userFiles.forEach((file, i) => saveAttachment(attachments[i].id, file).catch(e => console.error("Failed to save attachment", e)));
 
         const userMessage: Message = {
             id: `msg${Date.now()}`,
             sender: 'You',
             ...(userMessageText && { text: userMessageText }),
-            ...(userAttachedFile && { image: URL.createObjectURL(userAttachedFile) })
+            ...(attachments.length > 0 && { attachments }),
         };
 
+        if (selectedChat.team) {
+            updateChatMessages(selectedChat.id, [...selectedChat.messages, userMessage]);
+            await runTeamTurns(selectedChat, [...selectedChat.messages, userMessage], userMessageText);
+            return;
+        }
+
         const thinkingMessage: Message = {
             id: `msg${Date.now() + 1}`,
             sender: activeAgent.name,
-            isThinking: true
+            agentId: activeAgent.id,
+            isThinking: true,
+            ...(model && { model }),
         };
 
-        const updatedMessages = [...selectedChat.messages, userMessage, thinkingMessage];
-        updateChatMessages(selectedChat.id, updatedMessages);
+        updateChatMessages(selectedChat.id, [...selectedChat.messages, userMessage, thinkingMessage]);
+        await answerConversation(selectedChat, activeAgent, [...selectedChat.messages, userMessage], thinkingMessage.id, undefined, model);
+    };
+
+    // Answers the last message of `conversation` into the placeholder; failures turn it into an error bubble.
+    // `model` overrides the agent's model, e.g. when a reply is regenerated with another one or a template names one.
+    // Resolves to the reply's text, or why there is none.
+    const answerConversation = async (chat: Chat, agent: Agent, conversation: Message[], placeholderId: string, systemInstruction?: string, model?: string): Promise<{ text?: string; error?: string }> => {
+        const userMessage = conversation[conversation.length - 1];
+        const images = userMessage?.sender === 'You' ? userMessage.attachments ?? [] : [];
+        const task = taskManager.start({ kind: 'chat', title: `${agent.name} is replying`, step: 'Preparing the request', chatId: chat.id, agentIds: [agent.id] });
+        const { signal } = task;
 
         try {
-            // Image Generation command
-            if (userMessageText.toLowerCase().startsWith('/generate')) {
-                await handleImageGeneration(userMessageText);
-                return;
+            // Image Editing (if only images are attached); local backends get the images as regular vision input instead
+            const isImageEdit = images.length > 0 && images.every(isImageAttachment) && !!userMessage.text && isGeminiAgent(agent);
+
+            let contents: Content[];
+            let context = conversation;
+            if (isImageEdit) {
+                // Edits are one-shot: only the current prompt and images are relevant.
+                const promptParts: Part[] = [{ text: userMessage.text }];
+                for (const part of await Promise.all(images.map(attachmentToPart))) {
+                    if (part) promptParts.push(part);
+                }
+                contents = [{ role: 'user', parts: promptParts }];
+            } else {
+                context = await uploadAttachmentsFor(chat.id, agent, conversation, task);
+                const history = await prepareHistory(chat, agent, context);
+                if (history.summary) updateChatSummary(chat.id, history.summary);
+                const matches = await retrieveKnowledge(chat.id, placeholderId, agent, userMessage?.sender === 'You' ? userMessage.text ?? '' : '');
+                contents = withKnowledgeContext(history.contents, matches);
             }
 
-            const promptParts: Part[] = [];
-            if(userMessageText) promptParts.push({ text: userMessageText });
-            if(userAttachedFile) promptParts.push(await fileToGenerativePart(userAttachedFile));
+            const replyText = await streamAgentReply({
+                chatId: chat.id,
+                messageId: placeholderId,
+                agent: agent,
+                contents: contents,
+                model: isImageEdit ? IMAGE_EDIT_MODEL : model,
+                systemInstruction: systemInstruction,
+                conversation: context,
+                task: task,
+            });
+            updateMessage(chat.id, placeholderId, m => ({
+                ...finishStreamingMessage(m, signal.aborted),
+                ...(agent.config.responseSchema && !isImageEdit && !signal.aborted && { structuredOutput: checkStructuredOutput(m.text, agent.config.responseSchema) }),
+                ...(isImageEdit && m.attachments && { imageGeneration: { prompt: userMessage.text, model: IMAGE_EDIT_MODEL, parentId: images[0].id, version: nextImageVersion(toGalleryImage(userMessage, images[0])) } }),
+            }));
+            if (!signal.aborted) maybeGenerateTitle(chat, agent, userMessage.text ?? '', replyText);
+            return signal.aborted ? { error: 'The reply was stopped.' } : { text: replyText };
+        } catch (error) {
+            if (!signal.aborted) console.error("Model API error:", error);
+            updateMessage(chat.id, placeholderId, m => failStreamingMessage(m, signal.aborted, error));
+            const description = failTask(task, error, agent);
+            return { error: signal.aborted ? 'The reply was stopped.' : description };
+        } finally {
+            task.finish();
+        }
+    };
 
-            const contents = { parts: promptParts };
-            
-            // Image Editing (if image is attached)
-            const modelToUse = userAttachedFile && userMessageText ? 'gemini-2.5-flash-image' : activeAgent.config.model;
-            
-            // Fix: Restructure the generateContent call to place systemInstruction inside the config object
-            // and conditionally add tools and other configs based on the model being used.
-            const generateContentRequest: {
-                model: string;
-                contents: { parts: Part[] };
-                tools?: any[];
-                config?: any;
-            } = {
-                model: modelToUse,
+    // Replaces a failed reply with a fresh attempt at the same request, answered by the same agent.
+    const handleRetryMessage = async (message: Message) => {
+        if (!selectedChat || isChatBusy(taskManager.getTasks(), selectedChat.id)) return;
+        const chat = selectedChat;
+        const agent = agentForMessage(message);
+        if (isOverBudget(chat.id, agent)) return;
+        const conversation = chat.messages.slice(0, chat.messages.findIndex(m => m.id === message.id));
+        const placeholder: Message = { id: `msg${Date.now()}`, sender: agent.name, agentId: agent.id, isThinking: true, ...(message.model && { model: message.model }) };
+        updateMessage(chat.id, message.id, () => placeholder);
+
+        const imageRequest = message.error?.imageRequest;
+        if (imageRequest) {
+            await handleImageGeneration(chat.id, placeholder.id, imageRequest);
+            return;
+        }
+        const systemInstruction = chat.team ? buildTeamInstruction(agent, getTeamMembers(chat.team, agents)) : undefined;
+        await answerConversation(chat, agent, conversation, placeholder.id, systemInstruction, message.model);
+    };
+
+    // --- BRANCH HANDLERS ---
+    // Sends the edited prompt as a sibling of the original, so the replies that followed stay reachable.
+    const handleEditMessage = async () => {
+        if (!selectedChat || !activeAgent || !editingMessage || isChatBusy(taskManager.getTasks(), selectedChat.id)) return;
+        const chat = selectedChat;
+        const original = chat.messages.find(m => m.id === editingMessage.id);
+        const text = editingMessage.text.trim();
+        if (!original || (!text && !original.attachments?.length)) return;
+        if (!chat.team && isOverBudget(chat.id, activeAgent)) return;
+        setEditingMessage(null);
+
+        const edited: Message = { id: `msg${Date.now()}`, sender: 'You', ...(text && { text }), ...(original.attachments && { attachments: original.attachments }) };
+        const conversation = [...chat.messages.slice(0, chat.messages.indexOf(original)), edited];
+
+        if (chat.team) {
+            setChats(prevChats => prevChats.map(c => c.id === chat.id ? forkAt(c, original.id, [edited]) : c));
+            await runTeamTurns(forkAt(chat, original.id, [edited]), conversation, text);
+            return;
+        }
+        const placeholder: Message = { id: `msg${Date.now() + 1}`, sender: activeAgent.name, agentId: activeAgent.id, isThinking: true };
+        setChats(prevChats => prevChats.map(c => c.id === chat.id ? forkAt(c, original.id, [edited, placeholder]) : c));
+        await answerConversation(forkAt(chat, original.id, [edited, placeholder]), activeAgent, conversation, placeholder.id);
+    };
+
+    // Asks the reply's agent again, optionally with another model; the earlier reply becomes a sibling.
+    const handleRegenerateMessage = async (message: Message, model?: string) => {
+        setRegenerateMenuFor(null);
+        if (!selectedChat || isChatBusy(taskManager.getTasks(), selectedChat.id)) return;
+        const chat = selectedChat;
+        const agent = agentForMessage(message);
+        if (isOverBudget(chat.id, agent)) return;
+        const override = model && model !== agent.config.model ? model : undefined;
+        const conversation = chat.messages.slice(0, chat.messages.findIndex(m => m.id === message.id));
+        const placeholder: Message = { id: `msg${Date.now()}`, sender: agent.name, agentId: agent.id, isThinking: true, ...(override && { model: override }) };
+        setChats(prevChats => prevChats.map(c => c.id === chat.id ? forkAt(c, message.id, [placeholder]) : c));
+
+        const systemInstruction = chat.team ? buildTeamInstruction(agent, getTeamMembers(chat.team, agents)) : undefined;
+        await answerConversation(forkAt(chat, message.id, [placeholder]), agent, conversation, placeholder.id, systemInstruction, override);
+    };
+
+    const handleSwitchBranch = (messageId: string, siblingIndex: number) => {
+        if (!selectedChat || isChatBusy(taskManager.getTasks(), selectedChat.id)) return;
+        const index = selectedChat.messages.findIndex(m => m.id === messageId);
+        const next = switchBranch(selectedChat, messageId, siblingIndex);
+        setChats(prevChats => prevChats.map(c => c.id === selectedChat.id ? switchBranch(c, messageId, siblingIndex) : c));
+        setEditingMessage(null);
+        setMessageToReveal(next.messages[index]?.id ?? null);
+    };
+
+    // Streams one agent reply into its placeholder, running the tool-call loop: requested functions are
+    // executed, their results sent back, and the model continues. Returns the reply text.
+    const streamAgentReply = async (request: AgentReplyRequest): Promise<string> => {
+        const { chatId, messageId, agent, task } = request;
+        const { signal } = task;
+        const provider = getAgentProvider(agent);
+        const enabledFunctionTools = toolRegistry.filter(tool => agent.config.functionTools?.includes(tool.name));
+        const tools = [
+            ...(agent.config.tools ?? []),
+            ...(enabledFunctionTools.length > 0 ? [{ functionDeclarations: toFunctionDeclarations(enabledFunctionTools) }] : []),
+        ];
+
+        let contents = request.contents;
+        let replyText = '';
+        for (let round = 0; ; round++) {
+            task.update({ step: `Waiting for ${request.model ?? agent.config.model}` });
+            // The provider drops settings the chosen model doesn't support (e.g. tools for image models).
+            // Transient failures are retried here, before anything has streamed into the message.
+            const stream = await withRetry(() => provider.generateContentStream({
+                model: request.model ?? agent.config.model,
                 contents: contents,
-            };
+                systemInstruction: request.systemInstruction ?? agent.config.systemInstruction,
+                tools: tools,
+                modelConfig: generationConfigFor(agent, request.model ?? agent.config.model),
+                abortSignal: signal,
+            }), { signal: signal, onRetry: showRetryStatus(task) });
+            task.update({ step: 'Writing the reply' });
+            // Raw parts are echoed back verbatim so thought signatures survive the round-trip.
+            const modelParts: Part[] = [];
+            const functionCalls: FunctionCall[] = [];
+            const chunks: GenerateContentResponse[] = [];
+            for await (const chunk of stream) {
+                if (signal.aborted) break;
+                chunks.push(chunk);
+                replyText += chunk.text ?? '';
+                modelParts.push(...(chunk.candidates?.[0]?.content?.parts ?? []));
+                functionCalls.push(...(chunk.functionCalls ?? []));
+                updateMessage(chatId, messageId, m => ({ ...mergeStreamChunk(m, chunk), isStreaming: true }));
+            }
+            // Counts come with the last chunk and cover the whole round, tool results included.
+            const usageMetadata = [...chunks].reverse().find(chunk => chunk.usageMetadata)?.usageMetadata;
+            if (usageMetadata) {
+                const usage = toUsageRecord('chat', request.model ?? agent.config.model, usageMetadata);
+                recordUsage(chatId, agent.id, usage);
+                updateMessage(chatId, messageId, m => withUsage(m, usage));
+            }
+            if (signal.aborted) break;
+            if (functionCalls.length === 0) {
+                // Blocked and empty responses have no text at all; say why instead of leaving an empty bubble.
+                const isEmpty = !replyText && !modelParts.some(part => part.inlineData);
+                const problem = describeResponseProblem(chunks, isEmpty);
+                if (problem && isEmpty) throw createReplyError(problem);
+                if (problem) updateMessage(chatId, messageId, m => ({ ...m, error: problem }));
+                break;
+            }
+            if (round >= MAX_TOOL_ROUNDS) {
+                updateMessage(chatId, messageId, m => ({
+                    ...m,
+                    text: `${m.text ?? ''}\n\n_Stopped after ${MAX_TOOL_ROUNDS} rounds of tool calls._`.trim(),
+                }));
+                break;
+            }
 
-            if (modelToUse === 'gemini-2.5-flash-image') {
-                // Image editing model does not support other configs like systemInstruction or tools.
-                generateContentRequest.config = { responseModalities: [Modality.IMAGE] };
-            } else {
-                generateContentRequest.config = {
-                    ...activeAgent.config.modelConfig,
-                    systemInstruction: activeAgent.config.systemInstruction,
-                };
-                generateContentRequest.tools = activeAgent.config.tools;
+            const toolContext = await buildToolContext(request.conversation);
+            const responseParts: Part[] = [];
+            for (const [index, call] of functionCalls.entries()) {
+                const step: ToolStep = { id: `tool${Date.now()}-${index}`, name: call.name ?? '', args: call.args ?? {}, status: 'running' };
+                updateMessage(chatId, messageId, m => ({ ...m, isThinking: false, isStreaming: true, toolSteps: [...(m.toolSteps ?? []), step] }));
+                task.update({ step: `Running ${step.name}` });
+                const outcome = await executeToolCall(call, toolRegistry, toolContext);
+                const finishedStep: ToolStep = 'error' in outcome ? { ...step, status: 'error', error: outcome.error } : { ...step, status: 'done', result: outcome.result };
+                updateMessage(chatId, messageId, m => ({ ...m, toolSteps: m.toolSteps?.map(s => s.id === step.id ? finishedStep : s) }));
+                responseParts.push({
+                    functionResponse: { id: call.id, name: call.name, response: 'error' in outcome ? { error: outcome.error } : { output: outcome.result } },
+                });
             }
+            if (signal.aborted) break;
+            contents = [...contents, { role: 'model', parts: modelParts }, { role: 'user', parts: responseParts }];
+        }
+        return replyText;
+    };
 
-            const response = await ai.models.generateContent(generateContentRequest);
+    // Finds the passages of the agent's knowledge sources closest to the question and lists them as the
+    // reply's sources up front. A failed search is logged and the agent answers without them.
+    const retrieveKnowledge = async (chatId: string, placeholderId: string, agent: Agent, query: string): Promise<KnowledgeMatch[]> => {
+        if (!knowledgeSources.some(source => source.agentId === agent.id)) return [];
+        try {
+            const matches = await searchKnowledge(agent, knowledgeSources, query);
+            if (matches.length > 0) updateMessage(chatId, placeholderId, m => ({ ...m, groundingChunks: matches.map((match, i) => toGroundingChunk(match, i + 1)) }));
+            return matches;
+        } catch (e) {
+            console.error("Knowledge search failed", e);
+            return [];
+        }
+    };
 
-            let responseText = '';
-            let responseImage = '';
-            let groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-            
-            if (modelToUse === 'gemini-2.5-flash-image') {
-                 const part = response.candidates?.[0]?.content?.parts[0];
-                 if(part?.inlineData){
-                    responseImage = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-                 }
-            } else {
-                responseText = response.text;
-            }
+    // Files past the inline limit are uploaded once and their references saved, so later turns reuse them.
+    const uploadAttachmentsFor = async (chatId: string, agent: Agent, messages: Message[], task: TaskHandle): Promise<Message[]> => {
+        const uploaded = await uploadLargeAttachments(messages, agent, attachment =>
+            task.update({ step: `Uploading ${attachment.name} (${formatFileSize(attachment.size)}) to the Files API` }));
+        if (uploaded.length === 0) return messages;
+        const byId = new Map(uploaded.map(m => [m.id, m]));
+        setChats(prevChats => prevChats.map(c => c.id !== chatId ? c : {
+            ...c,
+            messages: c.messages.map(m => byId.has(m.id) ? { ...m, attachments: byId.get(m.id)!.attachments } : m),
+        }));
+        return messages.map(m => byId.get(m.id) ?? m);
+    };
 
-            const aiMessage: Message = {
-                id: `msg${Date.now() + 2}`,
-                sender: activeAgent.name,
-                ...(responseText && { text: responseText }),
-                ...(responseImage && { image: responseImage }),
-                ...(groundingChunks && { groundingChunks: groundingChunks })
-            };
-            
-            updateChatMessages(selectedChat.id, [...selectedChat.messages, userMessage, aiMessage]);
+    // A failed reply keeps any partial output as interrupted; otherwise it becomes an error bubble saying what went wrong.
+    const failStreamingMessage = (message: Message, aborted: boolean, error?: unknown): Message => {
+        if (aborted) return finishStreamingMessage(message, true);
+        const info = classifyError(error);
+        if (message.text || message.attachments?.length) return { ...finishStreamingMessage(message, true), error: info };
+        const { title, hint } = ERROR_DESCRIPTIONS[info.category];
+        return { id: message.id, sender: message.sender, agentId: message.agentId, text: `${title}. ${hint}`, isError: true, error: info, usage: message.usage, model: message.model };
+    };
 
+    const showRetryStatus = (task: TaskHandle) => (error: MessageError, attempt: number, delayMs: number) => task.update({
+        step: `${ERROR_DESCRIPTIONS[error.category].title}; retrying (attempt ${attempt + 1} of ${MAX_RETRIES + 1}) in ${Math.ceil(delayMs / 1000)}s`,
+    });
+
+    const maybeGenerateTitle = (chat: Chat, agent: Agent, userText: string, replyText: string) => {
+        if (!chat.needsTitle || !userText || !replyText) return;
+        generateChatTitle(agent, userText, replyText)
+            .then(title => title && setChats(prevChats => prevChats.map(c =>
+                c.id === chat.id && c.needsTitle ? { ...c, title: title, needsTitle: false } : c
+            )))
+            .catch(e => console.error("Title generation failed", e));
+    };
+
+    // --- TEAM CHAT HANDLERS ---
+    // Lets the team's agents answer one after another until the strategy says stop or the turn cap is hit.
+    const runTeamTurns = async (chat: Chat, conversation: Message[], userText: string) => {
+        const team = chat.team!;
+        const members = getTeamMembers(team, agents);
+        const coordinator = agents.find(a => a.id === team.coordinatorId) ?? members[0];
+        const spoken = [...conversation];
+        let summary = chat.summary;
+        let pipelineIndex = 0;
+        let pendingHandoff: Agent | undefined;
+        let placeholderId: string | null = null;
+        let working = coordinator; // Whoever the current request is for
+        const task = taskManager.start({ kind: 'chat', title: 'The team is replying', chatId: chat.id });
+        const { signal } = task;
+
+        try {
+            for (let turn = 0; turn < team.maxTurns; turn++) {
+                let speaker = pendingHandoff;
+                pendingHandoff = undefined;
+                if (!speaker && team.strategy === 'pipeline') {
+                    speaker = members[pipelineIndex++];
+                } else if (!speaker) {
+                    working = coordinator;
+                    task.update({ step: `${coordinator.name} is choosing who answers next`, agentIds: [coordinator.id] });
+                    speaker = await chooseNextSpeaker(coordinator, members, spoken) ?? undefined;
+                }
+                if (!speaker || signal.aborted) return;
+                if (isOverBudget(chat.id, speaker)) return;
+                const currentSpeaker = speaker;
+                working = speaker;
+                task.update({ title: `${speaker.name} is replying`, step: 'Preparing the request', agentIds: [speaker.id] });
+
+                const placeholder: Message = { id: `msg${Date.now()}`, sender: speaker.name, agentId: speaker.id, isThinking: true };
+                placeholderId = placeholder.id;
+                setChats(prevChats => prevChats.map(c => c.id === chat.id ? { ...c, messages: [...c.messages, placeholder] } : c));
+
+                spoken.splice(0, spoken.length, ...await uploadAttachmentsFor(chat.id, speaker, spoken, task));
+                const history = await prepareHistory({ ...chat, summary }, speaker, spoken);
+                if (history.summary) {
+                    summary = history.summary;
+                    updateChatSummary(chat.id, history.summary);
+                }
+                const matches = await retrieveKnowledge(chat.id, placeholder.id, speaker, userText);
+                const replyText = await streamAgentReply({
+                    chatId: chat.id,
+                    messageId: placeholder.id,
+                    agent: speaker,
+                    contents: withKnowledgeContext(history.contents, matches),
+                    systemInstruction: buildTeamInstruction(speaker, members),
+                    conversation: spoken,
+                    task: task,
+                });
+                const { text, handoffTo } = parseHandoff(replyText, members.filter(m => m.id !== currentSpeaker.id));
+                updateMessage(chat.id, placeholder.id, m => ({
+                    ...finishStreamingMessage(m, signal.aborted),
+                    ...(replyText && { text: text }),
+                    ...(handoffTo && { handoffTo: handoffTo.name }),
+                    ...(currentSpeaker.config.responseSchema && !signal.aborted && { structuredOutput: checkStructuredOutput(text, currentSpeaker.config.responseSchema) }),
+                }));
+                placeholderId = null;
+                if (signal.aborted) return;
+                if (turn === 0) maybeGenerateTitle(chat, speaker, userText, text);
+
+                spoken.push({ id: placeholder.id, sender: speaker.name, agentId: speaker.id, text: text });
+                pendingHandoff = handoffTo;
+            }
+            const wouldContinue = pendingHandoff || (team.strategy === 'pipeline' ? pipelineIndex < members.length : true);
+            if (wouldContinue) postCommandOutput(chat.id, `Stopped after ${team.maxTurns} agent turns, the limit for this team.`);
         } catch (error) {
-            console.error("Gemini API error:", error);
-            const errorMessage: Message = { id: `err${Date.now()}`, sender: activeAgent.name, text: "Sorry, I encountered an error. Please try again." };
-            updateChatMessages(selectedChat.id, [...selectedChat.messages, userMessage, errorMessage]);
+            if (!signal.aborted) console.error("Team turn failed:", error);
+            if (placeholderId) updateMessage(chat.id, placeholderId, m => failStreamingMessage(m, signal.aborted, error));
+            failTask(task, error, working);
         } finally {
-            setTaskStatus(null);
+            task.finish();
         }
     };
-    
-    const handleImageGeneration = async (prompt: string) => {
-        if (!selectedChat || !activeAgent) return;
-        const generationPrompt = prompt.replace('/generate', '').trim();
-        setTaskStatus({ title: 'Generating Image...', step: 'Sending prompt to Imagen' });
+
+    const handleStopGeneration = () => {
+        if (selectedChat) taskManager.cancelChat(selectedChat.id);
+    };
+
+    // Replaces the placeholder reply with one message per generated image, each recording how it was made.
+    const handleImageGeneration = async (chatId: string, placeholderId: string, request: ImageStudioRequest) => {
+        if (!activeAgent) return;
+        const { id: agentId, name: agentName } = activeAgent;
+        const base = request.baseAttachmentId ? findChatImage(chats.find(c => c.id === chatId)?.messages ?? [], request.baseAttachmentId) : undefined;
+        const task = taskManager.start({
+            kind: 'image',
+            title: base ? `Editing ${imageVersionLabel(base)}` : 'Generating an image',
+            step: `Sending the prompt to ${request.model}`,
+            chatId: chatId,
+            agentIds: [agentId],
+        });
 
         try {
-            const response = await ai.models.generateImages({
-                model: 'imagen-4.0-generate-001',
-                prompt: generationPrompt,
-                config: { numberOfImages: 1, aspectRatio: '1:1' }
-            });
-            const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-            const imageUrl = `data:image/png;base64,${base64ImageBytes}`;
-            const aiMessage: Message = { id: `img${Date.now()}`, sender: activeAgent.name, image: imageUrl };
-            const finalMessages = selectedChat.messages.filter(m => !m.isThinking);
-            updateChatMessages(selectedChat.id, [...finalMessages, aiMessage]);
+            const sourceImage = base ? (await urlToGenerativePart(base.attachment.url!)).inlineData : undefined;
+            const result = await withRetry(() => getAgentProvider(activeAgent).generateImages({
+                model: request.model,
+                prompt: request.prompt,
+                numberOfImages: request.numberOfImages,
+                aspectRatio: request.aspectRatio,
+                negativePrompt: request.negativePrompt,
+                seed: request.seed,
+                ...(sourceImage && { sourceImage: { data: sourceImage.data!, mimeType: sourceImage.mimeType! } }),
+            }), { signal: task.signal, onRetry: showRetryStatus(task) });
+            // Image requests can't be aborted mid-flight, so a cancelled one just drops its result.
+            if (task.signal.aborted) {
+                updateMessage(chatId, placeholderId, m => finishStreamingMessage(m, true));
+                return;
+            }
+            const imageUrls = result.images;
+            // Image-output models report tokens; Imagen and DALL·E are billed per image.
+            const usage = toUsageRecord('image', result.model, result.usage, imageUrls.length);
+            recordUsage(chatId, agentId, usage);
+            if (imageUrls.length === 0) throw createReplyError({ category: 'empty', detail: 'No image was returned; the prompt may have been filtered.' });
+            const generation: ImageGeneration = {
+                prompt: request.prompt,
+                model: request.model,
+                aspectRatio: request.aspectRatio,
+                ...(request.negativePrompt && { negativePrompt: request.negativePrompt }),
+                ...(base && { parentId: base.attachment.id }),
+                version: nextImageVersion(base),
+            };
+            setChats(prevChats => prevChats.map(chat => chat.id !== chatId ? chat : {
+                ...chat,
+                messages: chat.messages.flatMap(m => m.id !== placeholderId ? [m] : imageUrls.map((image, i): Message => ({
+                    id: `img${Date.now()}-${i}`,
+                    sender: agentName,
+                    agentId,
+                    attachments: [createImageAttachment(image, `img${Date.now()}-${i}-image`)],
+                    // Extra images are generated with consecutive seeds.
+                    imageGeneration: { ...generation, ...(request.seed !== undefined && { seed: request.seed + i }) },
+                    // The call is counted once, on the first image.
+                    ...(i === 0 && { usage: [usage] }),
+                }))),
+            }));
         } catch(e) {
+            if (task.signal.aborted) {
+                updateMessage(chatId, placeholderId, m => finishStreamingMessage(m, true));
+                return;
+            }
             console.error("Image generation failed", e);
-            const errorMessage: Message = { id: `err${Date.now()}`, sender: activeAgent.name, text: "Sorry, I couldn't generate the image." };
-            const finalMessages = selectedChat.messages.filter(m => !m.isThinking);
-            updateChatMessages(selectedChat.id, [...finalMessages, errorMessage]);
+            const error = classifyError(e);
+            updateMessage(chatId, placeholderId, m => ({
+                id: m.id, sender: agentName, agentId,
+                text: `Sorry, I couldn't ${base ? 'edit' : 'generate'} the image: ${ERROR_DESCRIPTIONS[error.category].title.toLowerCase()}.`,
+                isError: true,
+                error: { ...error, imageRequest: request },
+            }));
+            failTask(task, e, activeAgent);
         } finally {
-            setTaskStatus(null);
+            task.finish();
         }
     };
-    
-    const playTTS = async (text: string) => {
+
+    const handleStudioGenerate = async (request: ImageStudioRequest) => {
+        if (!selectedChat || !activeAgent || isChatBusy(taskManager.getTasks(), selectedChat.id) || isOverBudget(selectedChat.id, activeAgent)) return;
+        const userMessage: Message = { id: `msg${Date.now()}`, sender: 'You', text: request.prompt };
+        const placeholder: Message = { id: `msg${Date.now() + 1}`, sender: activeAgent.name, agentId: activeAgent.id, isThinking: true };
+        updateChatMessages(selectedChat.id, [...selectedChat.messages, userMessage, placeholder]);
+        await handleImageGeneration(selectedChat.id, placeholder.id, request);
+    };
+
+    // --- ACTIVITY HANDLERS ---
+    const handleToggleActivity = () => {
+        setIsActivityOpen(!isActivityOpen);
+        setActivitySeenAt(Date.now());
+    };
+
+    const handleOpenTaskChat = (chatId: string) => {
+        if (!chats.some(c => c.id === chatId)) return;
+        setImageStudio(null);
+        setSelectedChatId(chatId);
+    };
+
+    // --- SCHEDULED JOB HANDLERS ---
+    const updateJob = (jobId: string, update: (job: ScheduledJob) => ScheduledJob) =>
+        setScheduledJobs(prevJobs => prevJobs.map(job => job.id === jobId ? update(job) : job));
+
+    const notifyJobRun = (job: ScheduledJob, body: string, chatId?: string) => {
+        if (!job.notify || typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+        const notification = new Notification(job.name, { body: body.slice(0, 200) });
+        notification.onclick = () => {
+            window.focus();
+            if (!chatId) return;
+            setImageStudio(null);
+            setSelectedChatId(chatId);
+        };
+    };
+
+    // Posts the job's prompt into its own chat, creating the chat on the first run, and logs how the run went.
+    const runScheduledJob = async (job: ScheduledJob, scheduledFor: number, options: { missedRuns?: number; manual?: boolean } = {}) => {
+        const run: JobRun = {
+            id: `run${Date.now()}`,
+            scheduledFor: scheduledFor,
+            startedAt: Date.now(),
+            status: 'running',
+            ...(options.missedRuns && { missedRuns: options.missedRuns }),
+            ...(options.manual && { manual: true }),
+        };
+        updateJob(job.id, j => ({ ...addJobRun(j, run), ...(!options.manual && { lastScheduledAt: scheduledFor }) }));
+        const fail = (error: string, chatId?: string) => {
+            updateJob(job.id, j => updateJobRun(j, run.id, { status: 'failed', error: error, endedAt: Date.now() }));
+            notifyJobRun(job, `The run failed: ${error}`, chatId);
+        };
+
+        const agent = agents.find(a => a.id === job.agentId);
+        if (!agent) return fail('Its agent was deleted.');
+        const prompt = resolveJobPrompt(job, agent, promptTemplates);
+        if ('error' in prompt) return fail(prompt.error);
+
+        // A job moved to another agent starts a new chat with it.
+        let chat = chats.find(c => c.id === job.chatId && !c.archived && c.agentId === agent.id);
+        if (!chat) {
+            const jobChat: Chat = { ...createChat(agent.id), id: `chat${Date.now()}-${job.id}`, title: job.name, needsTitle: false, jobId: job.id };
+            setChats(prevChats => [jobChat, ...prevChats]);
+            updateJob(job.id, j => ({ ...j, chatId: jobChat.id }));
+            chat = jobChat;
+        }
+        if (isChatBusy(taskManager.getTasks(), chat.id)) return fail('Its chat was still busy with another reply.', chat.id);
+        if (isOverBudget(chat.id, agent)) return fail(`${agent.name} is over its token budget.`, chat.id);
+
+        // Several jobs can start in the same millisecond, so their message ids carry the job's.
+        const userMessage: Message = { id: `msg${Date.now()}-${job.id}`, sender: 'You', text: prompt.text, ...(prompt.attachments && { attachments: prompt.attachments }) };
+        const placeholder: Message = { id: `msg${Date.now() + 1}-${job.id}`, sender: agent.name, agentId: agent.id, isThinking: true, ...(prompt.model && { model: prompt.model }) };
+        updateChatMessages(chat.id, [...chat.messages, userMessage, placeholder]);
+        const reply = await answerConversation(chat, agent, [...chat.messages, userMessage], placeholder.id, undefined, prompt.model);
+        if (reply.error) return fail(reply.error, chat.id);
+        updateJob(job.id, j => updateJobRun(j, run.id, { status: 'succeeded', endedAt: Date.now(), messageId: placeholder.id }));
+        notifyJobRun(job, reply.text || 'The run finished.', chat.id);
+    };
+
+    const recordSkippedRun = ({ job, scheduledFor, missedRuns }: DueRun) => {
+        const now = Date.now();
+        updateJob(job.id, j => ({
+            ...addJobRun(j, { id: `run${now}`, scheduledFor: scheduledFor, startedAt: now, endedAt: now, status: 'skipped', ...(missedRuns && { missedRuns: missedRuns }) }),
+            lastScheduledAt: scheduledFor,
+        }));
+    };
+
+    runDueJobsRef.current = () => jobScheduler.tick(scheduledJobs).forEach(due => due.action === 'skip'
+        ? recordSkippedRun(due)
+        : runScheduledJob(due.job, due.scheduledFor, { missedRuns: due.missedRuns }));
+
+    // New jobs, and jobs whose schedule changed, start from now instead of catching up on earlier times.
+    const handleSaveJob = (job: ScheduledJob) => {
+        const previous = scheduledJobs.find(j => j.id === job.id);
+        if (!previous) {
+            setScheduledJobs(prevJobs => [...prevJobs, { ...job, lastScheduledAt: Date.now() }]);
+            return;
+        }
+        const restart = previous.schedule !== job.schedule || (!previous.enabled && job.enabled);
+        // Runs and the chat may have changed while the job was being edited.
+        updateJob(job.id, j => ({ ...job, runs: j.runs, chatId: j.chatId, lastScheduledAt: restart ? Date.now() : j.lastScheduledAt }));
+    };
+
+    const handleToggleJob = (jobId: string, enabled: boolean) =>
+        updateJob(jobId, j => ({ ...j, enabled: enabled, ...(enabled && { lastScheduledAt: Date.now() }) }));
+
+    const handleDeleteJob = (jobId: string) => setScheduledJobs(prevJobs => prevJobs.filter(j => j.id !== jobId));
+
+    const handleOpenJobChat = (chatId: string) => {
+        setIsJobsOpen(false);
+        handleOpenTaskChat(chatId);
+    };
+
+    // --- PROXY ACCESS HANDLERS ---
+    const handleSaveAccessToken = (token: string) => {
+        setAccessToken(token);
+        setIsAccessTokenOpen(false);
+        checkProviders(agents.filter(isGeminiAgent), true);
+    };
+
+    // --- SEARCH HANDLERS ---
+    const handleOpenSearchResult = (chatId: string, messageId: string) => {
+        setIsSearchOpen(false);
+        setImageStudio(null);
+        setSelectedChatId(chatId);
+        setMessageToReveal(messageId);
+    };
+
+    const showMessageInChat = (messageId: string) => {
+        setImageStudio(null);
+        document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    };
+
+    // --- READ ALOUD HANDLERS ---
+    const speechItemForMessage = (message: Message): SpeechItem => {
+        const chatId = selectedChat!.id;
+        const agent = message.sender === 'You' ? activeAgent! : agentForMessage(message);
+        const onUsage = (usage: UsageRecord) => {
+            recordUsage(chatId, agent.id, usage);
+            updateMessage(chatId, message.id, m => withUsage(m, usage));
+        };
+        return message.sender === 'You'
+            ? { key: message.id, text: toSpeechText(message.text ?? ''), agent: agent, voiceName: userVoiceFor(agent), label: 'your message', onUsage }
+            : { key: message.id, text: toSpeechText(message.text ?? ''), agent: agent, label: `${message.sender}'s reply`, onUsage };
+    };
+
+    // Clicking the message that is already being read pauses or resumes it.
+    const handleSpeakMessage = (message: Message) => {
+        if (speechState.current?.key === message.id) {
+            if (speechState.status === 'paused') speechPlayer.resume();
+            else speechPlayer.pause();
+            return;
+        }
+        speechPlayer.play([speechItemForMessage(message)]);
+    };
+
+    const handleReadChatAloud = () => {
+        if (!selectedChat) return;
+        const items = getConversationMessages(selectedChat.messages).filter(m => m.text).map(speechItemForMessage);
+        if (items.length) speechPlayer.play(items);
+    };
+
+    const handleDownloadSpeech = async (message: Message) => {
+        if (!selectedChat) return;
+        const chatId = selectedChat.id;
+        const item = speechItemForMessage(message);
+        const task = taskManager.start({ kind: 'speech', title: `Saving ${item.label} as audio`, step: 'Preparing the WAV file', chatId: chatId, agentIds: [item.agent.id] });
         try {
-            setTaskStatus({title: "Generating Speech...", step: "Please wait"});
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash-preview-tts",
-                contents: [{ parts: [{ text: text }] }],
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' }}},
-                },
-            });
+            const wav = await speechPlayer.getWav(item);
+            if (!task.signal.aborted) downloadFile(`${toFileName(selectedChat.title)}-${message.id}.wav`, wav, 'audio/wav');
+        } catch (e) {
+            console.error("Speech download failed", e);
+            if (!task.signal.aborted) postCommandOutput(chatId, "Couldn't generate audio for that message.", true);
+            failTask(task, e, item.agent);
+        } finally {
+            task.finish();
+        }
+    };
+
+    // --- SLASH COMMAND HANDLERS ---
+    const postCommandOutput = (chatId: string, text: string, isError = false) => {
+        const output: Message = { id: `cmd${Date.now()}`, sender: 'System', text, isCommandOutput: true, ...(isError && { isError: true }) };
+        setChats(prevChats => prevChats.map(chat => chat.id === chatId ? { ...chat, messages: [...chat.messages, output] } : chat));
+    };
 
-            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-            if (base64Audio) {
-                const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-                const audioBuffer = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
-                const source = audioContext.createBufferSource();
-                source.buffer = audioBuffer;
-                source.connect(audioContext.destination);
-                source.start();
+    const runCommand = async (result: CommandParseResult, input: string) => {
+        if (!selectedChat || !activeAgent) return;
+        const chatId = selectedChat.id;
+        if ('error' in result) {
+            postCommandOutput(chatId, result.command ? `${result.error}\nUsage: ${formatCommandUsage(result.command)}` : result.error, true);
+            return;
+        }
+
+        const { command, flags, text } = result;
+        switch (command.name) {
+            case 'generate': {
+                if (isOverBudget(chatId, activeAgent)) return;
+                const thinkingMessage: Message = { id: `msg${Date.now() + 1}`, sender: activeAgent.name, agentId: activeAgent.id, isThinking: true };
+                updateChatMessages(chatId, [...selectedChat.messages, { id: `msg${Date.now()}`, sender: 'You', text: input }, thinkingMessage]);
+                await handleImageGeneration(chatId, thinkingMessage.id, {
+                    prompt: text,
+                    model: defaultImageModelFor(activeAgent),
+                    aspectRatio: flags.aspect as string,
+                    numberOfImages: flags.n as number,
+                    ...(flags.negative && { negativePrompt: flags.negative as string }),
+                });
+                return;
             }
-        } catch(e) {
-            console.error("TTS failed", e);
-        } finally {
-            setTaskStatus(null);
+            case 'help': {
+                const target = text && commandRegistry.find(c => c.name.toLowerCase() === text.replace(/^\//, '').toLowerCase());
+                if (text && !target) postCommandOutput(chatId, `Unknown command /${text.replace(/^\//, '')}.`, true);
+                else postCommandOutput(chatId, target ? formatCommandHelp(target) : formatCommandList(commandRegistry));
+                return;
+            }
+            case 'clear':
+                setChats(prevChats => prevChats.map(chat => chat.id === chatId ? { ...chat, messages: [], summary: undefined, branches: undefined } : chat));
+                return;
+            case 'summarize': {
+                if (isOverBudget(chatId, activeAgent)) return;
+                const task = taskManager.start({ kind: 'chat', title: `${activeAgent.name} is summarizing`, step: 'Condensing the conversation', chatId: chatId, agentIds: [activeAgent.id] });
+                try {
+                    const summary = await summarizeChat(selectedChat, activeAgent);
+                    if (!task.signal.aborted) postCommandOutput(chatId, summary ? `Summary of this chat:\n${summary}` : 'There is nothing to summarize yet.', !summary);
+                } catch (e) {
+                    console.error("Summarize failed", e);
+                    if (!task.signal.aborted) postCommandOutput(chatId, "Couldn't summarize this chat. Please try again.", true);
+                    failTask(task, e, activeAgent);
+                } finally {
+                    task.finish();
+                }
+                return;
+            }
+            case 'tts': {
+                const lastReply = getConversationMessages(selectedChat.messages).reverse().find(m => m.sender !== 'You' && m.text);
+                const speech = text || lastReply?.text;
+                if (speech && isOverBudget(chatId, activeAgent)) return;
+                if (speech) speechPlayer.play([{ key: `tts:${speech}`, text: toSpeechText(speech), agent: activeAgent, voiceName: flags.voice as string | undefined, label: text ? 'the text' : `${lastReply!.sender}'s reply`, onUsage: usage => recordUsage(chatId, activeAgent.id, usage) }]);
+                else postCommandOutput(chatId, 'There is no reply to read yet.', true);
+                return;
+            }
+            case 'title': {
+                if (text) {
+                    setChats(prevChats => prevChats.map(chat => chat.id === chatId ? { ...chat, title: text, needsTitle: false } : chat));
+                    return;
+                }
+                const conversation = getConversationMessages(selectedChat.messages);
+                const firstPrompt = conversation.find(m => m.sender === 'You' && m.text);
+                const firstReply = conversation.find(m => m.sender !== 'You' && m.text);
+                if (!firstPrompt || !firstReply) {
+                    postCommandOutput(chatId, 'There is no exchange to name this chat after yet. Use /title <title> to set one.', true);
+                    return;
+                }
+                if (isOverBudget(chatId, activeAgent)) return;
+                try {
+                    const title = await generateChatTitle(activeAgent, firstPrompt.text!, firstReply.text!);
+                    if (!title) throw new Error('Empty title');
+                    setChats(prevChats => prevChats.map(chat => chat.id === chatId ? { ...chat, title: title, needsTitle: false } : chat));
+                } catch (e) {
+                    console.error("Title generation failed", e);
+                    postCommandOutput(chatId, "Couldn't generate a title. Please try again.", true);
+                }
+                return;
+            }
+            case 'agent': {
+                const target = findAgentByName(agents, text);
+                if (!target) {
+                    postCommandOutput(chatId, `No single agent matches "${text}".`, true);
+                } else if (target.id === activeAgent.id) {
+                    postCommandOutput(chatId, `${target.name} is already handling this chat.`, true);
+                } else {
+                    setChats(prevChats => prevChats.map(chat => chat.id === chatId ? { ...chat, agentId: target.id } : chat));
+                    postCommandOutput(chatId, `${activeAgent.name} handed this chat over to ${target.name}.`);
+                }
+                return;
+            }
+            case 'export':
+                await handleExportChat(flags.format as ChatExportFormat);
+                return;
         }
     };
 
+    const acceptCommandSuggestion = (value: string) => {
+        setCurrentInput(value);
+        setCommandSuggestionIndex(-1);
+    };
 
-    // --- LIVE API HANDLERS ---
-    const toggleLiveConversation = useCallback(async () => {
-        if (isListening) {
-            // Stop listening
-            liveSessionRef.current?.close();
-            mediaStreamRef.current?.getTracks().forEach(track => track.stop());
-            inputAudioContextRef.current?.close();
-            outputAudioContextRef.current?.close();
-            audioProcessorRef.current?.disconnect();
-            liveSessionRef.current = null;
-            setIsListening(false);
-        } else {
-            // Start listening
-            if (!activeAgent) return;
-            setIsListening(true);
-            
-            inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-            nextStartTimeRef.current = 0;
-            audioSourcesRef.current.clear();
-            const outputNode = outputAudioContextRef.current.createGain();
-            outputNode.connect(outputAudioContextRef.current.destination);
-            
-            try {
-                mediaStreamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
-            } catch (err) {
-                console.error("Microphone access denied:", err);
-                setIsListening(false);
+    // --- ATTACHMENT HANDLERS ---
+    const addAttachments = (files: File[]) => {
+        if (!activeAgent || files.length === 0) return;
+        const { accepted, errors } = checkAttachments(files, attachedFiles.length, activeAgent);
+        setAttachedFiles([...attachedFiles, ...accepted]);
+        setAttachmentErrors(errors);
+    };
+
+    const removeAttachedFile = (index: number) => {
+        setAttachedFiles(attachedFiles.filter((_, i) => i !== index));
+        setAttachmentErrors([]);
+    };
+
+    const handleComposerPaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        const files = Array.from<File>(e.clipboardData.files);
+        if (files.length === 0) return; // Plain text pastes as usual
+        e.preventDefault();
+        addAttachments(files);
+    };
+
+    const handleFileDragOver = (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDraggingFiles(true);
+    };
+
+    const handleFileDragLeave = (e: React.DragEvent) => {
+        // Moving between child elements fires dragleave too; only leaving the panel counts.
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false);
+    };
+
+    const handleFileDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDraggingFiles(false);
+        addAttachments(Array.from(e.dataTransfer.files));
+    };
+
+    const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (commandSuggestions.length > 0) {
+            const highlighted = commandSuggestions[Math.max(commandSuggestionIndex, 0)];
+            const isCompletingName = !/\s/.test(currentInput.trim());
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setCommandSuggestionIndex((Math.max(commandSuggestionIndex, 0) + step + commandSuggestions.length) % commandSuggestions.length);
                 return;
             }
+            if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey && (isCompletingName || commandSuggestionIndex >= 0))) {
+                e.preventDefault();
+                acceptCommandSuggestion(highlighted.value);
+                return;
+            }
+            if (e.key === 'Escape') {
+                setDismissedSuggestionsFor(currentInput);
+                return;
+            }
+        }
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            handleSendMessage();
+        }
+    };
 
-            const sessionPromise = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                callbacks: {
-                    onopen: () => {
-                        const source = inputAudioContextRef.current!.createMediaStreamSource(mediaStreamRef.current!);
-                        const scriptProcessor = inputAudioContextRef.current!.createScriptProcessor(4096, 1, 1);
-                        audioProcessorRef.current = scriptProcessor;
-                        
-                        scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-                            const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                            const pcmBlob: Blob = {
-                                data: encode(new Uint8Array(new Int16Array(inputData.map(v => v * 32768)).buffer)),
-                                mimeType: 'audio/pcm;rate=16000',
-                            };
-                            sessionPromise.then((session) => {
-                                session.sendRealtimeInput({ media: pcmBlob });
-                            });
-                        };
-                        source.connect(scriptProcessor);
-                        scriptProcessor.connect(inputAudioContextRef.current!.destination);
-                    },
-                    onmessage: async (message: LiveServerMessage) => {
-                        const base64EncodedAudioString = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-                        if (base64EncodedAudioString) {
-                            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioContextRef.current!.currentTime);
-                            const audioBuffer = await decodeAudioData(decode(base64EncodedAudioString), outputAudioContextRef.current!, 24000, 1);
-                            const source = outputAudioContextRef.current!.createBufferSource();
-                            source.buffer = audioBuffer;
-                            source.connect(outputNode);
-                            source.addEventListener('ended', () => { audioSourcesRef.current.delete(source); });
-                            source.start(nextStartTimeRef.current);
-                            nextStartTimeRef.current += audioBuffer.duration;
-                            audioSourcesRef.current.add(source);
-                        }
-                        if (message.serverContent?.interrupted) {
-                            for (const source of audioSourcesRef.current.values()) {
-                                source.stop();
-                                audioSourcesRef.current.delete(source);
-                            }
-                            nextStartTimeRef.current = 0;
-                        }
-                    },
-                    onerror: (e: ErrorEvent) => {
-                        console.error('Live API Error:', e);
-                        setIsListening(false);
-                    },
-                    onclose: (e: CloseEvent) => {
-                         console.log('Live API Closed');
-                         setIsListening(false);
-                    },
+    // --- LIVE API HANDLERS ---
+    // Transcripts go to the chat the conversation started in, even if another chat is opened meanwhile.
+    const toggleLiveConversation = async () => {
+        if (liveConversationRef.current) {
+            liveConversationRef.current.stop();
+            return;
+        }
+        if (!activeAgent || !selectedChat || liveStatus || isOverBudget(selectedChat.id, activeAgent)) return;
+        const chat = selectedChat;
+        const agent = activeAgent;
+        let hasTitleRequest = false;
+        setLiveStatus('connecting');
+        const task = taskManager.start({
+            kind: 'live',
+            title: `Voice conversation with ${agent.name}`,
+            step: LIVE_STATUS_STEPS.connecting,
+            chatId: chat.id,
+            agentIds: [agent.id],
+            onCancel: () => liveConversationRef.current?.stop(),
+        });
+
+        const saveTurn = (turn: LiveTurn) => {
+            const id = `live${Date.now()}`;
+            const turnMessages: Message[] = [
+                ...(turn.userText ? [{ id: `${id}-you`, sender: 'You', text: turn.userText, isVoiceTranscript: true }] : []),
+                ...(turn.agentText ? [{ id: id, sender: agent.name, agentId: agent.id, text: turn.agentText, isVoiceTranscript: true, ...(turn.interrupted && { isInterrupted: true }) }] : []),
+            ];
+            if (turn.usage) recordUsage(chat.id, agent.id, turn.usage);
+            // The turn's tokens go on the agent's transcript, or on the user's when the agent said nothing.
+            if (turn.usage && turnMessages.length) turnMessages[turnMessages.length - 1] = withUsage(turnMessages[turnMessages.length - 1], turn.usage);
+            setChats(prevChats => prevChats.map(c => c.id === chat.id ? { ...c, messages: [...c.messages, ...turnMessages] } : c));
+            if (!hasTitleRequest && turn.userText && turn.agentText) {
+                hasTitleRequest = true;
+                maybeGenerateTitle(chat, agent, turn.userText, turn.agentText);
+            }
+        };
+
+        try {
+            liveConversationRef.current = await startLiveConversation({
+                agent: agent,
+                history: chat.messages,
+                onTurn: saveTurn,
+                onStatusChange: (status) => {
+                    setLiveStatus(status);
+                    task.update({ step: LIVE_STATUS_STEPS[status] });
                 },
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
-                    systemInstruction: activeAgent.config.systemInstruction,
+                onEnd: (error) => {
+                    liveConversationRef.current = null;
+                    setLiveStatus(null);
+                    if (error) {
+                        postCommandOutput(chat.id, `The live conversation ended: ${error}`, true);
+                        task.fail(error);
+                    }
+                    task.finish();
                 },
             });
-            liveSessionRef.current = await sessionPromise;
+            // Cancelled from the activity drawer while still connecting
+            if (task.signal.aborted) liveConversationRef.current.stop();
+        } catch (error) {
+            console.error("Couldn't start the live conversation:", error);
+            setLiveStatus(null);
+            const isDenied = error instanceof DOMException && error.name === 'NotAllowedError';
+            postCommandOutput(chat.id, isDenied ? 'Microphone access was denied.' : "Couldn't start the live conversation.", true);
+            task.fail(isDenied ? 'Microphone access was denied.' : ERROR_DESCRIPTIONS[classifyError(error).category].title);
+        }
+    };
+
+    // --- AGENT & CHAT LIFECYCLE HANDLERS ---
+    const createChat = (agentId: string): Chat => ({
+        id: `chat${Date.now()}`,
+        title: DEFAULT_CHAT_TITLE,
+        agentId: agentId,
+        messages: [],
+        needsTitle: true,
+    });
+
+    const handleSelectAgent = (agentId: string) => {
+        const existingChat = chats.find(c => c.agentId === agentId && !c.archived);
+        if (existingChat) {
+            setSelectedChatId(existingChat.id);
+            return;
+        }
+        const chat = createChat(agentId);
+        setChats(prevChats => [chat, ...prevChats]);
+        setSelectedChatId(chat.id);
+    };
+
+    const handleNewChat = () => {
+        if (!activeAgent) return;
+        const chat = createChat(activeAgent.id);
+        setChats(prevChats => [chat, ...prevChats]);
+        setSelectedChatId(chat.id);
+    };
+
+    const handleSaveTeam = (team: TeamConfig, title: string) => {
+        const chatId = teamDialog?.chatId;
+        if (chatId) {
+            setChats(prevChats => prevChats.map(chat => chat.id === chatId ? { ...chat, team: team, agentId: getTeamLeadId(team) } : chat));
+        } else {
+            const chat: Chat = { ...createChat(getTeamLeadId(team)), team: team, ...(title && { title: title, needsTitle: false }) };
+            setChats(prevChats => [chat, ...prevChats]);
+            setSelectedChatId(chat.id);
+        }
+        setTeamDialog(null);
+    };
+
+    const handleRenameChat = () => {
+        if (!renamingChat) return;
+        const title = renamingChat.title.trim();
+        if (title) {
+            setChats(prevChats => prevChats.map(chat => chat.id === renamingChat.id ? { ...chat, title: title, needsTitle: false } : chat));
+        }
+        setRenamingChat(null);
+    };
+
+    const handleDeleteChat = (chatId: string) => {
+        const chat = chats.find(c => c.id === chatId);
+        if (!chat || !window.confirm(`Delete "${chat.title}"? This cannot be undone.`)) return;
+        taskManager.cancelChat(chatId);
+        const remainingChats = chats.filter(c => c.id !== chatId);
+        if (chatId === selectedChatId) {
+            const nextChat = remainingChats.find(c => c.agentId === chat.agentId && !c.archived) ?? createChat(chat.agentId);
+            setChats(remainingChats.includes(nextChat) ? remainingChats : [nextChat, ...remainingChats]);
+            setSelectedChatId(nextChat.id);
+        } else {
+            setChats(remainingChats);
+        }
+    };
+
+    const handleNewAgent = () => {
+        setAgentForm({
+            title: 'New Agent',
+            agent: {
+                id: `agent${Date.now()}`,
+                name: '',
+                avatar: '',
+                capabilities: [],
+                config: { systemInstruction: 'You are a helpful assistant.', model: 'gemini-2.5-flash', tools: [] },
+            },
+        });
+    };
+
+    const handleCloneAgent = (agent: Agent) => {
+        setAgentForm({
+            title: `Clone ${agent.name}`,
+            agent: { ...JSON.parse(JSON.stringify(agent)), id: `agent${Date.now()}`, name: `${agent.name} (copy)` },
+        });
+    };
+
+    const handleSaveNewAgent = (agent: Agent) => {
+        const chat = createChat(agent.id);
+        setAgents(prevAgents => [...prevAgents, agent]);
+        setChats(prevChats => [chat, ...prevChats]);
+        setSelectedChatId(chat.id);
+        setAgentForm(null);
+    };
+
+    const handleGenerateAvatar = async (prompt: string) => {
+        const { images: [avatar] } = await getProvider().generateImages({
+            prompt: `A friendly, minimal circular avatar icon for ${prompt}. Flat illustration, centered, plain background.`,
+            numberOfImages: 1,
+            aspectRatio: '1:1',
+        });
+        if (!avatar) throw new Error('No image was returned.');
+        return avatar;
+    };
+
+    const handleDeleteAgent = (keepChats: boolean) => {
+        if (!agentPendingDeletion) return;
+        const agent = agentPendingDeletion;
+        const remainingAgents = agents.filter(a => a.id !== agent.id);
+        // Team chats lose the member; only a team left without members goes with the agent.
+        const chatsWithoutMember = chats.map(c => {
+            if (!c.team || (!c.team.agentIds.includes(agent.id) && c.team.coordinatorId !== agent.id)) return c;
+            const team: TeamConfig = {
+                ...c.team,
+                agentIds: c.team.agentIds.filter(id => id !== agent.id),
+                coordinatorId: c.team.coordinatorId === agent.id ? undefined : c.team.coordinatorId,
+            };
+            return team.agentIds.length > 0 ? { ...c, team: team, agentId: getTeamLeadId(team) } : c;
+        });
+        let nextChats = keepChats
+            ? chatsWithoutMember.map(c => c.agentId === agent.id ? { ...c, archived: true, archivedAgentName: agent.name } : c)
+            : chatsWithoutMember.filter(c => c.agentId !== agent.id);
+
+        if (selectedChat?.agentId === agent.id) {
+            const fallbackChat = nextChats.find(c => !c.archived && remainingAgents.some(a => a.id === c.agentId)) ?? createChat(remainingAgents[0].id);
+            if (!nextChats.includes(fallbackChat)) nextChats = [fallbackChat, ...nextChats];
+            setSelectedChatId(fallbackChat.id);
+        }
+        setAgents(remainingAgents);
+        setChats(nextChats);
+        removeKnowledgeSources(source => source.agentId === agent.id);
+        setScheduledJobs(prevJobs => prevJobs.filter(job => job.agentId !== agent.id));
+        setAgentPendingDeletion(null);
+    };
+
+    const handleRestoreArchivedChat = (chatId: string, agentId: string) => {
+        setChats(prevChats => prevChats.map(chat => {
+            if (chat.id !== chatId) return chat;
+            const { archived, archivedAgentName, ...rest } = chat;
+            return { ...rest, agentId: agentId };
+        }));
+    };
+
+    // --- AGENT IMPORT/EXPORT HANDLERS ---
+    const handleExportAgent = (agent: Agent) => {
+        downloadFile(`${toFileName(agent.name)}.agent.json`, JSON.stringify(createAgentManifest(agent), null, 2), 'application/json');
+    };
+
+    const handleExportAllAgents = () => {
+        downloadFile('agents.bundle.json', JSON.stringify(createAgentBundle(agents), null, 2), 'application/json');
+    };
+
+    const handleImportFile = async (file: File) => {
+        const result = parseAgentManifest(await file.text());
+        if ('errors' in result) {
+            setImportErrors({ title: "This file isn't a valid agent manifest", errors: result.errors });
+        } else {
+            setImportedAgents(result.agents);
+        }
+    };
+
+    const handleApplyImport = (incoming: Agent[]) => {
+        setAgents(prevAgents => {
+            const nextAgents = [...prevAgents];
+            incoming.forEach(agent => {
+                const index = nextAgents.findIndex(a => a.id === agent.id);
+                if (index >= 0) {
+                    nextAgents[index] = agent;
+                } else {
+                    nextAgents.push(agent);
+                }
+            });
+            return nextAgents;
+        });
+        setImportedAgents(null);
+    };
+
+    // --- CHAT TRANSCRIPT HANDLERS ---
+    const handleExportChat = async (format: ChatExportFormat) => {
+        if (!selectedChat || !activeAgent) return;
+        setIsExportMenuOpen(false);
+        const baseName = toFileName(selectedChat.title);
+        try {
+            switch (format) {
+                case 'markdown':
+                case 'markdown-files': {
+                    const { markdown, files } = await createChatMarkdown(selectedChat, activeAgent, format === 'markdown' ? 'inline' : 'files');
+                    downloadFile(`${baseName}.md`, markdown, 'text/markdown');
+                    files.forEach(file => downloadFile(file.fileName, file.blob, file.blob.type));
+                    break;
+                }
+                case 'json':
+                    downloadFile(`${baseName}.chat.json`, JSON.stringify(await createChatTranscript(selectedChat, activeAgent), null, 2), 'application/json');
+                    break;
+                case 'html':
+                    downloadFile(`${baseName}.html`, await createChatHtml(selectedChat, activeAgent, agents), 'text/html');
+                    break;
+            }
+        } catch (e) {
+            console.error("Chat export failed", e);
+        }
+    };
+
+    const handleImportChatFile = async (file: File) => {
+        const result = parseChatTranscript(await file.text());
+        if ('errors' in result) {
+            setImportErrors({ title: "This file isn't a valid chat transcript", errors: result.errors });
+            return;
         }
-    }, [isListening, activeAgent]);
+        const matchingAgent = agents.find(a => a.id === result.transcript.agent.id);
+        setPendingTranscript({ transcript: result.transcript, agentId: matchingAgent?.id ?? activeAgent?.id ?? agents[0].id });
+    };
+
+    const handleConfirmChatImport = () => {
+        if (!pendingTranscript) return;
+        const chat = chatFromTranscript(pendingTranscript.transcript, pendingTranscript.agentId);
+        setChats(prevChats => [chat, ...prevChats]);
+        setSelectedChatId(chat.id);
+        setPendingTranscript(null);
+    };
 
     // --- AGENT EDITING HANDLERS ---
     const handleSaveAgentChanges = () => {
         if (!editableAgent) return;
+        const commandError = validateAgentCommands(editableAgent.config.commands ?? []);
+        if (commandError) {
+            setAgentEditError(commandError);
+            return;
+        }
+        const settingsError = schemaTextError ?? validateModelSettings(editableAgent)[0];
+        if (settingsError) {
+            setAgentEditError(settingsError);
+            return;
+        }
         setAgents(prevAgents => prevAgents.map(agent => agent.id === editableAgent.id ? editableAgent : agent));
+        setAgentEditError(null);
         setIsEditing(false);
     };
 
@@ -440,6 +1498,8 @@ const App = () => {
         if (activeAgent) {
              setEditableAgent(JSON.parse(JSON.stringify(activeAgent))); // Reset changes
         }
+        setAgentEditError(null);
+        setSchemaTextError(null);
         setIsEditing(false);
     };
 
@@ -467,50 +1527,330 @@ const App = () => {
             }
         });
     };
+
+    const handleFunctionToolChange = (toolName: string, isChecked: boolean) => {
+        if (!editableAgent) return;
+        const otherTools = (editableAgent.config.functionTools ?? []).filter(name => name !== toolName);
+        setEditableAgent({
+            ...editableAgent,
+            config: { ...editableAgent.config, functionTools: isChecked ? [...otherTools, toolName] : otherTools },
+        });
+    };
+
+    // --- CUSTOM TOOL HANDLERS ---
+    // Renaming or deleting a tool updates every agent that has it enabled.
+    const renameAgentFunctionTool = (oldName: string, newName: string | null) => {
+        const rename = (agent: Agent): Agent => agent.config.functionTools?.includes(oldName)
+            ? {
+                ...agent,
+                config: {
+                    ...agent.config,
+                    functionTools: agent.config.functionTools.flatMap(name => name !== oldName ? [name] : newName ? [newName] : []),
+                },
+            }
+            : agent;
+        setAgents(prevAgents => prevAgents.map(rename));
+        setEditableAgent(prev => prev && rename(prev));
+    };
+
+    const handleSaveCustomTool = (tool: ToolDefinition, originalName?: string) => {
+        setCustomTools(prevTools => originalName
+            ? prevTools.map(t => t.name === originalName ? tool : t)
+            : [...prevTools, tool]);
+        if (originalName && originalName !== tool.name) renameAgentFunctionTool(originalName, tool.name);
+    };
+
+    const handleDeleteCustomTool = (toolName: string) => {
+        setCustomTools(prevTools => prevTools.filter(t => t.name !== toolName));
+        renameAgentFunctionTool(toolName, null);
+    };
     
+    // --- PROMPT TEMPLATE HANDLERS ---
+    // Agent templates live in the agent's config so they travel with its export.
+    const updateAgentTemplates = (agentId: string, update: (templates: PromptTemplate[]) => PromptTemplate[]) => {
+        const apply = (agent: Agent): Agent => agent.id === agentId
+            ? { ...agent, config: { ...agent.config, templates: update(agent.config.templates ?? []) } }
+            : agent;
+        setAgents(prevAgents => prevAgents.map(apply));
+        setEditableAgent(prev => prev && apply(prev));
+    };
+
+    const handleDeleteTemplate = ({ template, agentId }: ScopedTemplate) => {
+        const remove = (templates: PromptTemplate[]) => templates.filter(t => t.id !== template.id);
+        if (agentId) updateAgentTemplates(agentId, remove);
+        else setPromptTemplates(remove);
+    };
+
+    // Changing a template's scope moves it between the global list and the agent.
+    const handleSaveTemplate = (template: PromptTemplate, agentId?: string) => {
+        const previous = templatesFor(activeAgent, promptTemplates).find(entry => entry.template.id === template.id);
+        if (previous && previous.agentId !== agentId) handleDeleteTemplate(previous);
+        if (agentId) updateAgentTemplates(agentId, templates => upsertTemplate(templates, template));
+        else setPromptTemplates(templates => upsertTemplate(templates, template));
+    };
+
+    // Templates without variables are inserted straight away; the others ask for their values first.
+    const handlePickTemplate = (template: PromptTemplate) => {
+        setIsTemplatePickerOpen(false);
+        if (template.variables.length > 0) setFillingTemplate(template);
+        else insertTemplate(template, template.text);
+    };
+
+    const insertTemplate = async (template: PromptTemplate, text: string) => {
+        setFillingTemplate(null);
+        setCurrentInput(currentInput.trim() ? `${currentInput.trimEnd()}\n\n${text}` : text);
+        if (template.model && !selectedChat?.team) setComposerModel(template.model);
+        if (template.attachments?.length) {
+            try {
+                addAttachments(await templateAttachmentsToFiles(template.attachments));
+            } catch (e) {
+                setAttachmentErrors([`Couldn't attach the files of "${template.name}": ${(e as Error).message}`]);
+            }
+        }
+    };
+
+    // --- KNOWLEDGE BASE HANDLERS ---
+    const updateKnowledgeSource = (source: KnowledgeSource) =>
+        setKnowledgeSources(prevSources => prevSources.map(s => s.id === source.id ? source : s));
+
+    const runKnowledgeIndexing = async (agent: Agent, source: KnowledgeSource, file?: File) => {
+        try {
+            updateKnowledgeSource(await indexKnowledgeSource(agent, source, file));
+        } catch (e) {
+            console.error("Knowledge indexing failed", e);
+            const error = classifyError(e);
+            updateKnowledgeSource({ ...source, status: 'error', error: error.category === 'unknown' ? error.detail : ERROR_DESCRIPTIONS[error.category].title });
+        }
+    };
+
+    // Files are indexed one after another in the background; the panel shows each source's progress.
+    const handleAddKnowledgeFiles = async (files: File[]) => {
+        if (!activeAgent) return;
+        const agent = activeAgent;
+        const errors = files.map(file => checkKnowledgeFile(file, agent)).filter((error): error is string => !!error);
+        const accepted = files.filter(file => !checkKnowledgeFile(file, agent));
+        setKnowledgeErrors(errors);
+        const sources = accepted.map((file, i) => createKnowledgeSource(file, agent, `kb${Date.now()}-${i}`));
+        setKnowledgeSources(prevSources => [...prevSources, ...sources]);
+        for (const [i, source] of sources.entries()) await runKnowledgeIndexing(agent, source, accepted[i]);
+    };
+
+    const handleReindexKnowledge = async (source: KnowledgeSource) => {
+        const agent = agents.find(a => a.id === source.agentId);
+        if (!agent) return;
+        const indexing: KnowledgeSource = { ...source, status: 'indexing' };
+        updateKnowledgeSource(indexing);
+        await runKnowledgeIndexing(agent, indexing);
+    };
+
+    const removeKnowledgeSources = (isRemoved: (source: KnowledgeSource) => boolean) => {
+        const remaining = knowledgeSources.filter(source => !isRemoved(source));
+        knowledgeSources.filter(isRemoved).forEach(source => forgetKnowledgeSource(source.id));
+        setKnowledgeSources(remaining);
+        pruneKnowledge(remaining).catch(e => console.error("Failed to delete knowledge files", e));
+    };
+
+    // Opens a cited passage in its document; if the source was removed since, the cited text is shown alone.
+    const handleOpenPassage = async (chunkId: string, citation: { title?: string; text?: string }) => {
+        const chunk = await loadKnowledgeChunk(chunkId);
+        const file = chunk && await loadKnowledgeFile(chunk.sourceId);
+        if (!chunk || !file) {
+            const text = citation.text ?? '';
+            setOpenPassage({ sourceName: citation.title ?? 'Source', text: text, start: 0, end: text.length });
+            return;
+        }
+        setOpenPassage({
+            sourceName: knowledgeSources.find(source => source.id === chunk.sourceId)?.name ?? citation.title ?? 'Source',
+            text: file.text,
+            start: chunk.start,
+            end: chunk.end,
+            fileUrl: URL.createObjectURL(file.blob),
+        });
+    };
+
+    const closePassage = () => {
+        if (openPassage?.fileUrl) URL.revokeObjectURL(openPassage.fileUrl);
+        setOpenPassage(null);
+    };
+
+    // Keep the newest message in view while replies stream in
+    useEffect(() => {
+        messagesEndRef.current?.scrollIntoView({ block: 'end' });
+    }, [selectedChat?.messages]);
+
+    // Declared after the effect above so a search result wins over the scroll to the newest message
+    useEffect(() => {
+        if (!messageToReveal) return;
+        document.getElementById(`message-${messageToReveal}`)?.scrollIntoView({ block: 'center' });
+        setHighlightedMessageId(messageToReveal);
+        setMessageToReveal(null);
+    }, [messageToReveal, selectedChatId]);
+
+    useEffect(() => {
+        if (!highlightedMessageId) return;
+        const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+        return () => clearTimeout(timer);
+    }, [highlightedMessageId]);
+
     // --- RENDER LOGIC ---
-    if (!activeAgent || !selectedChat) {
+    if (!isLoaded || !activeAgent || !selectedChat) {
         return <div className="flex h-screen w-full items-center justify-center">Loading...</div>;
     }
 
+    const selectedChatTask = findChatTask(tasks, selectedChat.id);
+    const isSelectedChatBusy = !!selectedChatTask;
+    const statusOf = (agent: Agent) => getAgentStatus(agent, tasks, providerHealth[providerKeyFor(agent)]);
+    const activeAgentStatus = statusOf(activeAgent);
+    const activeAgentHealth = providerHealth[providerKeyFor(activeAgent)];
+    const runningTaskCount = tasks.filter(task => task.state === 'running').length;
+    const hasNewFailures = !isActivityOpen && tasks.some(task => task.state === 'failed' && task.endedAt! > activitySeenAt);
+    const activeTemplates = templatesFor(activeAgent, promptTemplates);
+
     const AgentListPanel = () => (
         <div className="flex h-screen w-16 flex-col items-center gap-4 border-r border-border-light bg-surface-subtle-light dark:border-border-dark dark:bg-surface-subtle-dark p-2">
             {agents.map(agent => (
-                <button key={agent.id} title={agent.name} onClick={() => {/* TODO: Agent switching logic */}}>
+                <button key={agent.id} title={`${agent.name} · ${statusOf(agent)}`} onClick={() => handleSelectAgent(agent.id)} className="relative">
                     <img src={agent.avatar} alt={agent.name} className={`h-10 w-10 rounded-full object-cover transition-all duration-200 ${activeAgent.id === agent.id ? 'ring-2 ring-primary ring-offset-2 dark:ring-offset-background-dark' : 'opacity-70 hover:opacity-100'}`} />
+                    <span className={`absolute bottom-0 right-0 h-3 w-3 rounded-full border-2 border-surface-subtle-light dark:border-surface-subtle-dark ${AGENT_STATUS_COLORS[statusOf(agent)].dot}`} />
                 </button>
             ))}
+            <button onClick={handleNewAgent} title="New agent" className="flex h-10 w-10 items-center justify-center rounded-full border-2 border-dashed border-border-light text-gray-500 hover:border-primary hover:text-primary dark:border-border-dark">
+                <span className="material-symbols-outlined">add</span>
+            </button>
+            <div className="mt-auto flex flex-col items-center gap-2">
+                {chats.some(c => c.archived) && (
+                    <button onClick={() => setIsArchiveOpen(true)} title="Archived chats" className="rounded-md p-2 text-gray-500 hover:bg-primary/10 hover:text-primary">
+                        <span className="material-symbols-outlined">inventory_2</span>
+                    </button>
+                )}
+                <button onClick={() => setIsAccessTokenOpen(true)} title="Access token" className="relative rounded-md p-2 text-gray-500 hover:bg-primary/10 hover:text-primary">
+                    <span className="material-symbols-outlined">key</span>
+                    {!getAccessToken() && <span title="No access token is set" className="absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 rounded-full bg-red-500" />}
+                </button>
+                <button onClick={() => setIsJobsOpen(true)} title="Scheduled jobs" className="rounded-md p-2 text-gray-500 hover:bg-primary/10 hover:text-primary">
+                    <span className="material-symbols-outlined">schedule</span>
+                </button>
+                <button onClick={handleToggleActivity} title="Activity" className={`relative rounded-md p-2 hover:bg-primary/10 hover:text-primary ${isActivityOpen ? 'text-primary' : 'text-gray-500'}`}>
+                    <span className={`material-symbols-outlined ${runningTaskCount > 0 ? 'animate-spin' : ''}`}>{runningTaskCount > 0 ? 'progress_activity' : 'history'}</span>
+                    {runningTaskCount > 0 && <span className="absolute -right-1 -top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] text-white">{runningTaskCount}</span>}
+                    {hasNewFailures && <span title="Some tasks failed" className="absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 rounded-full bg-red-500" />}
+                </button>
+            </div>
         </div>
     );
 
     const ChatListPanel = () => (
          <div className="hidden h-screen w-64 flex-col border-r border-border-light dark:border-border-dark md:flex">
-            <div className="p-4">
-                <h1 className="text-xl font-bold">{activeAgent.name}</h1>
+            <div className="flex items-center justify-between p-4">
+                <h1 className="truncate text-xl font-bold">{activeAgent.name}</h1>
+                <div className="flex items-center">
+                    <button onClick={() => setIsSearchOpen(true)} title="Search all chats (Ctrl+K)" className="material-symbols-outlined rounded-md p-1 text-primary hover:bg-primary/10">search</button>
+                    {agents.length > 1 && <button onClick={() => setTeamDialog({})} title="New team chat" className="material-symbols-outlined rounded-md p-1 text-primary hover:bg-primary/10">groups</button>}
+                    <button onClick={handleNewChat} title="New chat" className="material-symbols-outlined rounded-md p-1 text-primary hover:bg-primary/10">edit_square</button>
+                </div>
             </div>
             <div className="flex-1 overflow-y-auto">
                 <nav className="p-2">
-                    {chats.filter(c => c.agentId === activeAgent.id).map(chat => (
-                        <a href="#" key={chat.id} onClick={(e) => { e.preventDefault(); setSelectedChatId(chat.id); }} className={`block rounded px-3 py-2 text-sm font-medium transition-colors ${selectedChatId === chat.id ? 'bg-primary/10 text-primary' : 'hover:bg-primary/5'}`}>
-                            {chat.title}
-                        </a>
+                    {chats.filter(c => (c.agentId === activeAgent.id || c.team?.agentIds.includes(activeAgent.id)) && !c.archived).map(chat => (
+                        renamingChat?.id === chat.id ? (
+                            <form key={chat.id} onSubmit={(e) => { e.preventDefault(); handleRenameChat(); }} className="px-1 py-1">
+                                <input
+                                    autoFocus
+                                    value={renamingChat.title}
+                                    onChange={(e) => setRenamingChat({ ...renamingChat, title: e.target.value })}
+                                    onBlur={handleRenameChat}
+                                    onKeyDown={(e) => { if (e.key === 'Escape') setRenamingChat(null); }}
+                                    className="w-full rounded border-border-light bg-surface-subtle-light px-2 py-1 text-sm dark:border-border-dark dark:bg-surface-subtle-dark"
+                                />
+                            </form>
+                        ) : (
+                            <div key={chat.id} onClick={() => setSelectedChatId(chat.id)} className={`group flex cursor-pointer items-center gap-1 rounded px-3 py-2 text-sm font-medium transition-colors ${selectedChatId === chat.id ? 'bg-primary/10 text-primary' : 'hover:bg-primary/5'}`}>
+                                {chat.team && <span className="material-symbols-outlined text-sm" title="Team chat">groups</span>}
+                                {chat.jobId && <span className="material-symbols-outlined text-sm" title="Scheduled job">schedule</span>}
+                                <span className="flex-1 truncate">{chat.title}</span>
+                                {isChatBusy(tasks, chat.id) && (
+                                    <>
+                                        <span title="Working..." className="material-symbols-outlined animate-spin text-sm text-primary group-hover:hidden">progress_activity</span>
+                                        <button onClick={(e) => { e.stopPropagation(); taskManager.cancelChat(chat.id); }} title="Stop" className="material-symbols-outlined hidden text-sm text-red-500 group-hover:block">stop_circle</button>
+                                    </>
+                                )}
+                                <button onClick={(e) => { e.stopPropagation(); setRenamingChat({ id: chat.id, title: chat.title }); }} title="Rename" className="material-symbols-outlined hidden text-sm opacity-60 hover:opacity-100 group-hover:block">edit</button>
+                                <button onClick={(e) => { e.stopPropagation(); handleDeleteChat(chat.id); }} title="Delete" className="material-symbols-outlined hidden text-sm opacity-60 hover:opacity-100 group-hover:block">delete</button>
+                            </div>
+                        )
                     ))}
                 </nav>
             </div>
+            <div className="border-t border-border-light dark:border-border-dark p-2">
+                <label className="flex cursor-pointer items-center gap-2 rounded px-3 py-2 text-sm text-gray-500 hover:bg-primary/5 dark:text-gray-400">
+                    <span className="material-symbols-outlined text-base">upload_file</span>Import chat
+                    <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { e.target.files?.[0] && handleImportChatFile(e.target.files[0]); e.target.value = ''; }} />
+                </label>
+            </div>
         </div>
     );
     
+    const budgetWarnings = (selectedChat.team ? getTeamMembers(selectedChat.team, agents) : [activeAgent])
+        .map(agent => ({ agent, status: getBudgetStatus(agent, usageLedger) }))
+        .filter(({ status }) => status && status.level !== 'ok');
+
     const ChatPanel = () => (
-         <main className="flex h-screen flex-1 flex-col">
+         <main onDragOver={handleFileDragOver} onDragLeave={handleFileDragLeave} onDrop={handleFileDrop} className="relative flex h-screen flex-1 flex-col">
+            {isDraggingFiles && (
+                <div className="pointer-events-none absolute inset-2 z-40 flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-primary bg-primary/10 text-primary">
+                    <span className="material-symbols-outlined text-4xl">upload_file</span>
+                    <p className="text-sm font-medium">Drop files to attach them</p>
+                </div>
+            )}
             <header className="flex h-16 items-center border-b border-border-light dark:border-border-dark px-6">
                 <h2 className="text-lg font-semibold">{selectedChat.title}</h2>
+                {selectedChat.team && (
+                    <button onClick={() => setTeamDialog({ chatId: selectedChat.id })} title="Team settings" className="ml-3 flex items-center gap-2 rounded-md px-2 py-1 text-xs text-gray-500 hover:bg-primary/10 dark:text-gray-400">
+                        <span className="flex -space-x-2">
+                            {getTeamMembers(selectedChat.team, agents).map(member => (
+                                <img key={member.id} src={member.avatar} alt={member.name} title={member.name} className="h-6 w-6 rounded-full border-2 border-surface-light object-cover dark:border-background-dark" />
+                            ))}
+                        </span>
+                        {selectedChat.team.strategy === 'pipeline' ? 'Pipeline' : 'Coordinator'} · up to {selectedChat.team.maxTurns} turns
+                    </button>
+                )}
+                <button onClick={() => setImageStudio({})} title="Image studio" className="material-symbols-outlined ml-auto rounded-md p-2 hover:bg-primary/10">photo_library</button>
+                <button onClick={() => setIsUsageOpen(true)} title="Usage and costs" className="material-symbols-outlined rounded-md p-2 hover:bg-primary/10">monitoring</button>
+                <button onClick={handleReadChatAloud} title="Read chat aloud" className="material-symbols-outlined rounded-md p-2 hover:bg-primary/10">record_voice_over</button>
+                <div className="relative">
+                    <button onClick={() => setIsExportMenuOpen(!isExportMenuOpen)} title="Export chat" className="material-symbols-outlined rounded-md p-2 hover:bg-primary/10">ios_share</button>
+                    {isExportMenuOpen && (
+                        <div className="absolute right-0 top-full z-10 mt-1 w-56 rounded-md border border-border-light bg-surface-light py-1 text-sm shadow-lg dark:border-border-dark dark:bg-surface-dark">
+                            <button onClick={() => handleExportChat('markdown')} className="block w-full px-3 py-2 text-left hover:bg-primary/10">Markdown (embedded images)</button>
+                            <button onClick={() => handleExportChat('markdown-files')} className="block w-full px-3 py-2 text-left hover:bg-primary/10">Markdown + image files</button>
+                            <button onClick={() => handleExportChat('json')} className="block w-full px-3 py-2 text-left hover:bg-primary/10">JSON (lossless)</button>
+                            <button onClick={() => handleExportChat('html')} className="block w-full px-3 py-2 text-left hover:bg-primary/10">HTML page</button>
+                        </div>
+                    )}
+                </div>
             </header>
             <div className="flex-1 overflow-y-auto p-6">
                 <div className="mx-auto max-w-3xl space-y-8">
-                    {selectedChat.messages.map((msg) => (
-                        <div key={msg.id} className={`flex items-start gap-4 ${msg.sender === 'You' ? 'justify-end' : ''}`}>
-                            {msg.sender !== 'You' && <img src={activeAgent.avatar} alt={activeAgent.name} className="h-8 w-8 rounded-full" />}
-                            <div className={`rounded-lg p-3 text-sm ${msg.sender === 'You' ? 'bg-primary text-white rounded-br-none' : 'bg-surface-light dark:bg-surface-dark rounded-bl-none'}`}>
+                    {selectedChat.summary && (
+                        <details className="rounded-lg border border-border-light dark:border-border-dark p-3 text-xs text-gray-500 dark:text-gray-400">
+                            <summary className="cursor-pointer font-medium">Earlier messages are summarized to fit {activeAgent.name}'s context budget</summary>
+                            <p className="mt-2 whitespace-pre-wrap">{selectedChat.summary.text}</p>
+                        </details>
+                    )}
+                    {selectedChat.messages.map((msg) => {
+                        const branchPosition = getSiblingPosition(selectedChat, msg.id);
+                        const branchNavigator = branchPosition && <BranchNavigator position={branchPosition} disabled={isSelectedChatBusy} onSelect={(index) => handleSwitchBranch(msg.id, index)} />;
+                        return msg.isCommandOutput ? (
+                        <div key={msg.id} className={`mx-auto max-w-xl rounded-md border px-3 py-2 font-mono text-xs whitespace-pre-wrap ${msg.isError ? 'border-red-500/40 text-red-500' : 'border-border-light dark:border-border-dark text-gray-500 dark:text-gray-400'}`}>
+                            {msg.text}
+                        </div>
+                    ) : (
+                        <div key={msg.id} id={`message-${msg.id}`} className={`flex items-start gap-4 rounded-lg transition-shadow duration-500 ${msg.sender === 'You' ? 'justify-end' : ''} ${highlightedMessageId === msg.id ? 'ring-2 ring-primary/60 ring-offset-4 dark:ring-offset-background-dark' : ''}`}>
+                            {msg.sender !== 'You' && <img src={agentForMessage(msg).avatar} alt={msg.sender} title={msg.sender} className="h-8 w-8 rounded-full" />}
+                            <div className={`group min-w-0 rounded-lg p-3 text-sm ${msg.sender === 'You' ? 'bg-primary text-white rounded-br-none' : 'bg-surface-light dark:bg-surface-dark rounded-bl-none'}`}>
+                                {msg.sender !== 'You' && (selectedChat.team || agentForMessage(msg).id !== activeAgent.id) && (
+                                    <p className="mb-1 text-xs font-semibold text-gray-500 dark:text-gray-400">{msg.sender}</p>
+                                )}
                                 {msg.isThinking ? (
                                     <div className="flex items-center gap-2">
                                         <div className="h-2 w-2 animate-pulse rounded-full bg-primary/50"></div>
@@ -519,46 +1859,222 @@ const App = () => {
                                     </div>
                                 ) : (
                                     <>
-                                        {msg.text && <p className="prose prose-sm dark:prose-invert max-w-none">{msg.text}</p>}
-                                        {msg.image && <img src={msg.image} className="mt-2 max-w-sm rounded-md" alt="Generated content" />}
+                                        {msg.toolSteps?.map(step => (
+                                            <details key={step.id} className="mb-2 rounded-md border border-border-light dark:border-border-dark px-2 py-1 text-xs">
+                                                <summary className="flex cursor-pointer items-center gap-1 font-medium">
+                                                    <span className={`material-symbols-outlined text-sm ${step.status === 'running' ? 'animate-spin text-primary' : step.status === 'error' ? 'text-red-500' : 'text-green-500'}`}>
+                                                        {step.status === 'running' ? 'progress_activity' : step.status === 'error' ? 'error' : 'check_circle'}
+                                                    </span>
+                                                    <span className="font-mono">{step.name}</span>
+                                                </summary>
+                                                <p className="mt-1 text-gray-500 dark:text-gray-400">Arguments</p>
+                                                <pre className="overflow-x-auto whitespace-pre-wrap rounded bg-surface-subtle-light dark:bg-surface-subtle-dark p-1 font-mono">{JSON.stringify(step.args, null, 2)}</pre>
+                                                {step.status !== 'running' && <p className="mt-1 text-gray-500 dark:text-gray-400">{step.status === 'error' ? 'Error' : 'Result'}</p>}
+                                                {step.status === 'done' && <pre className="max-h-48 overflow-auto whitespace-pre-wrap rounded bg-surface-subtle-light dark:bg-surface-subtle-dark p-1 font-mono">{JSON.stringify(step.result, null, 2)}</pre>}
+                                                {step.status === 'error' && <pre className="whitespace-pre-wrap rounded bg-red-500/10 p-1 font-mono text-red-500">{step.error}</pre>}
+                                            </details>
+                                        ))}
+                                        {editingMessage?.id === msg.id ? (
+                                            <form onSubmit={(e) => { e.preventDefault(); handleEditMessage(); }} className="w-96 max-w-full">
+                                                <textarea
+                                                    autoFocus
+                                                    rows={3}
+                                                    value={editingMessage.text}
+                                                    onChange={(e) => setEditingMessage({ ...editingMessage, text: e.target.value })}
+                                                    onKeyDown={(e) => {
+                                                        if (e.key === 'Escape') setEditingMessage(null);
+                                                        else if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleEditMessage(); }
+                                                    }}
+                                                    className="w-full resize-y rounded-md border-none bg-white/15 p-2 text-sm text-white focus:ring-white/50"
+                                                />
+                                                <div className="mt-1 flex justify-end gap-2 text-xs">
+                                                    <button type="button" onClick={() => setEditingMessage(null)} className="rounded px-2 py-1 hover:bg-white/10">Cancel</button>
+                                                    <button type="submit" disabled={isSelectedChatBusy} className="rounded bg-white px-2 py-1 font-medium text-primary disabled:opacity-50">Send</button>
+                                                </div>
+                                            </form>
+                                        ) : msg.structuredOutput && parseStructuredOutput(msg.text) !== undefined ? (
+                                            <StructuredOutputView value={parseStructuredOutput(msg.text)} errors={msg.structuredOutput.errors} />
+                                        ) : msg.text && !(msg.isError && msg.error) && (msg.sender === 'You'
+                                            ? <p className="whitespace-pre-wrap">{msg.text}</p>
+                                            : <MarkdownContent text={msg.text} collapsible={!msg.isStreaming} />)}
+                                        {msg.structuredOutput && parseStructuredOutput(msg.text) === undefined && (
+                                            <p className="mt-1 flex items-center gap-1 text-xs text-red-500"><span className="material-symbols-outlined text-sm">data_object</span>{msg.structuredOutput.errors.join(' ')}</p>
+                                        )}
+                                        {msg.isStreaming && <span className="ml-0.5 inline-block h-4 w-1.5 animate-pulse bg-primary/70 align-middle"></span>}
+                                        {msg.attachments?.map(attachment => (
+                                            <div key={attachment.id}>
+                                                <AttachmentPreview attachment={attachment} />
+                                                {isImageAttachment(attachment) && attachment.url && (
+                                                    <div className="mt-1 flex items-center gap-2 text-xs opacity-70">
+                                                        {msg.imageGeneration && !attachment.isStored && <span>{imageVersionLabel(toGalleryImage(msg, attachment))}{msg.imageGeneration.seed !== undefined && ` · seed ${msg.imageGeneration.seed}`}</span>}
+                                                        <button onClick={() => setImageStudio({ baseId: attachment.id })} className="flex items-center gap-0.5 hover:underline" title={isGeminiAgent(activeAgent) ? 'Edit this image in the studio' : 'Open the image studio'}>
+                                                            <span className="material-symbols-outlined text-sm">auto_fix_high</span>{isGeminiAgent(activeAgent) ? 'Edit' : 'Studio'}
+                                                        </button>
+                                                    </div>
+                                                )}
+                                            </div>
+                                        ))}
                                         {msg.groundingChunks && msg.groundingChunks.length > 0 && (
                                             <div className="mt-2 border-t border-border-light dark:border-border-dark pt-2">
                                                 <h4 className="text-xs font-bold text-gray-500 dark:text-gray-400 mb-1">Sources:</h4>
                                                 <ul className="list-inside list-disc text-xs">
-                                                    {msg.groundingChunks.map((chunk: any, index: number) => (
-                                                        <li key={index}><a href={chunk.web?.uri || chunk.maps?.uri} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">{chunk.web?.title || chunk.maps?.title || 'Source'}</a></li>
-                                                    ))}
+                                                    {msg.groundingChunks.map((chunk: any, index: number) => {
+                                                        const knowledgeChunkId = parseKnowledgeUri(chunk.retrievedContext?.uri);
+                                                        const link = groundingChunkLink(chunk);
+                                                        return knowledgeChunkId ? (
+                                                            <li key={index}><button onClick={() => handleOpenPassage(knowledgeChunkId, chunk.retrievedContext)} title={chunk.retrievedContext.text} className="text-primary hover:underline">{chunk.retrievedContext.title}</button></li>
+                                                        ) : (
+                                                            <li key={index}>{link.uri ? <a href={link.uri} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">{link.title}</a> : link.title}</li>
+                                                        );
+                                                    })}
                                                 </ul>
                                             </div>
                                         )}
-                                        {msg.text && msg.sender !== 'You' && <button onClick={() => playTTS(msg.text!)} className="material-symbols-outlined text-sm opacity-50 hover:opacity-100 mt-2">volume_up</button>}
+                                        {(msg.isError || msg.error) && !msg.isStreaming && (
+                                            <MessageErrorDetails error={msg.error} showSummary={!!msg.isError} canRetry={!isSelectedChatBusy} onRetry={() => handleRetryMessage(msg)} />
+                                        )}
+                                        {msg.handoffTo && (
+                                            <p className="mt-2 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                                                <span className="material-symbols-outlined text-sm">forward</span>Handed off to {msg.handoffTo}
+                                            </p>
+                                        )}
+                                        {msg.isInterrupted && (
+                                            <p className="mt-2 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                                                <span className="material-symbols-outlined text-sm">stop_circle</span>Response interrupted
+                                            </p>
+                                        )}
+                                        {msg.isVoiceTranscript && (
+                                            <p className="mt-1 flex items-center gap-1 text-xs opacity-70">
+                                                <span className="material-symbols-outlined text-sm">mic</span>Voice transcript
+                                            </p>
+                                        )}
+                                        {msg.sender === 'You' && editingMessage?.id !== msg.id && (
+                                            <div className="mt-1 flex items-center justify-end gap-1">
+                                                {branchNavigator}
+                                                <button onClick={() => setEditingMessage({ id: msg.id, text: msg.text ?? '' })} disabled={isSelectedChatBusy} title="Edit and resend" className="material-symbols-outlined text-sm opacity-0 hover:!opacity-100 group-hover:opacity-60 disabled:hidden">edit</button>
+                                            </div>
+                                        )}
+                                        {msg.sender !== 'You' && !msg.isStreaming && (msg.text || branchPosition) && (
+                                            <div className="mt-2 flex items-center gap-1">
+                                                {branchNavigator}
+                                                {msg.text && (
+                                                    <>
+                                                        <button onClick={() => handleSpeakMessage(msg)} title={speechState.current?.key === msg.id ? (speechState.status === 'paused' ? 'Resume' : 'Pause') : 'Read aloud'} className="material-symbols-outlined text-sm opacity-50 hover:opacity-100">
+                                                            {speechState.current?.key === msg.id && speechState.status !== 'paused' ? 'pause' : 'volume_up'}
+                                                        </button>
+                                                        <button onClick={() => handleDownloadSpeech(msg)} title="Download audio (WAV)" className="material-symbols-outlined text-sm opacity-50 hover:opacity-100">download</button>
+                                                    </>
+                                                )}
+                                                {!msg.isError && !msg.imageGeneration && (
+                                                    <div className="relative flex items-center">
+                                                        <button onClick={() => handleRegenerateMessage(msg)} disabled={isSelectedChatBusy} title="Regenerate" className="material-symbols-outlined text-sm opacity-50 hover:opacity-100 disabled:opacity-20">refresh</button>
+                                                        {isGeminiAgent(agentForMessage(msg)) && (
+                                                            <button onClick={() => setRegenerateMenuFor(regenerateMenuFor === msg.id ? null : msg.id)} disabled={isSelectedChatBusy} title="Regenerate with another model" className="material-symbols-outlined -ml-1 text-sm opacity-50 hover:opacity-100 disabled:opacity-20">arrow_drop_down</button>
+                                                        )}
+                                                        {regenerateMenuFor === msg.id && (
+                                                            <div className="absolute left-0 top-full z-10 mt-1 w-64 rounded-md border border-border-light bg-surface-light py-1 text-sm shadow-lg dark:border-border-dark dark:bg-surface-dark">
+                                                                {MODEL_CATALOG.map(model => (
+                                                                    <button key={model.id} onClick={() => handleRegenerateMessage(msg, model.id)} title={model.description} className="flex w-full items-center justify-between px-3 py-2 text-left hover:bg-primary/10">
+                                                                        {model.label}
+                                                                        {model.id === agentForMessage(msg).config.model && <span className="text-xs text-gray-500 dark:text-gray-400">agent's model</span>}
+                                                                    </button>
+                                                                ))}
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                )}
+                                                {msg.model && <span title="Answered with this model instead of the agent's" className="text-xs opacity-50">{msg.model}</span>}
+                                                {msg.usage && <span title={describeMessageUsage(msg.usage)} className="ml-auto text-xs opacity-50">{formatTokens(msg.usage.reduce((sum, record) => sum + totalTokens(record), 0))} tokens</span>}
+                                            </div>
+                                        )}
                                     </>
                                 )}
                             </div>
                         </div>
-                    ))}
+                        );
+                    })}
+                    <div ref={messagesEndRef} />
                 </div>
             </div>
             <div className="border-t border-border-light bg-surface-light dark:border-border-dark dark:bg-surface-dark p-4">
                 <div className="relative mx-auto max-w-3xl">
-                     {attachedFile && (
-                        <div className="absolute bottom-full left-0 mb-2 w-full">
-                            <div className="flex items-center gap-2 rounded-md border border-border-light bg-surface-subtle-light p-2 dark:border-border-dark dark:bg-surface-subtle-dark">
-                                <span className="material-symbols-outlined text-lg">attachment</span>
-                                <span className="text-sm truncate">{attachedFile.name}</span>
-                                <button onClick={() => setAttachedFile(null)} className="material-symbols-outlined ml-auto text-sm">close</button>
-                            </div>
+                    {(speechState.status !== 'idle' || speechState.error) && <SpeechPlayerBar player={speechPlayer} state={speechState} />}
+                    {selectedChatTask && (
+                        <p className="mb-2 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                            <span className="material-symbols-outlined animate-spin text-sm text-primary">progress_activity</span>
+                            <span className="truncate">{selectedChatTask.title}{selectedChatTask.step && ` · ${selectedChatTask.step}`}</span>
+                        </p>
+                    )}
+                    {composerModel && (
+                        <p className="mb-2 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                            <span className="material-symbols-outlined text-sm">model_training</span>
+                            The next reply uses {findModel(composerModel)?.label ?? composerModel}
+                            <button onClick={() => setComposerModel(null)} title={`Use ${activeAgent.name}'s model`} className="material-symbols-outlined text-sm hover:text-red-500">close</button>
+                        </p>
+                    )}
+                    {budgetWarnings.map(({ agent, status }) => (
+                        <p key={agent.id} className={`mb-2 flex items-center gap-1 text-xs ${status.level === 'exceeded' ? 'text-red-500' : 'text-amber-500'}`}>
+                            <span className="material-symbols-outlined text-sm">{status.level === 'exceeded' ? 'block' : 'warning'}</span>
+                            {describeBudget(agent, status)}{status.level === 'exceeded' && ' New messages are blocked.'}
+                        </p>
+                    ))}
+                    {commandSuggestions.length > 0 && (
+                        <CommandSuggestionList suggestions={commandSuggestions} activeIndex={Math.max(commandSuggestionIndex, 0)} onSelect={acceptCommandSuggestion} />
+                    )}
+                     {(attachedFiles.length > 0 || attachmentErrors.length > 0) && !commandSuggestions.length && (
+                        <div className="absolute bottom-full left-0 mb-2 w-full space-y-1 rounded-md border border-border-light bg-surface-subtle-light p-2 dark:border-border-dark dark:bg-surface-subtle-dark">
+                            {attachedFiles.length > 0 && (
+                                <div className="flex flex-wrap gap-2">
+                                    {attachedFiles.map((file, index) => (
+                                        <span key={`${file.name}-${index}`} className="flex max-w-56 items-center gap-1 rounded-md bg-background-light px-2 py-1 text-sm dark:bg-background-dark">
+                                            <span className="material-symbols-outlined text-base">{ATTACHMENT_ICONS[attachmentKind({ name: file.name, mimeType: resolveMimeType(file) })]}</span>
+                                            <span className="truncate">{file.name}</span>
+                                            <span className="shrink-0 text-xs text-gray-500 dark:text-gray-400">{formatFileSize(file.size)}</span>
+                                            <button onClick={() => removeAttachedFile(index)} title="Remove" className="material-symbols-outlined text-sm">close</button>
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                            {attachmentErrors.map(error => <p key={error} className="text-xs text-red-500">{error}</p>)}
                         </div>
                     )}
                     <form onSubmit={(e) => { e.preventDefault(); handleSendMessage(); }}>
-                        <textarea value={currentInput} onChange={(e) => setCurrentInput(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSendMessage(); } }} placeholder={`Message ${activeAgent.name}...`} className="w-full resize-none rounded-lg border border-border-light bg-background-light dark:border-border-dark dark:bg-background-dark p-3 pr-28 text-sm focus:ring-primary focus:border-primary" rows={1}></textarea>
+                        <textarea value={currentInput} onChange={(e) => { setCurrentInput(e.target.value); setCommandSuggestionIndex(-1); }} onKeyDown={handleComposerKeyDown} onPaste={handleComposerPaste} placeholder={`Message ${activeAgent.name}... (type / for commands)`} className="w-full resize-none rounded-lg border border-border-light bg-background-light dark:border-border-dark dark:bg-background-dark p-3 pr-40 text-sm focus:ring-primary focus:border-primary" rows={1}></textarea>
                         <div className="absolute bottom-2 right-2 flex items-center gap-1">
-                            <label htmlFor="file-upload" className="cursor-pointer rounded-md p-2 hover:bg-primary/10">
+                            <div className="relative">
+                                <button type="button" onClick={() => setIsTemplatePickerOpen(!isTemplatePickerOpen)} title="Prompt templates" className="rounded-md p-2 hover:bg-primary/10">
+                                    <span className="material-symbols-outlined">description</span>
+                                </button>
+                                {isTemplatePickerOpen && (
+                                    <div className="absolute bottom-full right-0 z-10 mb-1 max-h-80 w-72 overflow-y-auto rounded-md border border-border-light bg-surface-light py-1 text-sm shadow-lg dark:border-border-dark dark:bg-surface-dark">
+                                        {activeTemplates.length === 0 && <p className="px-3 py-2 text-gray-500 dark:text-gray-400">No templates yet.</p>}
+                                        {activeTemplates.map(({ template, agentId }) => (
+                                            <button key={template.id} type="button" onClick={() => handlePickTemplate(template)} className="block w-full px-3 py-2 text-left hover:bg-primary/10">
+                                                <span className="flex items-center gap-1">
+                                                    <span className="truncate">{template.name}</span>
+                                                    {agentId && <span className="material-symbols-outlined text-sm text-primary" title={`${activeAgent.name} only`}>person</span>}
+                                                </span>
+                                                {template.description && <span className="block truncate text-xs text-gray-500 dark:text-gray-400">{template.description}</span>}
+                                            </button>
+                                        ))}
+                                        <button type="button" onClick={() => { setIsTemplatePickerOpen(false); setIsTemplateLibraryOpen(true); }} className="block w-full border-t border-border-light px-3 py-2 text-left text-primary hover:bg-primary/10 dark:border-border-dark">Manage templates…</button>
+                                    </div>
+                                )}
+                            </div>
+                            <label htmlFor="file-upload" title="Attach files (or drop or paste them)" className="cursor-pointer rounded-md p-2 hover:bg-primary/10">
                                 <span className="material-symbols-outlined">attach_file</span>
-                                <input id="file-upload" type="file" className="hidden" onChange={(e) => e.target.files && setAttachedFile(e.target.files[0])} />
+                                <input id="file-upload" type="file" multiple className="hidden" onChange={(e) => { addAttachments(Array.from(e.target.files ?? [])); e.target.value = ''; }} />
                             </label>
-                            <button type="button" onClick={toggleLiveConversation} className={`rounded-md p-2 hover:bg-primary/10 ${isListening ? 'text-red-500 animate-pulse' : 'text-primary'}`}><span className="material-symbols-outlined">{isListening ? 'mic_off' : 'mic'}</span></button>
-                            <button type="submit" className="rounded-md bg-primary p-2 text-white"><span className="material-symbols-outlined">send</span></button>
+                            {isGeminiAgent(activeAgent) && (
+                                <button type="button" onClick={toggleLiveConversation} disabled={liveStatus === 'connecting'} title={LIVE_STATUS_TITLES[liveStatus ?? 'idle']} className={`rounded-md p-2 hover:bg-primary/10 ${liveStatus === 'live' ? 'text-red-500 animate-pulse' : liveStatus ? 'text-amber-500 animate-pulse' : 'text-primary'}`}>
+                                    <span className="material-symbols-outlined">{liveStatus ? 'mic_off' : 'mic'}</span>
+                                </button>
+                            )}
+                            {isSelectedChatBusy ? (
+                                <button type="button" onClick={handleStopGeneration} title="Stop generating" className="rounded-md bg-red-500 p-2 text-white"><span className="material-symbols-outlined">stop</span></button>
+                            ) : (
+                                <button type="submit" className="rounded-md bg-primary p-2 text-white"><span className="material-symbols-outlined">send</span></button>
+                            )}
                         </div>
                     </form>
                 </div>
@@ -572,7 +2088,19 @@ const App = () => {
                 <div className="text-center">
                     <img src={activeAgent.avatar} alt={activeAgent.name} className="mx-auto h-24 w-24 rounded-full" />
                     <h3 className="mt-4 text-xl font-bold">{activeAgent.name}</h3>
-                    <p className={`mt-1 text-sm font-medium ${activeAgent.status === 'Offline' ? 'text-gray-500' : 'text-green-500'}`}>{activeAgent.status}</p>
+                    <p className={`mt-1 text-sm font-medium ${AGENT_STATUS_COLORS[activeAgentStatus].text}`}>{activeAgentStatus}</p>
+                    {activeAgentStatus === 'Offline' && (
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                            {activeAgentHealth?.detail} <button onClick={() => checkProviders([activeAgent], true)} className="text-primary hover:underline">Check again</button>
+                            {isGeminiAgent(activeAgent) && <> · <button onClick={() => setIsAccessTokenOpen(true)} className="text-primary hover:underline">Access token</button></>}
+                        </p>
+                    )}
+                    <div className="mt-3 flex justify-center gap-2">
+                        <button onClick={() => handleCloneAgent(activeAgent)} className="flex items-center gap-1 rounded-md px-2 py-1 text-sm text-primary hover:bg-primary/10"><span className="material-symbols-outlined text-base">content_copy</span>Clone</button>
+                        {agents.length > 1 && (
+                            <button onClick={() => setAgentPendingDeletion(activeAgent)} className="flex items-center gap-1 rounded-md px-2 py-1 text-sm text-red-500 hover:bg-red-500/10"><span className="material-symbols-outlined text-base">delete</span>Delete</button>
+                        )}
+                    </div>
                 </div>
                 
                 <hr className="my-6 border-border-light dark:border-border-dark"/>
@@ -593,6 +2121,19 @@ const App = () => {
                                     rows={5}
                                 />
                             </div>
+                            <ProviderFields
+                                agent={editableAgent}
+                                onChange={(config) => setEditableAgent({ ...editableAgent, config: { ...editableAgent.config, ...config } })}
+                            />
+                            <ModelSettingsEditor
+                                agent={editableAgent}
+                                onChange={(config) => setEditableAgent({ ...editableAgent, config: { ...editableAgent.config, ...config } })}
+                                onSchemaTextError={setSchemaTextError}
+                            />
+                            <VoiceFields
+                                agent={editableAgent}
+                                onChange={(config) => setEditableAgent({ ...editableAgent, config: { ...editableAgent.config, ...config } })}
+                            />
                              <div>
                                 <h5 className="text-sm font-medium mb-2">Capabilities</h5>
                                 <div className="space-y-2">
@@ -609,6 +2150,37 @@ const App = () => {
                                     ))}
                                 </div>
                             </div>
+                            <div>
+                                <div className="mb-2 flex items-center justify-between">
+                                    <h5 className="text-sm font-medium">Functions</h5>
+                                    <button onClick={() => setIsToolManagerOpen(true)} className="text-xs text-primary hover:underline">Manage tools</button>
+                                </div>
+                                <div className="space-y-2">
+                                    {toolRegistry.map(tool => (
+                                        <label key={tool.name} className="flex items-start gap-2 text-sm" title={tool.description}>
+                                            <input
+                                                type="checkbox"
+                                                className="mt-0.5 rounded text-primary focus:ring-primary/50"
+                                                checked={!!editableAgent.config.functionTools?.includes(tool.name)}
+                                                onChange={(e) => handleFunctionToolChange(tool.name, e.target.checked)}
+                                            />
+                                            <span className="font-mono">{tool.name}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                            <div>
+                                <h5 className="text-sm font-medium mb-2">Slash commands</h5>
+                                <AgentCommandsEditor
+                                    commands={editableAgent.config.commands ?? []}
+                                    onChange={(commands) => setEditableAgent({ ...editableAgent, config: { ...editableAgent.config, commands: commands } })}
+                                />
+                            </div>
+                            <TokenBudgetFields
+                                budget={editableAgent.config.tokenBudget}
+                                onChange={(tokenBudget) => setEditableAgent({ ...editableAgent, config: { ...editableAgent.config, tokenBudget: tokenBudget } })}
+                            />
+                            {agentEditError && <p className="text-sm text-red-500">{agentEditError}</p>}
                             <div className="flex items-center justify-end gap-2">
                                 <button onClick={handleCancelEdit} className="rounded-md px-3 py-1 text-sm hover:bg-primary/10">Cancel</button>
                                 <button onClick={handleSaveAgentChanges} className="rounded-md bg-primary px-3 py-1 text-sm text-white">Save</button>
@@ -617,7 +2189,18 @@ const App = () => {
                     ) : (
                          <>
                             <div>
-                                <h5 className="text-sm font-semibold text-gray-500 dark:text-gray-400">Behavior</h5>
+                                <h5 className="text-sm font-semibold text-gray-500 dark:text-gray-400">Model</h5>
+                                <p className="mt-1 text-sm">{findModel(activeAgent.config.model)?.label ?? activeAgent.config.model} <span className="text-gray-500 dark:text-gray-400">via {PROVIDER_LABELS[activeAgent.config.provider?.kind ?? 'gemini']}</span></p>
+                                {describeModelSettings(activeAgent) && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{describeModelSettings(activeAgent)}</p>}
+                                {activeAgent.config.provider?.baseUrl && <p className="mt-1 truncate font-mono text-xs text-gray-500 dark:text-gray-400">{activeAgent.config.provider.baseUrl}</p>}
+                            </div>
+                            <div>
+                                <h5 className="text-sm font-semibold text-gray-500 dark:text-gray-400 mt-4">Voice</h5>
+                                <p className="mt-1 text-sm">{voiceForAgent(activeAgent)}{!activeAgent.config.voiceName && ' (default)'}</p>
+                                {activeAgent.config.speechStyle && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{activeAgent.config.speechStyle}</p>}
+                            </div>
+                            <div>
+                                <h5 className="text-sm font-semibold text-gray-500 dark:text-gray-400 mt-4">Behavior</h5>
                                 <p className="mt-1 text-sm">{activeAgent.config.systemInstruction}</p>
                             </div>
                              <div>
@@ -632,19 +2215,92 @@ const App = () => {
                                     })}
                                 </div>
                             </div>
+                            <div>
+                                <div className="mt-4 flex items-center justify-between">
+                                    <h5 className="text-sm font-semibold text-gray-500 dark:text-gray-400">Functions</h5>
+                                    <button onClick={() => setIsToolManagerOpen(true)} className="text-xs text-primary hover:underline">Manage tools</button>
+                                </div>
+                                <div className="mt-2 flex flex-wrap gap-2">
+                                    {activeAgent.config.functionTools?.length
+                                        ? activeAgent.config.functionTools.map(name => (
+                                            <span key={name} className="rounded-full bg-primary/10 px-2 py-1 font-mono text-xs text-primary">{name}</span>
+                                        ))
+                                        : <p className="text-sm text-gray-500 dark:text-gray-400">None enabled</p>}
+                                </div>
+                            </div>
                         </>
                     )}
                 </div>
+
+                <hr className="my-6 border-border-light dark:border-border-dark"/>
+
+                <KnowledgePanel
+                    agent={activeAgent}
+                    sources={knowledgeSources.filter(source => source.agentId === activeAgent.id)}
+                    errors={knowledgeErrors}
+                    onAdd={handleAddKnowledgeFiles}
+                    onReindex={handleReindexKnowledge}
+                    onDelete={(source) => removeKnowledgeSources(s => s.id === source.id)}
+                />
+
+                <hr className="my-6 border-border-light dark:border-border-dark"/>
+
+                <div className="space-y-2">
+                    <h4 className="font-semibold">Share</h4>
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={() => handleExportAgent(activeAgent)} className="flex items-center gap-1 rounded-md px-2 py-1 text-sm text-primary hover:bg-primary/10"><span className="material-symbols-outlined text-base">download</span>Export agent</button>
+                        <button onClick={handleExportAllAgents} className="flex items-center gap-1 rounded-md px-2 py-1 text-sm text-primary hover:bg-primary/10"><span className="material-symbols-outlined text-base">folder_zip</span>Export all</button>
+                        <label className="flex cursor-pointer items-center gap-1 rounded-md px-2 py-1 text-sm text-primary hover:bg-primary/10">
+                            <span className="material-symbols-outlined text-base">upload</span>Import
+                            <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { e.target.files?.[0] && handleImportFile(e.target.files[0]); e.target.value = ''; }} />
+                        </label>
+                    </div>
+                </div>
             </div>
         </aside>
     );
 
-    const TaskStatusOverlay = () => (
-        taskStatus && (
+    const DeleteAgentDialog = () => (
+        agentPendingDeletion && (
+            <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+                <div className="w-full max-w-md rounded-lg bg-surface-light dark:bg-surface-dark p-6 shadow-xl">
+                    <h3 className="text-lg font-semibold">Delete {agentPendingDeletion.name}?</h3>
+                    <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                        This agent has {chats.filter(c => c.agentId === agentPendingDeletion.id).length} chat(s). Archived chats can later be restored to another agent.
+                    </p>
+                    <div className="mt-6 flex items-center justify-end gap-2">
+                        <button onClick={() => setAgentPendingDeletion(null)} className="rounded-md px-3 py-1 text-sm hover:bg-primary/10">Cancel</button>
+                        <button onClick={() => handleDeleteAgent(true)} className="rounded-md px-3 py-1 text-sm text-primary hover:bg-primary/10">Archive chats</button>
+                        <button onClick={() => handleDeleteAgent(false)} className="rounded-md bg-red-500 px-3 py-1 text-sm text-white">Delete chats</button>
+                    </div>
+                </div>
+            </div>
+        )
+    );
+
+    const ArchivedChatsDialog = () => (
+        isArchiveOpen && (
             <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
-                <div className="rounded-lg bg-surface-light dark:bg-surface-dark p-6 text-center shadow-xl">
-                    <h3 className="text-lg font-semibold">{taskStatus.title}</h3>
-                    <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{taskStatus.step}</p>
+                <div className="max-h-[80vh] w-full max-w-lg overflow-y-auto rounded-lg bg-surface-light dark:bg-surface-dark p-6 shadow-xl">
+                    <div className="flex items-center justify-between">
+                        <h3 className="text-lg font-semibold">Archived chats</h3>
+                        <button onClick={() => setIsArchiveOpen(false)} className="material-symbols-outlined text-sm">close</button>
+                    </div>
+                    <ul className="mt-4 space-y-3">
+                        {chats.filter(c => c.archived).map(chat => (
+                            <li key={chat.id} className="flex items-center gap-2 rounded-md border border-border-light dark:border-border-dark p-2 text-sm">
+                                <div className="flex-1 truncate">
+                                    <p className="font-medium truncate">{chat.title}</p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">{chat.archivedAgentName} · {chat.messages.length} messages</p>
+                                </div>
+                                <select defaultValue="" onChange={(e) => e.target.value && handleRestoreArchivedChat(chat.id, e.target.value)} className="rounded-md border-border-light bg-surface-subtle-light py-1 text-xs dark:border-border-dark dark:bg-surface-subtle-dark">
+                                    <option value="" disabled>Restore to...</option>
+                                    {agents.map(agent => <option key={agent.id} value={agent.id}>{agent.name}</option>)}
+                                </select>
+                                <button onClick={() => handleDeleteChat(chat.id)} title="Delete" className="material-symbols-outlined text-sm text-red-500">delete</button>
+                            </li>
+                        ))}
+                    </ul>
                 </div>
             </div>
         )
@@ -652,11 +2308,142 @@ const App = () => {
 
     return (
         <div className="flex h-screen w-full">
-            <AgentListPanel/>
-            <ChatListPanel/>
-            <ChatPanel/>
-            <AgentDetailsPanel/>
-            <TaskStatusOverlay/>
+            {/* Panels are called as functions rather than mounted as components so streamed updates
+                don't remount them (which would reset scroll position and composer focus). */}
+            {AgentListPanel()}
+            {ChatListPanel()}
+            {ChatPanel()}
+            {AgentDetailsPanel()}
+            {DeleteAgentDialog()}
+            {ArchivedChatsDialog()}
+            {importErrors && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+                    <div className="max-h-[80vh] w-full max-w-lg overflow-y-auto rounded-lg bg-surface-light dark:bg-surface-dark p-6 shadow-xl">
+                        <h3 className="text-lg font-semibold">{importErrors.title}</h3>
+                        <ul className="mt-4 space-y-1 text-sm">
+                            {importErrors.errors.map((error, i) => (
+                                <li key={i}><code className="text-red-500">{error.path}</code> {error.message}</li>
+                            ))}
+                        </ul>
+                        <div className="mt-6 flex justify-end">
+                            <button onClick={() => setImportErrors(null)} className="rounded-md bg-primary px-3 py-1 text-sm text-white">Close</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+            {pendingTranscript && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+                    <div className="w-full max-w-md rounded-lg bg-surface-light dark:bg-surface-dark p-6 shadow-xl">
+                        <h3 className="text-lg font-semibold">Import "{pendingTranscript.transcript.chat.title}"</h3>
+                        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                            {pendingTranscript.transcript.chat.messages.length} messages, originally with {pendingTranscript.transcript.agent.name}.
+                        </p>
+                        <label className="mt-4 block text-sm font-medium">Attach to agent</label>
+                        <select value={pendingTranscript.agentId} onChange={(e) => setPendingTranscript({ ...pendingTranscript, agentId: e.target.value })} className="mt-1 w-full rounded-md border-border-light bg-surface-subtle-light p-2 text-sm dark:border-border-dark dark:bg-surface-subtle-dark">
+                            {agents.map(agent => <option key={agent.id} value={agent.id}>{agent.name}</option>)}
+                        </select>
+                        <div className="mt-6 flex items-center justify-end gap-2">
+                            <button onClick={() => setPendingTranscript(null)} className="rounded-md px-3 py-1 text-sm hover:bg-primary/10">Cancel</button>
+                            <button onClick={handleConfirmChatImport} className="rounded-md bg-primary px-3 py-1 text-sm text-white">Import</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+            {importedAgents && (
+                <ImportAgentsDialog incoming={importedAgents} existing={agents} onApply={handleApplyImport} onCancel={() => setImportedAgents(null)} />
+            )}
+            {agentForm && (
+                <AgentFormModal
+                    title={agentForm.title}
+                    initialAgent={agentForm.agent}
+                    onSave={handleSaveNewAgent}
+                    onCancel={() => setAgentForm(null)}
+                    onGenerateAvatar={handleGenerateAvatar}
+                    toolRegistry={toolRegistry}
+                />
+            )}
+            {imageStudio && selectedChat && activeAgent && (
+                <ImageStudio
+                    chat={selectedChat}
+                    agent={activeAgent}
+                    initialBaseId={imageStudio.baseId}
+                    isBusy={isSelectedChatBusy}
+                    onGenerate={handleStudioGenerate}
+                    onShowInChat={showMessageInChat}
+                    onClose={() => setImageStudio(null)}
+                />
+            )}
+            {teamDialog && (
+                <TeamChatDialog
+                    agents={agents}
+                    initialTeam={teamDialog.chatId ? chats.find(c => c.id === teamDialog.chatId)?.team : undefined}
+                    onSave={handleSaveTeam}
+                    onCancel={() => setTeamDialog(null)}
+                />
+            )}
+            {isActivityOpen && (
+                <ActivityDrawer
+                    tasks={tasks}
+                    chats={chats}
+                    onCancel={taskManager.cancel}
+                    onOpenChat={handleOpenTaskChat}
+                    onClearFinished={taskManager.clearFinished}
+                    onClose={() => setIsActivityOpen(false)}
+                />
+            )}
+            {isJobsOpen && (
+                <ScheduledJobsModal
+                    jobs={scheduledJobs}
+                    agents={agents}
+                    activeAgentId={activeAgent.id}
+                    globalTemplates={promptTemplates}
+                    onSave={handleSaveJob}
+                    onDelete={handleDeleteJob}
+                    onToggle={handleToggleJob}
+                    onRunNow={(job) => runScheduledJob(job, Date.now(), { manual: true })}
+                    onOpenChat={handleOpenJobChat}
+                    onClose={() => setIsJobsOpen(false)}
+                />
+            )}
+            {isAccessTokenOpen && <AccessTokenDialog token={getAccessToken()} onSave={handleSaveAccessToken} onCancel={() => setIsAccessTokenOpen(false)} />}
+            {openPassage && <KnowledgePassageDialog passage={openPassage} onClose={closePassage} />}
+            {isSearchOpen && <SearchPalette agents={agents} chats={chats} onOpenResult={handleOpenSearchResult} onClose={() => setIsSearchOpen(false)} />}
+            {isUsageOpen && (
+                <UsageDashboard
+                    agents={agents}
+                    chats={chats}
+                    ledger={usageLedger}
+                    prices={priceTable ?? DEFAULT_PRICES}
+                    hasCustomPrices={!!priceTable}
+                    onSavePrices={setPriceTable}
+                    onOpenChat={(chatId) => { setSelectedChatId(chatId); setIsUsageOpen(false); }}
+                    onClose={() => setIsUsageOpen(false)}
+                />
+            )}
+            {isTemplateLibraryOpen && (
+                <TemplateLibraryModal
+                    agent={activeAgent}
+                    templates={activeTemplates}
+                    onSave={handleSaveTemplate}
+                    onDelete={handleDeleteTemplate}
+                    onClose={() => setIsTemplateLibraryOpen(false)}
+                />
+            )}
+            {fillingTemplate && (
+                <TemplateFillDialog
+                    template={fillingTemplate}
+                    onInsert={(text) => insertTemplate(fillingTemplate, text)}
+                    onCancel={() => setFillingTemplate(null)}
+                />
+            )}
+            {isToolManagerOpen && (
+                <ToolManagerModal
+                    registry={toolRegistry}
+                    onSave={handleSaveCustomTool}
+                    onDelete={handleDeleteCustomTool}
+                    onClose={() => setIsToolManagerOpen(false)}
+                />
+            )}
         </div>
     );
 };
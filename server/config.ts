@@ -0,0 +1,68 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+
+// --- PROXY CONFIGURATION ---
+// Read from the environment (and .env.local, when present) once at startup.
+export interface ProxyConfig {
+    port: number;
+    apiKey: string;
+    users: Map<string, string>; // Access token to user name
+    requestsPerMinute: number; // Per user, across every kind of call
+    maxLiveSessions: number; // Voice conversations one user can have open at once
+    allowedModels: Set<string>;
+    staticDir?: string; // The built front end, served when it exists
+    trustProxy: boolean; // Believe X-Forwarded-Host/Proto, set when running behind a reverse proxy
+}
+
+// Every model the app calls: chat, housekeeping, images, speech, live voice and embeddings.
+export const DEFAULT_ALLOWED_MODELS = [
+    'gemini-2.5-pro',
+    'gemini-2.5-flash',
+    'gemini-2.5-flash-lite',
+    'gemini-2.5-flash-image',
+    'imagen-4.0-generate-001',
+    'gemini-2.5-flash-preview-tts',
+    'gemini-2.5-flash-native-audio-preview-09-2025',
+    'gemini-embedding-001',
+];
+
+const list = (text: string | undefined) => (text ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+const positiveInteger = (text: string | undefined, name: string, fallback: number) => {
+    if (!text) return fallback;
+    const value = Number(text);
+    if (!Number.isInteger(value) || value < 1) throw new Error(`${name} must be a positive whole number.`);
+    return value;
+};
+
+// PROXY_USERS is a comma-separated list of name:token pairs.
+const parseUsers = (text: string | undefined) => {
+    const users = new Map<string, string>();
+    for (const entry of list(text)) {
+        const separator = entry.indexOf(':');
+        const name = entry.slice(0, separator).trim();
+        const token = entry.slice(separator + 1).trim();
+        if (separator < 1 || !token) throw new Error(`PROXY_USERS entry "${entry}" should look like name:token.`);
+        if (users.has(token)) throw new Error(`PROXY_USERS gives ${users.get(token)} and ${name} the same token.`);
+        users.set(token, name);
+    }
+    return users;
+};
+
+/** Builds the configuration, throwing with a readable message when something required is missing or malformed. */
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ProxyConfig => {
+    if (!env.GEMINI_API_KEY) throw new Error('GEMINI_API_KEY is not set.');
+    const users = parseUsers(env.PROXY_USERS);
+    if (users.size === 0) throw new Error('PROXY_USERS is not set; add at least one name:token pair.');
+    const staticDir = path.resolve(env.PROXY_STATIC_DIR ?? 'dist');
+    return {
+        port: positiveInteger(env.PROXY_PORT, 'PROXY_PORT', 8787),
+        apiKey: env.GEMINI_API_KEY,
+        users: users,
+        requestsPerMinute: positiveInteger(env.PROXY_REQUESTS_PER_MINUTE, 'PROXY_REQUESTS_PER_MINUTE', 60),
+        maxLiveSessions: positiveInteger(env.PROXY_MAX_LIVE_SESSIONS, 'PROXY_MAX_LIVE_SESSIONS', 2),
+        allowedModels: new Set(env.PROXY_ALLOWED_MODELS ? list(env.PROXY_ALLOWED_MODELS) : DEFAULT_ALLOWED_MODELS),
+        trustProxy: env.PROXY_TRUST_FORWARDED === 'true',
+        ...(existsSync(path.join(staticDir, 'index.html')) && { staticDir: staticDir }),
+    };
+};
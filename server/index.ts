@@ -0,0 +1,241 @@
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { Duplex, Readable } from 'node:stream';
+import { ReadableStream } from 'node:stream/web';
+import { createReadStream, existsSync, statSync } from 'node:fs';
+import path from 'node:path';
+import { WebSocket, WebSocketServer } from 'ws';
+import { ProxyConfig, loadConfig } from './config';
+import { createRateLimiter } from './rateLimit';
+import { GEMINI_API_ORIGIN, PROXY_PREFIX, modelFromSetup, parseGeminiPath } from './routes';
+
+// --- GEMINI PROXY SERVER ---
+// Holds the Gemini API key so it never reaches the browser. The app's SDK client points at PROXY_PREFIX and
+// sends the user's access token where the key would go; it is checked and swapped for the real key here.
+const MAX_BODY_BYTES = 32 * 1024 * 1024; // Above the 20 MB of inline attachments and the SDK's 8 MB upload chunks
+// Request headers that belong to this hop, or carry the user's token, and are not passed on.
+const DROPPED_REQUEST_HEADERS = ['host', 'connection', 'content-length', 'transfer-encoding', 'accept-encoding', 'x-goog-api-key', 'authorization', 'cookie', 'origin', 'referer'];
+// fetch has already decoded and de-chunked the body.
+const DROPPED_RESPONSE_HEADERS = ['connection', 'content-length', 'content-encoding', 'transfer-encoding'];
+
+const STATUS_NAMES: Record<number, string> = {
+    400: 'INVALID_ARGUMENT',
+    401: 'UNAUTHENTICATED',
+    403: 'PERMISSION_DENIED',
+    404: 'NOT_FOUND',
+    413: 'INVALID_ARGUMENT',
+    429: 'RESOURCE_EXHAUSTED',
+    502: 'UNAVAILABLE',
+};
+
+const STATIC_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript',
+    '.css': 'text/css',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.ico': 'image/x-icon',
+    '.woff2': 'font/woff2',
+};
+
+interface LogEntry {
+    user?: string;
+    method: string;
+    path: string;
+    model?: string;
+    status: number;
+    ms: number;
+    error?: string;
+}
+
+// One JSON line per request or live session.
+const log = (entry: LogEntry) => console.log(JSON.stringify({ time: new Date().toISOString(), ...entry }));
+
+// Errors use the API's own shape so the app's SDK reports them like any other.
+const sendError = (res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'content-type': 'application/json', ...headers });
+    res.end(JSON.stringify({ error: { code: status, message: message, status: STATUS_NAMES[status] ?? 'UNKNOWN' } }));
+};
+
+const readBody = async (req: IncomingMessage): Promise<Buffer | null> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) return null;
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+};
+
+// Where the browser reached this server, for links handed back to it. Forwarded headers are only believed
+// behind a reverse proxy that sets them; otherwise any caller could pick the host.
+const publicOrigin = (req: IncomingMessage, trustProxy: boolean) => trustProxy
+    ? `${req.headers['x-forwarded-proto'] ?? 'http'}://${req.headers['x-forwarded-host'] ?? req.headers.host}`
+    : `http://${req.headers.host}`;
+
+// Only 1000-1003, 1007-1014 and application codes may be sent in a close frame.
+const sendableCloseCode = (code: number) => code >= 3000 || (code >= 1000 && code <= 1014 && ![1004, 1005, 1006].includes(code)) ? code : 1011;
+
+const closeReason = (reason: string) => Buffer.from(reason).subarray(0, 123).toString(); // Close frames carry at most 123 bytes
+
+const createProxyServer = (config: ProxyConfig) => {
+    const limiter = createRateLimiter(config.requestsPerMinute);
+    const liveSessions = new Map<string, number>(); // User to their open voice conversations
+    const liveServer = new WebSocketServer({ noServer: true });
+
+    const userFor = (token: string | null | undefined) => token ? config.users.get(token) : undefined;
+
+    const proxyRequest = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+        const started = Date.now();
+        const apiPath = url.pathname.slice(PROXY_PREFIX.length);
+        const route = parseGeminiPath(apiPath);
+        const user = userFor(req.headers['x-goog-api-key'] as string | undefined ?? url.searchParams.get('key'));
+        const model = route?.kind === 'model' ? route.model : undefined;
+        const reject = (status: number, message: string, headers?: Record<string, string>) => {
+            sendError(res, status, message, headers);
+            log({ user, method: req.method!, path: apiPath, model, status, ms: Date.now() - started, error: message });
+        };
+
+        if (!user) return reject(401, 'Missing or unknown access token.');
+        if (!route || route.kind === 'live') return reject(404, `${apiPath} is not available through this proxy.`);
+        if (model && !config.allowedModels.has(model)) return reject(403, `The model ${model} is not allowed on this proxy.`);
+        const limited = limiter.take(user);
+        if (limited) return reject(429, `Rate limit of ${config.requestsPerMinute} requests a minute reached.`, { 'retry-after': String(Math.ceil(limited.retryAfterMs / 1000)) });
+        const body = req.method === 'GET' || req.method === 'HEAD' ? undefined : await readBody(req);
+        if (body === null) return reject(413, `Requests are limited to ${MAX_BODY_BYTES / 1024 / 1024} MB.`);
+
+        const headers = Object.fromEntries(Object.entries(req.headers)
+            .filter(([name]) => !DROPPED_REQUEST_HEADERS.includes(name))
+            .map(([name, value]) => [name, String(value)]));
+        url.searchParams.delete('key');
+        const abort = new AbortController();
+        res.on('close', () => abort.abort()); // The app stopped the reply or went away
+        let upstream: Response;
+        try {
+            upstream = await fetch(`${GEMINI_API_ORIGIN}${apiPath}${url.search}`, {
+                method: req.method,
+                headers: { ...headers, 'x-goog-api-key': config.apiKey },
+                body: body,
+                signal: abort.signal,
+            });
+        } catch (e) {
+            if (abort.signal.aborted) return;
+            return reject(502, `The Gemini API could not be reached: ${(e as Error).message}`);
+        }
+
+        const responseHeaders: Record<string, string> = {};
+        upstream.headers.forEach((value, name) => {
+            if (!DROPPED_RESPONSE_HEADERS.includes(name)) responseHeaders[name] = value;
+        });
+        // Resumable uploads continue at the URL this header names, which must lead back through the proxy.
+        const uploadUrl = responseHeaders['x-goog-upload-url'];
+        if (uploadUrl) responseHeaders['x-goog-upload-url'] = uploadUrl.replace(GEMINI_API_ORIGIN, `${publicOrigin(req, config.trustProxy)}${PROXY_PREFIX}`);
+        res.writeHead(upstream.status, responseHeaders);
+        res.on('close', () => log({ user, method: req.method!, path: apiPath, model, status: upstream.status, ms: Date.now() - started }));
+        if (!upstream.body) return res.end();
+        // Streamed replies are passed on chunk by chunk as they arrive.
+        Readable.fromWeb(upstream.body as ReadableStream<Uint8Array>).on('error', () => res.destroy()).pipe(res);
+    };
+
+    // The first message of a live session names its model, so nothing is sent on before it has been checked.
+    const relayLive = (client: WebSocket, user: string, url: URL) => {
+        const started = Date.now();
+        const apiPath = url.pathname.slice(PROXY_PREFIX.length);
+        liveSessions.set(user, (liveSessions.get(user) ?? 0) + 1);
+        url.searchParams.set('key', config.apiKey);
+        const upstream = new WebSocket(`${GEMINI_API_ORIGIN.replace(/^https/, 'wss')}${apiPath}?${url.searchParams}`);
+        const pending: [unknown, boolean][] = [];
+        let model: string | undefined;
+        let closed = false;
+
+        const close = (code: number, reason: string) => {
+            if (closed) return;
+            closed = true;
+            liveSessions.set(user, liveSessions.get(user)! - 1);
+            if (client.readyState === WebSocket.OPEN) client.close(sendableCloseCode(code), closeReason(reason));
+            if (upstream.readyState === WebSocket.OPEN) upstream.close();
+            else upstream.terminate();
+            log({ user, method: 'WS', path: apiPath, model, status: code, ms: Date.now() - started, ...(reason && { error: reason }) });
+        };
+
+        client.on('message', (data: Buffer, isBinary: boolean) => {
+            if (closed) return;
+            if (model === undefined) {
+                model = modelFromSetup(data.toString()) ?? '';
+                if (!config.allowedModels.has(model)) return close(1008, `The model ${model || '(none)'} is not allowed on this proxy.`);
+            }
+            if (upstream.readyState === WebSocket.OPEN) upstream.send(data, { binary: isBinary });
+            else pending.push([data, isBinary]);
+        });
+        upstream.on('open', () => pending.splice(0).forEach(([data, isBinary]) => upstream.send(data, { binary: isBinary })));
+        upstream.on('message', (data: Buffer, isBinary: boolean) => {
+            if (client.readyState === WebSocket.OPEN) client.send(data, { binary: isBinary });
+        });
+        // Upstream close reasons, e.g. a rejected setup, are passed on for the app to show.
+        upstream.on('close', (code: number, reason: Buffer) => close(code, reason.toString()));
+        upstream.on('error', (e: Error) => close(1011, `The Gemini API could not be reached: ${e.message}`));
+        client.on('close', () => close(1000, ''));
+        client.on('error', () => close(1011, ''));
+    };
+
+    const handleUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        const url = new URL(req.url ?? '/', 'http://proxy');
+        const apiPath = url.pathname.slice(PROXY_PREFIX.length);
+        const user = userFor(url.searchParams.get('key'));
+        const reject = (status: number, message: string) => {
+            socket.end(`HTTP/1.1 ${status} ${http.STATUS_CODES[status]}\r\ncontent-type: text/plain\r\n\r\n${message}`);
+            log({ user, method: 'WS', path: apiPath, status, ms: 0, error: message });
+        };
+
+        if (!url.pathname.startsWith(PROXY_PREFIX) || parseGeminiPath(apiPath)?.kind !== 'live') return reject(404, `${url.pathname} is not available through this proxy.`);
+        if (!user) return reject(401, 'Missing or unknown access token.');
+        if ((liveSessions.get(user) ?? 0) >= config.maxLiveSessions) return reject(429, `Only ${config.maxLiveSessions} voice conversations can be open at once.`);
+        if (limiter.take(user)) return reject(429, `Rate limit of ${config.requestsPerMinute} requests a minute reached.`);
+        liveServer.handleUpgrade(req, socket, head, (client: WebSocket) => relayLive(client, user, url));
+    };
+
+    // Serves the built app, falling back to index.html for any path that isn't a file.
+    const serveStatic = (res: ServerResponse, url: URL) => {
+        const root = config.staticDir!;
+        let pathname: string;
+        try {
+            pathname = decodeURIComponent(url.pathname);
+        } catch {
+            return sendError(res, 400, `${url.pathname} is not a valid path.`);
+        }
+        const requested = path.resolve(root, `.${pathname}`);
+        const file = requested.startsWith(`${root}${path.sep}`) && existsSync(requested) && statSync(requested).isFile() ? requested : path.join(root, 'index.html');
+        res.writeHead(200, { 'content-type': STATIC_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+        createReadStream(file).pipe(res);
+    };
+
+    const server = http.createServer((req, res) => {
+        const url = new URL(req.url ?? '/', 'http://proxy');
+        if (url.pathname.startsWith(`${PROXY_PREFIX}/`)) {
+            proxyRequest(req, res, url).catch(e => {
+                console.error('Proxy request failed', e);
+                if (!res.headersSent) sendError(res, 502, 'The proxy failed to handle the request.');
+                else res.destroy();
+            });
+        } else if (config.staticDir && (req.method === 'GET' || req.method === 'HEAD')) {
+            serveStatic(res, url);
+        } else {
+            sendError(res, 404, `${url.pathname} is not available through this proxy.`);
+        }
+    });
+    server.on('upgrade', handleUpgrade);
+    return server;
+};
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+let config: ProxyConfig;
+try {
+    config = loadConfig();
+} catch (e) {
+    console.error(`Can't start the proxy: ${(e as Error).message}`);
+    process.exit(1);
+}
+createProxyServer(config).listen(config.port, () => {
+    console.log(`Gemini proxy listening on http://localhost:${config.port} for ${config.users.size} user(s)${config.staticDir ? `, serving ${config.staticDir}` : ''}`);
+});
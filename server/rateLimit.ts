@@ -0,0 +1,24 @@
+// --- RATE LIMITS ---
+/**
+ * Allows each user `limit` requests in any sliding window of `windowMs`. `now` is injectable so
+ * limits can be tested without real time passing.
+ */
+export const createRateLimiter = (limit: number, windowMs = 60 * 1000, now: () => number = Date.now) => {
+    const requests = new Map<string, number[]>(); // User to the times of their requests in the window
+
+    return {
+        /** Counts a request and returns null; one over the limit isn't counted and says how long until the next is allowed. */
+        take: (user: string): { retryAfterMs: number } | null => {
+            const at = now();
+            const recent = (requests.get(user) ?? []).filter(time => at - time < windowMs);
+            if (recent.length >= limit) {
+                requests.set(user, recent);
+                return { retryAfterMs: windowMs - (at - recent[0]) };
+            }
+            requests.set(user, [...recent, at]);
+            return null;
+        },
+    };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,44 @@
+// --- GEMINI ROUTES ---
+export const GEMINI_API_ORIGIN = 'https://generativelanguage.googleapis.com';
+export const PROXY_PREFIX = '/api/gemini';
+
+// Model calls the app makes: chat (plain and streamed), Imagen, embeddings and token counts.
+const MODEL_METHODS = ['generateContent', 'streamGenerateContent', 'predict', 'embedContent', 'batchEmbedContents', 'countTokens'];
+
+export type GeminiRoute =
+    | { kind: 'model'; model: string; method: string }
+    | { kind: 'models' } // Listing models, the provider health check
+    | { kind: 'files' } // Uploads of large attachments and their status
+    | { kind: 'live' }; // The voice conversation WebSocket
+
+// Malformed escapes are treated like any other unknown path instead of throwing.
+const decodeSegment = (segment: string) => {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return null;
+    }
+};
+
+/** What a path below PROXY_PREFIX calls, or null for anything the app doesn't use. */
+export const parseGeminiPath = (path: string): GeminiRoute | null => {
+    const modelCall = path.match(/^\/v1(?:beta|alpha)?\/models\/([^/:]+):(\w+)$/);
+    if (modelCall) {
+        const model = decodeSegment(modelCall[1]);
+        return model && MODEL_METHODS.includes(modelCall[2]) ? { kind: 'model', model: model, method: modelCall[2] } : null;
+    }
+    if (/^\/v1(?:beta|alpha)?\/models\/?$/.test(path)) return { kind: 'models' };
+    if (/^(?:\/upload)?\/v1(?:beta|alpha)?\/files(?:\/[\w-]+)?$/.test(path)) return { kind: 'files' };
+    if (/^\/ws\/google\.ai\.generativelanguage\.v1(?:beta|alpha)\.GenerativeService\.BidiGenerateContent$/.test(path)) return { kind: 'live' };
+    return null;
+};
+
+/** The model a live session asks for in its first (setup) message, without the "models/" prefix. */
+export const modelFromSetup = (message: string): string | undefined => {
+    try {
+        const model = JSON.parse(message)?.setup?.model;
+        return typeof model === 'string' ? model.replace(/^models\//, '') : undefined;
+    } catch {
+        return undefined;
+    }
+};
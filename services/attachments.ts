@@ -0,0 +1,181 @@
+import { Part } from "@google/genai";
+import { Agent, Attachment, Message } from "../types";
+import { IMAGE_OUTPUT_MODELS, getAgentProvider, isGeminiAgent } from "./providers";
+import { blobToDataUrl } from "../utils/files";
+
+// --- ATTACHMENTS ---
+const MB = 1024 * 1024;
+// Gemini caps a whole request at 20 MB, and every earlier turn is resent; bigger files go through the Files API.
+export const INLINE_LIMIT_BYTES = 8 * MB;
+// Uploads expire after about 48 hours; references this close to expiry are uploaded again before use.
+const UPLOAD_EXPIRY_MARGIN_MS = 60 * 60 * 1000;
+
+const TEXT_MIME_PATTERN = /^(text\/|application\/(json|xml|javascript|x-yaml|x-sh|sql))/;
+const TEXT_EXTENSION_PATTERN = /\.(md|txt|csv|tsv|log|py|ts|tsx|js|jsx|json|ya?ml|toml|ini|sql|sh|html|css|xml)$/i;
+
+export type AttachmentKind = 'image' | 'pdf' | 'audio' | 'video' | 'text' | 'other';
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+    image: 'images', pdf: 'PDFs', audio: 'audio', video: 'video', text: 'text and code files', other: 'other files',
+};
+
+export interface AttachmentRules {
+    kinds: AttachmentKind[];
+    maxBytes: Partial<Record<AttachmentKind, number>>;
+    maxFiles: number; // Per message
+}
+
+// Text and code files are sent as plain text, which every model reads.
+const TEXT_MAX_BYTES = MB;
+
+const GEMINI_RULES: AttachmentRules = {
+    kinds: ['image', 'pdf', 'audio', 'video', 'text'],
+    maxBytes: { image: 20 * MB, pdf: 50 * MB, audio: 2048 * MB, video: 2048 * MB, text: TEXT_MAX_BYTES },
+    maxFiles: 10,
+};
+
+// Image-output models edit and combine up to three input images.
+const GEMINI_IMAGE_MODEL_RULES: AttachmentRules = {
+    kinds: ['image', 'text'],
+    maxBytes: { image: 20 * MB, text: TEXT_MAX_BYTES },
+    maxFiles: 3,
+};
+
+// OpenAI-compatible chat endpoints only take images (as data URLs) besides text, and have no file store.
+const OPENAI_COMPATIBLE_RULES: AttachmentRules = {
+    kinds: ['image', 'text'],
+    maxBytes: { image: 20 * MB, text: TEXT_MAX_BYTES },
+    maxFiles: 10,
+};
+
+export const getAttachmentRules = (agent: Agent): AttachmentRules => {
+    if (!isGeminiAgent(agent)) return OPENAI_COMPATIBLE_RULES;
+    return IMAGE_OUTPUT_MODELS.includes(agent.config.model) ? GEMINI_IMAGE_MODEL_RULES : GEMINI_RULES;
+};
+
+export const formatFileSize = (bytes: number) =>
+    bytes >= MB ? `${Math.round(bytes / MB * 10) / 10} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Browsers report e.g. .ts files as video/mp2t and many code files with no type at all.
+export const resolveMimeType = (file: { name: string; type: string }) =>
+    TEXT_EXTENSION_PATTERN.test(file.name) && !TEXT_MIME_PATTERN.test(file.type)
+        ? 'text/plain'
+        : file.type || 'application/octet-stream';
+
+export const attachmentKind = ({ name, mimeType }: { name: string; mimeType: string }): AttachmentKind => {
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType === 'application/pdf') return 'pdf';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    if (mimeType.startsWith('video/')) return 'video';
+    if (TEXT_MIME_PATTERN.test(mimeType) || TEXT_EXTENSION_PATTERN.test(name)) return 'text';
+    return 'other';
+};
+
+export const isImageAttachment = (attachment: Attachment) => attachmentKind(attachment) === 'image';
+
+/** Splits newly picked files into those the agent's model accepts and one error line per rejected file. */
+export const checkAttachments = (files: File[], alreadyAttached: number, agent: Agent) => {
+    const rules = getAttachmentRules(agent);
+    const accepted: File[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+        const kind = attachmentKind({ name: file.name, mimeType: resolveMimeType(file) });
+        const maxBytes = rules.maxBytes[kind];
+        if (!rules.kinds.includes(kind) || !maxBytes) {
+            errors.push(`${file.name}: ${agent.name}'s model doesn't accept ${ATTACHMENT_KIND_LABELS[kind]}.`);
+        } else if (file.size > maxBytes) {
+            errors.push(`${file.name} is ${formatFileSize(file.size)}; the limit for ${ATTACHMENT_KIND_LABELS[kind]} is ${formatFileSize(maxBytes)}.`);
+        } else if (alreadyAttached + accepted.length >= rules.maxFiles) {
+            errors.push(`${file.name}: at most ${rules.maxFiles} files per message.`);
+        } else {
+            accepted.push(file);
+        }
+    }
+    return { accepted, errors };
+};
+
+/** A user upload backed by the attachment store; `id` is also its store key. */
+export const createAttachment = (file: File, id: string): Attachment => ({
+    id: id,
+    name: file.name,
+    mimeType: resolveMimeType(file),
+    size: file.size,
+    url: URL.createObjectURL(file),
+    isStored: true,
+});
+
+/** Wraps a generated image's data URL. */
+export const createImageAttachment = (dataUrl: string, id: string): Attachment => {
+    const mimeType = dataUrl.slice(5, dataUrl.indexOf(';')) || 'image/png';
+    return {
+        id: id,
+        name: `${id}.${mimeType.split('/')[1] ?? 'png'}`,
+        mimeType: mimeType,
+        // Base64 stores 3 bytes in 4 characters.
+        size: Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4),
+        url: dataUrl,
+    };
+};
+
+export const getImageAttachments = (message: Message) => (message.attachments ?? []).filter(isImageAttachment);
+
+const needsUpload = (attachment: Attachment) =>
+    attachment.size > INLINE_LIMIT_BYTES && attachmentKind(attachment) !== 'text';
+
+const hasValidUpload = (attachment: Attachment, now = Date.now()) =>
+    !!attachment.upload && (!attachment.upload.expiresAt || Date.parse(attachment.upload.expiresAt) - now > UPLOAD_EXPIRY_MARGIN_MS);
+
+/**
+ * Uploads attachments past the inline limit through the agent's provider (Gemini's Files API) and returns
+ * only the messages whose attachments changed, so callers can store the references for later turns.
+ * Expired references are replaced the same way. `onUpload` reports each file as its upload starts.
+ */
+export const uploadLargeAttachments = async (messages: Message[], agent: Agent, onUpload?: (attachment: Attachment) => void): Promise<Message[]> => {
+    if (!isGeminiAgent(agent)) return [];
+    const now = Date.now();
+    const pending = messages.filter(m => m.attachments?.some(a => a.url && needsUpload(a) && !hasValidUpload(a, now)));
+    return Promise.all(pending.map(async message => ({
+        ...message,
+        attachments: await Promise.all(message.attachments!.map(async attachment => {
+            if (!attachment.url || !needsUpload(attachment) || hasValidUpload(attachment, now)) return attachment;
+            onUpload?.(attachment);
+            const blob = await (await fetch(attachment.url)).blob();
+            const upload = await getAgentProvider(agent).uploadFile({ data: blob, mimeType: attachment.mimeType, displayName: attachment.name });
+            return { ...attachment, upload };
+        })),
+    })));
+};
+
+/** The part sent to the model: a Files API reference when one is valid, the file's text, or its bytes inline. */
+export const attachmentToPart = async (attachment: Attachment): Promise<Part | null> => {
+    if (hasValidUpload(attachment)) return { fileData: { fileUri: attachment.upload!.uri, mimeType: attachment.mimeType } };
+    if (!attachment.url) return null; // The stored blob is gone
+    const blob = await (await fetch(attachment.url)).blob();
+    if (attachmentKind(attachment) === 'text') return { text: `Attached file ${attachment.name}:\n\`\`\`\n${await blob.text()}\n\`\`\`` };
+    const dataUrl = await blobToDataUrl(blob);
+    return { inlineData: { data: dataUrl.split(',')[1], mimeType: attachment.mimeType } };
+};
+
+type LegacyMessage = Message & { image?: string; attachmentId?: string; attachmentName?: string };
+
+/**
+ * Messages used to hold a single `image` (generated, or the object URL of one attached file stored under
+ * `attachmentId`). They now hold a list of attachments, and edits point at the attachment they were made from
+ * instead of its message. Stored files get their type and size from the blob when loaded.
+ */
+export const upgradeLegacyMessages = (messages: Message[]): Message[] => {
+    const imageIds = new Map<string, string>();
+    const upgraded = (messages as LegacyMessage[]).map(({ image, attachmentId, attachmentName, ...message }): Message => {
+        if (attachmentId) {
+            imageIds.set(message.id, attachmentId);
+            return { ...message, attachments: [{ id: attachmentId, name: attachmentName ?? attachmentId, mimeType: '', size: 0, isStored: true }] };
+        }
+        if (!image) return message;
+        const attachment = createImageAttachment(image, `${message.id}-image`);
+        imageIds.set(message.id, attachment.id);
+        return { ...message, attachments: [attachment] };
+    });
+    return upgraded.map(m => m.imageGeneration?.parentId
+        ? { ...m, imageGeneration: { ...m.imageGeneration, parentId: imageIds.get(m.imageGeneration.parentId) ?? m.imageGeneration.parentId } }
+        : m);
+};
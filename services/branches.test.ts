@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { Chat, Message } from "../types";
+import { forkAt, getSiblingPosition, pruneBranches, switchBranch } from "./branches";
+
+const message = (id: string, sender = 'Writer'): Message => ({ id, sender, text: id });
+const ids = (chat: Chat) => chat.messages.map(m => m.id);
+
+const chat: Chat = {
+    id: 'chat-1',
+    title: 'Draft',
+    agentId: 'agent-1',
+    messages: [message('q1', 'You'), message('a1'), message('q2', 'You'), message('a2')],
+};
+
+describe('message branches', () => {
+    it('keeps the replaced messages as a sibling when forking', () => {
+        const forked = forkAt(chat, 'a1', [message('a1b')]);
+
+        expect(ids(forked)).toEqual(['q1', 'a1b']);
+        expect(forked.branches).toEqual({ q1: { inactive: [[message('a1'), message('q2', 'You'), message('a2')]], activeIndex: 1 } });
+        expect(getSiblingPosition(forked, 'a1b')).toEqual({ index: 1, count: 2 });
+        expect(getSiblingPosition(forked, 'q1')).toBeNull();
+    });
+
+    it('switches back and forth between siblings', () => {
+        const forked = forkAt(chat, 'a1', [message('a1b')]);
+        const original = switchBranch(forked, 'a1b', 0);
+
+        expect(ids(original)).toEqual(ids(chat));
+        expect(getSiblingPosition(original, 'a1')).toEqual({ index: 0, count: 2 });
+        expect(ids(switchBranch(original, 'a1', 1))).toEqual(['q1', 'a1b']);
+    });
+
+    it('drops a summary that no longer lies on the active path', () => {
+        const summarized = { ...chat, summary: { text: 'So far', summarizedUntilId: 'a2' } };
+
+        expect(forkAt(summarized, 'q2', [message('q2b', 'You')]).summary).toBeUndefined();
+        expect(forkAt(summarized, 'a2', [message('a2b')]).summary).toBeUndefined();
+        expect(forkAt({ ...chat, summary: { text: 'So far', summarizedUntilId: 'a1' } }, 'a2', [message('a2b')]).summary).toBeDefined();
+    });
+
+    it('continues with the newest sibling when the active path lost its end', () => {
+        const forked = forkAt(chat, 'a1', [message('a1b')]);
+        const reloaded = pruneBranches({ ...forked, messages: forked.messages.slice(0, 1) });
+
+        expect(ids(reloaded)).toEqual(ids(chat));
+        expect(reloaded.branches).toBeUndefined();
+    });
+});
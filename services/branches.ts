@@ -0,0 +1,96 @@
+import { BranchPoint, Chat, Message } from "../types";
+
+// --- MESSAGE BRANCHES ---
+// Key of the fork before a chat's first message, which has no message to follow.
+const ROOT_KEY = '';
+
+export interface SiblingPosition {
+    index: number;
+    count: number;
+}
+
+const branchKey = (messages: Message[], index: number) => index > 0 ? messages[index - 1].id : ROOT_KEY;
+
+/** Every message in the chat's tree: the active path and all inactive branches. */
+export const allMessages = (chat: Chat): Message[] =>
+    [...chat.messages, ...Object.values(chat.branches ?? {}).flatMap(point => point.inactive.flat())];
+
+/** Applies `update` to the active path and to each inactive continuation. */
+export const mapMessageLists = (chat: Chat, update: (messages: Message[]) => Message[]): Chat => ({
+    ...chat,
+    messages: update(chat.messages),
+    ...(chat.branches && {
+        branches: Object.fromEntries(Object.entries(chat.branches).map(([key, point]) => [key, { ...point, inactive: point.inactive.map(update) }])),
+    }),
+});
+
+/** Where a message on the active path sits among its siblings, or null when it has none. */
+export const getSiblingPosition = (chat: Chat, messageId: string): SiblingPosition | null => {
+    const index = chat.messages.findIndex(m => m.id === messageId);
+    const point = index >= 0 ? chat.branches?.[branchKey(chat.messages, index)] : undefined;
+    return point ? { index: point.activeIndex, count: point.inactive.length + 1 } : null;
+};
+
+// A summary of messages that just left the active path would leak the other branch into the context.
+const withSummaryOnPath = (chat: Chat): Chat =>
+    chat.summary && !chat.messages.some(m => m.id === chat.summary!.summarizedUntilId) ? { ...chat, summary: undefined } : chat;
+
+/**
+ * Replaces the active path from `messageId` on with `continuation`, keeping the replaced messages as
+ * an inactive sibling branch. The new continuation becomes the last sibling.
+ */
+export const forkAt = (chat: Chat, messageId: string, continuation: Message[]): Chat => {
+    const index = chat.messages.findIndex(m => m.id === messageId);
+    if (index < 0) return chat;
+    const key = branchKey(chat.messages, index);
+    const point = chat.branches?.[key];
+    const inactive = [...(point?.inactive ?? [])];
+    inactive.splice(point?.activeIndex ?? 0, 0, chat.messages.slice(index));
+    return withSummaryOnPath({
+        ...chat,
+        messages: [...chat.messages.slice(0, index), ...continuation],
+        branches: { ...chat.branches, [key]: { inactive, activeIndex: inactive.length } },
+    });
+};
+
+/** Makes another sibling of the message active, along with the rest of its branch. */
+export const switchBranch = (chat: Chat, messageId: string, siblingIndex: number): Chat => {
+    const index = chat.messages.findIndex(m => m.id === messageId);
+    const key = branchKey(chat.messages, index);
+    const point = index >= 0 ? chat.branches?.[key] : undefined;
+    if (!point || siblingIndex === point.activeIndex || siblingIndex < 0 || siblingIndex > point.inactive.length) return chat;
+    const siblings = [...point.inactive];
+    siblings.splice(point.activeIndex, 0, chat.messages.slice(index));
+    const [active] = siblings.splice(siblingIndex, 1);
+    return withSummaryOnPath({
+        ...chat,
+        messages: [...chat.messages.slice(0, index), ...active],
+        branches: { ...chat.branches, [key]: { inactive: siblings, activeIndex: siblingIndex } },
+    });
+};
+
+/**
+ * Tidies the tree after messages were dropped (e.g. reply placeholders discarded on reload): empty
+ * continuations and forks after messages that no longer exist are removed, and an active path that
+ * now ends at a fork continues with its newest sibling.
+ */
+export const pruneBranches = (chat: Chat): Chat => {
+    if (!chat.branches) return chat;
+    const ids = new Set(allMessages(chat).map(m => m.id));
+    const branches: Record<string, BranchPoint> = {};
+    for (const [key, point] of Object.entries(chat.branches)) {
+        if (key !== ROOT_KEY && !ids.has(key)) continue;
+        const removedBefore = point.inactive.slice(0, point.activeIndex).filter(messages => messages.length === 0).length;
+        const inactive = point.inactive.filter(messages => messages.length > 0);
+        if (inactive.length > 0) branches[key] = { inactive, activeIndex: point.activeIndex - removedBefore };
+    }
+    let messages = chat.messages;
+    for (let key = branchKey(messages, messages.length); branches[key]; key = branchKey(messages, messages.length)) {
+        const { inactive } = branches[key];
+        messages = [...messages, ...inactive[inactive.length - 1]];
+        if (inactive.length > 1) branches[key] = { inactive: inactive.slice(0, -1), activeIndex: inactive.length - 1 };
+        else delete branches[key];
+    }
+    const { branches: _, ...rest } = chat;
+    return Object.keys(branches).length > 0 ? { ...rest, messages, branches } : { ...rest, messages };
+};
@@ -0,0 +1,287 @@
+import { Agent, AgentCommand } from "../types";
+
+// --- SLASH COMMANDS ---
+const COMMAND_NAME_PATTERN = /^[a-zA-Z][\w-]{0,31}$/;
+// Only `/name` at the very start counts as a command, so text like "/usr/bin is missing" is sent as-is.
+const COMMAND_INPUT_PATTERN = /^\s*\/([a-zA-Z][\w-]*)(?=\s|$)/;
+const TEMPLATE_INPUT_PLACEHOLDER = '{{input}}';
+
+export type CommandFlagValue = string | number | boolean;
+
+export interface CommandFlag {
+    name: string; // Written as --name
+    type: 'string' | 'number' | 'boolean';
+    description: string;
+    options?: string[]; // Allowed values for string flags
+    integer?: boolean;
+    min?: number;
+    max?: number;
+    default?: CommandFlagValue;
+}
+
+export interface CommandDefinition {
+    name: string;
+    description: string;
+    flags?: CommandFlag[];
+    // Free text after the command; omitted for commands that take none.
+    text?: { label: string; required?: boolean; suggestions?: string[] };
+    agentCommand?: AgentCommand; // Set for commands declared by the active agent
+}
+
+export interface ParsedCommand {
+    command: CommandDefinition;
+    flags: Record<string, CommandFlagValue>;
+    text: string;
+}
+
+export type CommandParseResult = ParsedCommand | { command?: CommandDefinition; error: string };
+
+export const BUILT_IN_COMMANDS: CommandDefinition[] = [
+    {
+        name: 'generate',
+        description: 'Generate images from a prompt.',
+        flags: [
+            { name: 'aspect', type: 'string', description: 'Aspect ratio', options: ['1:1', '3:4', '4:3', '9:16', '16:9'], default: '1:1' },
+            { name: 'n', type: 'number', description: 'Number of images', integer: true, min: 1, max: 4, default: 1 },
+            { name: 'negative', type: 'string', description: 'What to leave out of the image' },
+        ],
+        text: { label: 'prompt', required: true },
+    },
+    {
+        name: 'help',
+        description: 'List commands, or show the usage of one.',
+        text: { label: 'command' },
+    },
+    {
+        name: 'clear',
+        description: 'Remove every message from this chat.',
+    },
+    {
+        name: 'summarize',
+        description: 'Summarize the conversation so far.',
+    },
+    {
+        name: 'tts',
+        description: 'Read text aloud, or the last reply if no text is given.',
+        flags: [{ name: 'voice', type: 'string', description: 'Voice name (provider specific)' }],
+        text: { label: 'text' },
+    },
+    {
+        name: 'title',
+        description: 'Rename this chat, or generate a title when none is given.',
+        text: { label: 'title' },
+    },
+    {
+        name: 'agent',
+        description: 'Hand this chat over to another agent.',
+        text: { label: 'agent name', required: true },
+    },
+    {
+        name: 'export',
+        description: 'Download this chat.',
+        flags: [{ name: 'format', type: 'string', description: 'File format', options: ['markdown', 'markdown-files', 'json', 'html'], default: 'markdown' }],
+    },
+];
+
+/** Built-in commands plus the active agent's own; agent commands cannot shadow built-ins. */
+export const getCommandRegistry = (activeAgent: Agent | undefined, agents: Agent[]): CommandDefinition[] => {
+    const agentCommands = (activeAgent?.config.commands ?? [])
+        .filter(command => !BUILT_IN_COMMANDS.some(builtIn => builtIn.name === command.name))
+        .map((command): CommandDefinition => ({
+            name: command.name,
+            description: command.description || 'Agent command',
+            text: { label: 'input', required: command.template.includes(TEMPLATE_INPUT_PLACEHOLDER) },
+            agentCommand: command,
+        }));
+    const builtIns = BUILT_IN_COMMANDS.map(command => {
+        if (command.name === 'agent') return { ...command, text: { ...command.text!, suggestions: agents.map(a => a.name) } };
+        if (command.name === 'help') return { ...command, text: { ...command.text!, suggestions: [...BUILT_IN_COMMANDS, ...agentCommands].map(c => c.name) } };
+        return command;
+    });
+    return [...builtIns, ...agentCommands];
+};
+
+interface Token {
+    value: string; // Unquoted
+    start: number;
+    end: number;
+}
+
+const tokenize = (input: string): Token[] =>
+    Array.from(input.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g), match => ({
+        value: match[1] ?? match[2] ?? match[3],
+        start: match.index!,
+        end: match.index! + match[0].length,
+    }));
+
+const unquote = (text: string) => /^(["']).*\1$/s.test(text) ? text.slice(1, -1) : text;
+
+const parseFlagValue = (flag: CommandFlag, raw: string): CommandFlagValue | { error: string } => {
+    switch (flag.type) {
+        case 'boolean':
+            if (raw === 'true' || raw === 'false') return raw === 'true';
+            return { error: `--${flag.name} must be true or false` };
+        case 'number': {
+            const value = Number(raw);
+            if (raw === '' || isNaN(value)) return { error: `--${flag.name} must be a number` };
+            if (flag.integer && !Number.isInteger(value)) return { error: `--${flag.name} must be a whole number` };
+            if (flag.min !== undefined && value < flag.min) return { error: `--${flag.name} must be at least ${flag.min}` };
+            if (flag.max !== undefined && value > flag.max) return { error: `--${flag.name} must be at most ${flag.max}` };
+            return value;
+        }
+        case 'string':
+            if (flag.options && !flag.options.includes(raw)) return { error: `--${flag.name} must be one of ${flag.options.join(', ')}` };
+            return raw;
+    }
+};
+
+/**
+ * Parses `/name --flag value --other=value free text`. Flags may appear anywhere; a bare `--` ends flag
+ * parsing. Returns null when the input isn't command syntax at all, so it can be sent as a normal message.
+ */
+export const parseCommand = (input: string, registry: CommandDefinition[]): CommandParseResult | null => {
+    const nameMatch = input.match(COMMAND_INPUT_PATTERN);
+    if (!nameMatch) return null;
+    const command = registry.find(c => c.name.toLowerCase() === nameMatch[1].toLowerCase());
+    if (!command) return { error: `Unknown command /${nameMatch[1]}. Type /help to see the available commands.` };
+
+    const body = input.slice(nameMatch[0].length);
+    const tokens = tokenize(body);
+    const flags: Record<string, CommandFlagValue> = {};
+    const flagSpans: [number, number][] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.value === '--' && body[token.start] !== '"' && body[token.start] !== "'") {
+            flagSpans.push([token.start, token.end]);
+            break;
+        }
+        const flagMatch = body[token.start] === '-' && token.value.match(/^--([a-zA-Z][\w-]*)(?:=(.*))?$/s);
+        if (!flagMatch) continue;
+        const flag = command.flags?.find(f => f.name === flagMatch[1]);
+        if (!flag) return { command, error: `/${command.name} has no flag --${flagMatch[1]}.` };
+
+        let raw = flagMatch[2] === undefined ? undefined : unquote(flagMatch[2]);
+        let spanEnd = token.end;
+        if (raw === undefined) {
+            if (flag.type === 'boolean') {
+                raw = 'true';
+            } else {
+                const next = tokens[i + 1];
+                if (!next) return { command, error: `--${flag.name} needs a value.` };
+                raw = next.value;
+                spanEnd = next.end;
+                i++;
+            }
+        }
+        const value = parseFlagValue(flag, raw);
+        if (typeof value === 'object') return { command, error: value.error };
+        flags[flag.name] = value;
+        flagSpans.push([token.start, spanEnd]);
+    }
+
+    // The text keeps its original spacing and line breaks; only the flag spans are cut out.
+    let text = '';
+    let cursor = 0;
+    for (const [start, end] of flagSpans) {
+        text += body.slice(cursor, start);
+        cursor = end;
+    }
+    text = unquote((text + body.slice(cursor)).trim());
+
+    if (text && !command.text) return { command, error: `/${command.name} doesn't take any text.` };
+    if (!text && command.text?.required) return { command, error: `/${command.name} needs a ${command.text.label}.` };
+    for (const flag of command.flags ?? []) {
+        if (!(flag.name in flags) && flag.default !== undefined) flags[flag.name] = flag.default;
+    }
+    return { command, flags, text };
+};
+
+/** Turns an agent command into the prompt that is actually sent. */
+export const expandAgentCommand = (command: AgentCommand, text: string) =>
+    command.template.includes(TEMPLATE_INPUT_PLACEHOLDER)
+        ? command.template.split(TEMPLATE_INPUT_PLACEHOLDER).join(text)
+        : [command.template, text].filter(Boolean).join('\n\n');
+
+export const formatCommandUsage = (command: CommandDefinition) => {
+    const flags = (command.flags ?? []).map(flag => {
+        const value = flag.type === 'boolean' ? '' : ` ${flag.options ? flag.options.join('|') : `<${flag.type}>`}`;
+        return `[--${flag.name}${value}]`;
+    });
+    const text = command.text ? (command.text.required ? `<${command.text.label}>` : `[${command.text.label}]`) : '';
+    return [`/${command.name}`, ...flags, text].filter(Boolean).join(' ');
+};
+
+export const formatCommandHelp = (command: CommandDefinition) => [
+    formatCommandUsage(command),
+    command.description,
+    ...(command.flags ?? []).map(flag => `  --${flag.name}  ${flag.description}${flag.default !== undefined ? ` (default ${flag.default})` : ''}`),
+    ...(command.agentCommand ? [`Expands to: ${command.agentCommand.template}`] : []),
+].join('\n');
+
+export const formatCommandList = (registry: CommandDefinition[]) =>
+    registry.map(command => `/${command.name} — ${command.description}`).join('\n')
+    + '\n\nType /help <command> for details.';
+
+export interface CommandSuggestion {
+    label: string;
+    detail: string;
+    value: string; // The full composer input after accepting the suggestion
+}
+
+/** Suggestions for the token being typed: command names, then flags, flag values and text values. */
+export const getCommandSuggestions = (input: string, registry: CommandDefinition[]): CommandSuggestion[] => {
+    const nameOnly = input.match(/^\s*\/([\w-]*)$/);
+    if (nameOnly) {
+        const partial = nameOnly[1].toLowerCase();
+        return registry
+            .filter(c => c.name.toLowerCase().startsWith(partial))
+            .map(c => ({ label: formatCommandUsage(c), detail: c.description, value: `/${c.name} ` }));
+    }
+
+    const nameMatch = input.match(COMMAND_INPUT_PATTERN);
+    const command = nameMatch && registry.find(c => c.name.toLowerCase() === nameMatch[1].toLowerCase());
+    if (!command) return [];
+
+    const partial = input.match(/\S*$/)![0];
+    const before = input.slice(0, input.length - partial.length);
+    const previousToken = before.trimEnd().match(/\S*$/)![0];
+
+    if (partial.startsWith('-')) {
+        return (command.flags ?? [])
+            .filter(flag => `--${flag.name}`.startsWith(partial) && !before.includes(`--${flag.name} `))
+            .map(flag => ({ label: `--${flag.name}`, detail: flag.description, value: `${before}--${flag.name} ` }));
+    }
+    const previousFlag = command.flags?.find(flag => previousToken === `--${flag.name}`);
+    if (previousFlag) {
+        return (previousFlag.options ?? [])
+            .filter(option => option.startsWith(partial) && option !== partial)
+            .map(option => ({ label: option, detail: previousFlag.description, value: `${before}${option} ` }));
+    }
+
+    // Text suggestions (agent names, command names) match the whole text typed so far, which may contain spaces.
+    const text = input.slice(nameMatch[0].length).trimStart().toLowerCase();
+    return (command.text?.suggestions ?? [])
+        .filter(suggestion => suggestion.toLowerCase().startsWith(text) && suggestion.toLowerCase() !== text)
+        .map(suggestion => ({ label: suggestion, detail: command.text!.label, value: `/${command.name} ${suggestion}` }));
+};
+
+/** Checks agent-declared commands before they are saved; returns a message for the first problem found. */
+export const validateAgentCommands = (commands: AgentCommand[]): string | null => {
+    for (const command of commands) {
+        if (!COMMAND_NAME_PATTERN.test(command.name)) return `"/${command.name}" is not a valid command name. Use letters, digits, - and _.`;
+        if (BUILT_IN_COMMANDS.some(c => c.name === command.name.toLowerCase())) return `/${command.name} is a built-in command.`;
+        if (commands.filter(c => c.name.toLowerCase() === command.name.toLowerCase()).length > 1) return `/${command.name} is declared twice.`;
+        if (!command.template.trim()) return `/${command.name} needs a prompt template.`;
+    }
+    return null;
+};
+
+/** Exact (case-insensitive) name match first, then an unambiguous prefix. */
+export const findAgentByName = (agents: Agent[], name: string): Agent | undefined => {
+    const query = name.trim().toLowerCase();
+    const exact = agents.find(a => a.name.toLowerCase() === query);
+    if (exact) return exact;
+    const prefixMatches = agents.filter(a => a.name.toLowerCase().startsWith(query));
+    return prefixMatches.length === 1 ? prefixMatches[0] : undefined;
+};
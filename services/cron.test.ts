@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { lastCronTime, nextCronTime, parseCron } from "./cron";
+
+const schedule = (expression: string) => {
+    const parsed = parseCron(expression);
+    if ('error' in parsed) throw new Error(parsed.error);
+    return parsed;
+};
+
+// Times are local, as schedules are.
+const at = (month: number, day: number, hour: number, minute: number) => new Date(2026, month - 1, day, hour, minute).getTime();
+
+describe('parseCron', () => {
+    it('reads ranges, steps, lists and names', () => {
+        const parsed = schedule('*/15 8-17/3 1,15 jan-mar mon-fri');
+
+        expect([...parsed.minutes]).toEqual([0, 15, 30, 45]);
+        expect([...parsed.hours]).toEqual([8, 11, 14, 17]);
+        expect([...parsed.daysOfMonth]).toEqual([1, 15]);
+        expect([...parsed.months]).toEqual([1, 2, 3]);
+        expect([...parsed.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('expands macros and treats 7 as Sunday', () => {
+        expect(schedule('@daily')).toEqual(schedule('0 0 * * *'));
+        expect([...schedule('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    });
+
+    it.each([
+        ['0 8 * *', 'A schedule needs five fields: minute, hour, day of month, month and day of week.'],
+        ['60 * * * *', '"60" is not a valid minute.'],
+        ['0 17-8 * * *', '"17-8" runs backwards in the hour field.'],
+        ['*/0 * * * *', '"0" is not a valid step for the minute field.'],
+        ['0 0 * foo *', '"foo" is not a valid month.'],
+    ])('rejects %s', (expression, error) => {
+        expect(parseCron(expression)).toEqual({ error });
+    });
+});
+
+describe('nextCronTime', () => {
+    it('finds the next weekday morning', () => {
+        // 2026-01-02 is a Friday.
+        expect(nextCronTime(schedule('0 8 * * 1-5'), at(1, 2, 8, 0))).toBe(at(1, 5, 8, 0));
+    });
+
+    it('matches either day field when both are restricted', () => {
+        // The 13th, or any Friday.
+        const friday13 = schedule('0 0 13 * 5');
+
+        expect(nextCronTime(friday13, at(1, 1, 0, 0))).toBe(at(1, 2, 0, 0));
+        expect(nextCronTime(friday13, at(1, 10, 0, 0))).toBe(at(1, 13, 0, 0));
+    });
+
+    it('gives up on dates that never come', () => {
+        expect(nextCronTime(schedule('0 0 30 2 *'), at(1, 1, 0, 0))).toBeNull();
+    });
+});
+
+describe('lastCronTime', () => {
+    it('returns the latest match in the window and how many there were', () => {
+        const hourly = schedule('@hourly');
+
+        expect(lastCronTime(hourly, at(1, 1, 9, 0), at(1, 1, 12, 30))).toEqual({ time: at(1, 1, 12, 0), count: 3 });
+        expect(lastCronTime(hourly, at(1, 1, 9, 0), at(1, 1, 9, 59))).toEqual({ time: null, count: 0 });
+    });
+});
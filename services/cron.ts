@@ -0,0 +1,124 @@
+// --- CRON SCHEDULES ---
+// Five fields in local time: minute, hour, day of month, month and day of week.
+export interface CronSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>; // 1-12
+    daysOfWeek: Set<number>; // 0-6, Sunday is 0
+    anyDayOfMonth: boolean; // The field was `*`
+    anyDayOfWeek: boolean;
+}
+
+interface CronField {
+    name: string;
+    min: number;
+    max: number;
+    names?: string[]; // Accepted instead of numbers, starting at `min`
+}
+
+const FIELDS: CronField[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+    { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }, // 7 is Sunday too
+];
+
+const MACROS: Record<string, string> = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *',
+    '@yearly': '0 0 1 1 *',
+};
+
+// Schedules that never match, e.g. February 30th, give up after this many years.
+const MAX_SEARCH_YEARS = 5;
+
+const parseValue = (text: string, field: CronField): number => {
+    const named = field.names?.indexOf(text.toLowerCase()) ?? -1;
+    const value = named >= 0 ? field.min + named : /^\d+$/.test(text) ? Number(text) : NaN;
+    if (!(value >= field.min && value <= field.max)) throw new Error(`"${text}" is not a valid ${field.name}`);
+    return value;
+};
+
+// Comma-separated parts, each `*`, `n` or `n-m`, optionally followed by `/step`.
+const parseField = (text: string, field: CronField): Set<number> => {
+    const values = new Set<number>();
+    for (const part of text.split(',')) {
+        const [range, stepText, extra] = part.split('/');
+        if (extra !== undefined) throw new Error(`"${part}" has more than one step in the ${field.name} field`);
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) throw new Error(`"${stepText}" is not a valid step for the ${field.name} field`);
+        let start = field.min;
+        let end = field.max;
+        if (range !== '*') {
+            const [from, to] = range.split('-');
+            start = parseValue(from, field);
+            // `n/step` runs from n to the end of the range
+            end = to !== undefined ? parseValue(to, field) : stepText !== undefined ? field.max : start;
+            if (end < start) throw new Error(`"${range}" runs backwards in the ${field.name} field`);
+        }
+        for (let value = start; value <= end; value += step) values.add(value);
+    }
+    return values;
+};
+
+/** Parses a cron expression such as `0 8 * * 1-5` or `@daily`; the error names the field at fault. */
+export const parseCron = (expression: string): CronSchedule | { error: string } => {
+    const text = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+    const fields = text.split(/\s+/);
+    if (fields.length !== FIELDS.length) return { error: 'A schedule needs five fields: minute, hour, day of month, month and day of week.' };
+    try {
+        const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+        if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+        return { minutes, hours, daysOfMonth, months, daysOfWeek, anyDayOfMonth: fields[2] === '*', anyDayOfWeek: fields[4] === '*' };
+    } catch (e) {
+        return { error: `${(e as Error).message}.` };
+    }
+};
+
+// As in cron, a restricted day of month and day of week match when either does.
+const matchesDay = (schedule: CronSchedule, date: Date) => {
+    const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+    if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) return dayOfMonth && dayOfWeek;
+    return dayOfMonth || dayOfWeek;
+};
+
+/** The first minute strictly after `after` that the schedule matches, or null if none comes within a few years. */
+export const nextCronTime = (schedule: CronSchedule, after: number): number | null => {
+    const date = new Date(after);
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+    const lastYear = date.getFullYear() + MAX_SEARCH_YEARS;
+    // Each check skips to the start of the next candidate month, day, hour or minute.
+    while (date.getFullYear() <= lastYear) {
+        if (!schedule.months.has(date.getMonth() + 1)) {
+            date.setMonth(date.getMonth() + 1, 1);
+            date.setHours(0, 0, 0, 0);
+        } else if (!matchesDay(schedule, date)) {
+            date.setDate(date.getDate() + 1);
+            date.setHours(0, 0, 0, 0);
+        } else if (!schedule.hours.has(date.getHours())) {
+            date.setHours(date.getHours() + 1, 0, 0, 0);
+        } else if (!schedule.minutes.has(date.getMinutes())) {
+            date.setMinutes(date.getMinutes() + 1, 0, 0);
+        } else {
+            return date.getTime();
+        }
+    }
+    return null;
+};
+
+/** The latest time the schedule matched in (from, to], and how many times it matched in all. */
+export const lastCronTime = (schedule: CronSchedule, from: number, to: number): { time: number | null; count: number } => {
+    let time: number | null = null;
+    let count = 0;
+    for (let next = nextCronTime(schedule, from); next !== null && next <= to; next = nextCronTime(schedule, next)) {
+        time = next;
+        count++;
+    }
+    return { time, count };
+};
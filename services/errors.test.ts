@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MAX_RETRIES, classifyError, createReplyError, withRetry } from "./errors";
+
+const apiError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+describe('classifyError', () => {
+    it.each([
+        [apiError(429, 'Too many requests'), 'rate-limit'],
+        [new Error('RESOURCE_EXHAUSTED: quota exceeded'), 'rate-limit'],
+        [apiError(400, 'API key not valid. Please pass a valid API key.'), 'auth'],
+        [apiError(404, 'models/gemini-9 is not found'), 'model-not-found'],
+        [apiError(503, 'The model is overloaded'), 'server'],
+        [new TypeError('Failed to fetch'), 'network'],
+        ['something odd', 'unknown'],
+    ])('sorts %s as %s', (error, category) => {
+        expect(classifyError(error).category).toBe(category);
+    });
+
+    it('keeps the status and passes reply errors through', () => {
+        expect(classifyError(apiError(500, 'Internal'))).toEqual({ category: 'server', detail: 'Internal', status: 500 });
+        expect(classifyError(createReplyError({ category: 'empty', detail: 'No candidates' }))).toEqual({ category: 'empty', detail: 'No candidates' });
+    });
+});
+
+describe('withRetry', () => {
+    afterEach(() => vi.useRealTimers());
+
+    it('retries transient errors with growing delays, waiting as long as a quota error asks', async () => {
+        vi.useFakeTimers();
+        const request = vi.fn()
+            .mockRejectedValueOnce(apiError(503, 'Unavailable'))
+            .mockRejectedValueOnce(apiError(429, '{"retryDelay": "7s"}'))
+            .mockResolvedValueOnce('done');
+        const onRetry = vi.fn();
+
+        const result = withRetry(request, { onRetry });
+        await vi.runAllTimersAsync();
+
+        await expect(result).resolves.toBe('done');
+        expect(onRetry.mock.calls.map(([error, attempt]) => [error.category, attempt])).toEqual([['server', 1], ['rate-limit', 2]]);
+        expect(onRetry.mock.calls[0][2]).toBeGreaterThanOrEqual(1000);
+        expect(onRetry.mock.calls[0][2]).toBeLessThan(1250);
+        expect(onRetry.mock.calls[1][2]).toBe(7000);
+    });
+
+    it('gives up after the last retry', async () => {
+        vi.useFakeTimers();
+        const request = vi.fn().mockRejectedValue(apiError(500, 'Internal'));
+
+        const result = withRetry(request);
+        const assertion = expect(result).rejects.toThrow('Internal');
+        await vi.runAllTimersAsync();
+
+        await assertion;
+        expect(request).toHaveBeenCalledTimes(MAX_RETRIES + 1);
+    });
+
+    it('does not retry errors that would fail again, or once aborted', async () => {
+        const auth = vi.fn().mockRejectedValue(apiError(401, 'Unauthorized'));
+        await expect(withRetry(auth)).rejects.toThrow('Unauthorized');
+        expect(auth).toHaveBeenCalledTimes(1);
+
+        const controller = new AbortController();
+        controller.abort();
+        const server = vi.fn().mockRejectedValue(apiError(503, 'Unavailable'));
+        await expect(withRetry(server, { signal: controller.signal })).rejects.toThrow('Unavailable');
+        expect(server).toHaveBeenCalledTimes(1);
+    });
+});
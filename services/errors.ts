@@ -0,0 +1,119 @@
+import { GenerateContentResponse } from "@google/genai";
+import { ErrorCategory, MessageError, SafetyRating } from "../types";
+
+// --- ERROR CLASSIFICATION & RETRIES ---
+export const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+const TRANSIENT_CATEGORIES: ErrorCategory[] = ['rate-limit', 'network', 'server'];
+// Finish reasons that mean a filter stopped the answer rather than the model finishing or running out of tokens.
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'IMAGE_RECITATION'];
+
+export const ERROR_DESCRIPTIONS: Record<ErrorCategory, { title: string; hint: string }> = {
+    'rate-limit': { title: 'Quota or rate limit reached', hint: 'Wait a moment and retry, or check the quota on your API plan.' },
+    'auth': { title: 'Not authorized', hint: "Check your access token (the key button in the left bar), the key in the agent's provider settings, or the proxy's GEMINI_API_KEY." },
+    'network': { title: 'Network error', hint: "Check your connection, or that the server at the agent's base URL is running." },
+    'model-not-found': { title: 'Model not found', hint: "Check the model name in the agent's configuration." },
+    'server': { title: 'The model service is unavailable', hint: 'This is usually temporary; retry in a moment.' },
+    'safety': { title: 'Blocked by safety filters', hint: 'Rephrase the request; the ratings below show which filter was triggered.' },
+    'empty': { title: 'The model returned no answer', hint: 'Retry, or raise the output token limit if the model ran out of tokens while thinking.' },
+    'unknown': { title: 'Something went wrong', hint: 'Retry, or open the details below for what the provider reported.' },
+};
+
+export const isTransientError = (error: MessageError) => TRANSIENT_CATEGORIES.includes(error.category);
+
+/** An error for a response that arrived but had nothing usable in it; `classifyError` returns `info` as is. */
+export const createReplyError = (info: MessageError) => Object.assign(new Error(info.detail), { info });
+
+const categorize = (status: number | undefined, detail: string, error: unknown): ErrorCategory => {
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate.?limit/i.test(detail)) return 'rate-limit';
+    if (status === 401 || status === 403 || /API.?key not valid|API_KEY_INVALID|PERMISSION_DENIED|unauthori[sz]ed|invalid.+api.?key/i.test(detail)) return 'auth';
+    if (status === 404 || /NOT_FOUND|model.+(not found|does not exist)/i.test(detail)) return 'model-not-found';
+    if ((status !== undefined && status >= 500) || /UNAVAILABLE|overloaded/i.test(detail)) return 'server';
+    if (error instanceof TypeError || /failed to fetch|networkerror|load failed|ECONNREFUSED/i.test(detail)) return 'network';
+    return 'unknown';
+};
+
+/** Sorts anything a provider throws into a category; Gemini's ApiError and the OpenAI-compatible provider both carry `status`. */
+export const classifyError = (error: unknown): MessageError => {
+    const info = (error as { info?: MessageError })?.info;
+    if (info?.category) return info;
+    const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+    const detail = error instanceof Error ? error.message : String(error);
+    return { category: categorize(status, detail, error), detail: detail, ...(status !== undefined && { status }) };
+};
+
+const toSafetyRatings = (ratings: any[] | undefined): SafetyRating[] | undefined =>
+    ratings?.length ? ratings.map(rating => ({ category: String(rating.category), probability: String(rating.probability), ...(rating.blocked && { blocked: true }) })) : undefined;
+
+/**
+ * Explains a finished (streamed) response: why the prompt was blocked, why a filter stopped the answer, or
+ * (when `isEmpty`) that the candidate had nothing in it. Returns null for a normal answer.
+ */
+export const describeResponseProblem = (chunks: GenerateContentResponse[], isEmpty: boolean): MessageError | null => {
+    // Prompt feedback comes with the first chunk, the finish reason and final ratings with the last.
+    const promptFeedback = chunks.find(chunk => chunk.promptFeedback)?.promptFeedback;
+    if (promptFeedback?.blockReason) {
+        return {
+            category: 'safety',
+            detail: promptFeedback.blockReasonMessage || `The prompt was blocked (${promptFeedback.blockReason}).`,
+            blockReason: promptFeedback.blockReason,
+            safetyRatings: toSafetyRatings(promptFeedback.safetyRatings),
+        };
+    }
+    const candidate = [...chunks].reverse().find(chunk => chunk.candidates?.[0]?.finishReason)?.candidates?.[0];
+    const finishReason = candidate?.finishReason;
+    if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) {
+        return {
+            category: 'safety',
+            detail: candidate.finishMessage || `The answer was stopped (${finishReason}).`,
+            finishReason: finishReason,
+            safetyRatings: toSafetyRatings(candidate.safetyRatings),
+        };
+    }
+    if (!isEmpty) return null;
+    return {
+        category: 'empty',
+        detail: finishReason ? `The response had no content (finish reason ${finishReason}).` : 'The response had no candidates.',
+        ...(finishReason && { finishReason }),
+    };
+};
+
+/** "HARM_CATEGORY_DANGEROUS_CONTENT" → "Dangerous content". */
+export const formatSafetyLabel = (value: string) => {
+    const words = value.replace(/^(HARM_CATEGORY|HARM_PROBABILITY)_/, '').toLowerCase().replace(/_/g, ' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Quota errors from Gemini say how long to wait, e.g. "retryDelay": "17s".
+const suggestedDelay = (error: MessageError) => {
+    const seconds = /retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(error.detail)?.[1];
+    return seconds ? Number(seconds) * 1000 : undefined;
+};
+
+const waitUnlessAborted = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+export interface RetryOptions {
+    signal?: AbortSignal;
+    onRetry?: (error: MessageError, attempt: number, delayMs: number) => void; // attempt counts from 1
+}
+
+/** Runs `request`, retrying rate limits, network errors and server errors with exponential backoff. */
+export const withRetry = async <T>(request: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await request();
+        } catch (e) {
+            const error = classifyError(e);
+            if (options.signal?.aborted || !isTransientError(error) || attempt > MAX_RETRIES) throw e;
+            const backoff = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * RETRY_BASE_DELAY_MS / 4;
+            const delayMs = Math.min(suggestedDelay(error) ?? backoff, MAX_RETRY_DELAY_MS);
+            options.onRetry?.(error, attempt, delayMs);
+            await waitUnlessAborted(delayMs, options.signal);
+            if (options.signal?.aborted) throw e;
+        }
+    }
+};
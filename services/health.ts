@@ -0,0 +1,35 @@
+import { Agent } from "../types";
+import { ProviderConfig, getAccessToken, getProvider } from "./providers";
+import { ERROR_DESCRIPTIONS, classifyError } from "./errors";
+
+// --- PROVIDER HEALTH ---
+export const HEALTH_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const HEALTH_CHECK_TIMEOUT_MS = 10000;
+
+export interface ProviderHealth {
+    ok: boolean;
+    detail?: string; // Why the provider is unavailable
+    checkedAt: number;
+}
+
+const DEFAULT_PROVIDER_CONFIG: ProviderConfig = { kind: 'gemini' };
+
+export const providerConfigFor = (agent: Agent): ProviderConfig => agent.config.provider ?? DEFAULT_PROVIDER_CONFIG;
+
+/** Agents sharing a backend (same kind, URL and key) share one health check. */
+export const providerKeyFor = (agent: Agent) => JSON.stringify(providerConfigFor(agent));
+
+/** Gemini agents need an access token for the proxy; local backends are asked whether they are up. */
+export const checkProviderHealth = async (config: ProviderConfig): Promise<ProviderHealth> => {
+    if (config.kind === 'gemini' && !getAccessToken()) {
+        return { ok: false, detail: 'No access token is set for the proxy.', checkedAt: Date.now() };
+    }
+    try {
+        await getProvider(config).checkHealth(AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS));
+        return { ok: true, checkedAt: Date.now() };
+    } catch (e) {
+        if (e instanceof DOMException && e.name === 'TimeoutError') return { ok: false, detail: "The provider didn't answer in time.", checkedAt: Date.now() };
+        const error = classifyError(e);
+        return { ok: false, detail: ERROR_DESCRIPTIONS[error.category].title, checkedAt: Date.now() };
+    }
+};
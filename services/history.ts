@@ -0,0 +1,162 @@
+import { Content, Part } from "@google/genai";
+import { Agent, Attachment, Chat, ChatSummary, Message } from "../types";
+import { ModelProvider, getAgentProvider, utilityModelFor } from "./providers";
+import { attachmentKind, attachmentToPart } from "./attachments";
+
+// --- CONTEXT BUDGET CONFIG ---
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 24000;
+// Once a chat overflows its budget, fold history down to this share of it so we don't re-summarize on every turn.
+const SUMMARY_TARGET_RATIO = 0.6;
+const SUMMARY_MODEL = 'gemini-2.5-flash';
+// Gemini bills a standard image at a flat 258 tokens; PDF pages, audio and video grow with the file, so count by size.
+const IMAGE_TOKEN_ESTIMATE = 258;
+const MEDIA_BYTES_PER_TOKEN = 500;
+
+// Rough heuristic (~4 characters per token); good enough for budgeting without a countTokens round-trip.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const estimateAttachmentTokens = (attachment: Attachment) => {
+    const kind = attachmentKind(attachment);
+    if (kind === 'image') return IMAGE_TOKEN_ESTIMATE;
+    if (kind === 'text') return Math.ceil(attachment.size / 4);
+    return Math.ceil(attachment.size / MEDIA_BYTES_PER_TOKEN);
+};
+
+export const estimateMessageTokens = (message: Message) =>
+    (message.text ? estimateTokens(message.text) : 0) + (message.attachments ?? []).reduce((sum, a) => sum + estimateAttachmentTokens(a), 0);
+
+// Messages that represent real conversation turns (no placeholders or error bubbles).
+export const getConversationMessages = (messages: Message[]) =>
+    messages.filter(m => !m.isThinking && !m.isError && !m.isCommandOutput && (m.text || m.attachments?.length));
+
+/** Stands in for attachments in plain-text transcripts, e.g. " [report.pdf, image]". */
+export const describeAttachments = (message: Message) =>
+    message.attachments?.length ? ` [${message.attachments.map(a => a.isStored ? a.name : 'image').join(', ')}]` : '';
+
+export const urlToGenerativePart = async (url: string): Promise<Part> => {
+    // Works for both data URLs and blob URLs created with URL.createObjectURL.
+    const blob = await (await fetch(url)).blob();
+    const base64EncodedData = await new Promise<string>((resolve) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+        reader.readAsDataURL(blob);
+    });
+    return { inlineData: { data: base64EncodedData, mimeType: blob.type } };
+};
+
+const isOwnReply = (message: Message, agent: Agent) =>
+    message.agentId ? message.agentId === agent.id : message.sender === agent.name;
+
+/** Converts a message for `agent`: replies by other agents (teammates, earlier owners) arrive as attributed user turns. */
+export const messageToContent = async (message: Message, agent: Agent): Promise<Content> => {
+    const isOtherAgent = message.sender !== 'You' && !isOwnReply(message, agent);
+    const parts: Part[] = [];
+    if (message.text) parts.push({ text: isOtherAgent ? `${message.sender} said:\n${message.text}` : message.text });
+    for (const part of await Promise.all((message.attachments ?? []).map(attachmentToPart))) {
+        if (part) parts.push(part);
+    }
+    return { role: message.sender === 'You' || isOtherAgent ? 'user' : 'model', parts };
+};
+
+export interface ContextWindow {
+    messages: Message[]; // Messages sent verbatim
+    toSummarize: Message[]; // Older messages that must be folded into the summary first
+    summary?: ChatSummary; // The chat's summary, unless it no longer applies
+}
+
+/**
+ * Splits a conversation at the last message its summary covers. A summary whose last message is gone
+ * (edited, deleted or on another branch) no longer matches the conversation and is dropped, so the
+ * messages aren't sent both verbatim and summarized.
+ */
+const splitAtSummary = (conversation: Message[], summary: ChatSummary | undefined) => {
+    const summarizedIndex = summary ? conversation.findIndex(m => m.id === summary.summarizedUntilId) : -1;
+    return summarizedIndex < 0
+        ? { summary: undefined, unsummarized: conversation }
+        : { summary: summary, unsummarized: conversation.slice(summarizedIndex + 1) };
+};
+
+/**
+ * Splits a chat's history into the recent messages that fit the token budget and the older ones
+ * that have not been summarized yet. The newest message is always kept.
+ */
+export const planContextWindow = (messages: Message[], chatSummary: ChatSummary | undefined, budget: number): ContextWindow => {
+    const { summary, unsummarized } = splitAtSummary(getConversationMessages(messages), chatSummary);
+    const summaryTokens = summary ? estimateTokens(summary.text) : 0;
+
+    const totalTokens = summaryTokens + unsummarized.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+    if (totalTokens <= budget) {
+        return { messages: unsummarized, toSummarize: [], summary: summary };
+    }
+
+    const target = budget * SUMMARY_TARGET_RATIO - summaryTokens;
+    let used = 0;
+    let keepFrom = unsummarized.length - 1;
+    used += estimateMessageTokens(unsummarized[keepFrom]);
+    while (keepFrom > 0 && used + estimateMessageTokens(unsummarized[keepFrom - 1]) <= target) {
+        keepFrom--;
+        used += estimateMessageTokens(unsummarized[keepFrom]);
+    }
+    return { messages: unsummarized.slice(keepFrom), toSummarize: unsummarized.slice(0, keepFrom), summary: summary };
+};
+
+export const summarizeMessages = async (provider: ModelProvider, model: string, previousSummary: ChatSummary | undefined, messages: Message[]): Promise<ChatSummary> => {
+    const transcript = messages
+        .map(m => `${m.sender}: ${m.text ?? ''}${describeAttachments(m)}`)
+        .join('\n');
+    const prompt = [
+        'Update the running summary of a conversation between a user ("You") and an AI agent.',
+        'Keep every fact, decision, code identifier, open question and user preference that later turns may depend on.',
+        'Write at most 400 words in plain prose. Reply with the summary only.',
+        previousSummary ? `\nCurrent summary:\n${previousSummary.text}` : '',
+        `\nNew messages:\n${transcript}`,
+    ].join('\n');
+
+    const response = await provider.generateContent({
+        model: model,
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    });
+    return {
+        text: response.text?.trim() || previousSummary?.text || '',
+        summarizedUntilId: messages[messages.length - 1].id,
+    };
+};
+
+/** Summarizes the whole chat on demand, starting from its rolling summary if it has one. */
+export const summarizeChat = async (chat: Chat, agent: Agent): Promise<string | null> => {
+    const { summary: current, unsummarized } = splitAtSummary(getConversationMessages(chat.messages), chat.summary);
+    if (unsummarized.length === 0) return current?.text ?? null;
+    const summary = await summarizeMessages(getAgentProvider(agent), utilityModelFor(agent, SUMMARY_MODEL), current, unsummarized);
+    return summary.text || null;
+};
+
+export interface PreparedHistory {
+    contents: Content[];
+    summary?: ChatSummary; // Set when the summary changed and should be saved on the chat
+}
+
+/**
+ * Turns the chat history (including the pending user message) into multi-turn `contents`,
+ * folding the oldest turns into the chat's rolling summary when the agent's budget is exceeded.
+ */
+export const prepareHistory = async (chat: Chat, agent: Agent, messages: Message[]): Promise<PreparedHistory> => {
+    const budget = agent.config.contextTokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET;
+    const window = planContextWindow(messages, chat.summary, budget);
+
+    let summary = window.summary;
+    let updatedSummary: ChatSummary | undefined;
+    if (window.toSummarize.length > 0) {
+        updatedSummary = await summarizeMessages(getAgentProvider(agent), utilityModelFor(agent, SUMMARY_MODEL), summary, window.toSummarize);
+        summary = updatedSummary;
+    }
+
+    const contents: Content[] = [];
+    if (summary) {
+        contents.push(
+            { role: 'user', parts: [{ text: `Summary of our earlier conversation:\n${summary.text}` }] },
+            { role: 'model', parts: [{ text: 'Understood, I will keep that context in mind.' }] },
+        );
+    }
+    contents.push(...await Promise.all(window.messages.map(m => messageToContent(m, agent))));
+    return { contents, summary: updatedSummary };
+};
@@ -0,0 +1,73 @@
+import { Agent, Attachment, Message } from "../types";
+import { isGeminiAgent } from "./providers";
+import { getImageAttachments } from "./attachments";
+
+// --- IMAGE STUDIO ---
+export const IMAGE_EDIT_MODEL = 'gemini-2.5-flash-image';
+export const IMAGE_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+export const MAX_IMAGES_PER_REQUEST = 4;
+
+export interface ImageModelOption {
+    id: string;
+    label: string;
+    supportsSeed: boolean;
+    supportsEdits: boolean;
+}
+
+export const GEMINI_IMAGE_MODELS: ImageModelOption[] = [
+    { id: 'imagen-4.0-generate-001', label: 'Imagen 4', supportsSeed: false, supportsEdits: false },
+    { id: IMAGE_EDIT_MODEL, label: 'Gemini 2.5 Flash Image', supportsSeed: true, supportsEdits: true },
+];
+
+export const defaultImageModelFor = (agent: Agent) => isGeminiAgent(agent) ? GEMINI_IMAGE_MODELS[0].id : 'dall-e-3';
+
+export interface ImageStudioRequest {
+    prompt: string;
+    model: string;
+    aspectRatio: string;
+    numberOfImages: number;
+    negativePrompt?: string;
+    seed?: number;
+    baseAttachmentId?: string; // Edit this image instead of generating from scratch
+}
+
+export interface GalleryImage {
+    message: Message;
+    attachment: Attachment;
+    version: number; // 0 for attached originals
+    isAttachment: boolean;
+}
+
+// Images generated before lineage was recorded count as first versions.
+export const toGalleryImage = (message: Message, attachment: Attachment): GalleryImage => ({
+    message: message,
+    attachment: attachment,
+    version: attachment.isStored ? 0 : message.imageGeneration?.version ?? 1,
+    isAttachment: !!attachment.isStored,
+});
+
+export const nextImageVersion = (base: GalleryImage | undefined) => base ? base.version + 1 : 1;
+
+/** Every generated or attached image in the chat, oldest first; other attached files are not usable as an edit base. */
+export const getChatImages = (messages: Message[]): GalleryImage[] =>
+    messages
+        .filter(m => !m.isThinking)
+        .flatMap(message => getImageAttachments(message).filter(a => a.url).map(attachment => toGalleryImage(message, attachment)));
+
+export const findChatImage = (messages: Message[], attachmentId: string) =>
+    getChatImages(messages).find(image => image.attachment.id === attachmentId);
+
+export const imageVersionLabel = (image: GalleryImage) => image.isAttachment ? 'Original' : `v${image.version}`;
+
+/** The images an image was derived from, oldest first, ending with the image itself. */
+export const getImageLineage = (images: GalleryImage[], attachmentId: string): GalleryImage[] => {
+    const byId = new Map(images.map(image => [image.attachment.id, image]));
+    const lineage: GalleryImage[] = [];
+    let current = byId.get(attachmentId);
+    while (current && !lineage.includes(current)) {
+        lineage.unshift(current);
+        const parentId = current.message.imageGeneration?.parentId;
+        current = parentId ? byId.get(parentId) : undefined;
+    }
+    return lineage;
+};
@@ -0,0 +1,91 @@
+// --- MINIMAL JSON SCHEMA VALIDATION ---
+// Supports the subset of JSON Schema we author ourselves (manifests, tool parameters, response schemas).
+export interface JsonSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    enum?: unknown[];
+    const?: unknown;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    minItems?: number;
+    maxItems?: number;
+    pattern?: string;
+    default?: unknown;
+}
+
+export interface ValidationError {
+    path: string; // e.g. "agents[0].config.model"
+    message: string;
+}
+
+const typeOf = (value: unknown) => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+const matchesType = (value: unknown, type: JsonSchema['type']) => {
+    switch (type) {
+        case 'integer': return typeof value === 'number' && Number.isInteger(value);
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        case 'object': return typeOf(value) === 'object';
+        default: return typeOf(value) === type;
+    }
+};
+
+const joinPath = (path: string, key: string | number) =>
+    typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+export const validateJsonSchema = (value: unknown, schema: JsonSchema, path = ''): ValidationError[] => {
+    const at = path || '(root)';
+    if (schema.type && !matchesType(value, schema.type)) {
+        return [{ path: at, message: `must be ${schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}` }];
+    }
+    const errors: ValidationError[] = [];
+    if (schema.const !== undefined && value !== schema.const) {
+        errors.push({ path: at, message: `must be ${JSON.stringify(schema.const)}` });
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        errors.push({ path: at, message: `must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}` });
+    }
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) errors.push({ path: at, message: `must be >= ${schema.minimum}` });
+        if (schema.maximum !== undefined && value > schema.maximum) errors.push({ path: at, message: `must be <= ${schema.maximum}` });
+    }
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) errors.push({ path: at, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push({ path: at, message: `must be at most ${schema.maxLength} characters` });
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push({ path: at, message: `must match ${schema.pattern}` });
+    }
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) errors.push({ path: at, message: `must have at least ${schema.minItems} item(s)` });
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push({ path: at, message: `must have at most ${schema.maxItems} item(s)` });
+        if (schema.items) value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items!, joinPath(path, i))));
+    }
+    if (typeOf(value) === 'object') {
+        const record = value as Record<string, unknown>;
+        for (const key of schema.required ?? []) {
+            if (record[key] === undefined) errors.push({ path: joinPath(path, key), message: 'is required' });
+        }
+        for (const [key, propValue] of Object.entries(record)) {
+            const propSchema = schema.properties?.[key];
+            if (propSchema) {
+                errors.push(...validateJsonSchema(propValue, propSchema, joinPath(path, key)));
+            } else if (schema.additionalProperties === false) {
+                errors.push({ path: joinPath(path, key), message: 'is not a recognized field' });
+            } else if (typeof schema.additionalProperties === 'object') {
+                errors.push(...validateJsonSchema(propValue, schema.additionalProperties, joinPath(path, key)));
+            }
+        }
+    }
+    return errors;
+};
+
+export const formatValidationErrors = (errors: ValidationError[]) =>
+    errors.map(e => `${e.path} ${e.message}`).join('\n');
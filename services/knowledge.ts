@@ -0,0 +1,190 @@
+import { Content } from "@google/genai";
+import { Agent, KnowledgeChunk, KnowledgeSource } from "../types";
+import { getAgentProvider, isGeminiAgent, utilityModelFor } from "./providers";
+import { ATTACHMENT_KIND_LABELS, INLINE_LIMIT_BYTES, attachmentKind, formatFileSize, resolveMimeType } from "./attachments";
+import { loadKnowledgeChunks, loadKnowledgeFile, saveKnowledgeChunks, saveKnowledgeFile } from "./storage";
+import { blobToDataUrl } from "../utils/files";
+import { cosineSimilarity } from "../utils/vectors";
+
+// --- KNOWLEDGE BASE ---
+const CHUNK_CHARS = 1500;
+const CHUNK_OVERLAP_CHARS = 200; // Repeated at the start of the next chunk, so passages split mid-thought still match
+const EMBEDDING_BATCH_SIZE = 100;
+export const GEMINI_EMBEDDING_MODEL = 'gemini-embedding-001';
+export const GEMINI_EMBEDDING_DIMENSIONS = 768;
+const PDF_EXTRACTION_MODEL = 'gemini-2.5-flash';
+export const KNOWLEDGE_TOP_K = 5;
+// Below this cosine similarity a chunk is too far from the question to help.
+const MIN_SIMILARITY = 0.3;
+const KNOWLEDGE_URI_PREFIX = 'knowledge://';
+
+// PDFs are sent inline to have their text extracted.
+const MAX_BYTES = { text: 5 * 1024 * 1024, pdf: INLINE_LIMIT_BYTES };
+
+export interface KnowledgeMatch {
+    source: KnowledgeSource;
+    chunk: KnowledgeChunk;
+    score: number;
+}
+
+/** Embeddings only compare with others from the same provider and model. */
+export const embeddingKeyFor = (agent: Agent) =>
+    isGeminiAgent(agent) ? `gemini:${GEMINI_EMBEDDING_MODEL}` : `openai-compatible:${agent.config.provider?.baseUrl ?? ''}`;
+
+export const needsReindex = (source: KnowledgeSource, agent: Agent) =>
+    source.status === 'ready' && source.embeddingKey !== embeddingKeyFor(agent);
+
+/** Text and code files are read as is; PDFs need a Gemini agent to extract their text. Returns an error line, or null. */
+export const checkKnowledgeFile = (file: File, agent: Agent): string | null => {
+    const kind = attachmentKind({ name: file.name, mimeType: resolveMimeType(file) });
+    if (kind !== 'text' && kind !== 'pdf') return `${file.name}: knowledge sources are text, Markdown, code or PDF files, not ${ATTACHMENT_KIND_LABELS[kind]}.`;
+    if (kind === 'pdf' && !isGeminiAgent(agent)) return `${file.name}: reading PDFs needs a Gemini agent.`;
+    if (file.size > MAX_BYTES[kind]) return `${file.name} is ${formatFileSize(file.size)}; the limit for ${ATTACHMENT_KIND_LABELS[kind]} is ${formatFileSize(MAX_BYTES[kind])}.`;
+    return null;
+};
+
+export const createKnowledgeSource = (file: File, agent: Agent, id: string): KnowledgeSource => ({
+    id: id,
+    agentId: agent.id,
+    name: file.name,
+    mimeType: resolveMimeType(file),
+    size: file.size,
+    addedAt: new Date().toISOString(),
+    status: 'indexing',
+});
+
+const extractPdfText = async (blob: Blob, agent: Agent) => {
+    const dataUrl = await blobToDataUrl(blob);
+    const response = await getAgentProvider(agent).generateContent({
+        model: utilityModelFor(agent, PDF_EXTRACTION_MODEL),
+        contents: [{
+            role: 'user',
+            parts: [
+                { inlineData: { data: dataUrl.split(',')[1], mimeType: 'application/pdf' } },
+                { text: 'Transcribe all the text of this document verbatim, in reading order, as plain text. Describe tables row by row and figures in one line. Output nothing else.' },
+            ],
+        }],
+    });
+    return response.text ?? '';
+};
+
+// Prefers to end a chunk at a paragraph, then a line, then a sentence, then a word boundary in its second half.
+const findChunkEnd = (text: string, start: number) => {
+    const limit = start + CHUNK_CHARS;
+    if (limit >= text.length) return text.length;
+    const window = text.slice(start + CHUNK_CHARS / 2, limit);
+    for (const separator of ['\n\n', '\n', '. ', ' ']) {
+        const at = window.lastIndexOf(separator);
+        if (at >= 0) return start + CHUNK_CHARS / 2 + at + separator.length;
+    }
+    return limit;
+};
+
+/** Overlapping chunks of about CHUNK_CHARS characters, with their ranges in `text`. */
+export const chunkText = (text: string): { text: string; start: number; end: number }[] => {
+    const chunks: { text: string; start: number; end: number }[] = [];
+    let start = 0;
+    while (start < text.length) {
+        const end = findChunkEnd(text, start);
+        const chunk = text.slice(start, end);
+        if (chunk.trim()) chunks.push({ text: chunk.trim(), start: start, end: end });
+        if (end >= text.length) break;
+        // Step back for the overlap, then forward to the next word so chunks don't start mid-word.
+        const overlapStart = Math.max(end - CHUNK_OVERLAP_CHARS, start + 1);
+        const nextWord = text.slice(overlapStart, end).search(/\s\S/);
+        start = nextWord >= 0 ? overlapStart + nextWord + 1 : end;
+    }
+    return chunks;
+};
+
+const embedTexts = async (agent: Agent, texts: string[], taskType: 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY') => {
+    const provider = getAgentProvider(agent);
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        embeddings.push(...await provider.embedContent({
+            texts: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+            taskType: taskType,
+            ...(isGeminiAgent(agent) && { model: GEMINI_EMBEDDING_MODEL, dimensions: GEMINI_EMBEDDING_DIMENSIONS }),
+        }));
+    }
+    return embeddings;
+};
+
+/**
+ * Extracts, chunks and embeds a source with the agent's provider and stores the chunks, replacing earlier ones.
+ * Pass the file when the source is new; re-indexing reads the stored copy. Returns the source marked ready.
+ */
+export const indexKnowledgeSource = async (agent: Agent, source: KnowledgeSource, file?: Blob): Promise<KnowledgeSource> => {
+    const blob = file ?? (await loadKnowledgeFile(source.id))?.blob;
+    if (!blob) throw new Error('The original file is no longer stored; remove the source and add it again.');
+    const text = attachmentKind(source) === 'pdf' ? await extractPdfText(blob, agent) : await blob.text();
+    const pieces = chunkText(text);
+    if (pieces.length === 0) throw new Error('No text was found in this file.');
+    const embeddings = await embedTexts(agent, pieces.map(piece => piece.text), 'RETRIEVAL_DOCUMENT');
+    if (embeddings.length !== pieces.length) throw new Error('The embedding model returned fewer vectors than there are chunks.');
+    const chunks: KnowledgeChunk[] = pieces.map((piece, i) => ({
+        id: `${source.id}-${i}`,
+        sourceId: source.id,
+        index: i,
+        ...piece,
+        embedding: Float32Array.from(embeddings[i]),
+    }));
+    await saveKnowledgeFile(source.id, { blob, text });
+    await saveKnowledgeChunks(source.id, chunks);
+    chunkCache.set(source.id, chunks);
+    const { error, ...rest } = source;
+    return { ...rest, status: 'ready', chunkCount: chunks.length, embeddingKey: embeddingKeyFor(agent), indexedAt: new Date().toISOString() };
+};
+
+// Chunks are read from IndexedDB once per source and kept for later searches.
+const chunkCache = new Map<string, KnowledgeChunk[]>();
+
+export const forgetKnowledgeSource = (sourceId: string) => chunkCache.delete(sourceId);
+
+const chunksOf = async (sourceId: string) => {
+    let chunks = chunkCache.get(sourceId);
+    if (!chunks) {
+        chunks = await loadKnowledgeChunks(sourceId);
+        chunkCache.set(sourceId, chunks);
+    }
+    return chunks;
+};
+
+/** The agent's `k` chunks closest to `query`, skipping sources embedded with a different provider. */
+export const searchKnowledge = async (agent: Agent, sources: KnowledgeSource[], query: string, k = KNOWLEDGE_TOP_K): Promise<KnowledgeMatch[]> => {
+    const searchable = sources.filter(source => source.agentId === agent.id && source.status === 'ready' && !needsReindex(source, agent));
+    if (searchable.length === 0 || !query.trim()) return [];
+    const [queryEmbedding] = await embedTexts(agent, [query], 'RETRIEVAL_QUERY');
+    const matches: KnowledgeMatch[] = [];
+    for (const source of searchable) {
+        for (const chunk of await chunksOf(source.id)) {
+            const score = cosineSimilarity(queryEmbedding, chunk.embedding);
+            if (score >= MIN_SIMILARITY) matches.push({ source, chunk, score });
+        }
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, k);
+};
+
+/** Adds the passages to the last user turn, numbered to match the reply's Sources list. */
+export const withKnowledgeContext = (contents: Content[], matches: KnowledgeMatch[]): Content[] => {
+    if (matches.length === 0) return contents;
+    const passages = matches.map((match, i) => `[${i + 1}] ${match.source.name}, passage ${match.chunk.index + 1}:\n${match.chunk.text}`).join('\n\n');
+    const context = `Passages from your knowledge base that may help. Use them where relevant and cite them as [1], [2] and so on; say so if they don't answer the question.\n\n${passages}`;
+    const last = contents[contents.length - 1];
+    return [...contents.slice(0, -1), { ...last, parts: [...(last.parts ?? []), { text: context }] }];
+};
+
+export const knowledgeUri = (chunk: KnowledgeChunk) => `${KNOWLEDGE_URI_PREFIX}${chunk.sourceId}/${chunk.id}`;
+
+/** The chunk id in a Sources entry that points into the knowledge base, or null for web and map sources. */
+export const parseKnowledgeUri = (uri: string | undefined) =>
+    uri?.startsWith(KNOWLEDGE_URI_PREFIX) ? uri.slice(KNOWLEDGE_URI_PREFIX.length).split('/')[1] ?? null : null;
+
+/** Shaped like Gemini's retrieved-context grounding chunks, so citations share the Sources list with search results. */
+export const toGroundingChunk = (match: KnowledgeMatch, number: number) => ({
+    retrievedContext: {
+        uri: knowledgeUri(match.chunk),
+        title: `[${number}] ${match.source.name} · passage ${match.chunk.index + 1}`,
+        text: match.chunk.text,
+    },
+});
@@ -0,0 +1,271 @@
+import { Content, LiveServerMessage, Modality, Session } from "@google/genai";
+import { Agent, Message, UsageRecord } from "../types";
+import { DEFAULT_VOICE } from "../constants";
+import { getConversationMessages, messageToContent } from "./history";
+import { getGeminiClient } from "./providers";
+import { UsageCounts, addUsageCounts, toUsageRecord } from "./usage";
+import { createAudioContext, decode, decodeAudioData, floatToPcmBase64 } from "../utils/audio";
+
+// --- LIVE VOICE CONVERSATIONS ---
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
+const LIVE_HISTORY_MESSAGES = 30; // Earlier chat messages seeded into a new session, as text
+const MAX_RECONNECT_ATTEMPTS = 3;
+const RECONNECT_BASE_DELAY_MS = 1000;
+
+// Runs on the audio thread and hands the main thread ~128ms chunks of mono samples.
+const CAPTURE_WORKLET = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+    constructor() {
+        super();
+        this.buffer = new Float32Array(2048);
+        this.length = 0;
+    }
+    process(inputs) {
+        const channel = inputs[0] && inputs[0][0];
+        if (channel) {
+            for (let i = 0; i < channel.length; i++) {
+                this.buffer[this.length++] = channel[i];
+                if (this.length === this.buffer.length) {
+                    this.port.postMessage(this.buffer.slice());
+                    this.length = 0;
+                }
+            }
+        }
+        return true;
+    }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+export type LiveStatus = 'connecting' | 'live' | 'reconnecting';
+
+/** One finished exchange, transcribed. Either side may be empty. */
+export interface LiveTurn {
+    userText: string;
+    agentText: string;
+    interrupted: boolean; // The agent was cut off; agentText is what it said before that
+    usage?: UsageRecord; // Tokens the session reported during the turn
+}
+
+export interface LiveConversationOptions {
+    agent: Agent;
+    history: Message[]; // The chat so far; the session starts with it as context
+    onTurn: (turn: LiveTurn) => void;
+    onStatusChange: (status: LiveStatus) => void;
+    onEnd: (error?: string) => void; // Called once: without an error when stopped, with one when reconnecting gave up
+}
+
+export interface LiveConversation {
+    stop: () => void;
+}
+
+/** Text-only version of the chat for seeding a session; attachments would cost too much setup time. */
+export const buildLiveHistory = async (messages: Message[], agent: Agent): Promise<Content[]> => {
+    const recent = getConversationMessages(messages).filter(m => m.text).slice(-LIVE_HISTORY_MESSAGES);
+    return Promise.all(recent.map(m => messageToContent({ ...m, attachments: undefined }, agent)));
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Opens the microphone and a Live API session for the agent. Finished turns are reported as transcripts.
+ * Dropped connections are resumed with the server's resumption handle when there is one, or
+ * re-seeded with the chat plus everything said so far. Rejects if the microphone or the first connection fails.
+ */
+export const startLiveConversation = async (options: LiveConversationOptions): Promise<LiveConversation> => {
+    const { agent } = options;
+    const baseHistory = await buildLiveHistory(options.history, agent);
+    const mediaStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const inputContext = createAudioContext(INPUT_SAMPLE_RATE);
+    const outputContext = createAudioContext(OUTPUT_SAMPLE_RATE);
+    const outputNode = outputContext.createGain();
+    outputNode.connect(outputContext.destination);
+
+    const spokenTurns: Content[] = []; // Transcripts from this conversation, for re-seeding after a reconnect
+    const playing = new Set<AudioBufferSourceNode>();
+    let session: Session | null = null;
+    let resumptionHandle: string | undefined;
+    let connection = 0; // Bumped per connect, so callbacks from replaced sessions are ignored
+    let reconnectAttempts = 0;
+    let isReconnecting = false;
+    let stopped = false;
+    let nextStartTime = 0;
+    let userText = '';
+    let agentText = '';
+    let interrupted = false;
+    let turnUsage: UsageCounts | undefined;
+    let capture: AudioWorkletNode | undefined;
+    let source: MediaStreamAudioSourceNode | undefined;
+
+    const teardown = () => {
+        stopped = true;
+        if (capture) capture.port.onmessage = null;
+        capture?.disconnect();
+        source?.disconnect();
+        mediaStream.getTracks().forEach(track => track.stop());
+        session?.close();
+        session = null;
+        inputContext.close();
+        outputContext.close();
+    };
+
+    // A turn cut short by a disconnect or stop is still saved, marked as interrupted.
+    const flushTurn = (isPartial = false) => {
+        const turn: LiveTurn = {
+            userText: userText.trim(),
+            agentText: agentText.trim(),
+            interrupted: interrupted || (isPartial && !!agentText.trim()),
+            ...(turnUsage && { usage: toUsageRecord('live', LIVE_MODEL, turnUsage) }),
+        };
+        userText = '';
+        agentText = '';
+        interrupted = false;
+        turnUsage = undefined;
+        if (!turn.userText && !turn.agentText) return;
+        if (turn.userText) spokenTurns.push({ role: 'user', parts: [{ text: turn.userText }] });
+        if (turn.agentText) spokenTurns.push({ role: 'model', parts: [{ text: turn.agentText }] });
+        options.onTurn(turn);
+    };
+
+    const stopPlayback = () => {
+        for (const node of playing) node.stop();
+        playing.clear();
+        nextStartTime = 0;
+    };
+
+    const playChunk = async (base64: string) => {
+        nextStartTime = Math.max(nextStartTime, outputContext.currentTime);
+        const audioBuffer = await decodeAudioData(decode(base64), outputContext, OUTPUT_SAMPLE_RATE, 1);
+        const node = outputContext.createBufferSource();
+        node.buffer = audioBuffer;
+        node.connect(outputNode);
+        node.addEventListener('ended', () => { playing.delete(node); });
+        node.start(nextStartTime);
+        nextStartTime += audioBuffer.duration;
+        playing.add(node);
+    };
+
+    const handleMessage = async (message: LiveServerMessage) => {
+        if (stopped) return;
+        if (message.setupComplete) {
+            reconnectAttempts = 0;
+            options.onStatusChange('live');
+        }
+        if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+            resumptionHandle = message.sessionResumptionUpdate.newHandle;
+        }
+        if (message.usageMetadata) turnUsage = addUsageCounts(turnUsage, message.usageMetadata);
+        const content = message.serverContent;
+        if (!content) return;
+        if (content.inputTranscription?.text) userText += content.inputTranscription.text;
+        if (content.outputTranscription?.text) agentText += content.outputTranscription.text;
+        for (const part of content.modelTurn?.parts ?? []) {
+            if (part.inlineData?.data) await playChunk(part.inlineData.data);
+        }
+        if (content.interrupted) {
+            stopPlayback();
+            interrupted = true;
+        }
+        if (content.turnComplete) flushTurn();
+    };
+
+    const connect = async () => {
+        const generation = ++connection;
+        let lostReason: string | null = null;
+        // Errors during setup reject below; only an established session triggers a reconnect.
+        const onLost = (reason: string) => {
+            if (generation !== connection || lostReason !== null) return;
+            lostReason = reason;
+            if (session) handleDisconnect(reason);
+        };
+        const isResuming = !!resumptionHandle;
+        const nextSession = await getGeminiClient().live.connect({
+            model: LIVE_MODEL,
+            callbacks: {
+                onmessage: handleMessage,
+                onerror: (e: ErrorEvent) => {
+                    console.error('Live API error:', e);
+                    onLost(e.message || 'The live connection failed.');
+                },
+                onclose: (e: CloseEvent) => onLost(e.reason || 'The live connection closed.'),
+            },
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: agent.config.voiceName || DEFAULT_VOICE } } },
+                systemInstruction: agent.config.systemInstruction,
+                inputAudioTranscription: {},
+                outputAudioTranscription: {},
+                sessionResumption: isResuming ? { handle: resumptionHandle } : {},
+            },
+        });
+        if (lostReason !== null || stopped) {
+            nextSession.close();
+            throw new Error(lostReason ?? 'Stopped');
+        }
+        session = nextSession;
+        const history = [...baseHistory, ...spokenTurns];
+        if (!isResuming && history.length) session.sendClientContent({ turns: history, turnComplete: false });
+        options.onStatusChange('live');
+    };
+
+    const handleDisconnect = async (reason: string) => {
+        if (stopped || isReconnecting) return;
+        isReconnecting = true;
+        const lostSession = session;
+        session = null;
+        lostSession?.close();
+        flushTurn(true);
+        while (!stopped) {
+            if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+                teardown();
+                options.onEnd(reason);
+                break;
+            }
+            reconnectAttempts++;
+            if (reconnectAttempts > 1) resumptionHandle = undefined; // The handle itself may be what keeps failing
+            options.onStatusChange('reconnecting');
+            await delay(RECONNECT_BASE_DELAY_MS * 2 ** (reconnectAttempts - 1));
+            if (stopped) break;
+            try {
+                await connect();
+                break;
+            } catch (error) {
+                console.error('Live API reconnect failed:', error);
+                reason = error instanceof Error ? error.message : String(error);
+            }
+        }
+        isReconnecting = false;
+    };
+
+    try {
+        const workletUrl = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: 'text/javascript' }));
+        try {
+            await inputContext.audioWorklet.addModule(workletUrl);
+        } finally {
+            URL.revokeObjectURL(workletUrl);
+        }
+        await connect();
+    } catch (error) {
+        teardown();
+        throw error;
+    }
+
+    // A worklet without outputs is a sink, so it keeps running without being routed to the speakers.
+    source = inputContext.createMediaStreamSource(mediaStream);
+    capture = new AudioWorkletNode(inputContext, 'pcm-capture', { numberOfInputs: 1, numberOfOutputs: 0, channelCount: 1 });
+    capture.port.onmessage = (event: MessageEvent<Float32Array>) => {
+        session?.sendRealtimeInput({ audio: { data: floatToPcmBase64(event.data), mimeType: `audio/pcm;rate=${inputContext.sampleRate}` } });
+    };
+    source.connect(capture);
+
+    return {
+        stop: () => {
+            if (stopped) return;
+            flushTurn(true);
+            teardown();
+            options.onEnd();
+        },
+    };
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { Agent } from "../types";
+import { AGENT_MANIFEST_VERSION, createAgentBundle, createAgentManifest, parseAgentManifest } from "./manifest";
+
+const agent: Agent = {
+    id: 'agent-1',
+    name: 'Researcher',
+    avatar: 'https://example.com/researcher.png',
+    capabilities: ['Web Search'],
+    config: {
+        systemInstruction: 'Cite your sources.',
+        model: 'gemini-2.5-flash',
+        tools: [{ googleSearch: {} }],
+        modelConfig: { temperature: 0.4, stopSequences: ['END'] },
+        voiceName: 'Kore',
+        tokenBudget: { daily: 50000 },
+        provider: { kind: 'gemini', apiKey: 'secret' },
+    },
+} as Agent;
+
+const parse = (manifest: unknown) => parseAgentManifest(JSON.stringify(manifest));
+
+describe('agent manifests', () => {
+    it('round-trips an agent without its API key', () => {
+        const { provider, ...config } = agent.config;
+
+        expect(parse(createAgentManifest(agent))).toEqual({ ok: true, agents: [{ ...agent, config: { ...config, provider: { kind: 'gemini' } } }] });
+    });
+
+    it('drops unknown model settings from version 1 files', () => {
+        const manifest = createAgentManifest(agent);
+        const legacy = { ...manifest, version: 1, agent: { ...manifest.agent, config: { ...manifest.agent.config, modelConfig: { temperature: 0.4, presencePenalty: 1 } } } };
+
+        const result = parse(legacy);
+
+        expect(result.ok && result.agents[0].config.modelConfig).toEqual({ temperature: 0.4 });
+    });
+
+    it('asks for an update to read files from a newer version', () => {
+        expect(parse({ ...createAgentManifest(agent), version: AGENT_MANIFEST_VERSION + 1 })).toEqual({
+            ok: false,
+            errors: [{ path: 'version', message: `is ${AGENT_MANIFEST_VERSION + 1}, but this hub reads up to version ${AGENT_MANIFEST_VERSION}; update it to import this file` }],
+        });
+    });
+
+    it('rejects tools and settings the hub cannot run', () => {
+        const manifest = createAgentManifest(agent);
+        const invalid = { ...manifest, agent: { ...manifest.agent, config: { ...manifest.agent.config, tools: [{ codeExecution: {} }], modelConfig: { temperature: 3 } } } };
+
+        const result = parse(invalid);
+
+        expect('errors' in result && result.errors.map(error => error.path)).toEqual(['agent.config.tools[0]', 'agent.config']);
+    });
+
+    it('reports agents that share an id in a bundle', () => {
+        const result = parse(createAgentBundle([agent, { ...agent, name: 'Copy' }]));
+
+        expect(result).toEqual({ ok: false, errors: [{ path: 'agents[1].id', message: 'duplicates another agent in the bundle ("agent-1")' }] });
+    });
+});
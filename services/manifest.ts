@@ -0,0 +1,351 @@
+import { Agent, AgentCommand, ModelConfig, PromptTemplate, TokenBudget } from "../types";
+import { ProviderConfig } from "./providers";
+import { ALL_CAPABILITIES } from "../constants";
+import { JsonSchema, ValidationError, validateJsonSchema } from "./jsonSchema";
+import { validateModelSettings } from "./models";
+import { validatePromptTemplate } from "./templates";
+
+// --- PORTABLE AGENT MANIFESTS ---
+// Version 2 adds function tools, commands, templates, voice, budgets, provider and structured-output settings.
+// Builds that only read version 1 reject these files rather than importing agents without those fields.
+export const AGENT_MANIFEST_VERSION = 2;
+const AGENT_FORMAT = 'ai-agent-hub/agent';
+const BUNDLE_FORMAT = 'ai-agent-hub/agent-bundle';
+
+export interface ManifestAgent {
+    id: string;
+    name: string;
+    avatar: string;
+    capabilities: string[];
+    config: {
+        systemInstruction: string;
+        model: string;
+        tools?: any[];
+        functionTools?: string[]; // Names only; custom tool definitions stay in the browser that created them
+        modelConfig?: ModelConfig;
+        responseSchema?: JsonSchema;
+        contextTokenBudget?: number;
+        provider?: Omit<ProviderConfig, 'apiKey'>;
+        commands?: AgentCommand[];
+        templates?: PromptTemplate[];
+        voiceName?: string;
+        speechStyle?: string;
+        tokenBudget?: TokenBudget;
+    };
+}
+
+export interface AgentManifest {
+    format: typeof AGENT_FORMAT;
+    version: number;
+    exportedAt: string;
+    agent: ManifestAgent;
+}
+
+export interface AgentBundleManifest {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;
+    agents: ManifestAgent[];
+}
+
+const MODEL_CONFIG_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        temperature: { type: 'number' },
+        topP: { type: 'number' },
+        topK: { type: 'integer' },
+        maxOutputTokens: { type: 'integer' },
+        stopSequences: { type: 'array', items: { type: 'string' } },
+        seed: { type: 'integer' },
+        thinkingConfig: { type: 'object', properties: { thinkingBudget: { type: 'integer' } } },
+        safetySettings: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['category', 'threshold'],
+                properties: { category: { type: 'string', minLength: 1 }, threshold: { type: 'string', minLength: 1 } },
+            },
+        },
+    },
+};
+
+const MANIFEST_AGENT_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['id', 'name', 'avatar', 'capabilities', 'config'],
+    additionalProperties: false,
+    properties: {
+        id: { type: 'string', minLength: 1, maxLength: 100 },
+        name: { type: 'string', minLength: 1, maxLength: 100 },
+        avatar: { type: 'string', pattern: '^(data:image/|https?://)', description: 'Image URL or data URL' },
+        capabilities: { type: 'array', items: { type: 'string', minLength: 1 } },
+        config: {
+            type: 'object',
+            required: ['systemInstruction', 'model'],
+            additionalProperties: false,
+            properties: {
+                systemInstruction: { type: 'string' },
+                model: { type: 'string', minLength: 1 },
+                tools: { type: 'array', items: { type: 'object' } },
+                functionTools: { type: 'array', items: { type: 'string', minLength: 1 } },
+                modelConfig: MODEL_CONFIG_SCHEMA,
+                responseSchema: { type: 'object' },
+                contextTokenBudget: { type: 'integer', minimum: 1 },
+                voiceName: { type: 'string', minLength: 1 },
+                speechStyle: { type: 'string' },
+                tokenBudget: {
+                    type: 'object',
+                    additionalProperties: false,
+                    properties: {
+                        daily: { type: 'integer', minimum: 1 },
+                        monthly: { type: 'integer', minimum: 1 },
+                    },
+                },
+                commands: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        required: ['name', 'template'],
+                        additionalProperties: false,
+                        properties: {
+                            name: { type: 'string', pattern: '^[a-zA-Z][\\w-]{0,31}$' },
+                            description: { type: 'string' },
+                            template: { type: 'string', minLength: 1 },
+                        },
+                    },
+                },
+                templates: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        required: ['id', 'name', 'text', 'variables'],
+                        additionalProperties: false,
+                        properties: {
+                            id: { type: 'string', minLength: 1 },
+                            name: { type: 'string', minLength: 1, maxLength: 100 },
+                            description: { type: 'string' },
+                            text: { type: 'string', minLength: 1 },
+                            variables: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    required: ['name', 'type'],
+                                    additionalProperties: false,
+                                    properties: {
+                                        name: { type: 'string' },
+                                        type: { enum: ['text', 'multiline', 'number', 'choice'] },
+                                        label: { type: 'string' },
+                                        default: { type: 'string' },
+                                        options: { type: 'array', items: { type: 'string' } },
+                                        optional: { type: 'boolean' },
+                                    },
+                                },
+                            },
+                            model: { type: 'string', minLength: 1 },
+                            attachments: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    required: ['id', 'name', 'mimeType', 'size', 'url'],
+                                    additionalProperties: false,
+                                    properties: {
+                                        id: { type: 'string' },
+                                        name: { type: 'string' },
+                                        mimeType: { type: 'string' },
+                                        size: { type: 'integer', minimum: 0 },
+                                        url: { type: 'string', pattern: '^data:', description: 'Data URL' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+                provider: {
+                    type: 'object',
+                    required: ['kind'],
+                    additionalProperties: false,
+                    properties: {
+                        kind: { enum: ['gemini', 'openai-compatible'] },
+                        baseUrl: { type: 'string', pattern: '^https?://' },
+                    },
+                },
+            },
+        },
+    },
+};
+
+export const AGENT_MANIFEST_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['format', 'version', 'agent'],
+    additionalProperties: false,
+    properties: {
+        format: { const: AGENT_FORMAT },
+        version: { type: 'integer', minimum: 1, maximum: AGENT_MANIFEST_VERSION },
+        exportedAt: { type: 'string' },
+        agent: MANIFEST_AGENT_SCHEMA,
+    },
+};
+
+export const AGENT_BUNDLE_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['format', 'version', 'agents'],
+    additionalProperties: false,
+    properties: {
+        format: { const: BUNDLE_FORMAT },
+        version: { type: 'integer', minimum: 1, maximum: AGENT_MANIFEST_VERSION },
+        exportedAt: { type: 'string' },
+        agents: { type: 'array', minItems: 1, items: MANIFEST_AGENT_SCHEMA },
+    },
+};
+
+const KNOWN_TOOLS = Object.values(ALL_CAPABILITIES).map(tool => JSON.stringify(tool));
+
+// Tools are only portable when this hub knows how to run them.
+const validateTools = (agent: ManifestAgent, path: string): ValidationError[] =>
+    (agent.config.tools ?? []).flatMap((tool, i) =>
+        KNOWN_TOOLS.includes(JSON.stringify(tool))
+            ? []
+            : [{ path: `${path}.config.tools[${i}]`, message: `is not a recognized tool (expected one of ${KNOWN_TOOLS.join(', ')})` }]
+    );
+
+// Settings the model can't take would fail on the first message, so they are rejected at import.
+const validateModelConfig = (agent: ManifestAgent, path: string): ValidationError[] =>
+    validateModelSettings(fromManifestAgent(agent)).map(message => ({ path: `${path}.config`, message }));
+
+// Names, variables and file sizes are checked the same way as in the template editor.
+const validateTemplates = (agent: ManifestAgent, path: string): ValidationError[] =>
+    (agent.config.templates ?? []).flatMap((template, i) =>
+        validatePromptTemplate(template, agent.config.templates!).map(error => ({ path: `${path}.config.templates[${i}].${error.path}`, message: error.message })));
+
+const toManifestAgent = (agent: Agent): ManifestAgent => ({
+    id: agent.id,
+    name: agent.name,
+    avatar: agent.avatar,
+    capabilities: agent.capabilities,
+    config: {
+        systemInstruction: agent.config.systemInstruction,
+        model: agent.config.model,
+        ...(agent.config.tools && { tools: agent.config.tools }),
+        ...(agent.config.functionTools?.length && { functionTools: agent.config.functionTools }),
+        ...(agent.config.modelConfig && { modelConfig: agent.config.modelConfig }),
+        ...(agent.config.responseSchema && { responseSchema: agent.config.responseSchema }),
+        ...(agent.config.contextTokenBudget && { contextTokenBudget: agent.config.contextTokenBudget }),
+        ...(agent.config.commands?.length && { commands: agent.config.commands }),
+        ...(agent.config.templates?.length && { templates: agent.config.templates }),
+        ...(agent.config.voiceName && { voiceName: agent.config.voiceName }),
+        ...(agent.config.speechStyle && { speechStyle: agent.config.speechStyle }),
+        ...(agent.config.tokenBudget && { tokenBudget: agent.config.tokenBudget }),
+        // API keys are personal and never leave this browser.
+        ...(agent.config.provider && { provider: { kind: agent.config.provider.kind, ...(agent.config.provider.baseUrl && { baseUrl: agent.config.provider.baseUrl }) } }),
+    },
+});
+
+const fromManifestAgent = (agent: ManifestAgent): Agent => JSON.parse(JSON.stringify(agent));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Version 1 left modelConfig free-form, so keys outside the known generation settings are dropped instead of
+// being sent with every request. Files exported while the schema grew still say version 1 but may carry the
+// newer fields; those read the same in version 2 and are kept.
+const upgradeManifestAgent = (agent: unknown, version: unknown): unknown => {
+    if (version !== 1 || !isRecord(agent) || !isRecord(agent.config) || !isRecord(agent.config.modelConfig)) return agent;
+    const known = Object.keys(MODEL_CONFIG_SCHEMA.properties!);
+    const modelConfig = Object.fromEntries(Object.entries(agent.config.modelConfig).filter(([key]) => known.includes(key)));
+    return { ...agent, config: { ...agent.config, modelConfig: modelConfig } };
+};
+
+// A file from a newer build may carry fields this one doesn't know; say so rather than listing them as errors.
+const checkVersion = (version: unknown): ValidationError[] =>
+    typeof version === 'number' && Number.isInteger(version) && version > AGENT_MANIFEST_VERSION
+        ? [{ path: 'version', message: `is ${version}, but this hub reads up to version ${AGENT_MANIFEST_VERSION}; update it to import this file` }]
+        : [];
+
+export const createAgentManifest = (agent: Agent): AgentManifest => ({
+    format: AGENT_FORMAT,
+    version: AGENT_MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    agent: toManifestAgent(agent),
+});
+
+export const createAgentBundle = (agents: Agent[]): AgentBundleManifest => ({
+    format: BUNDLE_FORMAT,
+    version: AGENT_MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    agents: agents.map(toManifestAgent),
+});
+
+export type ManifestParseResult =
+    | { ok: true; agents: Agent[] }
+    | { ok: false; errors: ValidationError[] };
+
+/** Parses a single-agent manifest or a bundle, returning field-level errors when it is invalid. */
+export const parseAgentManifest = (json: string): ManifestParseResult => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (e) {
+        return { ok: false, errors: [{ path: '(root)', message: `is not valid JSON (${(e as Error).message})` }] };
+    }
+    if (!isRecord(data)) return { ok: false, errors: [{ path: 'format', message: `must be "${AGENT_FORMAT}" or "${BUNDLE_FORMAT}"` }] };
+    const versionErrors = checkVersion(data.version);
+    if (versionErrors.length) return { ok: false, errors: versionErrors };
+
+    if (data.format === AGENT_FORMAT) {
+        const upgraded = { ...data, agent: upgradeManifestAgent(data.agent, data.version) };
+        const errors = validateJsonSchema(upgraded, AGENT_MANIFEST_SCHEMA);
+        if (errors.length) return { ok: false, errors };
+        const { agent } = upgraded as unknown as AgentManifest;
+        errors.push(...validateTools(agent, 'agent'), ...validateModelConfig(agent, 'agent'), ...validateTemplates(agent, 'agent'));
+        return errors.length ? { ok: false, errors } : { ok: true, agents: [fromManifestAgent(agent)] };
+    }
+    if (data.format === BUNDLE_FORMAT) {
+        const version = data.version;
+        const upgraded = Array.isArray(data.agents) ? { ...data, agents: data.agents.map(agent => upgradeManifestAgent(agent, version)) } : data;
+        const errors = validateJsonSchema(upgraded, AGENT_BUNDLE_SCHEMA);
+        if (errors.length) return { ok: false, errors };
+        const { agents } = upgraded as unknown as AgentBundleManifest;
+        agents.forEach((agent, i) => errors.push(...validateTools(agent, `agents[${i}]`), ...validateModelConfig(agent, `agents[${i}]`), ...validateTemplates(agent, `agents[${i}]`)));
+        const ids = agents.map(a => a.id);
+        ids.forEach((id, i) => {
+            if (ids.indexOf(id) !== i) errors.push({ path: `agents[${i}].id`, message: `duplicates another agent in the bundle ("${id}")` });
+        });
+        return errors.length ? { ok: false, errors } : { ok: true, agents: agents.map(fromManifestAgent) };
+    }
+    return { ok: false, errors: [{ path: 'format', message: `must be "${AGENT_FORMAT}" or "${BUNDLE_FORMAT}"` }] };
+};
+
+export interface AgentFieldChange {
+    field: string;
+    before: string;
+    after: string;
+}
+
+const describeValue = (value: unknown) => {
+    if (value === undefined) return '(none)';
+    if (typeof value === 'string') return value.startsWith('data:') ? `${value.slice(0, 30)}…` : value;
+    return JSON.stringify(value);
+};
+
+/** Lists the manifest fields that differ between an existing agent and an incoming one. */
+export const diffAgents = (existing: Agent, incoming: Agent): AgentFieldChange[] => {
+    const fields: [string, (agent: Agent) => unknown][] = [
+        ['name', a => a.name],
+        ['avatar', a => a.avatar],
+        ['capabilities', a => a.capabilities],
+        ['config.model', a => a.config.model],
+        ['config.systemInstruction', a => a.config.systemInstruction],
+        ['config.tools', a => a.config.tools],
+        ['config.functionTools', a => a.config.functionTools],
+        ['config.modelConfig', a => a.config.modelConfig],
+        ['config.responseSchema', a => a.config.responseSchema],
+        ['config.commands', a => a.config.commands],
+        ['config.templates', a => a.config.templates?.map(template => template.name)], // Names only; bodies and files are too long to compare
+        ['config.voiceName', a => a.config.voiceName],
+        ['config.speechStyle', a => a.config.speechStyle],
+        ['config.tokenBudget', a => a.config.tokenBudget],
+        ['config.provider', a => a.config.provider && { kind: a.config.provider.kind, baseUrl: a.config.provider.baseUrl }],
+    ];
+    return fields
+        .filter(([, get]) => JSON.stringify(get(existing)) !== JSON.stringify(get(incoming)))
+        .map(([field, get]) => ({ field, before: describeValue(get(existing)), after: describeValue(get(incoming)) }));
+};
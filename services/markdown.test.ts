@@ -0,0 +1,37 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { renderMarkdown } from "./markdown";
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgo=';
+
+describe('renderMarkdown', () => {
+    it('drops styles and form controls from model output', () => {
+        const html = renderMarkdown('<style>body { display: none }</style><form action="https://example.com"><input name="password"><button>Sign in</button></form>Done');
+
+        expect(html).not.toMatch(/<(style|form|input|button)/);
+        expect(html).toContain('Done');
+    });
+
+    it('only keeps images that load without a request', () => {
+        const html = renderMarkdown(`![beacon](https://example.com/pixel.gif?chat=secret) ![inline](${PIXEL}) <video poster="https://example.com/p.png"></video>`);
+
+        expect(html).not.toContain('example.com');
+        expect(html).toContain(`src="${PIXEL}"`);
+    });
+
+    it('removes inline styles that load a URL', () => {
+        expect(renderMarkdown('<p style="background: url(https://example.com/x)">Hi</p>')).toBe('<p>Hi</p>');
+    });
+
+    it('adds code actions after sanitizing', () => {
+        const html = renderMarkdown('```py\nprint(1)\n```', { codeActions: true });
+
+        expect(html).toContain('data-code-action="copy"');
+        expect(html).toContain('data-file-name="snippet.py"');
+        expect(renderMarkdown('```py\nprint(1)\n```')).not.toContain('<button');
+    });
+
+    it('draws task list boxes as symbols', () => {
+        expect(renderMarkdown('- [x] done\n- [ ] todo')).toMatch(/☑[\s\S]*☐/);
+    });
+});
@@ -0,0 +1,178 @@
+import { Marked, Tokens, TokenizerAndRendererExtension } from "marked";
+import DOMPurify from "dompurify";
+import hljs from "highlight.js/lib/common";
+import katex from "katex";
+
+// --- MARKDOWN RENDERING ---
+// Shared by the chat view and the HTML export, so everything here produces plain HTML + CSS (no React).
+const CODE_COLLAPSE_LINES = 30;
+const AUTO_HIGHLIGHT_MAX_CHARS = 5000; // highlightAuto tries every language; skip it for big unlabeled blocks
+
+export interface MarkdownRenderOptions {
+    codeActions?: boolean; // Adds copy/download buttons to code blocks (handled by MarkdownContent)
+}
+
+export const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+    python: 'py', py: 'py', javascript: 'js', js: 'js', typescript: 'ts', ts: 'ts', tsx: 'tsx', jsx: 'jsx',
+    json: 'json', html: 'html', xml: 'xml', css: 'css', scss: 'scss', bash: 'sh', sh: 'sh', shell: 'sh', zsh: 'sh',
+    sql: 'sql', java: 'java', kotlin: 'kt', swift: 'swift', c: 'c', cpp: 'cpp', 'c++': 'cpp', csharp: 'cs', cs: 'cs',
+    go: 'go', rust: 'rs', ruby: 'rb', php: 'php', yaml: 'yml', yml: 'yml', toml: 'toml', markdown: 'md', md: 'md',
+    r: 'r', lua: 'lua', perl: 'pl', dockerfile: 'Dockerfile', makefile: 'Makefile', ini: 'ini', diff: 'diff',
+};
+
+/** File name used when a code block is downloaded, e.g. `snippet.py`. */
+export const fileNameForLanguage = (language: string | undefined) => {
+    const extension = LANGUAGE_EXTENSIONS[(language ?? '').toLowerCase()];
+    if (extension === 'Dockerfile' || extension === 'Makefile') return extension;
+    return `snippet.${extension ?? 'txt'}`;
+};
+
+// MathML output needs no fonts or stylesheet, which keeps exported HTML self-contained.
+// The TeX annotation is dropped because the sanitizer would otherwise leave its source visible.
+const renderMath = (tex: string, displayMode: boolean) =>
+    katex.renderToString(tex, { displayMode, output: 'mathml', throwOnError: false })
+        .replace(/<annotation[\s\S]*?<\/annotation>/g, '');
+
+const blockMath: TokenizerAndRendererExtension = {
+    name: 'blockMath',
+    level: 'block',
+    start: (src) => src.match(/\$\$|\\\[/)?.index,
+    tokenizer(src) {
+        const match = src.match(/^\$\$([\s\S]+?)\$\$[^\n]*(?:\n|$)/) ?? src.match(/^\\\[([\s\S]+?)\\\][^\n]*(?:\n|$)/);
+        if (match) return { type: 'blockMath', raw: match[0], text: match[1].trim() };
+    },
+    renderer: (token) => `<div class="md-math">${renderMath(token.text, true)}</div>`,
+};
+
+const inlineMath: TokenizerAndRendererExtension = {
+    name: 'inlineMath',
+    level: 'inline',
+    start: (src) => src.match(/\$|\\\(/)?.index,
+    tokenizer(src) {
+        // `$...$` must hug its content so prices like "$5 and $10" stay text.
+        const match = src.match(/^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/) ?? src.match(/^\\\(([\s\S]+?)\\\)/);
+        if (match) return { type: 'inlineMath', raw: match[0], text: match[1] };
+    },
+    renderer: (token) => renderMath(token.text, false),
+};
+
+const highlightCode = (code: string, language: string | undefined) => {
+    if (language && hljs.getLanguage(language)) return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+    if (!language && code.length <= AUTO_HIGHLIGHT_MAX_CHARS) return hljs.highlightAuto(code).value;
+    return escapeHtml(code);
+};
+
+const createMarked = (options: MarkdownRenderOptions) => new Marked({
+    gfm: true,
+    breaks: true,
+    extensions: [blockMath, inlineMath],
+    renderer: {
+        code({ text, lang }: Tokens.Code) {
+            const language = lang?.trim().split(/\s+/)[0] || undefined;
+            const label = escapeHtml(language ?? 'text');
+            // Filled with buttons after sanitizing, since buttons are among the tags the sanitizer drops.
+            const actions = options.codeActions ? ` data-file-name="${escapeHtml(fileNameForLanguage(language))}"` : '';
+            const pre = `<pre><code class="hljs${language ? ` language-${label}` : ''}">${highlightCode(text, language)}</code></pre>`;
+            const lineCount = text.split('\n').length;
+            const body = lineCount > CODE_COLLAPSE_LINES
+                ? `<details class="md-code-collapse"><summary>Show all ${lineCount} lines</summary>${pre}</details>`
+                : pre;
+            return `<div class="md-code"><div class="md-code-header"><span>${label}</span><span class="md-code-actions"${actions}></span></div>${body}</div>`;
+        },
+        // Task list boxes are drawn as symbols because form controls don't survive sanitizing.
+        checkbox({ checked }: Tokens.Checkbox) {
+            return `<span class="md-task">${checked ? '☑' : '☐'}</span> `;
+        },
+    },
+});
+
+const renderers = {
+    withActions: createMarked({ codeActions: true }),
+    plain: createMarked({ codeActions: false }),
+};
+
+// Model output is untrusted: styles and form controls could pass for the app's own UI, and anything that loads
+// a remote URL (images, media, CSS url()) would report what's on screen to that server.
+const SANITIZE_CONFIG = { FORBID_TAGS: ['style', 'form', 'input', 'textarea', 'button', 'select'] };
+const LOCAL_URL = /^(data|blob):/i;
+
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+    if (node.tagName === 'A') {
+        node.setAttribute('target', '_blank');
+        node.setAttribute('rel', 'noopener noreferrer');
+    }
+    for (const name of ['src', 'poster']) {
+        if (node.hasAttribute(name) && !LOCAL_URL.test(node.getAttribute(name)!.trim())) node.removeAttribute(name);
+    }
+    node.removeAttribute('srcset');
+    if (/url\s*\(/i.test(node.getAttribute('style') ?? '')) node.removeAttribute('style');
+});
+
+const addCodeActions = (root: DocumentFragment) => {
+    root.querySelectorAll<HTMLElement>('.md-code-actions[data-file-name]').forEach(actions => {
+        actions.innerHTML =
+            `<button type="button" data-code-action="copy" title="Copy code"><span class="material-symbols-outlined">content_copy</span></button>` +
+            `<button type="button" data-code-action="download" data-file-name="${escapeHtml(actions.dataset.fileName!)}" title="Download as file"><span class="material-symbols-outlined">download</span></button>`;
+        actions.removeAttribute('data-file-name');
+    });
+};
+
+/** Renders model output as sanitized HTML. Raw HTML in the source is allowed through DOMPurify only. */
+export const renderMarkdown = (text: string, options: MarkdownRenderOptions = {}) => {
+    const html = (options.codeActions ? renderers.withActions : renderers.plain).parse(text, { async: false }) as string;
+    if (!options.codeActions) return DOMPurify.sanitize(html, SANITIZE_CONFIG);
+    const fragment = DOMPurify.sanitize(html, { ...SANITIZE_CONFIG, RETURN_DOM_FRAGMENT: true });
+    addCodeActions(fragment);
+    const container = document.createElement('div');
+    container.append(fragment);
+    return container.innerHTML;
+};
+
+// Scoped to .md-content and written against currentColor so it reads well in the app (light and dark) and in exports.
+export const MARKDOWN_STYLES = `
+.md-content { line-height: 1.6; overflow-wrap: anywhere; }
+.md-content > :first-child { margin-top: 0; }
+.md-content > :last-child { margin-bottom: 0; }
+.md-content p, .md-content ul, .md-content ol, .md-content blockquote, .md-content table, .md-content .md-code, .md-content .md-math { margin: .5rem 0; }
+.md-content h1, .md-content h2, .md-content h3, .md-content h4 { margin: 1rem 0 .5rem; font-weight: 600; line-height: 1.3; }
+.md-content h1 { font-size: 1.25rem; }
+.md-content h2 { font-size: 1.125rem; }
+.md-content h3, .md-content h4 { font-size: 1rem; }
+.md-content ul { list-style: disc; padding-left: 1.25rem; }
+.md-content ol { list-style: decimal; padding-left: 1.25rem; }
+.md-content li { margin: .125rem 0; }
+.md-content .md-task { margin-right: .125rem; }
+.md-content a { color: #3B82F6; text-decoration: underline; }
+.md-content blockquote { border-left: 3px solid rgba(127, 127, 127, .4); padding-left: .75rem; opacity: .85; }
+.md-content hr { border: 0; border-top: 1px solid rgba(127, 127, 127, .3); margin: 1rem 0; }
+.md-content table { display: block; overflow-x: auto; border-collapse: collapse; }
+.md-content th, .md-content td { border: 1px solid rgba(127, 127, 127, .3); padding: .25rem .5rem; text-align: left; }
+.md-content th { background: rgba(127, 127, 127, .12); font-weight: 600; }
+.md-content img { max-width: 100%; border-radius: .375rem; }
+.md-content :not(pre) > code { background: rgba(127, 127, 127, .18); border-radius: .25rem; padding: .1rem .3rem; font-size: .85em; }
+.md-content code, .md-content pre { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+.md-content .md-math { overflow-x: auto; }
+.md-content .md-code { border: 1px solid rgba(127, 127, 127, .3); border-radius: .5rem; overflow: hidden; }
+.md-content .md-code-header { display: flex; align-items: center; justify-content: space-between; padding: .125rem .5rem; font-size: .75rem; background: rgba(127, 127, 127, .12); opacity: .85; }
+.md-content .md-code-actions { display: flex; gap: .125rem; }
+.md-content .md-code-actions button { display: flex; padding: .25rem; border-radius: .25rem; opacity: .7; }
+.md-content .md-code-actions button:hover { opacity: 1; background: rgba(127, 127, 127, .2); }
+.md-content .md-code-actions .material-symbols-outlined { font-size: 1rem; }
+.md-content .md-code pre { margin: 0; padding: .75rem; overflow-x: auto; font-size: .8125rem; line-height: 1.5; background: rgba(127, 127, 127, .06); }
+.md-content .md-code-collapse > summary { cursor: pointer; padding: .375rem .75rem; font-size: .75rem; opacity: .75; }
+.md-content .md-code-collapse[open] > summary { border-bottom: 1px solid rgba(127, 127, 127, .2); }
+.md-content .hljs-comment, .md-content .hljs-quote { color: #6B7280; font-style: italic; }
+.md-content .hljs-keyword, .md-content .hljs-selector-tag, .md-content .hljs-meta .hljs-keyword, .md-content .hljs-doctag { color: #C678DD; }
+.md-content .hljs-string, .md-content .hljs-regexp, .md-content .hljs-addition, .md-content .hljs-meta .hljs-string { color: #22A06B; }
+.md-content .hljs-number, .md-content .hljs-literal, .md-content .hljs-symbol, .md-content .hljs-bullet { color: #D97706; }
+.md-content .hljs-title, .md-content .hljs-section, .md-content .hljs-title.function_ { color: #3B82F6; }
+.md-content .hljs-built_in, .md-content .hljs-type, .md-content .hljs-title.class_ { color: #0EA5E9; }
+.md-content .hljs-attr, .md-content .hljs-attribute, .md-content .hljs-variable, .md-content .hljs-template-variable, .md-content .hljs-property { color: #E06C75; }
+.md-content .hljs-meta, .md-content .hljs-selector-class, .md-content .hljs-selector-id { color: #A855F7; }
+.md-content .hljs-deletion { color: #EF4444; }
+.md-content .hljs-emphasis { font-style: italic; }
+.md-content .hljs-strong { font-weight: 600; }
+`;
@@ -0,0 +1,233 @@
+import { Agent, ModelConfig, SafetySetting } from "../types";
+import { ALL_CAPABILITIES } from "../constants";
+import { JsonSchema, formatValidationErrors, validateJsonSchema } from "./jsonSchema";
+import { isGeminiAgent } from "./providers";
+
+// --- MODEL CATALOG ---
+export interface ThinkingRange {
+    min: number;
+    max: number;
+    canDisable: boolean; // Whether a budget of 0 turns thinking off
+}
+
+export interface ModelInfo {
+    id: string;
+    label: string;
+    description: string;
+    maxOutputTokens: number;
+    maxTopK?: number; // Unset when the model doesn't take topK
+    thinking?: ThinkingRange; // Unset for models that don't think
+    builtInTools: (keyof typeof ALL_CAPABILITIES)[];
+    functionCalling: boolean;
+    structuredOutput: boolean;
+    safetySettings: boolean;
+}
+
+export const MODEL_CATALOG: ModelInfo[] = [
+    {
+        id: 'gemini-2.5-pro',
+        label: 'Gemini 2.5 Pro',
+        description: 'Strongest reasoning and coding; always thinks.',
+        maxOutputTokens: 65536,
+        maxTopK: 64,
+        thinking: { min: 128, max: 32768, canDisable: false },
+        builtInTools: ['Web Search', 'Maps'],
+        functionCalling: true,
+        structuredOutput: true,
+        safetySettings: true,
+    },
+    {
+        id: 'gemini-2.5-flash',
+        label: 'Gemini 2.5 Flash',
+        description: 'Fast and capable; thinking can be limited or turned off.',
+        maxOutputTokens: 65536,
+        maxTopK: 64,
+        thinking: { min: 1, max: 24576, canDisable: true },
+        builtInTools: ['Web Search', 'Maps'],
+        functionCalling: true,
+        structuredOutput: true,
+        safetySettings: true,
+    },
+    {
+        id: 'gemini-2.5-flash-lite',
+        label: 'Gemini 2.5 Flash-Lite',
+        description: 'Cheapest and quickest; no thinking unless given a budget.',
+        maxOutputTokens: 65536,
+        maxTopK: 64,
+        thinking: { min: 512, max: 24576, canDisable: true },
+        builtInTools: ['Web Search', 'Maps'],
+        functionCalling: true,
+        structuredOutput: true,
+        safetySettings: true,
+    },
+];
+
+// What the settings editor can promise for models behind an OpenAI-compatible endpoint; servers vary beyond this.
+const OPENAI_COMPATIBLE_MODEL: Omit<ModelInfo, 'id'> = {
+    label: 'OpenAI-compatible model',
+    description: '',
+    maxOutputTokens: Number.MAX_SAFE_INTEGER,
+    builtInTools: [],
+    functionCalling: true,
+    structuredOutput: true,
+    safetySettings: false,
+};
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+export const DYNAMIC_THINKING_BUDGET = -1; // The model decides how much to think
+export const MAX_STOP_SEQUENCES = 5;
+
+export const SAFETY_CATEGORIES: { category: string; label: string }[] = [
+    { category: 'HARM_CATEGORY_HARASSMENT', label: 'Harassment' },
+    { category: 'HARM_CATEGORY_HATE_SPEECH', label: 'Hate speech' },
+    { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', label: 'Sexually explicit' },
+    { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', label: 'Dangerous content' },
+    { category: 'HARM_CATEGORY_CIVIC_INTEGRITY', label: 'Civic integrity' },
+];
+
+export const SAFETY_THRESHOLDS: { threshold: string; label: string }[] = [
+    { threshold: 'BLOCK_LOW_AND_ABOVE', label: 'Block low and above' },
+    { threshold: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Block medium and above' },
+    { threshold: 'BLOCK_ONLY_HIGH', label: 'Block only high' },
+    { threshold: 'BLOCK_NONE', label: 'Block none' },
+    { threshold: 'OFF', label: 'Off' },
+];
+
+/** The catalog entry for a Gemini model id, or undefined for models the catalog doesn't know. */
+export const findModel = (id: string) => MODEL_CATALOG.find(model => model.id === id);
+
+/** What the agent's model supports; OpenAI-compatible models get a conservative common denominator. */
+export const modelInfoFor = (agent: Agent, model = agent.config.model): ModelInfo | undefined =>
+    isGeminiAgent(agent) ? findModel(model) : { id: model, ...OPENAI_COMPATIBLE_MODEL };
+
+const describeThinkingRange = (range: ThinkingRange) =>
+    `${range.canDisable ? '0 (off), ' : ''}${range.min}–${range.max}, or dynamic`;
+
+const checkRange = (label: string, value: number | undefined, min: number, max: number, integer = false) => {
+    if (value === undefined) return [];
+    if (!Number.isFinite(value) || (integer && !Number.isInteger(value))) return [`${label} must be ${integer ? 'a whole number' : 'a number'}.`];
+    return value < min || value > max ? [`${label} must be between ${min} and ${max}.`] : [];
+};
+
+/**
+ * Lists why the agent's model settings can't be sent as they are: values out of range, settings the
+ * model doesn't take, and combinations it rejects. An empty list means the settings are valid.
+ */
+export const validateModelSettings = (agent: Agent): string[] => {
+    const { model, modelConfig = {}, responseSchema, tools = [], functionTools = [] } = agent.config;
+    if (!model.trim()) return ['Choose a model.'];
+    const info = modelInfoFor(agent);
+    if (!info) return [`${model} is not in the model catalog.`];
+
+    const problems = [
+        ...checkRange('Temperature', modelConfig.temperature, 0, 2),
+        ...checkRange('Top P', modelConfig.topP, 0, 1),
+        ...checkRange('Max output tokens', modelConfig.maxOutputTokens, 1, info.maxOutputTokens, true),
+    ];
+    if (modelConfig.topK !== undefined) {
+        problems.push(...(info.maxTopK ? checkRange('Top K', modelConfig.topK, 1, info.maxTopK, true) : [`${info.label} doesn't take Top K.`]));
+    }
+    const stops = modelConfig.stopSequences ?? [];
+    if (stops.length > MAX_STOP_SEQUENCES) problems.push(`At most ${MAX_STOP_SEQUENCES} stop sequences are allowed.`);
+    if (stops.some(stop => !stop)) problems.push('Stop sequences must not be empty.');
+
+    const budget = modelConfig.thinkingConfig?.thinkingBudget;
+    if (budget !== undefined && budget !== DYNAMIC_THINKING_BUDGET) {
+        if (!info.thinking) problems.push(`${info.label} has no thinking budget.`);
+        else if (budget === 0 && !info.thinking.canDisable) problems.push(`${info.label} can't turn thinking off; use ${describeThinkingRange(info.thinking)}.`);
+        else if (budget !== 0 && (!Number.isInteger(budget) || budget < info.thinking.min || budget > info.thinking.max)) {
+            problems.push(`Thinking budget for ${info.label} must be ${describeThinkingRange(info.thinking)}.`);
+        }
+    } else if (budget === DYNAMIC_THINKING_BUDGET && !info.thinking) {
+        problems.push(`${info.label} has no thinking budget.`);
+    }
+    if (modelConfig.safetySettings?.length && !info.safetySettings) problems.push('Safety settings only apply to Gemini models.');
+
+    const unsupportedTools = Object.entries(ALL_CAPABILITIES)
+        .filter(([name, tool]) => tools.some(t => JSON.stringify(t) === JSON.stringify(tool)) && !info.builtInTools.includes(name as keyof typeof ALL_CAPABILITIES))
+        .map(([name]) => name);
+    if (unsupportedTools.length) problems.push(`${info.label} doesn't support ${unsupportedTools.join(' or ')}.`);
+    if (functionTools.length && !info.functionCalling) problems.push(`${info.label} can't call functions.`);
+
+    if (responseSchema) {
+        if (!info.structuredOutput) problems.push(`${info.label} doesn't support structured output.`);
+        if (responseSchema.type !== 'object' && responseSchema.type !== 'array') problems.push('The response schema must describe an object or an array.');
+        // Gemini rejects JSON output in the same request as tools.
+        if (isGeminiAgent(agent) && (tools.length || functionTools.length)) problems.push('Structured output can\'t be combined with capabilities or functions on Gemini; turn them off first.');
+    }
+    return problems;
+};
+
+/**
+ * The generation settings to send for the agent, adapted to `model` when a reply is regenerated with
+ * another one: a thinking budget outside its range is clamped and settings it doesn't take are dropped.
+ */
+export const generationConfigFor = (agent: Agent, model = agent.config.model): Record<string, unknown> => {
+    const { thinkingConfig, topK, maxOutputTokens, safetySettings, ...rest } = agent.config.modelConfig ?? {};
+    const info = modelInfoFor(agent, model);
+    const budget = thinkingConfig?.thinkingBudget;
+    const thinking = info?.thinking;
+    const adaptedBudget = budget === undefined || budget === DYNAMIC_THINKING_BUDGET || !thinking ? budget
+        : budget === 0 && thinking.canDisable ? 0
+        : Math.min(Math.max(budget, thinking.min), thinking.max);
+    const schema = agent.config.responseSchema;
+    return {
+        ...rest,
+        ...(topK !== undefined && info?.maxTopK && { topK: Math.min(topK, info.maxTopK) }),
+        ...(maxOutputTokens !== undefined && { maxOutputTokens: Math.min(maxOutputTokens, info?.maxOutputTokens ?? maxOutputTokens) }),
+        ...(adaptedBudget !== undefined && (thinking || !info) && { thinkingConfig: { ...thinkingConfig, thinkingBudget: adaptedBudget } }),
+        ...(safetySettings?.length && info?.safetySettings !== false && { safetySettings: safetySettings }),
+        ...(schema && { responseMimeType: 'application/json', responseJsonSchema: schema }),
+    };
+};
+
+/** One line of the settings that differ from the model's defaults, for the agent panel. */
+export const describeModelSettings = (agent: Agent) => {
+    const { modelConfig = {}, responseSchema } = agent.config;
+    const budget = modelConfig.thinkingConfig?.thinkingBudget;
+    return [
+        modelConfig.temperature !== undefined && `temperature ${modelConfig.temperature}`,
+        modelConfig.topP !== undefined && `top P ${modelConfig.topP}`,
+        modelConfig.topK !== undefined && `top K ${modelConfig.topK}`,
+        modelConfig.maxOutputTokens !== undefined && `max ${modelConfig.maxOutputTokens} tokens`,
+        modelConfig.stopSequences?.length && `${modelConfig.stopSequences.length} stop sequence(s)`,
+        budget !== undefined && (budget === DYNAMIC_THINKING_BUDGET ? 'dynamic thinking' : budget === 0 ? 'no thinking' : `thinking ${budget}`),
+        modelConfig.safetySettings?.length && 'custom safety',
+        responseSchema && 'JSON output',
+    ].filter(Boolean).join(' · ');
+};
+
+export interface StructuredOutputCheck {
+    errors: string[]; // Empty when the reply is valid JSON matching the schema
+}
+
+/** Parses a structured reply; returns undefined for text that isn't JSON. */
+export const parseStructuredOutput = (text: string | undefined): unknown => {
+    // Some models wrap JSON in a Markdown code fence despite the response format.
+    const body = (text ?? '').trim().replace(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/, '$1');
+    try {
+        return JSON.parse(body);
+    } catch {
+        return undefined;
+    }
+};
+
+export const checkStructuredOutput = (text: string | undefined, schema: JsonSchema): StructuredOutputCheck => {
+    const value = parseStructuredOutput(text);
+    if (value === undefined) return { errors: ['The reply is not valid JSON.'] };
+    const errors = validateJsonSchema(value, schema);
+    return { errors: errors.length ? formatValidationErrors(errors).split('\n') : [] };
+};
+
+/** Replaces the setting for one safety category; undefined threshold restores the model's default. */
+export const withSafetyThreshold = (settings: SafetySetting[] = [], category: string, threshold: string | undefined): SafetySetting[] => [
+    ...settings.filter(setting => setting.category !== category),
+    ...(threshold ? [{ category, threshold }] : []),
+];
+
+/** Drops unset fields so an agent with default settings stores no modelConfig at all. */
+export const compactModelConfig = (config: ModelConfig): ModelConfig | undefined => {
+    const compact = Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))) as ModelConfig;
+    if (compact.thinkingConfig && compact.thinkingConfig.thinkingBudget === undefined) delete compact.thinkingConfig;
+    return Object.keys(compact).length ? compact : undefined;
+};
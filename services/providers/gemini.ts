@@ -0,0 +1,116 @@
+import { FileState, GenerateContentResponseUsageMetadata, GoogleGenAI, Modality } from "@google/genai";
+import { ChatRequest, ImageRequest, ImageResult, ModelProvider, withNegativePrompt } from "./types";
+
+const DEFAULT_IMAGE_MODEL = 'imagen-4.0-generate-001';
+const DEFAULT_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const DEFAULT_EMBEDDING_MODEL = 'gemini-embedding-001';
+const TTS_SAMPLE_RATE = 24000;
+const FILE_POLL_INTERVAL_MS = 2000;
+
+// Models that answer with images; they don't accept system instructions or tools.
+export const IMAGE_OUTPUT_MODELS = ['gemini-2.5-flash-image'];
+
+const buildGenerateContentParams = (request: ChatRequest) => ({
+    model: request.model,
+    contents: request.contents,
+    config: IMAGE_OUTPUT_MODELS.includes(request.model)
+        ? { responseModalities: [Modality.IMAGE], abortSignal: request.abortSignal }
+        : {
+            ...request.modelConfig,
+            systemInstruction: request.systemInstruction,
+            tools: request.tools?.length ? request.tools : undefined,
+            abortSignal: request.abortSignal,
+        },
+});
+
+const USAGE_COUNTS = ['promptTokenCount', 'candidatesTokenCount', 'thoughtsTokenCount', 'cachedContentTokenCount', 'totalTokenCount'] as const;
+
+const sumUsage = (usages: (GenerateContentResponseUsageMetadata | undefined)[]): GenerateContentResponseUsageMetadata =>
+    Object.fromEntries(USAGE_COUNTS.map(key => [key, usages.reduce((sum, usage) => sum + (usage?.[key] ?? 0), 0)]));
+
+// Image-output models answer one image per call, so several images mean several calls (with consecutive seeds).
+const generateWithImageModel = async (client: GoogleGenAI, model: string, request: ImageRequest): Promise<ImageResult> => {
+    const prompt = withNegativePrompt(request.prompt, request.negativePrompt);
+    const images = await Promise.all(Array.from({ length: request.numberOfImages ?? 1 }, async (_, i) => {
+        const response = await client.models.generateContent({
+            model: model,
+            contents: [{ role: 'user', parts: [{ text: prompt }, ...(request.sourceImage ? [{ inlineData: request.sourceImage }] : [])] }],
+            config: {
+                responseModalities: [Modality.IMAGE],
+                imageConfig: { aspectRatio: request.aspectRatio ?? '1:1' },
+                ...(request.seed !== undefined && { seed: request.seed + i }),
+            },
+        });
+        const inlineData = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+        return { image: inlineData ? `data:${inlineData.mimeType ?? 'image/png'};base64,${inlineData.data}` : null, usage: response.usageMetadata };
+    }));
+    return {
+        images: images.map(result => result.image).filter((image): image is string => !!image),
+        model: model,
+        usage: sumUsage(images.map(result => result.usage)),
+    };
+};
+
+export const createGeminiProvider = (client: GoogleGenAI): ModelProvider => ({
+    kind: 'gemini',
+
+    generateContent: (request) => client.models.generateContent(buildGenerateContentParams(request)),
+
+    generateContentStream: (request) => client.models.generateContentStream(buildGenerateContentParams(request)),
+
+    generateImages: async (request) => {
+        const model = request.model ?? DEFAULT_IMAGE_MODEL;
+        if (IMAGE_OUTPUT_MODELS.includes(model)) return generateWithImageModel(client, model, request);
+        if (request.sourceImage) throw new Error(`${model} can't edit images; use ${IMAGE_OUTPUT_MODELS[0]}.`);
+        if (request.seed !== undefined) throw new Error(`${model} doesn't accept a seed on the Gemini API; use ${IMAGE_OUTPUT_MODELS[0]}.`);
+        const response = await client.models.generateImages({
+            model: model,
+            prompt: withNegativePrompt(request.prompt, request.negativePrompt),
+            config: { numberOfImages: request.numberOfImages ?? 1, aspectRatio: request.aspectRatio ?? '1:1' },
+        });
+        const images = (response.generatedImages ?? [])
+            .filter(generated => generated.image?.imageBytes)
+            .map(generated => `data:${generated.image!.mimeType ?? 'image/png'};base64,${generated.image!.imageBytes}`);
+        return { images: images, model: model };
+    },
+
+    generateSpeech: async (request) => {
+        const response = await client.models.generateContent({
+            model: request.model ?? DEFAULT_TTS_MODEL,
+            // Gemini's speech models take delivery instructions as part of the prompt.
+            contents: [{ parts: [{ text: request.style ? `${request.style}: ${request.text}` : request.text }] }],
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: request.voiceName } } },
+            },
+        });
+        const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (!data) throw new Error('The speech model returned no audio.');
+        return { data, sampleRate: TTS_SAMPLE_RATE, model: request.model ?? DEFAULT_TTS_MODEL, usage: response.usageMetadata };
+    },
+
+    embedContent: async (request) => {
+        const response = await client.models.embedContent({
+            model: request.model ?? DEFAULT_EMBEDDING_MODEL,
+            contents: request.texts,
+            config: { taskType: request.taskType, outputDimensionality: request.dimensions },
+        });
+        return (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+    },
+
+    uploadFile: async (request) => {
+        let file = await client.files.upload({ file: request.data, config: { mimeType: request.mimeType, displayName: request.displayName } });
+        // Video and long audio are processed before a prompt can reference them.
+        while (file.state === FileState.PROCESSING) {
+            await new Promise(resolve => setTimeout(resolve, FILE_POLL_INTERVAL_MS));
+            file = await client.files.get({ name: file.name! });
+        }
+        if (file.state === FileState.FAILED) throw new Error(`The Files API couldn't process ${request.displayName}.`);
+        return { uri: file.uri!, name: file.name!, expiresAt: file.expirationTime };
+    },
+
+    // Listing a single model is free and fails fast on a missing or revoked key.
+    checkHealth: async (abortSignal) => {
+        await client.models.list({ config: { pageSize: 1, abortSignal: abortSignal } });
+    },
+});
@@ -0,0 +1,63 @@
+import { GoogleGenAI } from "@google/genai";
+import { Agent } from "../../types";
+import { ModelProvider, ProviderConfig, ProviderKind } from "./types";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+
+export * from "./types";
+export { IMAGE_OUTPUT_MODELS } from "./gemini";
+
+export const PROVIDER_LABELS: Record<ProviderKind, string> = {
+    'gemini': 'Google Gemini',
+    'openai-compatible': 'OpenAI-compatible (Ollama, llama.cpp, ...)',
+};
+
+const DEFAULT_PROVIDER_CONFIG: ProviderConfig = { kind: 'gemini' };
+
+// Gemini calls go through the app's proxy (server/), which holds the API key. The SDK's key slot carries the
+// user's access token for the proxy instead.
+const GEMINI_PROXY_PATH = '/api/gemini';
+const ACCESS_TOKEN_STORAGE_KEY = 'proxyAccessToken';
+
+// The client and providers (per configuration) are cached so they aren't rebuilt on every render.
+let geminiClient: GoogleGenAI | null = null;
+const providers = new Map<string, ModelProvider>();
+
+export const getAccessToken = () => localStorage.getItem(ACCESS_TOKEN_STORAGE_KEY) ?? '';
+
+/** Stores the token (empty to forget it); Gemini clients are rebuilt with it on their next use. */
+export const setAccessToken = (token: string) => {
+    if (token) localStorage.setItem(ACCESS_TOKEN_STORAGE_KEY, token);
+    else localStorage.removeItem(ACCESS_TOKEN_STORAGE_KEY);
+    geminiClient = null;
+    providers.clear();
+};
+
+export const getGeminiClient = () => {
+    // The SDK won't start without a key; without a token the proxy answers every call with 401.
+    geminiClient ??= new GoogleGenAI({ apiKey: getAccessToken() || 'missing-access-token', httpOptions: { baseUrl: `${window.location.origin}${GEMINI_PROXY_PATH}` } });
+    return geminiClient;
+};
+
+export const getProvider = (config: ProviderConfig = DEFAULT_PROVIDER_CONFIG): ModelProvider => {
+    const key = JSON.stringify(config);
+    let provider = providers.get(key);
+    if (!provider) {
+        provider = config.kind === 'openai-compatible'
+            ? createOpenAICompatibleProvider(config)
+            : createGeminiProvider(getGeminiClient());
+        providers.set(key, provider);
+    }
+    return provider;
+};
+
+export const getAgentProvider = (agent: Agent) => getProvider(agent.config.provider);
+
+export const isGeminiAgent = (agent: Agent) => (agent.config.provider?.kind ?? 'gemini') === 'gemini';
+
+/**
+ * Model for housekeeping calls (titles, summaries) on the agent's own provider: a fast Gemini model,
+ * or the agent's own model on local backends where we can't assume what else is installed.
+ */
+export const utilityModelFor = (agent: Agent, geminiModel: string) =>
+    isGeminiAgent(agent) ? geminiModel : agent.config.model;
@@ -0,0 +1,268 @@
+import { Content, FunctionDeclaration, GenerateContentResponse, Part } from "@google/genai";
+import { ChatRequest, ModelProvider, ProviderConfig, withNegativePrompt } from "./types";
+
+// Speaks the OpenAI REST dialect served by Ollama (/v1), llama.cpp's server, vLLM, LM Studio, etc.
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_TTS_MODEL = 'tts-1';
+const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+const DEFAULT_IMAGE_MODEL = 'dall-e-3';
+const TTS_SAMPLE_RATE = 24000; // OpenAI's "pcm" speech format is 24kHz 16-bit mono
+
+const ASPECT_RATIO_SIZES: Record<string, string> = {
+    '1:1': '1024x1024',
+    '16:9': '1792x1024',
+    '9:16': '1024x1792',
+};
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer) => {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.byteLength; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+};
+
+// Only images translate to image_url; other media (from chats started with a Gemini agent) is left out.
+const toOpenAIContent = (allParts: Part[]) => {
+    const parts = allParts.filter(part => !part.fileData && (!part.inlineData || part.inlineData.mimeType?.startsWith('image/')));
+    const hasMedia = parts.some(part => part.inlineData);
+    if (!hasMedia) return parts.map(part => part.text ?? '').join('');
+    return parts.flatMap((part): Record<string, unknown>[] => {
+        if (part.text) return [{ type: 'text', text: part.text }];
+        if (part.inlineData) return [{ type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }];
+        return [];
+    });
+};
+
+// Function calls become assistant `tool_calls`; function responses become `tool` messages matched by call id.
+const toOpenAIMessage = (content: Content): Record<string, unknown>[] => {
+    const parts = content.parts ?? [];
+    const functionCalls = parts.filter(part => part.functionCall).map(part => part.functionCall!);
+    const functionResponses = parts.filter(part => part.functionResponse).map(part => part.functionResponse!);
+    if (functionResponses.length > 0) {
+        return functionResponses.map((response, i) => ({
+            role: 'tool',
+            tool_call_id: response.id ?? `call_${i}`,
+            content: JSON.stringify(response.response ?? {}),
+        }));
+    }
+    if (functionCalls.length > 0) {
+        const text = parts.map(part => part.text ?? '').join('');
+        return [{
+            role: 'assistant',
+            content: text || null,
+            tool_calls: functionCalls.map((call, i) => ({
+                id: call.id ?? `call_${i}`,
+                type: 'function',
+                function: { name: call.name, arguments: JSON.stringify(call.args ?? {}) },
+            })),
+        }];
+    }
+    return [{ role: content.role === 'model' ? 'assistant' : 'user', content: toOpenAIContent(parts) }];
+};
+
+const toOpenAIMessages = (contents: Content[], systemInstruction?: string) => [
+    ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+    ...contents.flatMap(toOpenAIMessage),
+];
+
+// Only function declarations translate; Gemini built-ins such as googleSearch have no equivalent here.
+const toOpenAITools = (tools: any[] = []) =>
+    tools.flatMap(tool => (tool.functionDeclarations ?? []) as FunctionDeclaration[]).map(declaration => ({
+        type: 'function',
+        function: {
+            name: declaration.name,
+            description: declaration.description,
+            parameters: declaration.parametersJsonSchema ?? declaration.parameters ?? { type: 'object', properties: {} },
+        },
+    }));
+
+interface OpenAIToolCall {
+    id?: string;
+    function?: { name?: string; arguments?: string };
+}
+
+const toFunctionCallParts = (toolCalls: OpenAIToolCall[] = []): Part[] =>
+    toolCalls.map(call => ({
+        functionCall: {
+            id: call.id,
+            name: call.function?.name,
+            args: call.function?.arguments ? JSON.parse(call.function.arguments) : {},
+        },
+    }));
+
+// Maps the Gemini generation settings that have an OpenAI equivalent; the rest (thinkingConfig, ...) is dropped.
+const toOpenAIOptions = (modelConfig: Record<string, any> = {}) => ({
+    ...(modelConfig.temperature !== undefined && { temperature: modelConfig.temperature }),
+    ...(modelConfig.topP !== undefined && { top_p: modelConfig.topP }),
+    ...(modelConfig.maxOutputTokens !== undefined && { max_tokens: modelConfig.maxOutputTokens }),
+    ...(modelConfig.stopSequences?.length && { stop: modelConfig.stopSequences }),
+    ...(modelConfig.seed !== undefined && { seed: modelConfig.seed }),
+    ...(modelConfig.responseJsonSchema && { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: modelConfig.responseJsonSchema } } }),
+});
+
+const OPENAI_FINISH_REASONS: Record<string, string> = { length: 'MAX_TOKENS', content_filter: 'SAFETY' };
+
+interface OpenAIUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+    completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+// OpenAI counts reasoning inside completion tokens; Gemini reports thinking separately.
+const toUsageMetadata = (usage: OpenAIUsage) => {
+    const thinking = usage.completion_tokens_details?.reasoning_tokens ?? 0;
+    return {
+        promptTokenCount: usage.prompt_tokens ?? 0,
+        candidatesTokenCount: (usage.completion_tokens ?? 0) - thinking,
+        thoughtsTokenCount: thinking,
+        cachedContentTokenCount: usage.prompt_tokens_details?.cached_tokens ?? 0,
+        totalTokenCount: (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
+    };
+};
+
+const toGeminiResponse = (text: string, finishReason?: string, extraParts: Part[] = [], usage?: OpenAIUsage): GenerateContentResponse =>
+    Object.assign(new GenerateContentResponse(), {
+        candidates: [{
+            content: { role: 'model', parts: [...(text ? [{ text }] : []), ...extraParts] },
+            ...(finishReason && { finishReason: OPENAI_FINISH_REASONS[finishReason] ?? 'STOP' }),
+        }],
+        ...(usage && { usageMetadata: toUsageMetadata(usage) }),
+    });
+
+export const createOpenAICompatibleProvider = (config: ProviderConfig): ModelProvider => {
+    const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+    const post = async (path: string, body: unknown, abortSignal?: AbortSignal) => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+            },
+            body: JSON.stringify(body),
+            signal: abortSignal,
+        });
+        if (!response.ok) {
+            // `status` lets errors be classified the same way as Gemini's ApiError.
+            throw Object.assign(new Error(`${baseUrl}${path} failed (${response.status}): ${await response.text()}`), { status: response.status });
+        }
+        return response;
+    };
+
+    const chatBody = (request: ChatRequest, stream: boolean) => {
+        const tools = toOpenAITools(request.tools);
+        return {
+            model: request.model,
+            messages: toOpenAIMessages(request.contents, request.systemInstruction),
+            stream: stream,
+            // Servers that support it send token counts in a final chunk with no choices.
+            ...(stream && { stream_options: { include_usage: true } }),
+            ...(tools.length > 0 && { tools: tools }),
+            ...toOpenAIOptions(request.modelConfig),
+        };
+    };
+
+    return {
+        kind: 'openai-compatible',
+
+        generateContent: async (request) => {
+            const response = await post('/chat/completions', chatBody(request, false), request.abortSignal);
+            const json = await response.json();
+            const choice = json.choices?.[0];
+            return toGeminiResponse(choice?.message?.content ?? '', choice?.finish_reason, toFunctionCallParts(choice?.message?.tool_calls), json.usage);
+        },
+
+        generateContentStream: async (request) => {
+            const response = await post('/chat/completions', chatBody(request, true), request.abortSignal);
+            const reader = response.body!.getReader();
+            const decoder = new TextDecoder();
+
+            // Server-sent events: one "data: {json}" line per delta, terminated by "data: [DONE]".
+            // Tool call fragments arrive spread over many deltas and are emitted once complete.
+            return (async function* () {
+                let buffer = '';
+                const toolCalls: OpenAIToolCall[] = [];
+                while (true) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    buffer += decoder.decode(value, { stream: true });
+                    const lines = buffer.split('\n');
+                    buffer = lines.pop() ?? '';
+                    for (const line of lines) {
+                        const trimmed = line.trim();
+                        if (!trimmed.startsWith('data:')) continue;
+                        const data = trimmed.slice('data:'.length).trim();
+                        if (data === '[DONE]') return;
+                        const json = JSON.parse(data);
+                        const choice = json.choices?.[0];
+                        if (!choice && json.usage) yield toGeminiResponse('', undefined, [], json.usage);
+                        for (const delta of choice?.delta?.tool_calls ?? []) {
+                            const call = toolCalls[delta.index ?? 0] ??= { function: { name: '', arguments: '' } };
+                            if (delta.id) call.id = delta.id;
+                            if (delta.function?.name) call.function!.name += delta.function.name;
+                            if (delta.function?.arguments) call.function!.arguments += delta.function.arguments;
+                        }
+                        if (choice?.delta?.content || choice?.finish_reason) {
+                            const completedCalls = choice.finish_reason ? toFunctionCallParts(toolCalls.filter(Boolean)) : [];
+                            yield toGeminiResponse(choice.delta?.content ?? '', choice.finish_reason ?? undefined, completedCalls);
+                        }
+                    }
+                }
+            })();
+        },
+
+        generateImages: async (request) => {
+            if (request.sourceImage) throw new Error('Image edits need a Gemini agent.');
+            const response = await post('/images/generations', {
+                model: request.model ?? DEFAULT_IMAGE_MODEL,
+                prompt: withNegativePrompt(request.prompt, request.negativePrompt),
+                n: request.numberOfImages ?? 1,
+                size: ASPECT_RATIO_SIZES[request.aspectRatio ?? '1:1'] ?? ASPECT_RATIO_SIZES['1:1'],
+                response_format: 'b64_json',
+            });
+            const json = await response.json();
+            return {
+                images: (json.data ?? []).map((image: { b64_json: string }) => `data:image/png;base64,${image.b64_json}`),
+                model: request.model ?? DEFAULT_IMAGE_MODEL,
+            };
+        },
+
+        generateSpeech: async (request) => {
+            const response = await post('/audio/speech', {
+                model: request.model ?? DEFAULT_TTS_MODEL,
+                input: request.text,
+                voice: request.voiceName,
+                ...(request.style && { instructions: request.style }),
+                response_format: 'pcm',
+            });
+            return { data: arrayBufferToBase64(await response.arrayBuffer()), sampleRate: TTS_SAMPLE_RATE, model: request.model ?? DEFAULT_TTS_MODEL };
+        },
+
+        embedContent: async (request) => {
+            const response = await post('/embeddings', {
+                model: request.model ?? DEFAULT_EMBEDDING_MODEL,
+                input: request.texts,
+                ...(request.dimensions && { dimensions: request.dimensions }),
+            });
+            const json = await response.json();
+            return (json.data ?? []).map((item: { embedding: number[] }) => item.embedding);
+        },
+
+        // Local backends have no file store; attachments are validated small enough to send inline.
+        uploadFile: async () => {
+            throw new Error('File uploads need a Gemini agent.');
+        },
+
+        // Ollama, llama.cpp and LM Studio all answer GET /models without running a model.
+        checkHealth: async (abortSignal) => {
+            const response = await fetch(`${baseUrl}/models`, {
+                headers: { ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }) },
+                signal: abortSignal,
+            });
+            if (!response.ok) throw Object.assign(new Error(`${baseUrl}/models failed (${response.status})`), { status: response.status });
+        },
+    };
+};
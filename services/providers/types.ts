@@ -0,0 +1,85 @@
+import { Content, GenerateContentResponse, GenerateContentResponseUsageMetadata } from "@google/genai";
+
+// --- MODEL PROVIDER INTERFACE ---
+// Requests and responses use Gemini's shapes (Content, GenerateContentResponse) as the common format;
+// other backends translate to and from them.
+export type ProviderKind = 'gemini' | 'openai-compatible';
+
+export interface ProviderConfig {
+    kind: ProviderKind;
+    baseUrl?: string; // e.g. http://localhost:11434/v1 for Ollama
+    apiKey?: string; // For OpenAI-compatible servers; Gemini calls use the proxy's key
+}
+
+export interface ChatRequest {
+    model: string;
+    contents: Content[];
+    systemInstruction?: string;
+    tools?: any[];
+    modelConfig?: Record<string, any>; // Generation settings such as thinkingConfig or temperature
+    abortSignal?: AbortSignal;
+}
+
+export interface ImageRequest {
+    model?: string;
+    prompt: string;
+    numberOfImages?: number;
+    aspectRatio?: string;
+    negativePrompt?: string; // What to leave out of the image
+    seed?: number; // Fixed seed for repeatable results, where the model supports one
+    sourceImage?: { data: string; mimeType: string }; // Base64 image to edit instead of generating from scratch
+}
+
+// Neither backend takes a negative prompt on these APIs, so it is folded into the prompt.
+export const withNegativePrompt = (prompt: string, negativePrompt?: string) =>
+    negativePrompt?.trim() ? `${prompt}\n\nAvoid: ${negativePrompt.trim()}` : prompt;
+
+export interface SpeechRequest {
+    model?: string;
+    text: string;
+    voiceName: string;
+    style?: string; // Delivery instructions in plain words, e.g. "Say calmly and warmly"
+}
+
+export interface SpeechResult {
+    data: string; // base64 16-bit mono PCM
+    sampleRate: number;
+    model: string;
+    usage?: GenerateContentResponseUsageMetadata; // Token counts, where the backend reports them
+}
+
+export interface ImageResult {
+    images: string[]; // data URLs
+    model: string;
+    usage?: GenerateContentResponseUsageMetadata; // Token counts for image-output models; Imagen and DALL·E bill per image
+}
+
+export interface FileUploadRequest {
+    data: Blob;
+    mimeType: string;
+    displayName: string;
+}
+
+export interface UploadedFile {
+    uri: string; // Referenced from prompts as fileData.fileUri
+    name: string; // Resource name, e.g. files/abc123
+    expiresAt?: string; // ISO timestamp; uploads are deleted after about 48 hours
+}
+
+export interface EmbeddingRequest {
+    model?: string;
+    texts: string[];
+    taskType?: 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY'; // Gemini embeds documents and search queries differently
+    dimensions?: number; // Shorter vectors, where the model supports them
+}
+
+export interface ModelProvider {
+    kind: ProviderKind;
+    generateContent: (request: ChatRequest) => Promise<GenerateContentResponse>;
+    generateContentStream: (request: ChatRequest) => Promise<AsyncGenerator<GenerateContentResponse>>;
+    generateImages: (request: ImageRequest) => Promise<ImageResult>;
+    generateSpeech: (request: SpeechRequest) => Promise<SpeechResult>;
+    embedContent: (request: EmbeddingRequest) => Promise<number[][]>;
+    uploadFile: (request: FileUploadRequest) => Promise<UploadedFile>; // Files too large to send inline
+    checkHealth: (abortSignal?: AbortSignal) => Promise<void>; // A cheap call that throws when the backend is unreachable or rejects the key
+}
@@ -0,0 +1,56 @@
+// --- SANDBOXED TOOL EXECUTION ---
+// Tool handlers run in a throwaway Web Worker: no DOM, no access to app state or storage, and a hard timeout.
+// This is not a network sandbox. Custom handlers have fetch, XMLHttpRequest and the like taken away (shadowed
+// at every level of the worker's prototype chain, where fetch lives) so they don't reach out by accident, but
+// a dynamic import() can still load any URL and can't be removed from a worker. Built-ins such as
+// fetch_local_url keep the network and check their own URLs.
+const DEFAULT_TIMEOUT_MS = 10000;
+
+const WORKER_SOURCE = `
+const hide = (names) => {
+    for (let scope = self; scope; scope = Object.getPrototypeOf(scope)) {
+        for (const name of names) {
+            if (scope !== self && !Object.prototype.hasOwnProperty.call(scope, name)) continue;
+            try { Object.defineProperty(scope, name, { value: undefined }); } catch (e) {}
+        }
+    }
+};
+hide(['indexedDB', 'caches', 'importScripts']);
+self.onmessage = async (event) => {
+    const { source, args, context, allowNetwork } = event.data;
+    if (!allowNetwork) hide(['fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'Worker', 'SharedWorker']);
+    try {
+        const handler = (0, eval)('(' + source + ')');
+        const result = await handler(args, context);
+        self.postMessage({ ok: true, result: result === undefined ? null : JSON.parse(JSON.stringify(result)) });
+    } catch (error) {
+        self.postMessage({ ok: false, error: String((error && error.message) || error) });
+    }
+};
+`;
+
+export type SandboxResult =
+    | { ok: true; result: unknown }
+    | { ok: false; error: string };
+
+/** Runs `source` (a JS function expression `(args, context) => result`) in an isolated worker, offline unless `allowNetwork` is set. */
+export const runInSandbox = (source: string, args: unknown, context: unknown, allowNetwork = false, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<SandboxResult> => {
+    const workerUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+    const worker = new Worker(workerUrl);
+
+    return new Promise<SandboxResult>((resolve) => {
+        const finish = (result: SandboxResult) => {
+            clearTimeout(timer);
+            worker.terminate();
+            URL.revokeObjectURL(workerUrl);
+            resolve(result);
+        };
+        const timer = setTimeout(() => finish({ ok: false, error: `Timed out after ${timeoutMs / 1000}s` }), timeoutMs);
+        worker.onmessage = (event) => finish(event.data);
+        worker.onerror = (event) => {
+            event.preventDefault();
+            finish({ ok: false, error: event.message || 'Handler crashed' });
+        };
+        worker.postMessage({ source, args, context, allowNetwork });
+    });
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { ScheduledJob } from "../types";
+import { createScheduler, findDueRun, nextJobRun } from "./scheduler";
+
+const at = (day: number, hour: number, minute = 0) => new Date(2026, 0, day, hour, minute).getTime();
+
+const job: ScheduledJob = {
+    id: 'job-1',
+    name: 'Morning digest',
+    agentId: 'agent-1',
+    prompt: 'Summarize the news',
+    schedule: '0 8 * * *',
+    missedRunPolicy: 'catch-up',
+    enabled: true,
+    createdAt: at(1, 12),
+    runs: [],
+};
+
+describe('findDueRun', () => {
+    it('runs a time that was just reached', () => {
+        expect(findDueRun(job, at(2, 8, 1))).toEqual({ job, scheduledFor: at(2, 8), action: 'run', missedRuns: 0 });
+    });
+
+    it('catches up once for the times missed while the app was closed', () => {
+        expect(findDueRun(job, at(5, 10))).toEqual({ job, scheduledFor: at(5, 8), action: 'run', missedRuns: 3 });
+    });
+
+    it("skips missed times under the 'skip' policy", () => {
+        expect(findDueRun({ ...job, missedRunPolicy: 'skip' }, at(5, 10))?.action).toBe('skip');
+    });
+
+    it('starts after the last handled time', () => {
+        expect(findDueRun({ ...job, lastScheduledAt: at(2, 8) }, at(2, 9))).toBeNull();
+        expect(findDueRun({ ...job, enabled: false }, at(5, 10))).toBeNull();
+    });
+});
+
+describe('nextJobRun', () => {
+    it('is the next schedule time after now or the last run, whichever is later', () => {
+        expect(nextJobRun(job, at(2, 9))).toBe(at(3, 8));
+        expect(nextJobRun({ ...job, lastScheduledAt: at(4, 8) }, at(2, 9))).toBe(at(5, 8));
+        expect(nextJobRun({ ...job, schedule: 'every day' }, at(2, 9))).toBeNull();
+    });
+});
+
+describe('createScheduler', () => {
+    it('hands out each schedule time once, even before the job is saved', () => {
+        let now = at(2, 8, 1);
+        const scheduler = createScheduler(() => now);
+
+        expect(scheduler.tick([job]).map(due => due.scheduledFor)).toEqual([at(2, 8)]);
+        expect(scheduler.tick([job])).toEqual([]);
+        now = at(3, 8, 1);
+        expect(scheduler.tick([job]).map(due => due.scheduledFor)).toEqual([at(3, 8)]);
+    });
+});
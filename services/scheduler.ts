@@ -0,0 +1,92 @@
+import { Agent, Attachment, JobRun, PromptTemplate, ScheduledJob } from "../types";
+import { ValidationError } from "./jsonSchema";
+import { lastCronTime, nextCronTime, parseCron } from "./cron";
+import { checkTemplateValues, fillTemplate, initialTemplateValues, templatesFor } from "./templates";
+
+// --- SCHEDULED JOBS ---
+export const SCHEDULER_TICK_MS = 30 * 1000;
+// Runs kept per job for its history.
+const MAX_JOB_RUNS = 20;
+// A time not picked up within this long was missed, because the app was closed or the computer asleep.
+const MISSED_AFTER_MS = 2 * 60 * 1000;
+
+export interface DueRun {
+    job: ScheduledJob;
+    scheduledFor: number; // The latest schedule time since the job last ran
+    action: 'run' | 'skip'; // Missed times are skipped under the 'skip' policy
+    missedRuns: number; // Earlier schedule times that get no run of their own
+}
+
+/** What is due for the job at `now`: only the latest schedule time runs, standing in for any before it. */
+export const findDueRun = (job: ScheduledJob, now: number): DueRun | null => {
+    if (!job.enabled) return null;
+    const schedule = parseCron(job.schedule);
+    if ('error' in schedule) return null;
+    const { time, count } = lastCronTime(schedule, job.lastScheduledAt ?? job.createdAt, now);
+    if (time === null) return null;
+    const missed = now - time > MISSED_AFTER_MS;
+    return { job, scheduledFor: time, action: missed && job.missedRunPolicy === 'skip' ? 'skip' : 'run', missedRuns: count - 1 };
+};
+
+/** When the job runs next, or null when it is disabled or its schedule never matches. */
+export const nextJobRun = (job: ScheduledJob, now: number): number | null => {
+    const schedule = parseCron(job.schedule);
+    if (!job.enabled || 'error' in schedule) return null;
+    return nextCronTime(schedule, Math.max(now, job.lastScheduledAt ?? job.createdAt));
+};
+
+/**
+ * Hands out due runs on each tick. A schedule time is handed out once, even before the job's
+ * `lastScheduledAt` is saved, so overlapping ticks can't start it twice. `now` is injectable so
+ * schedules can be tested without waiting for real time to pass.
+ */
+export const createScheduler = (now: () => number = Date.now) => {
+    const handedOut = new Map<string, number>(); // Job id to the latest schedule time handed out
+
+    return {
+        tick: (jobs: ScheduledJob[]): DueRun[] => {
+            const at = now();
+            return jobs.flatMap(job => {
+                const due = findDueRun(job, at);
+                if (!due || due.scheduledFor <= (handedOut.get(job.id) ?? -Infinity)) return [];
+                handedOut.set(job.id, due.scheduledFor);
+                return [due];
+            });
+        },
+    };
+};
+
+export type Scheduler = ReturnType<typeof createScheduler>;
+
+export const addJobRun = (job: ScheduledJob, run: JobRun): ScheduledJob => ({ ...job, runs: [run, ...job.runs].slice(0, MAX_JOB_RUNS) });
+
+export const updateJobRun = (job: ScheduledJob, runId: string, changes: Partial<JobRun>): ScheduledJob =>
+    ({ ...job, runs: job.runs.map(run => run.id === runId ? { ...run, ...changes } : run) });
+
+/** The prompt a run sends: the job's own text, or its template filled with the saved values. */
+export const resolveJobPrompt = (job: ScheduledJob, agent: Agent, globalTemplates: PromptTemplate[]): { text: string; model?: string; attachments?: Attachment[] } | { error: string } => {
+    if (!job.templateId) return { text: job.prompt ?? '' };
+    const template = templatesFor(agent, globalTemplates).find(entry => entry.template.id === job.templateId)?.template;
+    if (!template) return { error: 'The template was deleted.' };
+    const values = { ...initialTemplateValues(template), ...job.templateValues };
+    const problems = Object.entries(checkTemplateValues(template, values));
+    if (problems.length > 0) return { error: `The template's values need fixing: ${problems.map(([name, problem]) => `${name} ${problem}`).join('; ')}.` };
+    return { text: fillTemplate(template, values), ...(template.model && { model: template.model }), ...(template.attachments && { attachments: template.attachments }) };
+};
+
+/** Checks a job before it is saved. */
+export const validateScheduledJob = (job: ScheduledJob, agents: Agent[], globalTemplates: PromptTemplate[], now: number): ValidationError[] => {
+    const errors: ValidationError[] = [];
+    if (!job.name.trim()) errors.push({ path: 'name', message: 'must not be empty' });
+    const agent = agents.find(a => a.id === job.agentId);
+    if (!agent) errors.push({ path: 'agent', message: 'must be chosen' });
+    const schedule = parseCron(job.schedule);
+    if ('error' in schedule) errors.push({ path: 'schedule', message: `is not valid: ${schedule.error}` });
+    else if (nextCronTime(schedule, now) === null) errors.push({ path: 'schedule', message: 'never matches a date' });
+    if (!job.templateId && !job.prompt?.trim()) errors.push({ path: 'prompt', message: 'must not be empty' });
+    if (job.templateId && agent) {
+        const prompt = resolveJobPrompt(job, agent, globalTemplates);
+        if ('error' in prompt) errors.push({ path: 'template', message: `can't be used: ${prompt.error}` });
+    }
+    return errors;
+};
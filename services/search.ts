@@ -0,0 +1,219 @@
+import { Chat, Message } from "../types";
+import { getProvider } from "./providers";
+import { getConversationMessages } from "./history";
+import { attachmentKind } from "./attachments";
+import { GEMINI_EMBEDDING_DIMENSIONS, GEMINI_EMBEDDING_MODEL } from "./knowledge";
+import { SearchIndexEntry, loadSearchIndex, updateSearchIndexEntries } from "./storage";
+import { cosineSimilarity } from "../utils/vectors";
+
+// --- SEARCH ---
+export const MAX_SEARCH_RESULTS = 100;
+const SNIPPET_CHARS = 160;
+const EMBEDDING_BATCH_SIZE = 100;
+// Long messages are embedded by their opening; that's where the topic usually is.
+const MAX_EMBEDDED_CHARS = 2000;
+// Below this cosine similarity a message is unrelated to the query.
+const MIN_SIMILARITY = 0.3;
+// Message ids embed the Date.now() they were created at, e.g. "msg1718000000000" or "img1718000000000-0".
+const ID_TIMESTAMP = /\d{13}/;
+
+export type SearchMode = 'exact' | 'fuzzy' | 'semantic';
+
+export interface SearchFilters {
+    agentId?: string; // Chats with this agent, alone or in a team
+    from?: string; // YYYY-MM-DD, inclusive
+    to?: string;
+    hasImages?: boolean;
+    hasSources?: boolean; // Replies with web, map or knowledge citations
+}
+
+export interface SearchResult {
+    chat: Chat;
+    message: Message;
+    snippet: string;
+    highlights: [number, number][]; // Ranges in snippet
+    score: number;
+}
+
+interface SearchCandidate {
+    chat: Chat;
+    message: Message;
+}
+
+/** When the message was created, read from its id; undefined for seeded messages with plain ids. */
+export const messageTime = (message: Message) => {
+    const match = message.id.match(ID_TIMESTAMP);
+    return match ? Number(match[0]) : undefined;
+};
+
+const dayStart = (day: string) => new Date(`${day}T00:00:00`).getTime();
+
+const matchesFilters = (chat: Chat, message: Message, filters: SearchFilters) => {
+    if (filters.agentId && chat.agentId !== filters.agentId && !chat.team?.agentIds.includes(filters.agentId)) return false;
+    if (filters.hasImages && !message.attachments?.some(a => attachmentKind(a) === 'image')) return false;
+    if (filters.hasSources && !message.groundingChunks?.length) return false;
+    if (filters.from || filters.to) {
+        const time = messageTime(message);
+        if (time === undefined) return false;
+        if (filters.from && time < dayStart(filters.from)) return false;
+        if (filters.to && time >= dayStart(filters.to) + 24 * 60 * 60 * 1000) return false;
+    }
+    return true;
+};
+
+// Archived chats are hidden from the chat list, so their results would lead nowhere.
+const searchableMessages = (chats: Chat[]): SearchCandidate[] =>
+    chats.filter(chat => !chat.archived).flatMap(chat => getConversationMessages(chat.messages).filter(m => m.text?.trim()).map(message => ({ chat, message })));
+
+const findExact = (text: string, query: string): [number, number][] => {
+    const haystack = text.toLowerCase();
+    const needle = query.toLowerCase();
+    const ranges: [number, number][] = [];
+    for (let at = haystack.indexOf(needle); at >= 0; at = haystack.indexOf(needle, at + needle.length)) ranges.push([at, at + needle.length]);
+    return ranges;
+};
+
+const tokenize = (text: string) => Array.from(text.matchAll(/[\p{L}\p{N}_]+/gu), match => ({ word: match[0].toLowerCase(), start: match.index!, end: match.index! + match[0].length }));
+
+const editDistance = (a: string, b: string) => {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// Short words must match exactly; longer ones tolerate a typo or two.
+const allowedTypos = (word: string) => word.length <= 3 ? 0 : word.length <= 6 ? 1 : 2;
+
+/** Each query word must start or nearly equal some word in the text; scores how closely they matched. */
+const findFuzzy = (text: string, query: string): { ranges: [number, number][]; score: number } | null => {
+    const queryWords = tokenize(query).map(token => token.word);
+    if (queryWords.length === 0) return null;
+    const words = tokenize(text);
+    const ranges: [number, number][] = [];
+    let score = 0;
+    for (const queryWord of queryWords) {
+        let best = Infinity;
+        for (const token of words) {
+            const distance = token.word.startsWith(queryWord) ? 0 : editDistance(token.word, queryWord);
+            if (distance > allowedTypos(queryWord)) continue;
+            ranges.push([token.start, token.end]);
+            best = Math.min(best, distance);
+        }
+        if (best === Infinity) return null;
+        score += 1 / (1 + best);
+    }
+    return { ranges: ranges.sort((a, b) => a[0] - b[0]), score: score / queryWords.length };
+};
+
+/** About SNIPPET_CHARS characters around the first match, with the highlight ranges shifted into it. */
+const toSnippet = (text: string, ranges: [number, number][]) => {
+    // Replacing each whitespace character with a space keeps the offsets of the ranges.
+    const flat = text.replace(/\s/g, ' ');
+    const first = ranges[0]?.[0] ?? 0;
+    const start = Math.max(0, Math.min(first - SNIPPET_CHARS / 4, flat.length - SNIPPET_CHARS));
+    const end = Math.min(flat.length, start + SNIPPET_CHARS);
+    const prefix = start > 0 ? '…' : '';
+    const snippet = `${prefix}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+    const highlights = ranges
+        .filter(([from, to]) => from < end && to > start)
+        .map(([from, to]): [number, number] => [Math.max(from, start) - start + prefix.length, Math.min(to, end) - start + prefix.length]);
+    return { snippet, highlights };
+};
+
+/** Keyword search over every chat's messages; newest first for exact matches, closest first for fuzzy ones. */
+export const searchMessages = (chats: Chat[], query: string, mode: 'exact' | 'fuzzy', filters: SearchFilters = {}): SearchResult[] => {
+    if (!query.trim()) return [];
+    const results: SearchResult[] = [];
+    for (const { chat, message } of searchableMessages(chats)) {
+        if (!matchesFilters(chat, message, filters)) continue;
+        const text = message.text!;
+        if (mode === 'exact') {
+            const ranges = findExact(text, query.trim());
+            if (ranges.length) results.push({ chat, message, ...toSnippet(text, ranges), score: messageTime(message) ?? 0 });
+        } else {
+            const match = findFuzzy(text, query);
+            if (match) results.push({ chat, message, ...toSnippet(text, match.ranges), score: match.score + (messageTime(message) ?? 0) / 1e15 });
+        }
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, MAX_SEARCH_RESULTS);
+};
+
+// --- SEMANTIC INDEX ---
+// Loaded from IndexedDB on first use and kept in step with the chats afterwards.
+let indexCache: Map<string, SearchIndexEntry> | null = null;
+
+// A cheap fingerprint (FNV-1a) so edited messages are embedded again.
+const hashText = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    return `${text.length}:${(hash >>> 0).toString(16)}`;
+};
+
+const embedTexts = async (texts: string[], taskType: 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY') => {
+    const provider = getProvider();
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        embeddings.push(...await provider.embedContent({
+            model: GEMINI_EMBEDDING_MODEL,
+            texts: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+            taskType: taskType,
+            dimensions: GEMINI_EMBEDDING_DIMENSIONS,
+        }));
+    }
+    return embeddings;
+};
+
+const getIndex = async () => {
+    if (!indexCache) indexCache = new Map((await loadSearchIndex()).map(entry => [entry.messageId, entry]));
+    return indexCache;
+};
+
+/**
+ * Embeds messages that are new or changed since the last search and drops entries of deleted messages,
+ * so only the difference costs API calls. Reports progress as (embedded, total to embed).
+ */
+export const updateSearchIndex = async (chats: Chat[], onProgress?: (done: number, total: number) => void) => {
+    const index = await getIndex();
+    const candidates = searchableMessages(chats);
+    const current = new Set(candidates.map(({ message }) => message.id));
+    const removed = [...index.keys()].filter(id => !current.has(id));
+    const stale = candidates
+        .map(({ message }) => ({ id: message.id, text: message.text!.slice(0, MAX_EMBEDDED_CHARS) }))
+        .filter(({ id, text }) => index.get(id)?.textHash !== hashText(text));
+
+    const added: SearchIndexEntry[] = [];
+    for (let i = 0; i < stale.length; i += EMBEDDING_BATCH_SIZE) {
+        onProgress?.(i, stale.length);
+        const batch = stale.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const embeddings = await embedTexts(batch.map(item => item.text), 'RETRIEVAL_DOCUMENT');
+        added.push(...batch.map((item, j) => ({ messageId: item.id, textHash: hashText(item.text), embedding: Float32Array.from(embeddings[j]) })));
+    }
+    if (added.length || removed.length) await updateSearchIndexEntries(added, removed);
+    removed.forEach(id => index.delete(id));
+    added.forEach(entry => index.set(entry.messageId, entry));
+    onProgress?.(stale.length, stale.length);
+};
+
+/** Messages closest in meaning to the query. Call updateSearchIndex first so recent messages are included. */
+export const searchMessagesSemantic = async (chats: Chat[], query: string, filters: SearchFilters = {}): Promise<SearchResult[]> => {
+    if (!query.trim()) return [];
+    const index = await getIndex();
+    const [queryEmbedding] = await embedTexts([query], 'RETRIEVAL_QUERY');
+    const results: SearchResult[] = [];
+    for (const { chat, message } of searchableMessages(chats)) {
+        const entry = index.get(message.id);
+        if (!entry || !matchesFilters(chat, message, filters)) continue;
+        const score = cosineSimilarity(queryEmbedding, entry.embedding);
+        if (score < MIN_SIMILARITY) continue;
+        // Highlight the query's words where they appear literally; the match itself is by meaning.
+        const ranges = findFuzzy(message.text!, query)?.ranges ?? [];
+        results.push({ chat, message, ...toSnippet(message.text!, ranges), score });
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, MAX_SEARCH_RESULTS);
+};
@@ -0,0 +1,183 @@
+import { Agent, UsageRecord } from "../types";
+import { DEFAULT_VOICE } from "../constants";
+import { getAgentProvider, isGeminiAgent } from "./providers";
+import { toUsageRecord } from "./usage";
+import { audioBufferToWav, createAudioContext, decode, decodeAudioData } from "../utils/audio";
+
+// --- SPEECH PLAYBACK ---
+const OPENAI_DEFAULT_VOICE = 'alloy';
+// "Read chat aloud" gives the user's messages a voice of their own.
+const USER_VOICES = { gemini: 'Puck', openai: 'echo' };
+const MAX_CACHED_CLIPS = 50;
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+export interface SpeechItem {
+    key: string; // Identifies the clip in the cache, e.g. the message id
+    text: string;
+    agent: Agent; // Provider, voice and speaking style
+    voiceName?: string; // Overrides the agent's voice
+    label: string; // Shown in the player, e.g. "ResearchBot's reply"
+    onUsage?: (usage: UsageRecord) => void; // Called when the clip is generated; cached replays cost nothing
+}
+
+export type SpeechPlayerStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface SpeechPlayerState {
+    status: SpeechPlayerStatus;
+    current?: SpeechItem;
+    queued: number; // Items waiting after the current one
+    rate: number;
+    error?: string;
+}
+
+export const voiceForAgent = (agent: Agent) =>
+    agent.config.voiceName || (isGeminiAgent(agent) ? DEFAULT_VOICE : OPENAI_DEFAULT_VOICE);
+
+export const userVoiceFor = (agent: Agent) => isGeminiAgent(agent) ? USER_VOICES.gemini : USER_VOICES.openai;
+
+/** Markdown reads badly aloud: code and formulas are skipped and formatting marks dropped. */
+export const toSpeechText = (markdown: string) => markdown
+    .replace(/```[\s\S]*?(?:```|$)/g, ' (code block omitted) ')
+    .replace(/\$\$[\s\S]*?\$\$/g, ' (formula omitted) ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/^\s*(?:#{1,6}|[-*+]|>)\s+/gm, '')
+    .replace(/(?<!\w)(\*{1,3}|_{1,3}|~~)(\S(?:.*?\S)?)\1(?!\w)/g, '$2')
+    .replace(/\|/g, ' ')
+    .trim();
+
+/**
+ * One audio context and one queue for everything read aloud, so clips never overlap. Decoded clips are
+ * cached per item key, voice and style, which makes replays and WAV downloads free.
+ */
+export const createSpeechPlayer = () => {
+    const cache = new Map<string, Promise<AudioBuffer>>();
+    const listeners = new Set<() => void>();
+    let context: AudioContext | null = null;
+    let queue: SpeechItem[] = [];
+    let source: AudioBufferSourceNode | null = null;
+    let playback = 0; // Bumped whenever the current clip is abandoned, so late loads and 'ended' events are ignored
+    let state: SpeechPlayerState = { status: 'idle', queued: 0, rate: 1 };
+
+    const setState = (changes: Partial<SpeechPlayerState>) => {
+        state = { ...state, ...changes, queued: queue.length };
+        listeners.forEach(listener => listener());
+    };
+
+    const getContext = () => {
+        if (!context || context.state === 'closed') context = createAudioContext();
+        return context;
+    };
+
+    const cacheKeyFor = (item: SpeechItem) =>
+        [item.key, item.voiceName ?? voiceForAgent(item.agent), item.agent.config.speechStyle ?? ''].join('|');
+
+    const load = (item: SpeechItem): Promise<AudioBuffer> => {
+        const key = cacheKeyFor(item);
+        let clip = cache.get(key);
+        if (clip) {
+            cache.delete(key); // Re-inserted below as the most recently used
+        } else {
+            clip = getAgentProvider(item.agent)
+                .generateSpeech({ text: item.text, voiceName: item.voiceName ?? voiceForAgent(item.agent), style: item.agent.config.speechStyle })
+                .then(speech => {
+                    item.onUsage?.(toUsageRecord('speech', speech.model, speech.usage));
+                    return decodeAudioData(decode(speech.data), getContext(), speech.sampleRate, 1);
+                });
+            clip.catch(() => cache.delete(key)); // Failures are retried next time
+            if (cache.size >= MAX_CACHED_CLIPS) cache.delete(cache.keys().next().value);
+        }
+        cache.set(key, clip);
+        return clip;
+    };
+
+    const abandonCurrent = () => {
+        playback++;
+        source?.stop();
+        source = null;
+    };
+
+    const playNext = async () => {
+        const item = queue.shift();
+        const run = ++playback;
+        source = null;
+        if (!item) {
+            setState({ status: 'idle', current: undefined });
+            return;
+        }
+        setState({ status: state.status === 'paused' ? 'paused' : 'loading', current: item });
+        if (queue[0]) load(queue[0]).catch(() => {}); // Prefetch so the next clip starts without a gap
+
+        try {
+            const buffer = await load(item);
+            if (run !== playback) return;
+            const ctx = getContext();
+            const node = ctx.createBufferSource();
+            node.buffer = buffer;
+            node.playbackRate.value = state.rate;
+            node.connect(ctx.destination);
+            node.onended = () => { if (run === playback) playNext(); };
+            source = node;
+            node.start();
+            // Paused while loading: the context is suspended, so the clip waits for resume().
+            setState({ status: state.status === 'paused' ? 'paused' : 'playing' });
+        } catch (error) {
+            if (run !== playback) return;
+            console.error("Speech generation failed", error);
+            setState({ error: `Couldn't read ${item.label} aloud.` });
+            playNext();
+        }
+    };
+
+    return {
+        getState: () => state,
+
+        subscribe: (listener: () => void) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+
+        /** Replaces whatever is playing or queued. */
+        play: (items: SpeechItem[]) => {
+            abandonCurrent();
+            queue = [...items];
+            getContext().resume(); // Must happen inside the click that started playback
+            setState({ status: 'loading', error: undefined });
+            playNext();
+        },
+
+        pause: () => {
+            if (state.status !== 'playing' && state.status !== 'loading') return;
+            context?.suspend();
+            setState({ status: 'paused' });
+        },
+
+        resume: () => {
+            if (state.status !== 'paused') return;
+            context?.resume();
+            setState({ status: source ? 'playing' : 'loading' });
+        },
+
+        skip: () => {
+            abandonCurrent();
+            playNext();
+        },
+
+        stop: () => {
+            queue = [];
+            abandonCurrent();
+            context?.resume(); // Leave the context running for the next play()
+            setState({ status: 'idle', current: undefined, error: undefined });
+        },
+
+        setRate: (rate: number) => {
+            if (source) source.playbackRate.value = rate;
+            setState({ rate: rate });
+        },
+
+        /** The item's audio as a WAV file; uses the cached clip when it has been played before. */
+        getWav: async (item: SpeechItem) => audioBufferToWav(await load(item)),
+    };
+};
+
+export type SpeechPlayer = ReturnType<typeof createSpeechPlayer>;
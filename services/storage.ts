@@ -0,0 +1,294 @@
+import { Agent, Attachment, Chat, KnowledgeChunk, KnowledgeSource, Message, PromptTemplate, ScheduledJob } from "../types";
+import { ToolDefinition } from "./tools";
+import { resolveMimeType, upgradeLegacyMessages } from "./attachments";
+import { ModelPrice, UsageEntry, collectUsage } from "./usage";
+import { allMessages, mapMessageLists, pruneBranches } from "./branches";
+
+// --- INDEXEDDB PERSISTENCE ---
+const DB_NAME = 'ai-agent-hub';
+// Bump DB_VERSION when object stores change; bump SCHEMA_VERSION when the shape of Agent/Chat/Message changes.
+const DB_VERSION = 3;
+export const SCHEMA_VERSION = 2;
+
+const STORES = {
+    agents: 'agents',
+    chats: 'chats',
+    attachments: 'attachments',
+    meta: 'meta',
+    knowledgeFiles: 'knowledgeFiles',
+    knowledgeChunks: 'knowledgeChunks',
+    searchIndex: 'searchIndex',
+} as const;
+
+export interface PersistedState {
+    schemaVersion: number;
+    agents: Agent[];
+    chats: Chat[];
+    selectedChatId?: string;
+    customTools?: ToolDefinition[];
+    priceTable?: ModelPrice[]; // Only saved once edited, so updated defaults reach everyone else
+    knowledgeSources?: KnowledgeSource[];
+    promptTemplates?: PromptTemplate[]; // Global templates; agent templates are saved with their agent
+    scheduledJobs?: ScheduledJob[];
+    usageLedger?: UsageEntry[];
+}
+
+/** A message's embedding for semantic search; `textHash` tells when the message changed and needs embedding again. */
+export interface SearchIndexEntry {
+    messageId: string;
+    textHash: string;
+    embedding: Float32Array;
+}
+
+/** A knowledge source's original file and the text extracted from it, which chunk offsets point into. */
+export interface KnowledgeFile {
+    blob: Blob;
+    text: string;
+}
+
+type Migration = (state: PersistedState) => PersistedState;
+
+/**
+ * Data migrations keyed by the schema version they produce. Each entry receives state saved at
+ * `version - 1` and returns it upgraded, e.g. `2: state => ({ ...state, agents: state.agents.map(...) })`.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+    // A single `image` per message became a list of attachments.
+    2: state => ({ ...state, chats: state.chats.map(chat => ({ ...chat, messages: upgradeLegacyMessages(chat.messages) })) }),
+};
+
+export const migrateState = (state: PersistedState): PersistedState => {
+    let migrated = state;
+    for (let version = state.schemaVersion + 1; version <= SCHEMA_VERSION; version++) {
+        const migration = MIGRATIONS[version];
+        if (migration) migrated = migration(migrated);
+        migrated = { ...migrated, schemaVersion: version };
+    }
+    return migrated;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORES.agents)) db.createObjectStore(STORES.agents, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(STORES.chats)) db.createObjectStore(STORES.chats, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(STORES.attachments)) db.createObjectStore(STORES.attachments);
+                if (!db.objectStoreNames.contains(STORES.meta)) db.createObjectStore(STORES.meta);
+                if (!db.objectStoreNames.contains(STORES.knowledgeFiles)) db.createObjectStore(STORES.knowledgeFiles);
+                if (!db.objectStoreNames.contains(STORES.knowledgeChunks)) {
+                    db.createObjectStore(STORES.knowledgeChunks, { keyPath: 'id' }).createIndex('sourceId', 'sourceId');
+                }
+                if (!db.objectStoreNames.contains(STORES.searchIndex)) db.createObjectStore(STORES.searchIndex, { keyPath: 'messageId' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+    return dbPromise;
+};
+
+// A reload mid-request leaves placeholders behind; drop empty ones and mark partial replies as interrupted.
+const sanitizeMessages = (messages: Message[]): Message[] =>
+    messages
+        .filter(m => !(m.isThinking && !m.text && !m.attachments?.length))
+        .map(m => {
+            if (!m.isThinking && !m.isStreaming) return m;
+            const { isThinking, isStreaming, ...rest } = m;
+            return { ...rest, isInterrupted: true };
+        });
+
+// Blob URLs die with the page, so stored attachments are saved without them.
+const stripAttachmentUrls = (chat: Chat): Chat => mapMessageLists(chat, messages => messages.map(m => {
+    if (!m.attachments?.some(a => a.isStored)) return m;
+    return { ...m, attachments: m.attachments.map(({ url, ...attachment }) => attachment.isStored ? attachment : { ...attachment, url }) };
+}));
+
+/** Loads persisted state, or returns null on first run. Attachment blobs are rehydrated as object URLs. */
+export const loadState = async (): Promise<PersistedState | null> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.agents, STORES.chats, STORES.attachments, STORES.meta], 'readonly');
+    const schemaVersion = await requestToPromise(transaction.objectStore(STORES.meta).get('schemaVersion')) as number | undefined;
+    if (schemaVersion === undefined) return null;
+
+    const agents = await requestToPromise(transaction.objectStore(STORES.agents).getAll()) as Agent[];
+    const chats = await requestToPromise(transaction.objectStore(STORES.chats).getAll()) as Chat[];
+    const selectedChatId = await requestToPromise(transaction.objectStore(STORES.meta).get('selectedChatId')) as string | undefined;
+    const customTools = await requestToPromise(transaction.objectStore(STORES.meta).get('customTools')) as ToolDefinition[] | undefined;
+    const priceTable = await requestToPromise(transaction.objectStore(STORES.meta).get('priceTable')) as ModelPrice[] | undefined;
+    const storedSources = await requestToPromise(transaction.objectStore(STORES.meta).get('knowledgeSources')) as KnowledgeSource[] | undefined;
+    const promptTemplates = await requestToPromise(transaction.objectStore(STORES.meta).get('promptTemplates')) as PromptTemplate[] | undefined;
+    const storedJobs = await requestToPromise(transaction.objectStore(STORES.meta).get('scheduledJobs')) as ScheduledJob[] | undefined;
+    const storedLedger = await requestToPromise(transaction.objectStore(STORES.meta).get('usageLedger')) as UsageEntry[] | undefined;
+    // Indexing stops with the page; those sources need indexing again.
+    const knowledgeSources = storedSources?.map(source => source.status === 'indexing' ? { ...source, status: 'error' as const, error: 'Indexing was interrupted.' } : source);
+    // So do job runs; they are logged as failed rather than started again.
+    const scheduledJobs = storedJobs?.map(job => ({
+        ...job,
+        runs: job.runs.map(run => run.status === 'running' ? { ...run, status: 'failed' as const, error: 'The app was closed before the run finished.' } : run),
+    }));
+
+    // Usage was only kept on messages before the ledger; it starts from what is still there.
+    const usageLedger = storedLedger ?? collectUsage(chats);
+
+    const state = migrateState({ schemaVersion, agents, chats, selectedChatId, customTools, priceTable, knowledgeSources, promptTemplates, scheduledJobs, usageLedger });
+    const attachmentStore = transaction.objectStore(STORES.attachments);
+    const hydrateAttachment = async (attachment: Attachment): Promise<Attachment> => {
+        if (!attachment.isStored) return attachment;
+        const blob = await requestToPromise(attachmentStore.get(attachment.id)) as Blob | undefined;
+        if (!blob) return attachment;
+        return { ...attachment, url: URL.createObjectURL(blob), mimeType: attachment.mimeType || resolveMimeType({ name: attachment.name, type: blob.type }), size: attachment.size || blob.size };
+    };
+    const hydratedChats = await Promise.all(state.chats.map(async chat => {
+        const attachments = await Promise.all(allMessages(chat).flatMap(m => m.attachments ?? []).map(hydrateAttachment));
+        const hydrated = new Map(attachments.map(attachment => [attachment.id, attachment]));
+        return pruneBranches(mapMessageLists(chat, messages => sanitizeMessages(messages).map(m =>
+            m.attachments ? { ...m, attachments: m.attachments.map(a => hydrated.get(a.id) ?? a) } : m)));
+    }));
+
+    return { ...state, chats: hydratedChats };
+};
+
+export const saveState = async (state: Omit<PersistedState, 'schemaVersion'>) => {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.agents, STORES.chats, STORES.meta], 'readwrite');
+    const agentStore = transaction.objectStore(STORES.agents);
+    const chatStore = transaction.objectStore(STORES.chats);
+    const metaStore = transaction.objectStore(STORES.meta);
+
+    agentStore.clear();
+    state.agents.forEach(agent => agentStore.put(agent));
+    chatStore.clear();
+    state.chats.forEach(chat => chatStore.put(stripAttachmentUrls(chat)));
+    metaStore.put(SCHEMA_VERSION, 'schemaVersion');
+    if (state.selectedChatId) metaStore.put(state.selectedChatId, 'selectedChatId');
+    metaStore.put(state.customTools ?? [], 'customTools');
+    if (state.priceTable) metaStore.put(state.priceTable, 'priceTable');
+    else metaStore.delete('priceTable');
+    metaStore.put(state.knowledgeSources ?? [], 'knowledgeSources');
+    metaStore.put(state.promptTemplates ?? [], 'promptTemplates');
+    metaStore.put(state.scheduledJobs ?? [], 'scheduledJobs');
+    metaStore.put(state.usageLedger ?? [], 'usageLedger');
+    await transactionDone(transaction);
+};
+
+export const saveAttachment = async (id: string, blob: Blob) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.attachments, 'readwrite');
+    transaction.objectStore(STORES.attachments).put(blob, id);
+    await transactionDone(transaction);
+};
+
+/** Deletes attachment blobs no longer referenced by any message. */
+export const pruneAttachments = async (chats: Chat[]) => {
+    const referenced = new Set(chats.flatMap(c => allMessages(c).flatMap(m => (m.attachments ?? []).filter(a => a.isStored).map(a => a.id))));
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.attachments, 'readwrite');
+    const store = transaction.objectStore(STORES.attachments);
+    const keys = await requestToPromise(store.getAllKeys());
+    keys.filter(key => !referenced.has(key as string)).forEach(key => store.delete(key));
+    await transactionDone(transaction);
+};
+
+/** Returns a saver that coalesces bursts of state changes into one write, plus a flush for page unload. */
+export const createDebouncedSaver = (delay: number) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let pending: Omit<PersistedState, 'schemaVersion'> | null = null;
+
+    const flush = () => {
+        if (timer) clearTimeout(timer);
+        timer = undefined;
+        if (!pending) return;
+        const state = pending;
+        pending = null;
+        saveState(state).catch(e => console.error("Failed to save state", e));
+    };
+
+    const schedule = (state: Omit<PersistedState, 'schemaVersion'>) => {
+        pending = state;
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(flush, delay);
+    };
+
+    return { schedule, flush };
+};
+
+export const saveKnowledgeFile = async (sourceId: string, file: KnowledgeFile) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.knowledgeFiles, 'readwrite');
+    transaction.objectStore(STORES.knowledgeFiles).put(file, sourceId);
+    await transactionDone(transaction);
+};
+
+export const loadKnowledgeFile = async (sourceId: string) => {
+    const db = await openDatabase();
+    return await requestToPromise(db.transaction(STORES.knowledgeFiles).objectStore(STORES.knowledgeFiles).get(sourceId)) as KnowledgeFile | undefined;
+};
+
+const deleteChunksOf = (store: IDBObjectStore, sourceId: string) =>
+    requestToPromise(store.index('sourceId').getAllKeys(sourceId)).then(keys => keys.forEach(key => store.delete(key)));
+
+/** Replaces every chunk of a source, so a re-index never leaves old chunks behind. */
+export const saveKnowledgeChunks = async (sourceId: string, chunks: KnowledgeChunk[]) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.knowledgeChunks, 'readwrite');
+    const store = transaction.objectStore(STORES.knowledgeChunks);
+    await deleteChunksOf(store, sourceId);
+    chunks.forEach(chunk => store.put(chunk));
+    await transactionDone(transaction);
+};
+
+export const loadKnowledgeChunks = async (sourceId: string) => {
+    const db = await openDatabase();
+    const store = db.transaction(STORES.knowledgeChunks).objectStore(STORES.knowledgeChunks);
+    return await requestToPromise(store.index('sourceId').getAll(sourceId)) as KnowledgeChunk[];
+};
+
+export const loadKnowledgeChunk = async (chunkId: string) => {
+    const db = await openDatabase();
+    return await requestToPromise(db.transaction(STORES.knowledgeChunks).objectStore(STORES.knowledgeChunks).get(chunkId)) as KnowledgeChunk | undefined;
+};
+
+/** Deletes the files and chunks of sources that are no longer listed, e.g. removed or belonging to a deleted agent. */
+export const pruneKnowledge = async (sources: KnowledgeSource[]) => {
+    const listed = new Set(sources.map(source => source.id));
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.knowledgeFiles, STORES.knowledgeChunks], 'readwrite');
+    const files = transaction.objectStore(STORES.knowledgeFiles);
+    const chunks = transaction.objectStore(STORES.knowledgeChunks);
+    const sourceIds = await requestToPromise(files.getAllKeys()) as string[];
+    await Promise.all(sourceIds.filter(id => !listed.has(id)).map(id => {
+        files.delete(id);
+        return deleteChunksOf(chunks, id);
+    }));
+    await transactionDone(transaction);
+};
+
+export const loadSearchIndex = async () => {
+    const db = await openDatabase();
+    return await requestToPromise(db.transaction(STORES.searchIndex).objectStore(STORES.searchIndex).getAll()) as SearchIndexEntry[];
+};
+
+export const updateSearchIndexEntries = async (added: SearchIndexEntry[], removedIds: string[]) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORES.searchIndex, 'readwrite');
+    const store = transaction.objectStore(STORES.searchIndex);
+    removedIds.forEach(id => store.delete(id));
+    added.forEach(entry => store.put(entry));
+    await transactionDone(transaction);
+};
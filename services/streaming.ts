@@ -0,0 +1,36 @@
+import { GenerateContentResponse } from "@google/genai";
+import { Message } from "../types";
+import { createImageAttachment } from "./attachments";
+
+const groundingChunkKey = (chunk: any): string =>
+    chunk.web?.uri || chunk.maps?.uri || JSON.stringify(chunk);
+
+/**
+ * Folds one streamed response chunk into the assistant message being built.
+ * Text is appended, the latest inline image wins (as the message's only attachment) and grounding chunks are de-duplicated by URI.
+ */
+export const mergeStreamChunk = (message: Message, chunk: GenerateContentResponse): Message => {
+    const candidate = chunk.candidates?.[0];
+    let text = message.text ?? '';
+    let image: string | undefined;
+    for (const part of candidate?.content?.parts ?? []) {
+        if (part.thought) continue;
+        if (part.text) text += part.text;
+        if (part.inlineData) image = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    }
+
+    let groundingChunks = message.groundingChunks;
+    const newChunks = candidate?.groundingMetadata?.groundingChunks;
+    if (newChunks && newChunks.length > 0) {
+        const seen = new Set((groundingChunks ?? []).map(groundingChunkKey));
+        groundingChunks = [...(groundingChunks ?? []), ...newChunks.filter(c => !seen.has(groundingChunkKey(c)))];
+    }
+
+    return {
+        ...message,
+        isThinking: false,
+        ...(text && { text }),
+        ...(image && { attachments: [createImageAttachment(image, `${message.id}-image`)] }),
+        ...(groundingChunks && { groundingChunks }),
+    };
+};
@@ -0,0 +1,140 @@
+import { Agent, AgentStatus } from "../types";
+import { ProviderHealth } from "./health";
+
+// --- BACKGROUND TASKS ---
+// Recent finished tasks kept for the activity drawer.
+const MAX_FINISHED_TASKS = 30;
+// Tasks that write into a chat; while one runs the chat takes no other prompt.
+const CHAT_TASK_KINDS: TaskKind[] = ['chat', 'image'];
+
+export type TaskKind = 'chat' | 'image' | 'speech' | 'live';
+export type TaskState = 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface Task {
+    id: string;
+    kind: TaskKind;
+    title: string; // e.g. "ResearchBot is replying"
+    step?: string; // What it is doing right now
+    chatId?: string;
+    agentIds: string[]; // Agents shown as Busy while it runs
+    state: TaskState;
+    error?: string;
+    startedAt: number;
+    endedAt?: number;
+}
+
+export interface TaskOptions {
+    kind: TaskKind;
+    title: string;
+    step?: string;
+    chatId?: string;
+    agentIds?: string[];
+    onCancel?: () => void; // For work an abort signal can't reach, e.g. audio playback
+}
+
+export interface TaskHandle {
+    id: string;
+    signal: AbortSignal; // Aborted when the task is cancelled
+    update: (changes: Partial<Pick<Task, 'title' | 'step' | 'agentIds'>>) => void;
+    finish: () => void;
+    fail: (error: string) => void;
+}
+
+/**
+ * Every in-flight operation and the most recent finished ones, newest first. `now` is injectable so
+ * durations can be tested without real time passing.
+ */
+export const createTaskManager = (now: () => number = Date.now) => {
+    const listeners = new Set<() => void>();
+    const controllers = new Map<string, { abort: AbortController; onCancel?: () => void }>();
+    let tasks: Task[] = [];
+    let nextId = 1;
+
+    const emit = () => listeners.forEach(listener => listener());
+
+    // Finished tasks past the cap are dropped oldest first; running ones always stay.
+    const setTasks = (next: Task[]) => {
+        let finished = 0;
+        tasks = next.filter(task => task.state === 'running' || ++finished <= MAX_FINISHED_TASKS);
+        emit();
+    };
+
+    const change = (id: string, changes: Partial<Task>) => {
+        const task = tasks.find(t => t.id === id);
+        if (!task || task.state !== 'running') return; // Late updates to a cancelled task are ignored
+        setTasks(tasks.map(t => t.id === id ? { ...t, ...changes } : t));
+    };
+
+    const end = (id: string, state: TaskState, error?: string) => {
+        controllers.delete(id);
+        change(id, { state, step: undefined, endedAt: now(), ...(error && { error }) });
+    };
+
+    const cancel = (id: string) => {
+        const controller = controllers.get(id);
+        if (!controller) return;
+        end(id, 'cancelled');
+        controller.abort.abort();
+        controller.onCancel?.();
+    };
+
+    return {
+        getTasks: () => tasks,
+
+        subscribe: (listener: () => void) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+
+        start: (options: TaskOptions): TaskHandle => {
+            const id = `task${nextId++}`;
+            const abort = new AbortController();
+            controllers.set(id, { abort, onCancel: options.onCancel });
+            setTasks([{
+                id,
+                kind: options.kind,
+                title: options.title,
+                ...(options.step && { step: options.step }),
+                ...(options.chatId && { chatId: options.chatId }),
+                agentIds: options.agentIds ?? [],
+                state: 'running',
+                startedAt: now(),
+            }, ...tasks]);
+            return {
+                id,
+                signal: abort.signal,
+                update: (changes) => change(id, changes),
+                finish: () => end(id, abort.signal.aborted ? 'cancelled' : 'done'),
+                fail: (error) => end(id, abort.signal.aborted ? 'cancelled' : 'failed', error),
+            };
+        },
+
+        cancel,
+
+        /** Stops whatever is writing into the chat; voice conversations and playback carry on. */
+        cancelChat: (chatId: string) => {
+            tasks.filter(task => task.chatId === chatId && task.state === 'running' && CHAT_TASK_KINDS.includes(task.kind)).forEach(task => cancel(task.id));
+        },
+
+        clearFinished: () => setTasks(tasks.filter(task => task.state === 'running')),
+    };
+};
+
+export type TaskManager = ReturnType<typeof createTaskManager>;
+
+/** The task writing into the chat, if any. */
+export const findChatTask = (tasks: Task[], chatId: string): Task | undefined =>
+    tasks.find(task => task.chatId === chatId && task.state === 'running' && CHAT_TASK_KINDS.includes(task.kind));
+
+export const isChatBusy = (tasks: Task[], chatId: string) => !!findChatTask(tasks, chatId);
+
+/** Busy while any task works for the agent; Offline when its provider has no key or failed its last check. */
+export const getAgentStatus = (agent: Agent, tasks: Task[], health: ProviderHealth | undefined): AgentStatus => {
+    if (health && !health.ok) return 'Offline';
+    return tasks.some(task => task.state === 'running' && task.agentIds.includes(agent.id)) ? 'Busy' : 'Online';
+};
+
+export const formatTaskDuration = (task: Task, now: number) => {
+    const seconds = Math.max(0, Math.round(((task.endedAt ?? now) - task.startedAt) / 1000));
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
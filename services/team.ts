@@ -0,0 +1,76 @@
+import { Agent, Message, TeamConfig } from "../types";
+import { describeAttachments, getConversationMessages } from "./history";
+import { getAgentProvider, utilityModelFor } from "./providers";
+import { findAgentByName } from "./commands";
+
+// --- TEAM CHATS ---
+export const DEFAULT_TEAM_MAX_TURNS = 6;
+export const MAX_TEAM_MAX_TURNS = 20;
+const ROUTING_MODEL = 'gemini-2.5-flash';
+const ROUTING_TRANSCRIPT_MESSAGES = 12;
+const ROUTING_MESSAGE_CHARS = 1500;
+// A reply hands off by ending with a line like "HANDOFF: ResearchBot".
+const HANDOFF_PATTERN = /^[ \t]*\**HANDOFF\**:[ \t]*(.+?)[ \t]*$/im;
+
+/** Members in pipeline order; agents deleted since the team was created are skipped. */
+export const getTeamMembers = (team: TeamConfig, agents: Agent[]) =>
+    team.agentIds.map(id => agents.find(a => a.id === id)).filter((agent): agent is Agent => !!agent);
+
+/** The agent a team chat is filed under: its coordinator, or the first member of a pipeline. */
+export const getTeamLeadId = (team: TeamConfig) =>
+    team.strategy === 'coordinator' && team.coordinatorId ? team.coordinatorId : team.agentIds[0];
+
+const describeMember = (agent: Agent) =>
+    `${agent.name}${agent.capabilities.length ? ` (${agent.capabilities.join(', ')})` : ''}`;
+
+/** The agent's own instruction plus who else is in the team and how to hand off. */
+export const buildTeamInstruction = (agent: Agent, members: Agent[]) => {
+    const teammates = members.filter(m => m.id !== agent.id);
+    return [
+        agent.config.systemInstruction,
+        '',
+        `You are ${agent.name}, one member of a team chat.${teammates.length ? ` Your teammates are: ${teammates.map(describeMember).join('; ')}.` : ''}`,
+        'Messages from teammates appear as "<name> said: ...". Build on their work instead of repeating it.',
+        'If a teammate is better suited to continue, end your reply with a line "HANDOFF: <teammate name>".',
+    ].join('\n');
+};
+
+/** Strips a trailing handoff line from a reply and resolves it to a teammate. */
+export const parseHandoff = (text: string, teammates: Agent[]): { text: string; handoffTo?: Agent } => {
+    const match = text.match(HANDOFF_PATTERN);
+    if (!match) return { text };
+    const handoffTo = findAgentByName(teammates, match[1].replace(/[*.]+$/, ''));
+    return { text: text.replace(match[0], '').trim(), handoffTo };
+};
+
+/**
+ * Asks the coordinator which member should answer next. Returns null when the coordinator decides
+ * the user's request has been handled.
+ */
+export const chooseNextSpeaker = async (coordinator: Agent, members: Agent[], messages: Message[]): Promise<Agent | null> => {
+    const transcript = getConversationMessages(messages)
+        .slice(-ROUTING_TRANSCRIPT_MESSAGES)
+        .map(m => `${m.sender}: ${(m.text ?? '').slice(0, ROUTING_MESSAGE_CHARS)}${describeAttachments(m)}`)
+        .join('\n');
+    const roster = members.map(m => `- ${describeMember(m)}: ${m.config.systemInstruction.slice(0, 200)}`).join('\n');
+    const prompt = [
+        `You coordinate a team of AI agents as ${coordinator.name}. Pick who should write the next message.`,
+        `Team members:\n${roster}`,
+        `Conversation so far:\n${transcript}`,
+        'Reply with JSON only: {"next": "<member name>"} or {"next": "DONE"} once the user\'s latest request has been fully answered.',
+    ].join('\n\n');
+
+    const response = await getAgentProvider(coordinator).generateContent({
+        model: utilityModelFor(coordinator, ROUTING_MODEL),
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    });
+    const reply = response.text?.trim() ?? '';
+    let next = reply;
+    try {
+        next = String(JSON.parse(reply.match(/\{[\s\S]*\}/)?.[0] ?? '').next ?? '');
+    } catch {
+        // Fall back to treating the whole reply as a name.
+    }
+    if (!next || /^done$/i.test(next.trim())) return null;
+    return findAgentByName(members, next) ?? null;
+};
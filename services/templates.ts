@@ -0,0 +1,96 @@
+import { Agent, Attachment, PromptTemplate, TemplateVariable } from "../types";
+import { ValidationError } from "./jsonSchema";
+import { resolveMimeType } from "./attachments";
+import { blobToDataUrl, dataUrlToBlob } from "../utils/files";
+
+// --- PROMPT TEMPLATES ---
+const MB = 1024 * 1024;
+// Template files travel inside agents and their exports, so they are kept small.
+export const MAX_TEMPLATE_ATTACHMENT_BYTES = 2 * MB;
+const VARIABLE_NAME_PATTERN = /^[a-zA-Z_][\w-]{0,31}$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_][\w-]{0,31})\s*\}\}/g;
+
+export const TEMPLATE_VARIABLE_TYPES: { type: TemplateVariable['type']; label: string }[] = [
+    { type: 'text', label: 'Text' },
+    { type: 'multiline', label: 'Long text' },
+    { type: 'number', label: 'Number' },
+    { type: 'choice', label: 'Choice' },
+];
+
+/** Placeholder names in the order they first appear. */
+export const findPlaceholders = (text: string): string[] =>
+    [...new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+
+/** One variable per placeholder in the text, keeping the settings of those already declared. */
+export const syncTemplateVariables = (text: string, variables: TemplateVariable[]): TemplateVariable[] =>
+    findPlaceholders(text).map(name => variables.find(v => v.name === name) ?? { name, type: 'text' });
+
+/** The form's starting values: each variable's default, or empty. */
+export const initialTemplateValues = (template: PromptTemplate): Record<string, string> =>
+    Object.fromEntries(template.variables.map(v => [v.name, v.default ?? '']));
+
+const checkValue = (variable: TemplateVariable, value: string): string | null => {
+    if (!value.trim()) return variable.optional ? null : 'needs a value';
+    if (variable.type === 'number' && !Number.isFinite(Number(value))) return 'must be a number';
+    if (variable.type === 'choice' && !variable.options?.includes(value)) return `must be one of ${variable.options?.join(', ')}`;
+    return null;
+};
+
+/** Problems with the values filled into the form, keyed by variable name. */
+export const checkTemplateValues = (template: PromptTemplate, values: Record<string, string>): Record<string, string> =>
+    Object.fromEntries(template.variables
+        .map(variable => [variable.name, checkValue(variable, values[variable.name] ?? '')])
+        .filter(([, error]) => error));
+
+/** Replaces each placeholder with its value; placeholders without a declared variable are left as typed. */
+export const fillTemplate = (template: PromptTemplate, values: Record<string, string>) =>
+    template.text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+        template.variables.some(v => v.name === name) ? (values[name] ?? '').trim() : placeholder);
+
+/** Checks a template before it is saved; `others` are the templates it must not share a name with. */
+export const validatePromptTemplate = (template: PromptTemplate, others: PromptTemplate[]): ValidationError[] => {
+    const errors: ValidationError[] = [];
+    if (!template.name.trim()) errors.push({ path: 'name', message: 'must not be empty' });
+    else if (others.some(t => t.id !== template.id && t.name.trim().toLowerCase() === template.name.trim().toLowerCase())) {
+        errors.push({ path: 'name', message: 'is already used by another template' });
+    }
+    if (!template.text.trim()) errors.push({ path: 'text', message: 'must not be empty' });
+    template.variables.forEach((variable, i) => {
+        const path = `variables[${i}] (${variable.name})`;
+        if (!VARIABLE_NAME_PATTERN.test(variable.name)) errors.push({ path, message: 'must start with a letter or underscore and contain only letters, digits, - and _' });
+        if (variable.type === 'choice' && !variable.options?.length) errors.push({ path, message: 'needs at least one option' });
+        const defaultError = variable.default ? checkValue(variable, variable.default) : null;
+        if (defaultError) errors.push({ path: `${path}.default`, message: defaultError });
+    });
+    const size = (template.attachments ?? []).reduce((sum, attachment) => sum + attachment.size, 0);
+    if (size > MAX_TEMPLATE_ATTACHMENT_BYTES) errors.push({ path: 'attachments', message: `must add up to ${MAX_TEMPLATE_ATTACHMENT_BYTES / MB} MB or less` });
+    return errors;
+};
+
+export interface ScopedTemplate {
+    template: PromptTemplate;
+    agentId?: string; // Unset for global templates
+}
+
+/** The agent's own templates first, then the global ones. */
+export const templatesFor = (agent: Agent, globalTemplates: PromptTemplate[]): ScopedTemplate[] => [
+    ...(agent.config.templates ?? []).map(template => ({ template, agentId: agent.id })),
+    ...globalTemplates.map(template => ({ template })),
+];
+
+export const upsertTemplate = (templates: PromptTemplate[], template: PromptTemplate) =>
+    templates.some(t => t.id === template.id) ? templates.map(t => t.id === template.id ? template : t) : [...templates, template];
+
+/** Template files are kept as data URLs, so they work offline and survive export. */
+export const createTemplateAttachment = async (file: File, id: string): Promise<Attachment> => ({
+    id: id,
+    name: file.name,
+    mimeType: resolveMimeType(file),
+    size: file.size,
+    url: await blobToDataUrl(file),
+});
+
+/** Turns a template's files back into files for the composer, which stores them like any other upload. */
+export const templateAttachmentsToFiles = (attachments: Attachment[]): Promise<File[]> =>
+    Promise.all(attachments.map(async attachment =>
+        new File([await dataUrlToBlob(attachment.url!)], attachment.name, { type: attachment.mimeType })));
@@ -0,0 +1,15 @@
+import { Agent } from "../types";
+import { getAgentProvider, utilityModelFor } from "./providers";
+
+const TITLE_MODEL = 'gemini-2.5-flash-lite';
+const MAX_TITLE_LENGTH = 60;
+
+/** Asks a fast model for a short chat title based on the first exchange. */
+export const generateChatTitle = async (agent: Agent, userText: string, replyText: string): Promise<string | null> => {
+    const response = await getAgentProvider(agent).generateContent({
+        model: utilityModelFor(agent, TITLE_MODEL),
+        contents: [{ role: 'user', parts: [{ text: `Write a short title (at most 6 words, no quotes or trailing punctuation) for a conversation that starts like this:\n\nUser: ${userText.slice(0, 1000)}\n\nAssistant: ${replyText.slice(0, 1000)}` }] }],
+    });
+    const title = response.text?.trim().replace(/^["']|["'.]$/g, '');
+    return title ? title.slice(0, MAX_TITLE_LENGTH) : null;
+};
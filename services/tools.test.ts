@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BUILT_IN_TOOLS } from "./tools";
+
+// Handlers run from their source text in the sandbox, so the tests do the same.
+const fetchLocalUrl = new Function(`return (${BUILT_IN_TOOLS.find(t => t.name === 'fetch_local_url')!.handlerSource})`)();
+
+const redirect = (location: string) => new Response(null, { status: 302, headers: { location } });
+
+describe('fetch_local_url', () => {
+    afterEach(() => vi.unstubAllGlobals());
+
+    it.each(['http://10.evil.com/', 'http://127.attacker.net/', 'http://192.168.1.1.example.com/', 'http://8.8.8.8/'])('refuses %s', async (url) => {
+        vi.stubGlobal('fetch', vi.fn());
+        await expect(fetchLocalUrl({ url })).rejects.toThrow('Only local network hosts are allowed');
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('follows redirects between local hosts and checks each one', async () => {
+        vi.stubGlobal('fetch', vi.fn()
+            .mockResolvedValueOnce(redirect('/status'))
+            .mockResolvedValueOnce(new Response('ok', { status: 200, headers: { 'content-type': 'text/plain' } })));
+
+        await expect(fetchLocalUrl({ url: 'http://printer.local/' })).resolves.toEqual({ status: 200, contentType: 'text/plain', body: 'ok', truncated: false });
+        expect(vi.mocked(fetch).mock.calls.map(([url]) => url)).toEqual(['http://printer.local/', 'http://printer.local/status']);
+    });
+
+    it('stops at a redirect to a public host', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(redirect('https://example.com/collect')));
+
+        await expect(fetchLocalUrl({ url: 'http://10.0.0.5/' })).rejects.toThrow('not "example.com"');
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+});
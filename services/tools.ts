@@ -0,0 +1,292 @@
+import { FunctionCall, FunctionDeclaration } from "@google/genai";
+import { Message } from "../types";
+import { JsonSchema, ValidationError, formatValidationErrors, validateJsonSchema } from "./jsonSchema";
+import { runInSandbox } from "./sandbox";
+import { attachmentKind } from "./attachments";
+
+// --- FUNCTION-CALLING TOOL REGISTRY ---
+export const MAX_TOOL_ROUNDS = 5;
+const TOOL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]{0,63}$/;
+
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: JsonSchema; // Must describe an object
+    handlerSource: string; // JS function expression `(args, context) => result`, run in the sandbox
+    builtIn?: boolean;
+}
+
+export interface ToolContextFile {
+    name: string;
+    mimeType: string;
+    size: number;
+    text?: string; // Only set for text-like files
+}
+
+export interface ToolContext {
+    now: string; // ISO timestamp
+    files: ToolContextFile[];
+}
+
+// Built-in handlers are serialized into the sandbox with toString(), so they must be fully self-contained.
+type ToolHandler = (args: any, context: ToolContext) => unknown;
+
+const calculatorHandler: ToolHandler = (args) => {
+    const source: string = String(args.expression);
+    const tokens = source.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|[a-z_]+|\*\*|[-+*/%^(),]/gi) ?? [];
+    if (tokens.join('') !== source.replace(/\s+/g, '')) throw new Error('Unsupported characters in expression');
+    const functions: Record<string, (...values: number[]) => number> = {
+        sqrt: Math.sqrt, abs: Math.abs, round: Math.round, floor: Math.floor, ceil: Math.ceil,
+        sin: Math.sin, cos: Math.cos, tan: Math.tan, ln: Math.log, log: Math.log10, exp: Math.exp,
+        min: Math.min, max: Math.max, pow: Math.pow,
+    };
+    const constants: Record<string, number> = { pi: Math.PI, e: Math.E };
+    let position = 0;
+    const peek = () => tokens[position];
+    const next = () => tokens[position++];
+    const expect = (token: string) => { if (next() !== token) throw new Error(`Expected "${token}"`); };
+
+    const parseExpression = (): number => {
+        let value = parseTerm();
+        while (peek() === '+' || peek() === '-') value = next() === '+' ? value + parseTerm() : value - parseTerm();
+        return value;
+    };
+    const parseTerm = (): number => {
+        let value = parsePower();
+        while (peek() === '*' || peek() === '/' || peek() === '%') {
+            const operator = next();
+            const right = parsePower();
+            value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+        }
+        return value;
+    };
+    const parsePower = (): number => {
+        const base = parseUnary();
+        if (peek() === '^' || peek() === '**') {
+            next();
+            return Math.pow(base, parsePower());
+        }
+        return base;
+    };
+    const parseUnary = (): number => {
+        if (peek() === '-') { next(); return -parseUnary(); }
+        if (peek() === '+') { next(); return parseUnary(); }
+        return parsePrimary();
+    };
+    const parsePrimary = (): number => {
+        const token = next();
+        if (token === undefined) throw new Error('Unexpected end of expression');
+        if (token === '(') {
+            const value = parseExpression();
+            expect(')');
+            return value;
+        }
+        if (/^\d/.test(token)) return parseFloat(token);
+        const name = token.toLowerCase();
+        if (name in constants) return constants[name];
+        if (name in functions) {
+            expect('(');
+            const values = [parseExpression()];
+            while (peek() === ',') { next(); values.push(parseExpression()); }
+            expect(')');
+            return functions[name](...values);
+        }
+        throw new Error(`Unknown token "${token}"`);
+    };
+
+    const result = parseExpression();
+    if (position < tokens.length) throw new Error(`Unexpected "${peek()}"`);
+    return { expression: source, result };
+};
+
+const dateMathHandler: ToolHandler = (args, context) => {
+    const parse = (value: string | undefined) => {
+        const date = new Date(value ?? context.now);
+        if (isNaN(date.getTime())) throw new Error(`Invalid date "${value}"`);
+        return date;
+    };
+    const unitMs: Record<string, number> = { minutes: 60000, hours: 3600000, days: 86400000, weeks: 604800000 };
+    const date = parse(args.date);
+
+    switch (args.operation) {
+        case 'now':
+            return { iso: context.now, weekday: new Date(context.now).toLocaleDateString('en-US', { weekday: 'long' }) };
+        case 'add': {
+            const amount = Number(args.amount ?? 0);
+            const result = new Date(date);
+            if (args.unit === 'months') result.setMonth(result.getMonth() + amount);
+            else if (args.unit === 'years') result.setFullYear(result.getFullYear() + amount);
+            else if (unitMs[args.unit]) result.setTime(result.getTime() + amount * unitMs[args.unit]);
+            else throw new Error(`Unknown unit "${args.unit}"`);
+            return { iso: result.toISOString() };
+        }
+        case 'difference': {
+            const other = parse(args.other_date);
+            const diffMs = other.getTime() - date.getTime();
+            return {
+                days: diffMs / unitMs.days,
+                hours: diffMs / unitMs.hours,
+                minutes: diffMs / unitMs.minutes,
+            };
+        }
+        case 'weekday':
+            return { weekday: date.toLocaleDateString('en-US', { weekday: 'long' }) };
+        default:
+            throw new Error(`Unknown operation "${args.operation}"`);
+    }
+};
+
+// Runs in the sandbox from its source text, so everything it uses is defined inside it. Redirects are followed
+// by hand so each hop is checked; a browser hides where a redirect leads, so those are reported instead.
+const fetchLocalUrlHandler: ToolHandler = async (args) => {
+    const checkUrl = (url: URL) => {
+        const host = url.hostname;
+        // Private ranges only count as IP literals; a hostname like 10.example.com could point anywhere.
+        const isPrivate = host === 'localhost' || host.endsWith('.local') || host === '[::1]'
+            || /^127(\.\d{1,3}){3}$/.test(host) || /^10(\.\d{1,3}){3}$/.test(host) || /^192\.168(\.\d{1,3}){2}$/.test(host)
+            || /^172\.(1[6-9]|2\d|3[01])(\.\d{1,3}){2}$/.test(host);
+        if (!isPrivate) throw new Error(`Only local network hosts are allowed, not "${host}"`);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error('Only http(s) URLs are allowed');
+    };
+
+    const maxChars = Math.min(Number(args.max_chars) || 20000, 100000);
+    let url = new URL(String(args.url));
+    for (let redirects = 0; ; redirects++) {
+        checkUrl(url);
+        const response = await fetch(url.toString(), { redirect: 'manual' });
+        if (response.type === 'opaqueredirect') throw new Error(`${url} redirects, and the browser doesn't say where, so it isn't followed`);
+        const location = response.status >= 300 && response.status < 400 ? response.headers.get('location') : null;
+        if (location) {
+            if (redirects >= 5) throw new Error('Too many redirects');
+            url = new URL(location, url);
+            continue;
+        }
+        const body = await response.text();
+        return {
+            status: response.status,
+            contentType: response.headers.get('content-type'),
+            body: body.slice(0, maxChars),
+            truncated: body.length > maxChars,
+        };
+    }
+};
+
+const readAttachedFileHandler: ToolHandler = (args, context) => {
+    if (!args.name) {
+        return { files: context.files.map(file => ({ name: file.name, mimeType: file.mimeType, size: file.size, readable: file.text !== undefined })) };
+    }
+    const file = context.files.find(f => f.name === args.name) ?? context.files.find(f => f.name.toLowerCase().includes(String(args.name).toLowerCase()));
+    if (!file) throw new Error(`No attached file named "${args.name}"`);
+    if (file.text === undefined) throw new Error(`"${file.name}" is a ${file.mimeType} file and can't be read as text`);
+    const maxChars = Math.min(Number(args.max_chars) || 50000, 200000);
+    return { name: file.name, content: file.text.slice(0, maxChars), truncated: file.text.length > maxChars };
+};
+
+export const BUILT_IN_TOOLS: ToolDefinition[] = [
+    {
+        name: 'calculator',
+        description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and sqrt, abs, round, floor, ceil, sin, cos, tan, ln, log, exp, min, max, pow.',
+        parameters: {
+            type: 'object',
+            required: ['expression'],
+            properties: { expression: { type: 'string', description: 'e.g. "(1.5 + 2) * sqrt(16)"' } },
+        },
+        handlerSource: calculatorHandler.toString(),
+        builtIn: true,
+    },
+    {
+        name: 'date_math',
+        description: 'Date arithmetic: get the current date/time, add a duration to a date, compute the difference between two dates, or get the weekday of a date.',
+        parameters: {
+            type: 'object',
+            required: ['operation'],
+            properties: {
+                operation: { type: 'string', enum: ['now', 'add', 'difference', 'weekday'] },
+                date: { type: 'string', description: 'ISO 8601 date; defaults to now' },
+                amount: { type: 'number', description: 'Amount to add (negative to subtract)' },
+                unit: { type: 'string', enum: ['minutes', 'hours', 'days', 'weeks', 'months', 'years'] },
+                other_date: { type: 'string', description: 'Second ISO 8601 date for "difference"' },
+            },
+        },
+        handlerSource: dateMathHandler.toString(),
+        builtIn: true,
+    },
+    {
+        name: 'fetch_local_url',
+        description: 'Fetches a URL on the local network (localhost, 10.x, 192.168.x, 172.16-31.x, *.local) and returns the response body as text.',
+        parameters: {
+            type: 'object',
+            required: ['url'],
+            properties: {
+                url: { type: 'string', description: 'http(s) URL on the local network' },
+                max_chars: { type: 'integer', minimum: 1, description: 'Maximum characters of the body to return' },
+            },
+        },
+        handlerSource: fetchLocalUrlHandler.toString(),
+        builtIn: true,
+    },
+    {
+        name: 'read_attached_file',
+        description: 'Lists the files the user attached in this chat, or returns the text content of one of them.',
+        parameters: {
+            type: 'object',
+            properties: {
+                name: { type: 'string', description: 'File name to read; omit to list files' },
+                max_chars: { type: 'integer', minimum: 1 },
+            },
+        },
+        handlerSource: readAttachedFileHandler.toString(),
+        builtIn: true,
+    },
+];
+
+/** Built-in tools followed by the user's own; a custom tool cannot shadow a built-in name. */
+export const getToolRegistry = (customTools: ToolDefinition[]): ToolDefinition[] => [
+    ...BUILT_IN_TOOLS,
+    ...customTools.filter(tool => !BUILT_IN_TOOLS.some(builtIn => builtIn.name === tool.name)),
+];
+
+export const validateToolDefinition = (tool: ToolDefinition, registry: ToolDefinition[], originalName?: string): ValidationError[] => {
+    const errors: ValidationError[] = [];
+    if (!TOOL_NAME_PATTERN.test(tool.name)) {
+        errors.push({ path: 'name', message: 'must start with a letter or underscore and contain only letters, digits and underscores (max 64)' });
+    } else if (tool.name !== originalName && registry.some(t => t.name === tool.name)) {
+        errors.push({ path: 'name', message: `is already used by another tool` });
+    }
+    if (!tool.description.trim()) errors.push({ path: 'description', message: 'must not be empty' });
+    if (tool.parameters?.type !== 'object') errors.push({ path: 'parameters', message: 'must be a JSON schema with "type": "object"' });
+    try {
+        new Function(`return (${tool.handlerSource});`);
+    } catch (e) {
+        errors.push({ path: 'handlerSource', message: `has a syntax error: ${(e as Error).message}` });
+    }
+    return errors;
+};
+
+export const toFunctionDeclarations = (tools: ToolDefinition[]): FunctionDeclaration[] =>
+    tools.map(tool => ({ name: tool.name, description: tool.description, parametersJsonSchema: tool.parameters }));
+
+/** Collects the files the user attached in a chat so handlers like read_attached_file can see them. */
+export const buildToolContext = async (messages: Message[]): Promise<ToolContext> => {
+    const attachments = messages.filter(m => m.sender === 'You').flatMap(m => m.attachments ?? []).filter(a => a.isStored && a.url);
+    const files = await Promise.all(attachments.map(async (attachment): Promise<ToolContextFile> => {
+        const blob = await (await fetch(attachment.url!)).blob();
+        const isText = attachmentKind(attachment) === 'text';
+        return { name: attachment.name, mimeType: attachment.mimeType, size: attachment.size, ...(isText && { text: await blob.text() }) };
+    }));
+    return { now: new Date().toISOString(), files };
+};
+
+export type ToolCallOutcome =
+    | { ok: true; result: unknown }
+    | { ok: false; error: string };
+
+/** Validates the model's arguments against the tool's schema and runs its handler in the sandbox; only built-ins get the network. */
+export const executeToolCall = async (call: FunctionCall, registry: ToolDefinition[], context: ToolContext): Promise<ToolCallOutcome> => {
+    const tool = registry.find(t => t.name === call.name);
+    if (!tool) return { ok: false, error: `Unknown tool "${call.name}"` };
+    const args = call.args ?? {};
+    const errors = validateJsonSchema(args, tool.parameters, 'args');
+    if (errors.length > 0) return { ok: false, error: `Invalid arguments:\n${formatValidationErrors(errors)}` };
+    return runInSandbox(tool.handlerSource, args, context, BUILT_IN_TOOLS.includes(tool));
+};
@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { Agent, Chat } from "../types";
+import { ChatTranscript, chatFromTranscript, createChatTranscript, groundingChunkLink, parseChatTranscript } from "./transcripts";
+
+const agent = { id: 'agent-1', name: 'Writer', avatar: 'https://example.com/writer.png' } as Agent;
+const PIXEL = 'data:image/png;base64,iVBORw0KGgo=';
+
+const chat: Chat = {
+    id: 'chat-1',
+    title: 'Launch plan',
+    agentId: agent.id,
+    summary: { text: 'They agreed on a date.', summarizedUntilId: 'm2' },
+    messages: [
+        { id: 'm1', sender: 'You', text: 'Draw a rocket' },
+        {
+            id: 'm2', sender: 'Writer', agentId: agent.id, model: 'gemini-2.5-flash-image',
+            attachments: [{ id: 'img-1', name: 'rocket.png', mimeType: 'image/png', size: 8, url: PIXEL, isStored: true, upload: { uri: 'files/1', name: 'files/1' } }],
+            imageGeneration: { prompt: 'a rocket', model: 'gemini-2.5-flash-image', version: 1 },
+            usage: [{ kind: 'image', model: 'gemini-2.5-flash-image', at: '2026-01-01T00:00:00Z', promptTokens: 10, outputTokens: 0, thinkingTokens: 0, cachedTokens: 0, images: 1 }],
+        },
+        { id: 'm3', sender: 'You', text: 'Check the weather' },
+        {
+            id: 'm4', sender: 'Reviewer', agentId: 'agent-2', text: 'Clear skies.', handoffTo: 'Writer',
+            toolSteps: [{ id: 'tool-1', name: 'fetch_local_url', args: { url: 'http://10.0.0.2/' }, status: 'done', result: { status: 200 } }],
+            groundingChunks: [{ web: { uri: 'https://example.com/weather', title: 'Weather' } }],
+            structuredOutput: { errors: [] },
+        },
+        { id: 'm5', sender: 'Writer', agentId: agent.id, text: 'Stopped', isInterrupted: true, error: { category: 'rate-limit', detail: 'Quota exceeded', status: 429 } },
+        { id: 'm6', sender: 'Writer', agentId: agent.id, isThinking: true },
+    ],
+    branches: {
+        m2: { inactive: [[{ id: 'm3-old', sender: 'You', text: 'Check the wind', isVoiceTranscript: true }]], activeIndex: 1 },
+    },
+};
+
+// Imports get fresh ids; numbering ids by first appearance lets two transcripts be compared.
+const normalizeIds = (transcript: ChatTranscript) => {
+    const ids = new Map<string, string>();
+    const idFor = (id: string) => ids.get(id) ?? ids.set(id, `id${ids.size}`).get(id)!;
+    const messages = (list: ChatTranscript['chat']['messages']) => list.map(m => ({ ...m, id: idFor(m.id) }));
+    const active = messages(transcript.chat.messages);
+    const branches = Object.entries(transcript.chat.branches ?? {}).map(([key, point]) => [key ? idFor(key) : key, { ...point, inactive: point.inactive.map(messages) }]);
+    const { exportedAt, ...rest } = transcript;
+    return {
+        ...rest,
+        chat: {
+            ...transcript.chat,
+            messages: active,
+            branches: Object.fromEntries(branches),
+            summary: transcript.chat.summary && { ...transcript.chat.summary, summarizedUntilId: idFor(transcript.chat.summary.summarizedUntilId) },
+        },
+    };
+};
+
+describe('chat transcripts', () => {
+    it('round-trips messages, metadata and branches through export and import', async () => {
+        const exported = await createChatTranscript(chat, agent);
+        const parsed = parseChatTranscript(JSON.stringify(exported));
+        if ('errors' in parsed) throw new Error(JSON.stringify(parsed.errors));
+
+        const imported = chatFromTranscript(parsed.transcript, agent.id);
+        const reexported = await createChatTranscript(imported, agent);
+
+        expect(normalizeIds(reexported)).toEqual(normalizeIds(exported));
+        expect(imported.messages.map(m => m.id)).not.toContain('m2');
+        expect(imported.summary?.summarizedUntilId).toBe(imported.messages[1].id);
+        expect(Object.keys(imported.branches ?? {})).toEqual([imported.messages[1].id]);
+    });
+
+    it('leaves out state that only means something in the exporting browser', async () => {
+        const exported = await createChatTranscript(chat, agent);
+        const reply = exported.chat.messages[1];
+
+        expect(exported.chat.messages).toHaveLength(5);
+        expect(reply.usage).toBeUndefined();
+        expect(reply.attachments![0]).toEqual({ id: 'img-1', name: 'rocket.png', mimeType: 'image/png', size: 8, url: PIXEL });
+    });
+
+    it("attributes the transcript agent's replies to the agent it is imported into, keeping teammates", async () => {
+        const parsed = parseChatTranscript(JSON.stringify(await createChatTranscript(chat, agent)));
+        if ('errors' in parsed) throw new Error(JSON.stringify(parsed.errors));
+
+        const imported = chatFromTranscript(parsed.transcript, 'agent-9');
+
+        expect(imported.messages.map(m => m.agentId)).toEqual([undefined, 'agent-9', undefined, 'agent-2', 'agent-9']);
+    });
+
+    it('rejects source links that are not web URLs', async () => {
+        const exported = await createChatTranscript(chat, agent);
+        exported.chat.messages[3].groundingChunks = [{ web: { uri: 'javascript:alert(1)', title: 'Weather' } }];
+
+        const parsed = parseChatTranscript(JSON.stringify(exported));
+
+        expect('errors' in parsed && parsed.errors.map(e => e.path)).toEqual(['chat.messages[3].groundingChunks[0].web.uri']);
+        expect(groundingChunkLink({ maps: { uri: 'javascript:alert(1)', title: 'Map' } })).toEqual({ uri: undefined, title: 'Map' });
+    });
+});
@@ -0,0 +1,367 @@
+import { Agent, Attachment, BranchPoint, Chat, Message } from "../types";
+import { JsonSchema, ValidationError, validateJsonSchema } from "./jsonSchema";
+import { dataUrlToBlob, extensionForMimeType, toFileName, urlToDataUrl } from "../utils/files";
+import { MARKDOWN_STYLES, escapeHtml, renderMarkdown } from "./markdown";
+import { attachmentKind, formatFileSize, upgradeLegacyMessages } from "./attachments";
+import { pruneBranches } from "./branches";
+
+// --- CHAT TRANSCRIPT EXPORT & IMPORT ---
+// Version 3 adds branches and the reply metadata (authors, tool steps, errors, image lineage).
+export const CHAT_TRANSCRIPT_VERSION = 3;
+const CHAT_FORMAT = 'ai-agent-hub/chat';
+
+export interface ChatTranscript {
+    format: typeof CHAT_FORMAT;
+    version: number;
+    exportedAt: string;
+    agent: { id: string; name: string; avatar: string };
+    chat: { title: string; summary?: Chat['summary']; messages: Message[]; branches?: Record<string, BranchPoint> };
+}
+
+const ATTACHMENT_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['id', 'name', 'mimeType'],
+    properties: {
+        id: { type: 'string', minLength: 1 },
+        name: { type: 'string' },
+        mimeType: { type: 'string' },
+        size: { type: 'integer', minimum: 0 },
+        url: { type: 'string', pattern: '^(data:|https?://)' },
+    },
+};
+
+// Source links are opened from the chat and exported pages, so only web URLs are accepted.
+const SOURCE_LINK_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: { uri: { type: 'string', pattern: '^https?://' }, title: { type: 'string' } },
+};
+
+const MESSAGE_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['id', 'sender'],
+    properties: {
+        id: { type: 'string', minLength: 1 },
+        sender: { type: 'string', minLength: 1 },
+        text: { type: 'string' },
+        image: { type: 'string', pattern: '^(data:|https?://)' }, // Version 1 transcripts
+        attachments: { type: 'array', items: ATTACHMENT_SCHEMA },
+        groundingChunks: { type: 'array', items: { type: 'object', properties: { web: SOURCE_LINK_SCHEMA, maps: SOURCE_LINK_SCHEMA } } },
+        isInterrupted: { type: 'boolean' },
+        isError: { type: 'boolean' },
+        agentId: { type: 'string' },
+        model: { type: 'string' },
+        handoffTo: { type: 'string' },
+        isVoiceTranscript: { type: 'boolean' },
+        imageGeneration: {
+            type: 'object',
+            required: ['prompt', 'model', 'version'],
+            properties: {
+                prompt: { type: 'string' },
+                model: { type: 'string' },
+                aspectRatio: { type: 'string' },
+                negativePrompt: { type: 'string' },
+                seed: { type: 'integer' },
+                parentId: { type: 'string' },
+                version: { type: 'integer', minimum: 1 },
+            },
+        },
+        structuredOutput: {
+            type: 'object',
+            required: ['errors'],
+            properties: { errors: { type: 'array', items: { type: 'string' } } },
+        },
+        toolSteps: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id', 'name', 'args', 'status'],
+                properties: {
+                    id: { type: 'string' },
+                    name: { type: 'string' },
+                    args: { type: 'object' },
+                    status: { enum: ['running', 'done', 'error'] },
+                    result: { description: 'Whatever the handler returned' },
+                    error: { type: 'string' },
+                },
+            },
+        },
+        error: {
+            type: 'object',
+            required: ['category', 'detail'],
+            properties: {
+                category: { enum: ['rate-limit', 'auth', 'network', 'model-not-found', 'server', 'safety', 'empty', 'unknown'] },
+                detail: { type: 'string' },
+                status: { type: 'integer' },
+                finishReason: { type: 'string' },
+                blockReason: { type: 'string' },
+                safetyRatings: { type: 'array', items: { type: 'object' } },
+                imageRequest: { type: 'object' },
+            },
+        },
+    },
+};
+
+export const CHAT_TRANSCRIPT_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['format', 'version', 'agent', 'chat'],
+    properties: {
+        format: { const: CHAT_FORMAT },
+        version: { type: 'integer', minimum: 1, maximum: CHAT_TRANSCRIPT_VERSION },
+        exportedAt: { type: 'string' },
+        agent: {
+            type: 'object',
+            required: ['name'],
+            properties: { id: { type: 'string' }, name: { type: 'string' }, avatar: { type: 'string' } },
+        },
+        chat: {
+            type: 'object',
+            required: ['title', 'messages'],
+            properties: {
+                title: { type: 'string' },
+                summary: {
+                    type: 'object',
+                    required: ['text', 'summarizedUntilId'],
+                    properties: { text: { type: 'string' }, summarizedUntilId: { type: 'string' } },
+                },
+                messages: { type: 'array', items: MESSAGE_SCHEMA },
+                branches: {
+                    type: 'object',
+                    additionalProperties: {
+                        type: 'object',
+                        required: ['inactive', 'activeIndex'],
+                        properties: {
+                            inactive: { type: 'array', items: { type: 'array', items: MESSAGE_SCHEMA } },
+                            activeIndex: { type: 'integer', minimum: 0 },
+                        },
+                    },
+                },
+            },
+        },
+    },
+};
+
+// A transcript holds exactly the fields its schema defines. Usage, placeholder flags, local storage keys and
+// Files API references describe this browser rather than the conversation, so they are neither exported nor
+// imported; usage would otherwise count against budgets twice.
+const pickFields = <T extends object>(value: T, schema: JsonSchema): T =>
+    Object.fromEntries(Object.keys(schema.properties!).filter(key => value[key as keyof T] !== undefined).map(key => [key, value[key as keyof T]])) as T;
+
+const toPortableAttachment = async (attachment: Attachment): Promise<Attachment> => {
+    const portable = pickFields(attachment, ATTACHMENT_SCHEMA);
+    return portable.url ? { ...portable, url: await urlToDataUrl(portable.url) } : portable;
+};
+
+const toPortableMessage = async (message: Message): Promise<Message> => {
+    const portable = pickFields(message, MESSAGE_SCHEMA);
+    return portable.attachments ? { ...portable, attachments: await Promise.all(portable.attachments.map(toPortableAttachment)) } : portable;
+};
+
+const isExportable = (message: Message) => !message.isThinking && !message.isCommandOutput;
+
+const toPortableMessages = (messages: Message[]) => Promise.all(messages.filter(isExportable).map(toPortableMessage));
+
+const toPortableBranches = async (branches: Record<string, BranchPoint>) => Object.fromEntries(await Promise.all(
+    Object.entries(branches).map(async ([key, point]) => [key, { ...point, inactive: await Promise.all(point.inactive.map(toPortableMessages)) }])));
+
+export type ChatExportFormat = 'markdown' | 'markdown-files' | 'json' | 'html';
+
+const exportableMessages = (chat: Chat) => chat.messages.filter(isExportable);
+
+export const createChatTranscript = async (chat: Chat, agent: Agent): Promise<ChatTranscript> => ({
+    format: CHAT_FORMAT,
+    version: CHAT_TRANSCRIPT_VERSION,
+    exportedAt: new Date().toISOString(),
+    agent: { id: agent.id, name: agent.name, avatar: agent.avatar },
+    chat: {
+        title: chat.title,
+        ...(chat.summary && { summary: chat.summary }),
+        messages: await toPortableMessages(chat.messages),
+        ...(chat.branches && { branches: await toPortableBranches(chat.branches) }),
+    },
+});
+
+export type TranscriptParseResult =
+    | { ok: true; transcript: ChatTranscript }
+    | { ok: false; errors: ValidationError[] };
+
+export const parseChatTranscript = (json: string): TranscriptParseResult => {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch (e) {
+        return { ok: false, errors: [{ path: '(root)', message: `is not valid JSON (${(e as Error).message})` }] };
+    }
+    const errors = validateJsonSchema(data, CHAT_TRANSCRIPT_SCHEMA);
+    return errors.length ? { ok: false, errors } : { ok: true, transcript: data as ChatTranscript };
+};
+
+const importAttachment = (attachment: Attachment): Attachment => ({ ...pickFields(attachment, ATTACHMENT_SCHEMA), size: attachment.size ?? 0 });
+
+const importMessage = (message: Message): Message => {
+    const imported = pickFields(message, MESSAGE_SCHEMA);
+    return imported.attachments ? { ...imported, attachments: imported.attachments.map(importAttachment) } : imported;
+};
+
+/**
+ * Builds a new chat from a transcript, keeping every message field and branch it carries. Messages get fresh
+ * ids, so importing the same transcript twice doesn't give two chats the same message ids, and replies by the
+ * transcript's agent are attributed to `agentId`. Version 1 images become attachments.
+ */
+export const chatFromTranscript = (transcript: ChatTranscript, agentId: string): Chat => {
+    const stamp = Date.now();
+    const ids = new Map<string, string>();
+    const importMessages = (messages: Message[]) => {
+        const imported = messages.map(importMessage);
+        return (transcript.version < 2 ? upgradeLegacyMessages(imported) : imported).map(message => {
+            const id = `msg${stamp}-${ids.size}`;
+            ids.set(message.id, id);
+            return { ...message, id: id, ...(message.agentId === transcript.agent.id && { agentId: agentId }) };
+        });
+    };
+    const messages = importMessages(transcript.chat.messages);
+    // Branch keys name the message a fork follows, so they are remapped once every message has its new id.
+    const branches = Object.entries(transcript.chat.branches ?? {})
+        .map(([key, point]) => [key, { ...point, inactive: point.inactive.map(importMessages) }] as const)
+        .map(([key, point]) => [key ? ids.get(key) : key, point] as const)
+        .filter(([key]) => key !== undefined);
+    const summary = transcript.chat.summary;
+    const summarizedUntilId = summary && ids.get(summary.summarizedUntilId);
+    return pruneBranches({
+        id: `chat${stamp}`,
+        title: transcript.chat.title,
+        agentId: agentId,
+        messages: messages,
+        ...(branches.length > 0 && { branches: Object.fromEntries(branches) }),
+        ...(summarizedUntilId && { summary: { text: summary.text, summarizedUntilId: summarizedUntilId } }),
+    });
+};
+
+// --- MARKDOWN ---
+// Knowledge-base citations point into this browser's index, so they are exported as titles only. Anything but
+// a web URL (e.g. javascript:) is dropped too, leaving the title as plain text.
+export const groundingChunkLink = (chunk: any) => {
+    const uri: string | undefined = chunk.web?.uri || chunk.maps?.uri;
+    return {
+        uri: uri && /^https?:\/\//i.test(uri) ? uri : undefined,
+        title: chunk.web?.title || chunk.maps?.title || chunk.retrievedContext?.title || 'Source',
+    };
+};
+
+export interface MarkdownExport {
+    markdown: string;
+    files: { fileName: string; blob: Blob }[]; // Only populated when attachments are exported as separate files
+}
+
+// Inline exports embed images only; other attachments would bloat the Markdown, so they are just named.
+export const createChatMarkdown = async (chat: Chat, agent: Agent, imageMode: 'inline' | 'files'): Promise<MarkdownExport> => {
+    const baseName = toFileName(chat.title);
+    const files: MarkdownExport['files'] = [];
+    const sections: string[] = [`# ${chat.title}`, `_Conversation with ${agent.name}, exported ${new Date().toLocaleString()}_`];
+
+    for (const message of exportableMessages(chat)) {
+        const lines = [`## ${message.sender}`];
+        if (message.text) lines.push(message.text);
+        for (const attachment of message.attachments ?? []) {
+            const isImage = attachmentKind(attachment) === 'image';
+            if (!attachment.url) {
+                lines.push(`_Attached: ${attachment.name} (no longer available)_`);
+            } else if (imageMode === 'inline') {
+                lines.push(isImage ? `![image](${await urlToDataUrl(attachment.url)})` : `_Attached: ${attachment.name} (${formatFileSize(attachment.size)})_`);
+            } else {
+                const blob = await dataUrlToBlob(await urlToDataUrl(attachment.url));
+                const fileName = attachment.isStored
+                    ? `${baseName}-${files.length + 1}-${attachment.name}`
+                    : `${baseName}-${files.length + 1}.${extensionForMimeType(blob.type)}`;
+                files.push({ fileName, blob });
+                lines.push(isImage ? `![image](<${fileName}>)` : `[${attachment.name}](<${fileName}>)`);
+            }
+        }
+        if (message.groundingChunks?.length) {
+            lines.push('**Sources:**', ...message.groundingChunks.map(chunk => {
+                const { uri, title } = groundingChunkLink(chunk);
+                return uri ? `- [${title}](${uri})` : `- ${title}`;
+            }));
+        }
+        if (message.isInterrupted) lines.push('_(response interrupted)_');
+        sections.push(lines.join('\n\n'));
+    }
+    return { markdown: sections.join('\n\n') + '\n', files };
+};
+
+// --- HTML ---
+// Mirrors the ChatPanel layout and palette with plain CSS so the page works offline.
+const HTML_STYLES = `
+body { margin: 0; font-family: Inter, system-ui, sans-serif; background: #111827; color: #E5E7EB; }
+header { border-bottom: 1px solid #374151; padding: 1rem 1.5rem; }
+header h1 { margin: 0; font-size: 1.125rem; }
+header p { margin: .25rem 0 0; font-size: .75rem; color: #9CA3AF; }
+main { max-width: 48rem; margin: 0 auto; padding: 1.5rem; display: flex; flex-direction: column; gap: 2rem; }
+.row { display: flex; align-items: flex-start; gap: 1rem; }
+.row.you { justify-content: flex-end; }
+.avatar { width: 2rem; height: 2rem; border-radius: 9999px; object-fit: cover; }
+.bubble { border-radius: .75rem; padding: .75rem; font-size: .875rem; max-width: 100%; }
+.you .bubble { background: #3B82F6; color: #fff; border-bottom-right-radius: 0; }
+.agent .bubble { background: #1F2937; border-bottom-left-radius: 0; }
+.bubble > p { margin: 0; white-space: pre-wrap; }
+.bubble img.content, .bubble video.content { display: block; margin-top: .5rem; max-width: 24rem; border-radius: .375rem; }
+.bubble audio.content { display: block; margin-top: .5rem; }
+.bubble a.file { display: block; margin-top: .5rem; color: inherit; }
+.sources { margin-top: .5rem; border-top: 1px solid #374151; padding-top: .5rem; font-size: .75rem; }
+.sources h4 { margin: 0 0 .25rem; color: #9CA3AF; }
+.sources ul { margin: 0; padding-left: 1rem; }
+.sources a { color: #3B82F6; text-decoration: none; }
+.note { margin-top: .5rem; font-size: .75rem; color: #9CA3AF; }
+${MARKDOWN_STYLES}`;
+
+const attachmentToHtml = async (attachment: Attachment) => {
+    const src = escapeHtml(await urlToDataUrl(attachment.url!));
+    switch (attachmentKind(attachment)) {
+        case 'image': return `<img class="content" src="${src}" alt="${escapeHtml(attachment.name)}">`;
+        case 'audio': return `<audio class="content" controls src="${src}"></audio>`;
+        case 'video': return `<video class="content" controls src="${src}"></video>`;
+        default: return `<a class="file" href="${src}" download="${escapeHtml(attachment.name)}">Attachment: ${escapeHtml(attachment.name)} (${formatFileSize(attachment.size)})</a>`;
+    }
+};
+
+/** `agents` resolves per-message avatars in team chats; replies from unknown agents fall back to `agent`. */
+export const createChatHtml = async (chat: Chat, agent: Agent, agents: Agent[] = [agent]): Promise<string> => {
+    const rows: string[] = [];
+    for (const message of exportableMessages(chat)) {
+        const isUser = message.sender === 'You';
+        const author = agents.find(a => a.id === message.agentId) ?? agents.find(a => a.name === message.sender) ?? agent;
+        const body: string[] = [];
+        if (message.text) body.push(isUser ? `<p>${escapeHtml(message.text)}</p>` : `<div class="md-content">${renderMarkdown(message.text)}</div>`);
+        for (const attachment of message.attachments ?? []) {
+            if (!attachment.url) continue;
+            body.push(await attachmentToHtml(attachment));
+        }
+        if (message.groundingChunks?.length) {
+            const items = message.groundingChunks.map(chunk => {
+                const { uri, title } = groundingChunkLink(chunk);
+                return uri
+                    ? `<li><a href="${escapeHtml(uri)}" target="_blank" rel="noopener noreferrer">${escapeHtml(title)}</a></li>`
+                    : `<li>${escapeHtml(title)}</li>`;
+            });
+            body.push(`<div class="sources"><h4>Sources:</h4><ul>${items.join('')}</ul></div>`);
+        }
+        if (message.isInterrupted) body.push('<p class="note">Response interrupted</p>');
+        rows.push(
+            `<div class="row ${isUser ? 'you' : 'agent'}">` +
+            (isUser ? '' : `<img class="avatar" src="${escapeHtml(author.avatar)}" alt="${escapeHtml(message.sender)}">`) +
+            `<div class="bubble">${body.join('')}</div></div>`
+        );
+    }
+    return `<!DOCTYPE html>
+<html lang="en"><head>
+<meta charset="utf-8"/>
+<meta content="width=device-width, initial-scale=1.0" name="viewport"/>
+<title>${escapeHtml(chat.title)}</title>
+<style>${HTML_STYLES}</style>
+</head><body>
+<header><h1>${escapeHtml(chat.title)}</h1><p>Conversation with ${escapeHtml(agent.name)} · exported ${escapeHtml(new Date().toLocaleString())}</p></header>
+<main>
+${rows.join('\n')}
+</main>
+</body></html>
+`;
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { Agent, Chat, UsageRecord } from "../types";
+import { UsageEntry, collectUsage, findPrice, getBudgetStatus, recordCost } from "./usage";
+
+const agent = { id: 'agent-1', name: 'Writer', config: { tokenBudget: { daily: 1000, monthly: 5000 } } } as Agent;
+
+const call = (at: Date, tokens: number): UsageRecord =>
+    ({ kind: 'chat', model: 'gemini-2.5-flash', at: at.toISOString(), promptTokens: tokens, outputTokens: 0, thinkingTokens: 0, cachedTokens: 0 });
+const entry = (at: Date, tokens: number, agentId = agent.id): UsageEntry => ({ record: call(at, tokens), chatId: 'chat-1', agentId });
+
+const NOW = new Date(2026, 4, 20, 12, 0);
+
+describe('getBudgetStatus', () => {
+    it('is null for agents without a budget', () => {
+        expect(getBudgetStatus({ ...agent, config: {} } as Agent, [entry(NOW, 10)], NOW)).toBeNull();
+    });
+
+    it("counts only the agent's calls of the current day", () => {
+        const ledger = [entry(NOW, 500), entry(new Date(2026, 4, 19, 23, 59), 900), entry(NOW, 900, 'agent-2')];
+
+        expect(getBudgetStatus(agent, ledger, NOW)).toEqual({ period: 'daily', used: 500, limit: 1000, level: 'ok' });
+    });
+
+    it('warns from 80% and is exceeded at the limit', () => {
+        expect(getBudgetStatus(agent, [entry(NOW, 800)], NOW)?.level).toBe('warning');
+        expect(getBudgetStatus(agent, [entry(NOW, 600), entry(NOW, 400)], NOW)?.level).toBe('exceeded');
+    });
+
+    it('reports the monthly budget when it is the more pressing one', () => {
+        const ledger = [entry(new Date(2026, 4, 2), 4000), entry(new Date(2026, 3, 30), 4000), entry(NOW, 100)];
+
+        expect(getBudgetStatus(agent, ledger, NOW)).toEqual({ period: 'monthly', used: 4100, limit: 5000, level: 'warning' });
+    });
+});
+
+describe('collectUsage', () => {
+    it('seeds the ledger from every branch, attributing calls to the agent that made them', () => {
+        const chat: Chat = {
+            id: 'chat-1', title: 'Plan', agentId: agent.id,
+            messages: [{ id: 'm1', sender: 'You', text: 'Hi' }, { id: 'm2', sender: 'Writer', text: 'Hello', usage: [call(NOW, 10)] }],
+            branches: { m1: { inactive: [[{ id: 'm2-old', sender: 'Reviewer', agentId: 'agent-2', usage: [call(NOW, 20)] }]], activeIndex: 1 } },
+        };
+
+        expect(collectUsage([chat]).map(({ record, chatId, agentId }) => [record.promptTokens, chatId, agentId])).toEqual([[10, 'chat-1', 'agent-1'], [20, 'chat-1', 'agent-2']]);
+    });
+});
+
+describe('recordCost', () => {
+    const prices = [
+        { model: 'gemini-2.5-flash', input: 0.30, output: 2.50, cachedInput: 0.075 },
+        { model: 'gemini-*', input: 1, output: 1 },
+        { model: 'gemini-2.5-*', input: 2, output: 2 },
+        { model: 'imagen-4.0-generate-001', input: 0, output: 0, perImage: 0.04 },
+    ];
+
+    it('prefers an exact match, then the longest prefix', () => {
+        expect(findPrice('gemini-2.5-flash', prices)?.input).toBe(0.30);
+        expect(findPrice('gemini-2.5-pro', prices)?.input).toBe(2);
+        expect(findPrice('gemini-1.5-pro', prices)?.input).toBe(1);
+        expect(findPrice('gpt-4o', prices)).toBeUndefined();
+    });
+
+    it('bills cached input, thinking and images at their own rates', () => {
+        const record: UsageRecord = { ...call(NOW, 1_000_000), cachedTokens: 400_000, outputTokens: 100_000, thinkingTokens: 100_000 };
+
+        expect(recordCost(record, prices)).toBeCloseTo(0.6 * 0.30 + 0.4 * 0.075 + 0.2 * 2.50);
+        expect(recordCost({ ...call(NOW, 0), model: 'imagen-4.0-generate-001', images: 3 }, prices)).toBeCloseTo(0.12);
+        expect(recordCost({ ...call(NOW, 10), model: 'gpt-4o' }, prices)).toBeNull();
+    });
+});
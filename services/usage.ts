@@ -0,0 +1,172 @@
+import { Agent, Chat, Message, UsageKind, UsageRecord } from "../types";
+import { allMessages } from "./branches";
+
+// --- TOKEN USAGE & COST ---
+// Budgets warn from this share of the limit and block sends once it is reached.
+export const BUDGET_WARNING_RATIO = 0.8;
+
+/** USD per million tokens, or per image for models billed that way. */
+export interface ModelPrice {
+    model: string; // Exact model name, or a prefix ending in * (e.g. "gemini-2.5-flash-preview-*")
+    input: number;
+    output: number; // Thinking tokens are billed as output
+    cachedInput?: number; // Defaults to the input price
+    perImage?: number;
+}
+
+// Paid-tier list prices at the time of writing; editable from the usage dashboard.
+export const DEFAULT_PRICES: ModelPrice[] = [
+    { model: 'gemini-2.5-pro', input: 1.25, output: 10, cachedInput: 0.31 },
+    { model: 'gemini-2.5-flash', input: 0.30, output: 2.50, cachedInput: 0.075 },
+    { model: 'gemini-2.5-flash-lite', input: 0.10, output: 0.40, cachedInput: 0.025 },
+    { model: 'gemini-2.5-flash-image*', input: 0.30, output: 30 },
+    { model: 'gemini-2.5-flash-preview-tts', input: 0.50, output: 10 },
+    { model: 'gemini-2.5-flash-native-audio*', input: 3, output: 12 },
+    { model: 'imagen-4.0-generate-001', input: 0, output: 0, perImage: 0.04 },
+    { model: 'gemini-embedding-001', input: 0.15, output: 0 },
+    { model: 'dall-e-3', input: 0, output: 0, perImage: 0.04 },
+];
+
+/** Anything with token counts in Gemini's naming: a response's usageMetadata or a live session's UsageMetadata. */
+export interface UsageCounts {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    responseTokenCount?: number; // Live API name for candidatesTokenCount
+    thoughtsTokenCount?: number;
+    cachedContentTokenCount?: number;
+}
+
+export const toUsageRecord = (kind: UsageKind, model: string, counts: UsageCounts | undefined, images?: number): UsageRecord => ({
+    kind: kind,
+    model: model,
+    at: new Date().toISOString(),
+    promptTokens: counts?.promptTokenCount ?? 0,
+    outputTokens: counts?.candidatesTokenCount ?? counts?.responseTokenCount ?? 0,
+    thinkingTokens: counts?.thoughtsTokenCount ?? 0,
+    cachedTokens: counts?.cachedContentTokenCount ?? 0,
+    ...(images !== undefined && { images }),
+});
+
+/** Adds live-session counts that arrive in several messages into one. */
+export const addUsageCounts = (total: UsageCounts | undefined, counts: UsageCounts): UsageCounts => ({
+    promptTokenCount: (total?.promptTokenCount ?? 0) + (counts.promptTokenCount ?? 0),
+    responseTokenCount: (total?.responseTokenCount ?? 0) + (counts.responseTokenCount ?? counts.candidatesTokenCount ?? 0),
+    thoughtsTokenCount: (total?.thoughtsTokenCount ?? 0) + (counts.thoughtsTokenCount ?? 0),
+    cachedContentTokenCount: (total?.cachedContentTokenCount ?? 0) + (counts.cachedContentTokenCount ?? 0),
+});
+
+export const withUsage = (message: Message, record: UsageRecord): Message => ({ ...message, usage: [...(message.usage ?? []), record] });
+
+export const totalTokens = (record: UsageRecord) => record.promptTokens + record.outputTokens + record.thinkingTokens;
+
+/** An exact match wins over the longest matching prefix. */
+export const findPrice = (model: string, prices: ModelPrice[]) =>
+    prices.find(price => price.model === model) ??
+    prices
+        .filter(price => price.model.endsWith('*') && model.startsWith(price.model.slice(0, -1)))
+        .sort((a, b) => b.model.length - a.model.length)[0];
+
+/** USD for one call, or null when the model has no price. */
+export const recordCost = (record: UsageRecord, prices: ModelPrice[]): number | null => {
+    const price = findPrice(record.model, prices);
+    if (!price) return null;
+    const uncached = record.promptTokens - record.cachedTokens;
+    const tokenCost = (uncached * price.input + record.cachedTokens * (price.cachedInput ?? price.input) + (record.outputTokens + record.thinkingTokens) * price.output) / 1e6;
+    return tokenCost + (record.images ?? 0) * (price.perImage ?? 0);
+};
+
+/**
+ * One call in the usage ledger. The ledger is only ever appended to, so clearing, deleting or regenerating
+ * messages doesn't give an agent its budget back; the records on messages are only for display.
+ */
+export interface UsageEntry {
+    record: UsageRecord;
+    chatId: string;
+    agentId: string;
+}
+
+// Seeds the ledger from data saved before it existed. Replies on inactive branches were paid for too, so every branch counts.
+export const collectUsage = (chats: Chat[]): UsageEntry[] =>
+    chats.flatMap(chat => allMessages(chat).flatMap(m => (m.usage ?? []).map(record => ({ record, chatId: chat.id, agentId: m.agentId ?? chat.agentId }))));
+
+export interface UsageTotals {
+    calls: number;
+    promptTokens: number;
+    outputTokens: number;
+    thinkingTokens: number;
+    cachedTokens: number;
+    images: number;
+    cost: number;
+    unpricedCalls: number; // Calls to models missing from the price table; not included in cost
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, promptTokens: 0, outputTokens: 0, thinkingTokens: 0, cachedTokens: 0, images: 0, cost: 0, unpricedCalls: 0 });
+
+export const sumUsage = (entries: UsageEntry[], prices: ModelPrice[]): UsageTotals =>
+    entries.reduce((totals, { record }) => {
+        const cost = recordCost(record, prices);
+        totals.calls++;
+        totals.promptTokens += record.promptTokens;
+        totals.outputTokens += record.outputTokens;
+        totals.thinkingTokens += record.thinkingTokens;
+        totals.cachedTokens += record.cachedTokens;
+        totals.images += record.images ?? 0;
+        if (cost === null) totals.unpricedCalls++;
+        else totals.cost += cost;
+        return totals;
+    }, emptyTotals());
+
+/** Local calendar day, YYYY-MM-DD. */
+export const dayKey = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const monthKey = (date: Date) => dayKey(date).slice(0, 7);
+
+/** Totals per group key, in the order the groups first appear. */
+export const groupUsage = (entries: UsageEntry[], keyOf: (entry: UsageEntry) => string, prices: ModelPrice[]) => {
+    const groups = new Map<string, UsageEntry[]>();
+    for (const entry of entries) {
+        const key = keyOf(entry);
+        groups.set(key, [...(groups.get(key) ?? []), entry]);
+    }
+    return [...groups].map(([key, group]) => ({ key, totals: sumUsage(group, prices) }));
+};
+
+export interface BudgetStatus {
+    period: 'daily' | 'monthly';
+    used: number;
+    limit: number;
+    level: 'ok' | 'warning' | 'exceeded';
+}
+
+/** The agent's most pressing budget: exceeded beats warning, daily beats monthly at the same level. */
+export const getBudgetStatus = (agent: Agent, ledger: UsageEntry[], now = new Date()): BudgetStatus | null => {
+    const budget = agent.config.tokenBudget;
+    if (!budget?.daily && !budget?.monthly) return null;
+    const entries = ledger.filter(entry => entry.agentId === agent.id);
+    const usedWhere = (matches: (date: Date) => boolean) =>
+        entries.filter(({ record }) => matches(new Date(record.at))).reduce((sum, { record }) => sum + totalTokens(record), 0);
+    const statuses: BudgetStatus[] = [];
+    if (budget.daily) statuses.push({ period: 'daily', used: usedWhere(date => dayKey(date) === dayKey(now)), limit: budget.daily, level: 'ok' });
+    if (budget.monthly) statuses.push({ period: 'monthly', used: usedWhere(date => monthKey(date) === monthKey(now)), limit: budget.monthly, level: 'ok' });
+    const levels = ['ok', 'warning', 'exceeded'] as const;
+    return statuses
+        .map(status => ({ ...status, level: status.used >= status.limit ? 'exceeded' : status.used >= status.limit * BUDGET_WARNING_RATIO ? 'warning' : 'ok' } as BudgetStatus))
+        .sort((a, b) => levels.indexOf(b.level) - levels.indexOf(a.level))[0];
+};
+
+export const formatTokens = (tokens: number) =>
+    tokens >= 1e6 ? `${Math.round(tokens / 1e5) / 10}M` : tokens >= 1e3 ? `${Math.round(tokens / 100) / 10}K` : String(tokens);
+
+export const formatCost = (usd: number) => usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+/** One line per call, e.g. "chat · gemini-2.5-flash: 1.2K in, 350 out, 80 thinking". */
+export const describeMessageUsage = (records: UsageRecord[]) => records.map(record =>
+    `${record.kind} · ${record.model}: ${formatTokens(record.promptTokens)} in, ${formatTokens(record.outputTokens)} out` +
+    (record.thinkingTokens ? `, ${formatTokens(record.thinkingTokens)} thinking` : '') +
+    (record.cachedTokens ? `, ${formatTokens(record.cachedTokens)} cached` : '') +
+    (record.images ? `, ${record.images} image(s)` : '')
+).join('\n');
+
+export const describeBudget = (agent: Agent, status: BudgetStatus) =>
+    `${agent.name} has used ${formatTokens(status.used)} of its ${status.period} budget of ${formatTokens(status.limit)} tokens.`;
@@ -0,0 +1,229 @@
+import { ProviderConfig, UploadedFile } from "./services/providers/types";
+import { ALL_CAPABILITIES } from "./constants";
+import { ImageStudioRequest } from "./services/images";
+import { JsonSchema } from "./services/jsonSchema";
+
+export type BuiltInTool = (typeof ALL_CAPABILITIES)[keyof typeof ALL_CAPABILITIES];
+
+// --- TYPES AND INTERFACES ---
+export type AgentStatus = 'Online' | 'Busy' | 'Offline'; // Derived from running tasks and provider health, never stored
+export interface Agent {
+    id: string;
+    name: string;
+    avatar: string;
+    capabilities: string[];
+    config: {
+        systemInstruction: string;
+        model: string;
+        tools?: BuiltInTool[];
+        functionTools?: string[]; // Names of registry tools the agent may call
+        modelConfig?: ModelConfig;
+        responseSchema?: JsonSchema; // Replies are JSON matching this schema
+        contextTokenBudget?: number; // Max estimated tokens of history sent per request
+        provider?: ProviderConfig; // Defaults to Gemini
+        commands?: AgentCommand[]; // Slash commands that expand into prompts
+        templates?: PromptTemplate[]; // Prompt templates offered only for this agent
+        voiceName?: string; // Voice for live conversations and read-aloud; defaults to DEFAULT_VOICE (Gemini) or alloy
+        speechStyle?: string; // Read-aloud delivery instructions, e.g. "Say calmly and warmly"
+        tokenBudget?: TokenBudget; // Sends are blocked once the agent's replies have used this many tokens
+    };
+}
+/** Generation settings, named as in Gemini's GenerateContentConfig; OpenAI-compatible providers map what they can. */
+export interface ModelConfig {
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    maxOutputTokens?: number;
+    stopSequences?: string[];
+    seed?: number;
+    thinkingConfig?: { thinkingBudget?: number }; // -1 lets the model decide, 0 turns thinking off where allowed
+    safetySettings?: SafetySetting[]; // Categories left out use the model's default threshold
+}
+export interface SafetySetting {
+    category: string; // e.g. HARM_CATEGORY_HARASSMENT
+    threshold: string; // e.g. BLOCK_ONLY_HIGH
+}
+export interface TokenBudget {
+    daily?: number; // Tokens per calendar day (local time)
+    monthly?: number; // Tokens per calendar month
+}
+export interface AgentCommand {
+    name: string; // Invoked as /name
+    description: string;
+    template: string; // Prompt sent to the agent; {{input}} is replaced by the text typed after the command
+}
+export type TemplateVariableType = 'text' | 'multiline' | 'number' | 'choice';
+export interface TemplateVariable {
+    name: string; // Written as {{name}} in the template text
+    type: TemplateVariableType;
+    label?: string; // Shown in the fill-in form instead of the name
+    default?: string;
+    options?: string[]; // Choices for 'choice' variables
+    optional?: boolean; // May be left empty
+}
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    description?: string;
+    text: string; // Prompt with {{variable}} placeholders
+    variables: TemplateVariable[]; // One per placeholder, in order of appearance
+    model?: string; // Sends with this model instead of the agent's
+    attachments?: Attachment[]; // Kept as data URLs; attached to the composer when the template is used
+}
+export type MissedRunPolicy = 'catch-up' | 'skip';
+export type JobRunStatus = 'running' | 'succeeded' | 'failed' | 'skipped';
+export interface JobRun {
+    id: string;
+    scheduledFor: number; // The schedule time it ran for, or when it was started by hand
+    startedAt: number;
+    endedAt?: number;
+    status: JobRunStatus;
+    error?: string;
+    missedRuns?: number; // Earlier scheduled times, missed while the app was closed, that this run stands in for
+    manual?: boolean; // Started with "Run now"
+    messageId?: string; // The reply in the job's chat
+}
+export interface ScheduledJob {
+    id: string;
+    name: string;
+    agentId: string;
+    prompt?: string; // Sent as is when no template is set
+    templateId?: string; // A template of the agent's or a global one
+    templateValues?: Record<string, string>;
+    schedule: string; // Cron expression in local time, e.g. "0 8 * * 1-5"
+    missedRunPolicy: MissedRunPolicy; // 'catch-up' runs once for the times missed while the app was closed
+    notify?: boolean; // Show a browser notification when a run ends
+    enabled: boolean;
+    chatId?: string; // The job's own chat, created by its first run
+    createdAt: number;
+    lastScheduledAt?: number; // Latest schedule time handled, run or skipped; runs start after it
+    runs: JobRun[]; // Newest first
+}
+export interface Message {
+    id: string;
+    sender: 'You' | string; // Agent name, 'You', or 'System' for command output
+    agentId?: string; // Agent that wrote the reply; older messages only have the sender name
+    text?: string;
+    attachments?: Attachment[]; // Files the user attached, or images the model generated
+    groundingChunks?: any[];
+    isThinking?: boolean;
+    isStreaming?: boolean; // Reply is still receiving chunks
+    isInterrupted?: boolean; // Reply was stopped or failed mid-stream; text is partial
+    isError?: boolean; // Error placeholders are never sent back to the model
+    isCommandOutput?: boolean; // Local feedback from a slash command; never sent to the model
+    toolSteps?: ToolStep[];
+    handoffTo?: string; // Team chats: name of the agent this reply handed the conversation to
+    isVoiceTranscript?: boolean; // Transcribed from a live voice conversation
+    imageGeneration?: ImageGeneration; // Set on generated or edited images
+    error?: MessageError; // Why the reply failed or was cut short; shown with a Retry button
+    usage?: UsageRecord[]; // One entry per API call that produced or read out this message
+    model?: string; // Set when the reply was regenerated with a model other than its agent's
+    structuredOutput?: { errors: string[] }; // Set on replies to an agent with a response schema; errors is empty when the JSON matched
+}
+export type UsageKind = 'chat' | 'image' | 'speech' | 'live';
+export interface UsageRecord {
+    kind: UsageKind;
+    model: string;
+    at: string; // ISO timestamp of the call
+    promptTokens: number; // Includes cachedTokens
+    outputTokens: number;
+    thinkingTokens: number;
+    cachedTokens: number;
+    images?: number; // Images generated, for models priced per image
+}
+export type ErrorCategory = 'rate-limit' | 'auth' | 'network' | 'model-not-found' | 'server' | 'safety' | 'empty' | 'unknown';
+export interface SafetyRating {
+    category: string; // e.g. HARM_CATEGORY_HARASSMENT
+    probability: string; // NEGLIGIBLE, LOW, MEDIUM or HIGH
+    blocked?: boolean;
+}
+export interface MessageError {
+    category: ErrorCategory;
+    detail: string; // What the provider reported
+    status?: number; // HTTP status
+    finishReason?: string;
+    blockReason?: string; // Set when the prompt itself was blocked
+    safetyRatings?: SafetyRating[];
+    imageRequest?: ImageStudioRequest; // Failed image generations retry with the same request
+}
+export interface Attachment {
+    id: string; // Also the key of the file's blob in the attachment store when isStored is set
+    name: string;
+    mimeType: string;
+    size: number; // Bytes
+    url?: string; // Object URL or data URL; stored attachments are saved without it and rehydrated on load
+    isStored?: boolean; // User uploads live in the attachment store; generated images keep a data URL
+    upload?: UploadedFile; // Files API reference for files past the inline limit, reused across turns until it expires
+}
+export interface ImageGeneration {
+    prompt: string;
+    model: string;
+    aspectRatio?: string;
+    negativePrompt?: string;
+    seed?: number;
+    parentId?: string; // Edits: id of the attachment this image was made from
+    version: number; // 1 for a fresh generation, parent's version + 1 for an edit
+}
+export interface ToolStep {
+    id: string;
+    name: string;
+    args: Record<string, unknown>;
+    status: 'running' | 'done' | 'error';
+    result?: unknown;
+    error?: string;
+}
+export interface ChatSummary {
+    text: string;
+    summarizedUntilId: string; // Id of the last message folded into the summary
+}
+export interface Chat {
+    id: string;
+    title: string;
+    agentId: string;
+    messages: Message[];
+    summary?: ChatSummary;
+    needsTitle?: boolean; // Title is still the default and should be generated from the first exchange
+    archived?: boolean; // Kept after its agent was deleted; hidden from the chat list
+    archivedAgentName?: string;
+    team?: TeamConfig; // Set for team chats; agentId is then the team's lead (coordinator or first member)
+    branches?: Record<string, BranchPoint>; // Forks in the message tree, keyed by the id of the message they follow ('' before the first)
+    jobId?: string; // Set for the chat a scheduled job posts into
+}
+/**
+ * Where an edited prompt or a regenerated reply split the conversation. `messages` holds the active path;
+ * each other continuation from this point (the sibling message and everything after it) is kept here.
+ */
+export interface BranchPoint {
+    inactive: Message[][]; // In sibling order, without the active continuation
+    activeIndex: number; // Position of the active continuation among all siblings
+}
+export type TeamStrategy = 'pipeline' | 'coordinator';
+export interface TeamConfig {
+    agentIds: string[]; // Members, in pipeline order
+    strategy: TeamStrategy;
+    coordinatorId?: string; // Agent that picks the next speaker; defaults to the first member
+    maxTurns: number; // Agent replies allowed per user message
+}
+export type KnowledgeSourceStatus = 'indexing' | 'ready' | 'error';
+export interface KnowledgeSource {
+    id: string; // Also the key of the file and its chunks in the knowledge stores
+    agentId: string;
+    name: string;
+    mimeType: string;
+    size: number; // Bytes
+    addedAt: string; // ISO timestamp
+    status: KnowledgeSourceStatus;
+    chunkCount?: number;
+    embeddingKey?: string; // Provider and model the chunks were embedded with; other agents' embeddings don't compare
+    indexedAt?: string;
+    error?: string;
+}
+export interface KnowledgeChunk {
+    id: string;
+    sourceId: string;
+    index: number; // Position in the source, from 0
+    text: string;
+    start: number; // Character range in the source's extracted text
+    end: number;
+    embedding: Float32Array;
+}
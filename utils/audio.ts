@@ -0,0 +1,81 @@
+// --- AUDIO HELPERS ---
+// The Live API and speech models exchange raw 16-bit little-endian PCM as base64.
+export const encode = (bytes: Uint8Array) => {
+    let binary = '';
+    const len = bytes.byteLength;
+    for (let i = 0; i < len; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+export const decode = (base64: string) => {
+    const binaryString = atob(base64);
+    const len = binaryString.length;
+    const bytes = new Uint8Array(len);
+    for (let i = 0; i < len; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+}
+
+export async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): Promise<AudioBuffer> {
+    const dataInt16 = new Int16Array(data.buffer);
+    const frameCount = dataInt16.length / numChannels;
+    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+    for (let channel = 0; channel < numChannels; channel++) {
+        const channelData = buffer.getChannelData(channel);
+        for (let i = 0; i < frameCount; i++) {
+            channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+        }
+    }
+    return buffer;
+}
+
+/** Converts Web Audio float samples (-1..1) to base64 16-bit PCM. */
+export const floatToPcmBase64 = (samples: Float32Array) => {
+    const pcm = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+        const sample = Math.max(-1, Math.min(1, samples[i]));
+        pcm[i] = sample < 0 ? sample * 32768 : sample * 32767;
+    }
+    return encode(new Uint8Array(pcm.buffer));
+};
+
+export const createAudioContext = (sampleRate?: number): AudioContext =>
+    new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate });
+
+/** Encodes decoded audio as a 16-bit PCM WAV file. */
+export const audioBufferToWav = (buffer: AudioBuffer): Blob => {
+    const { numberOfChannels, sampleRate, length } = buffer;
+    const dataSize = length * numberOfChannels * 2;
+    const view = new DataView(new ArrayBuffer(44 + dataSize));
+    const writeString = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+    };
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true); // fmt chunk size
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, numberOfChannels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * numberOfChannels * 2, true); // byte rate
+    view.setUint16(32, numberOfChannels * 2, true); // block align
+    view.setUint16(34, 16, true); // bits per sample
+    writeString(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    const channels = Array.from({ length: numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+    let offset = 44;
+    for (let i = 0; i < length; i++) {
+        for (const channelData of channels) {
+            const sample = Math.max(-1, Math.min(1, channelData[i]));
+            view.setInt16(offset, sample < 0 ? sample * 32768 : sample * 32767, true);
+            offset += 2;
+        }
+    }
+    return new Blob([view.buffer], { type: 'audio/wav' });
+};
@@ -0,0 +1,27 @@
+// --- FILE HELPERS ---
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const toFileName = (name: string) =>
+    name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'untitled';
+
+export const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.readAsDataURL(blob);
+});
+
+// Resolves blob: and data: URLs alike, so session-only object URLs can be embedded in exports.
+export const urlToDataUrl = async (url: string) =>
+    url.startsWith('data:') ? url : blobToDataUrl(await (await fetch(url)).blob());
+
+export const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+export const extensionForMimeType = (mimeType: string) =>
+    ({ 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif', 'image/svg+xml': 'svg' } as Record<string, string>)[mimeType] ?? 'bin';
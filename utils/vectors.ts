@@ -0,0 +1,10 @@
+// --- VECTOR HELPERS ---
+export const cosineSimilarity = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
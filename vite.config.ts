@@ -8,12 +8,15 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Gemini calls go to the proxy in server/ (npm run server), which holds the API key.
+        proxy: {
+          '/api': {
+            target: `http://localhost:${env.PROXY_PORT || 8787}`,
+            ws: true,
+          },
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),